@@ -0,0 +1,265 @@
+// app/admin/challenges/page.tsx
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useAuth } from "@/context/AuthContext";
+import { useUserProfile } from "@/lib/hooks/useUserProfile";
+import { listChallengesByStatus } from "@/lib/db/challenges";
+import { getTestById } from "@/lib/db/tests";
+import { getQuestionById } from "@/lib/db/questions";
+import { decideChallenges } from "@/lib/api/challenges";
+import type { Challenge, ChallengeDecision, ChallengeStatus } from "@/lib/types/challenge";
+import type { Question } from "@/lib/types/question";
+import MathContent from "@/components/MathContent";
+import ChallengeDecisionForm from "@/components/admin/ChallengeDecisionForm";
+
+/**
+ * Challenges of one question in one test
+ */
+interface ChallengeGroup {
+  key: string;
+  testId: string;
+  questionId: string;
+  challenges: Challenge[];
+}
+
+const STATUS_TABS: { value: ChallengeStatus; label: string }[] = [
+  { value: "pending", label: "Pending" },
+  { value: "accepted", label: "Accepted" },
+  { value: "rejected", label: "Rejected" },
+];
+
+const RESOLUTION_LABELS = {
+  change_key: "Key changed",
+  bonus: "Bonus",
+  drop: "Dropped",
+};
+
+export default function AdminChallengesPage() {
+  const router = useRouter();
+  const { user, loading: authLoading } = useAuth();
+  const { role, loading: profileLoading } = useUserProfile();
+
+  const [status, setStatus] = useState<ChallengeStatus>("pending");
+  const [challenges, setChallenges] = useState<Challenge[]>([]);
+  const [testTitles, setTestTitles] = useState<Map<string, string>>(new Map());
+  const [questions, setQuestions] = useState<Map<string, Question>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const fetchChallenges = useCallback(async () => {
+    console.log("[AdminChallengesPage] Fetching challenges:", status);
+    setLoading(true);
+    setError(null);
+
+    try {
+      const data = await listChallengesByStatus(status);
+      const testIds = Array.from(new Set(data.map((c) => c.testId)));
+      const questionIds = Array.from(new Set(data.map((c) => c.questionId)));
+      const [tests, questionDocs] = await Promise.all([
+        Promise.all(testIds.map((id) => getTestById(id))),
+        Promise.all(questionIds.map((id) => getQuestionById(id))),
+      ]);
+
+      const titles = new Map<string, string>();
+      tests.forEach((test) => {
+        if (test) titles.set(test.id, test.title);
+      });
+      const questionsMap = new Map<string, Question>();
+      questionDocs.forEach((question) => {
+        if (question) questionsMap.set(question.id, question);
+      });
+
+      setChallenges(data);
+      setTestTitles(titles);
+      setQuestions(questionsMap);
+    } catch (err) {
+      console.error("[AdminChallengesPage] Error fetching challenges:", err);
+      setError("Failed to load challenges. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    if (authLoading || profileLoading) return;
+
+    if (!user) {
+      router.replace("/login");
+      return;
+    }
+
+    if (role !== "admin") {
+      router.replace("/dashboard");
+      return;
+    }
+
+    fetchChallenges();
+  }, [authLoading, profileLoading, user, role, router, fetchChallenges]);
+
+  // Admins decide per question, so challenges are grouped by test and question
+  const groups = useMemo(() => {
+    const byKey = new Map<string, ChallengeGroup>();
+    challenges.forEach((challenge) => {
+      const key = `${challenge.testId}/${challenge.questionId}`;
+      const group = byKey.get(key) ?? {
+        key,
+        testId: challenge.testId,
+        questionId: challenge.questionId,
+        challenges: [],
+      };
+      group.challenges.push(challenge);
+      byKey.set(key, group);
+    });
+    return Array.from(byKey.values()).sort((a, b) => b.challenges.length - a.challenges.length);
+  }, [challenges]);
+
+  const handleDecide = async (testId: string, decision: ChallengeDecision) => {
+    const outcome = await decideChallenges(testId, decision);
+    setMessage(
+      `${outcome.resolvedCount} challenge${outcome.resolvedCount !== 1 ? "s" : ""} ${decision.status}` +
+        (outcome.rescoredTestIds.length > 0
+          ? ` - re-scored ${outcome.rescoredTestIds.length} test${outcome.rescoredTestIds.length !== 1 ? "s" : ""}.`
+          : ".")
+    );
+    await fetchChallenges();
+  };
+
+  if (authLoading || profileLoading) {
+    return (
+      <div className="p-8 bg-gray-50 min-h-screen flex items-center justify-center">
+        <p className="text-gray-600">Checking admin access...</p>
+      </div>
+    );
+  }
+
+  if (!user || role !== "admin") {
+    return (
+      <div className="p-8 bg-gray-50 min-h-screen flex items-center justify-center">
+        <p className="text-gray-600">Redirecting...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="pt-16 md:pt-8 p-4 md:p-8 bg-gray-50 min-h-screen">
+      <div className="mb-6">
+        <h1 className="text-2xl font-semibold text-gray-900 mb-1">Answer-Key Challenges</h1>
+        <p className="text-sm text-gray-600">
+          Review challenges raised by students. Accepting one re-scores and re-ranks the test.
+        </p>
+      </div>
+
+      <div className="flex gap-2 mb-4">
+        {STATUS_TABS.map((tab) => (
+          <button
+            key={tab.value}
+            onClick={() => {
+              setStatus(tab.value);
+              setMessage(null);
+            }}
+            className={`px-4 py-2 rounded text-sm border transition-colors ${
+              status === tab.value
+                ? "bg-black border-black text-white"
+                : "bg-white border-gray-300 text-gray-700 hover:bg-gray-50"
+            }`}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {message && (
+        <div className="mb-4 text-sm text-green-700 bg-green-50 border border-green-200 rounded p-2">
+          {message}
+        </div>
+      )}
+      {error && (
+        <div className="mb-4 text-sm text-red-600 bg-red-50 border border-red-200 rounded p-2">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-gray-600">Loading challenges...</p>
+      ) : groups.length === 0 ? (
+        <div className="bg-white border border-dashed border-gray-300 rounded-lg p-6 text-center">
+          <p className="text-sm text-gray-600">No {status} challenges.</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {groups.map((group) => {
+            const question = questions.get(group.questionId);
+            return (
+              <div
+                key={group.key}
+                className="bg-white border border-gray-200 rounded-lg p-6 shadow-sm space-y-4"
+              >
+                <div className="flex flex-wrap items-start justify-between gap-2">
+                  <div>
+                    <p className="text-xs text-gray-500">
+                      {testTitles.get(group.testId) ?? "Deleted test"}
+                    </p>
+                    <p className="text-sm font-medium text-gray-900">
+                      {question
+                        ? `${question.customId ? `${question.customId} · ` : ""}${question.subject} / ${question.topic}`
+                        : "Question missing from the bank"}
+                    </p>
+                  </div>
+                  <span className="text-xs px-2 py-0.5 rounded-full bg-yellow-50 text-yellow-800 font-medium">
+                    {group.challenges.length} challenge{group.challenges.length !== 1 ? "s" : ""}
+                  </span>
+                </div>
+
+                {question && (
+                  <div className="space-y-2">
+                    <MathContent html={question.text} className="text-sm text-gray-900 prose max-w-none" />
+                    {question.options && (
+                      <ul className="space-y-1">
+                        {question.options.map((option, index) => (
+                          <li
+                            key={index}
+                            className={`flex gap-2 text-sm rounded px-2 py-1 ${
+                              question.correctOptions?.includes(index)
+                                ? "bg-green-50 text-green-900"
+                                : "text-gray-800"
+                            }`}
+                          >
+                            <span className="font-medium">{String.fromCharCode(65 + index)}.</span>
+                            <MathContent html={option} className="prose prose-sm max-w-none" />
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+
+                <ul className="space-y-2">
+                  {group.challenges.map((challenge) => (
+                    <li key={challenge.id} className="text-sm bg-gray-50 border border-gray-200 rounded p-3">
+                      <p className="text-gray-900 whitespace-pre-wrap">{challenge.reason}</p>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {challenge.createdAt?.toDate().toLocaleString("en-IN")}
+                        {challenge.resolution && ` · ${RESOLUTION_LABELS[challenge.resolution]}`}
+                        {challenge.adminNote && ` · Note: ${challenge.adminNote}`}
+                      </p>
+                    </li>
+                  ))}
+                </ul>
+
+                {status === "pending" && question && (
+                  <ChallengeDecisionForm
+                    question={question}
+                    onDecide={(decision) => handleDecide(group.testId, decision)}
+                  />
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
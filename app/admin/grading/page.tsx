@@ -0,0 +1,255 @@
+// app/admin/grading/page.tsx
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useAuth } from "@/context/AuthContext";
+import { useUserProfile } from "@/lib/hooks/useUserProfile";
+import { listAttemptsAwaitingGrading } from "@/lib/db/attempts";
+import { getTestById } from "@/lib/db/tests";
+import { getQuestionById } from "@/lib/db/questions";
+import { gradeSubjectiveAnswer } from "@/lib/api/grading";
+import type { Attempt } from "@/lib/types/attempt";
+import type { Question } from "@/lib/types/question";
+import type { Test, TestQuestion } from "@/lib/types/test";
+import MathContent from "@/components/MathContent";
+import GradingForm from "@/components/admin/GradingForm";
+import { isAnswerImageUrl } from "@/lib/utils/subjective";
+
+const STORAGE_BUCKET = process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET ?? "";
+
+/**
+ * One subjective answer waiting for a grader
+ */
+interface GradingItem {
+  key: string;
+  attempt: Attempt;
+  testQuestion: TestQuestion;
+}
+
+export default function AdminGradingPage() {
+  const router = useRouter();
+  const { user, loading: authLoading } = useAuth();
+  const { role, loading: profileLoading } = useUserProfile();
+
+  const [attempts, setAttempts] = useState<Attempt[]>([]);
+  const [tests, setTests] = useState<Map<string, Test>>(new Map());
+  const [questions, setQuestions] = useState<Map<string, Question>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const fetchQueue = useCallback(async () => {
+    console.log("[AdminGradingPage] Fetching grading queue");
+    setLoading(true);
+    setError(null);
+
+    try {
+      const data = await listAttemptsAwaitingGrading();
+      const testIds = Array.from(new Set(data.map((attempt) => attempt.testId)));
+      const questionIds = Array.from(
+        new Set(
+          data.flatMap((attempt) =>
+            Object.entries(attempt.result?.questionResults ?? {})
+              .filter(([, result]) => result.pendingGrading)
+              .map(([questionId]) => questionId)
+          )
+        )
+      );
+      const [testDocs, questionDocs] = await Promise.all([
+        Promise.all(testIds.map((id) => getTestById(id))),
+        Promise.all(questionIds.map((id) => getQuestionById(id))),
+      ]);
+
+      const testsMap = new Map<string, Test>();
+      testDocs.forEach((test) => {
+        if (test) testsMap.set(test.id, test);
+      });
+      const questionsMap = new Map<string, Question>();
+      questionDocs.forEach((question) => {
+        if (question) questionsMap.set(question.id, question);
+      });
+
+      setAttempts(data);
+      setTests(testsMap);
+      setQuestions(questionsMap);
+    } catch (err) {
+      console.error("[AdminGradingPage] Error fetching grading queue:", err);
+      setError("Failed to load the grading queue. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (authLoading || profileLoading) return;
+
+    if (!user) {
+      router.replace("/login");
+      return;
+    }
+
+    if (role !== "admin") {
+      router.replace("/dashboard");
+      return;
+    }
+
+    fetchQueue();
+  }, [authLoading, profileLoading, user, role, router, fetchQueue]);
+
+  // Answers are graded one at a time, in paper order within each attempt
+  const items = useMemo(() => {
+    const queue: GradingItem[] = [];
+    attempts.forEach((attempt) => {
+      const test = tests.get(attempt.testId);
+      test?.questions.forEach((testQuestion) => {
+        if (attempt.result?.questionResults[testQuestion.questionId]?.pendingGrading) {
+          queue.push({ key: `${attempt.id}/${testQuestion.questionId}`, attempt, testQuestion });
+        }
+      });
+    });
+    return queue;
+  }, [attempts, tests]);
+
+  const handleGrade = async (
+    item: GradingItem,
+    criterionMarks: number[],
+    comment: string | null
+  ) => {
+    const outcome = await gradeSubjectiveAnswer(item.attempt.id, {
+      questionId: item.testQuestion.questionId,
+      criterionMarks,
+      comment,
+    });
+    setMessage(
+      `Grade saved - the attempt now scores ${outcome.result.totalScore} / ${outcome.result.maxScore}` +
+        (outcome.pendingGradingCount > 0
+          ? ` with ${outcome.pendingGradingCount} answer${outcome.pendingGradingCount !== 1 ? "s" : ""} left to grade.`
+          : " and is fully graded.")
+    );
+    await fetchQueue();
+  };
+
+  if (authLoading || profileLoading) {
+    return (
+      <div className="p-8 bg-gray-50 min-h-screen flex items-center justify-center">
+        <p className="text-gray-600">Checking admin access...</p>
+      </div>
+    );
+  }
+
+  if (!user || role !== "admin") {
+    return (
+      <div className="p-8 bg-gray-50 min-h-screen flex items-center justify-center">
+        <p className="text-gray-600">Redirecting...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="pt-16 md:pt-8 p-4 md:p-8 bg-gray-50 min-h-screen">
+      <div className="mb-6">
+        <h1 className="text-2xl font-semibold text-gray-900 mb-1">Grading Queue</h1>
+        <p className="text-sm text-gray-600">
+          Written answers waiting for marks, oldest submission first. Saving a grade re-scores the
+          attempt and re-ranks the test. Students are not named, so marking stays blind.
+        </p>
+      </div>
+
+      {message && (
+        <div className="mb-4 text-sm text-green-700 bg-green-50 border border-green-200 rounded p-2">
+          {message}
+        </div>
+      )}
+      {error && (
+        <div className="mb-4 text-sm text-red-600 bg-red-50 border border-red-200 rounded p-2">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-gray-600">Loading grading queue...</p>
+      ) : items.length === 0 ? (
+        <div className="bg-white border border-dashed border-gray-300 rounded-lg p-6 text-center">
+          <p className="text-sm text-gray-600">No answers are waiting to be graded.</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {items.map((item) => {
+            const question = questions.get(item.testQuestion.questionId);
+            const response = item.attempt.responses[item.testQuestion.questionId];
+            // The server only stores photos from the attempt's answer folder; never show anything else
+            const photoUrls = (response?.answerImageUrls ?? []).filter((url) =>
+              isAnswerImageUrl(url, STORAGE_BUCKET, item.attempt.userId, item.attempt.id)
+            );
+            return (
+              <div
+                key={item.key}
+                className="bg-white border border-gray-200 rounded-lg p-6 shadow-sm space-y-4"
+              >
+                <div className="flex flex-wrap items-start justify-between gap-2">
+                  <div>
+                    <p className="text-xs text-gray-500">
+                      {tests.get(item.attempt.testId)?.title ?? "Deleted test"}
+                    </p>
+                    <p className="text-sm font-medium text-gray-900">
+                      {question
+                        ? `${question.customId ? `${question.customId} · ` : ""}${question.subject} / ${question.topic}`
+                        : "Question missing from the bank"}
+                    </p>
+                  </div>
+                  <span className="text-xs text-gray-500">
+                    Submitted {item.attempt.submittedAt?.toDate().toLocaleString("en-IN")}
+                  </span>
+                </div>
+
+                {question && (
+                  <MathContent html={question.text} className="text-sm text-gray-900 prose max-w-none" />
+                )}
+
+                <div className="bg-gray-50 border border-gray-200 rounded p-3">
+                  <p className="text-xs text-gray-500 mb-1">Student&apos;s Answer</p>
+                  {response?.answerText?.trim() && (
+                    <p className="text-sm text-gray-900 whitespace-pre-wrap">{response.answerText}</p>
+                  )}
+                  {photoUrls.length > 0 && (
+                    <div className="flex flex-wrap gap-3 mt-2">
+                      {photoUrls.map((url, index) => (
+                        <a key={url} href={url} target="_blank" rel="noopener noreferrer">
+                          {/* eslint-disable-next-line @next/next/no-img-element */}
+                          <img
+                            src={url}
+                            alt={`Answer photo ${index + 1}`}
+                            className="h-48 w-auto rounded border border-gray-200 object-contain bg-white"
+                          />
+                        </a>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                {question?.explanation && (
+                  <details className="text-sm">
+                    <summary className="cursor-pointer text-gray-700">Model answer</summary>
+                    <MathContent
+                      html={question.explanation}
+                      className="mt-2 text-sm text-gray-800 prose prose-sm max-w-none"
+                    />
+                  </details>
+                )}
+
+                {question && (
+                  <GradingForm
+                    question={question}
+                    marks={item.testQuestion.marks}
+                    onGrade={(criterionMarks, comment) => handleGrade(item, criterionMarks, comment)}
+                  />
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+// app/admin/passages/[id]/edit/page.tsx
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter, useParams } from "next/navigation";
+import { useAuth } from "@/context/AuthContext";
+import { useUserProfile } from "@/lib/hooks/useUserProfile";
+import { getPassageById, updatePassage } from "@/lib/db/passages";
+import type { Passage, PassageInput } from "@/lib/types/passage";
+import PassageForm from "@/components/admin/PassageForm";
+
+export default function EditPassagePage() {
+  const router = useRouter();
+  const params = useParams();
+  const passageId = params?.id as string;
+  const { user, loading: authLoading } = useAuth();
+  const { role, loading: profileLoading } = useUserProfile();
+
+  const [passage, setPassage] = useState<Passage | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (authLoading || profileLoading) return;
+
+    if (!user) {
+      router.replace("/login");
+      return;
+    }
+
+    if (role !== "admin") {
+      router.replace("/dashboard");
+      return;
+    }
+
+    const loadPassage = async () => {
+      setLoading(true);
+      try {
+        const data = await getPassageById(passageId);
+        if (!data) {
+          setError("Passage not found.");
+          return;
+        }
+        setPassage(data);
+      } catch (err) {
+        console.error("[EditPassagePage] Error loading passage:", err);
+        setError(err instanceof Error ? err.message : "Failed to load passage.");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadPassage();
+  }, [authLoading, profileLoading, user, role, router, passageId]);
+
+  const handleSubmit = useCallback(
+    async (input: PassageInput) => {
+      // Clear chapter / topic that were removed instead of leaving the old values
+      await updatePassage(passageId, {
+        ...input,
+        chapter: input.chapter ?? "",
+        topic: input.topic ?? "",
+      });
+      console.log("[EditPassagePage] Passage updated:", passageId);
+      router.push("/admin/passages");
+    },
+    [passageId, router]
+  );
+
+  if (authLoading || profileLoading || loading) {
+    return (
+      <main className="min-h-screen flex items-center justify-center bg-gray-50">
+        <p className="p-4 text-gray-600">Loading passage...</p>
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-screen bg-gray-50">
+      <div className="max-w-3xl mx-auto px-4 py-8">
+        <div className="bg-white border border-gray-200 rounded-lg p-6 shadow-sm">
+          <h1 className="text-2xl font-semibold text-gray-900 mb-4">Edit Passage</h1>
+          {error && (
+            <div className="mb-4 text-sm text-red-600 bg-red-50 border border-red-200 rounded p-2">
+              {error}
+            </div>
+          )}
+          {passage && (
+            <PassageForm
+              initial={passage}
+              submitLabel="Save Changes"
+              onSubmit={handleSubmit}
+              onCancel={() => router.push("/admin/passages")}
+            />
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,73 @@
+// app/admin/passages/new/page.tsx
+"use client";
+
+import { useCallback, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { useAuth } from "@/context/AuthContext";
+import { useUserProfile } from "@/lib/hooks/useUserProfile";
+import { createPassage } from "@/lib/db/passages";
+import type { PassageInput } from "@/lib/types/passage";
+import PassageForm from "@/components/admin/PassageForm";
+
+export default function NewPassagePage() {
+  const router = useRouter();
+  const { user, loading: authLoading } = useAuth();
+  const { role, loading: profileLoading } = useUserProfile();
+
+  useEffect(() => {
+    if (authLoading || profileLoading) return;
+
+    if (!user) {
+      router.replace("/login");
+      return;
+    }
+
+    if (role !== "admin") {
+      router.replace("/dashboard");
+    }
+  }, [authLoading, profileLoading, user, role, router]);
+
+  const handleSubmit = useCallback(
+    async (input: PassageInput) => {
+      if (!user) throw new Error("You must be logged in to create passages.");
+      const id = await createPassage(input, user.uid);
+      console.log("[NewPassagePage] Passage created with id:", id);
+      router.push("/admin/passages");
+    },
+    [user, router]
+  );
+
+  if (authLoading || profileLoading) {
+    return (
+      <main className="min-h-screen flex items-center justify-center bg-gray-50">
+        <p className="p-4 text-gray-600">Checking admin access...</p>
+      </main>
+    );
+  }
+
+  if (!user || role !== "admin") {
+    return (
+      <main className="min-h-screen flex items-center justify-center bg-gray-50">
+        <p className="p-4 text-gray-600">Redirecting...</p>
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-screen bg-gray-50">
+      <div className="max-w-3xl mx-auto px-4 py-8">
+        <div className="bg-white border border-gray-200 rounded-lg p-6 shadow-sm">
+          <h1 className="text-2xl font-semibold text-gray-900 mb-1">New Passage</h1>
+          <p className="text-sm text-gray-600 mb-4">
+            Write the shared stem once, then pick it when creating each of its questions.
+          </p>
+          <PassageForm
+            submitLabel="Create Passage"
+            onSubmit={handleSubmit}
+            onCancel={() => router.push("/admin/passages")}
+          />
+        </div>
+      </div>
+    </main>
+  );
+}
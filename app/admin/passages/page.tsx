@@ -0,0 +1,180 @@
+// app/admin/passages/page.tsx
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useAuth } from "@/context/AuthContext";
+import { useUserProfile } from "@/lib/hooks/useUserProfile";
+import { deletePassage, listPassages } from "@/lib/db/passages";
+import type { Passage } from "@/lib/types/passage";
+
+export default function AdminPassagesPage() {
+  const router = useRouter();
+  const { user, loading: authLoading } = useAuth();
+  const { role, loading: profileLoading } = useUserProfile();
+  const [passages, setPassages] = useState<Passage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState("");
+
+  const fetchPassages = useCallback(async () => {
+    console.log("[AdminPassagesPage] Fetching passages");
+    setLoading(true);
+    setError(null);
+
+    try {
+      setPassages(await listPassages());
+    } catch (err) {
+      console.error("[AdminPassagesPage] Error fetching passages:", err);
+      setError("Failed to load passages. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (authLoading || profileLoading) return;
+
+    if (!user) {
+      router.replace("/login");
+      return;
+    }
+
+    if (role !== "admin") {
+      router.replace("/dashboard");
+      return;
+    }
+
+    fetchPassages();
+  }, [authLoading, profileLoading, user, role, router, fetchPassages]);
+
+  const handleDelete = useCallback(async (passage: Passage) => {
+    const confirmed = window.confirm(
+      `Are you sure you want to delete this passage?\n\n${passage.title}`
+    );
+    if (!confirmed) return;
+
+    setDeletingId(passage.id);
+    try {
+      await deletePassage(passage.id);
+      setPassages((prev) => prev.filter((p) => p.id !== passage.id));
+      setError(null);
+    } catch (err) {
+      console.error("[AdminPassagesPage] Error deleting passage:", err);
+      setError(err instanceof Error ? err.message : "Failed to delete passage. Please try again.");
+    } finally {
+      setDeletingId(null);
+    }
+  }, []);
+
+  if (authLoading || profileLoading) {
+    return (
+      <main className="min-h-screen flex items-center justify-center bg-gray-50">
+        <p className="p-4 text-gray-600">Checking admin access...</p>
+      </main>
+    );
+  }
+
+  if (!user || role !== "admin") {
+    return (
+      <main className="min-h-screen flex items-center justify-center bg-gray-50">
+        <p className="p-4 text-gray-600">Redirecting...</p>
+      </main>
+    );
+  }
+
+  const filteredPassages = passages.filter((passage) =>
+    passage.title.toLowerCase().includes(searchQuery.toLowerCase())
+  );
+
+  return (
+    <div className="pt-16 md:pt-8 p-4 md:p-8 bg-gray-50 min-h-screen">
+      <div className="mb-6">
+        <h1 className="text-2xl font-semibold text-gray-900 mb-1">Passages</h1>
+        <p className="text-sm text-gray-600">
+          Shared stems for comprehension questions. Link questions to a passage from the question
+          form; they are kept together in tests.
+        </p>
+      </div>
+
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex-1 max-w-md">
+          <input
+            type="text"
+            placeholder="Search..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent"
+          />
+        </div>
+        <button
+          onClick={() => router.push("/admin/passages/new")}
+          className="ml-4 bg-black hover:bg-gray-900 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors duration-200 flex items-center gap-2 cursor-pointer"
+        >
+          <span className="text-lg">+</span>
+          <span>Add Passage</span>
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 text-sm text-red-600 bg-red-50 border border-red-200 rounded-lg p-3">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-gray-600">Loading passages...</p>
+      ) : filteredPassages.length === 0 ? (
+        <div className="bg-white border border-gray-200 rounded-lg p-8 text-center">
+          <p className="text-sm text-gray-600">
+            {searchQuery ? "No passages found matching your search." : "No passages yet."}
+          </p>
+        </div>
+      ) : (
+        <div className="bg-white border border-gray-200 rounded-lg overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">
+                  Title
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">
+                  Syllabus
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-700 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {filteredPassages.map((passage) => (
+                <tr key={passage.id} className="hover:bg-gray-50 transition-colors">
+                  <td className="px-6 py-4 text-sm font-medium text-gray-900">{passage.title}</td>
+                  <td className="px-6 py-4 text-sm text-gray-600">
+                    {[passage.subject, passage.chapter, passage.topic].filter(Boolean).join(" / ")}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-4">
+                    <button
+                      onClick={() => router.push(`/admin/passages/${passage.id}/edit`)}
+                      className="text-gray-700 hover:text-gray-900 underline cursor-pointer"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => handleDelete(passage)}
+                      disabled={deletingId === passage.id}
+                      className="text-red-600 hover:text-red-800 underline disabled:opacity-60 disabled:cursor-not-allowed cursor-pointer"
+                    >
+                      {deletingId === passage.id ? "Deleting..." : "Delete"}
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
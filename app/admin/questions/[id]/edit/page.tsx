@@ -5,10 +5,50 @@ import { useRouter, useParams } from "next/navigation";
 import { useAuth } from "@/context/AuthContext";
 import { useUserProfile } from "@/lib/hooks/useUserProfile";
 import { getQuestionById, updateQuestion } from "@/lib/db/questions";
-import type { QuestionType, DifficultyLevel, QuestionInput } from "@/lib/types/question";
+import type {
+  QuestionType,
+  DifficultyLevel,
+  QuestionInput,
+  NumericalAnswerSpec,
+  IntegerAnswerRange,
+  QuestionTemplate,
+  RubricCriterion,
+} from "@/lib/types/question";
 import { sanitizeInput } from "@/lib/utils/validation";
 import RichTextEditor from "@/components/RichTextEditor";
+import { listPassages } from "@/lib/db/passages";
+import type { Passage } from "@/lib/types/passage";
+import NumericalAnswerFields from "@/components/admin/NumericalAnswerFields";
+import IntegerAnswerFields from "@/components/admin/IntegerAnswerFields";
+import MatrixMatchFields from "@/components/admin/MatrixMatchFields";
+import StatementTemplateFields from "@/components/admin/StatementTemplateFields";
+import RubricFields from "@/components/admin/RubricFields";
 import { buildImageFolderPath } from "@/lib/utils/imageStorage";
+import {
+  buildIntegerAnswer,
+  buildNumericalAnswerSpec,
+  describeNumericalAnswer,
+  EMPTY_INTEGER_FIELDS,
+  EMPTY_NUMERICAL_FIELDS,
+  integerFieldsFromQuestion,
+  numericalFieldsFromQuestion,
+  type IntegerAnswerFields as IntegerFields,
+  type NumericalAnswerFields as NumericalFields,
+} from "@/lib/utils/numerical";
+import {
+  buildMatrixMatchAnswer,
+  EMPTY_MATRIX_FIELDS,
+  matrixFieldsFromQuestion,
+  type MatrixMatchFields as MatrixFields,
+} from "@/lib/utils/matrix";
+import {
+  buildTemplateQuestion,
+  EMPTY_TEMPLATE_FIELDS,
+  QUESTION_TEMPLATES,
+  templateFieldsFromQuestion,
+  type TemplateFields,
+} from "@/lib/utils/questionTemplates";
+import { buildRubric, rubricRowsFromQuestion, type RubricFieldRow } from "@/lib/utils/subjective";
 import {
   getSubjects,
   getChaptersBySubject,
@@ -23,6 +63,9 @@ const QUESTION_TYPES: { value: QuestionType; label: string }[] = [
   { value: "mcq_single", label: "MCQ (Single Correct)" },
   { value: "mcq_multiple", label: "MCQ (Multiple Correct)" },
   { value: "numerical", label: "Numerical" },
+  { value: "integer", label: "Integer" },
+  { value: "matrix_match", label: "Matrix Match" },
+  { value: "subjective", label: "Subjective (graded by hand)" },
 ];
 
 const DIFFICULTIES: { value: DifficultyLevel; label: string }[] = [
@@ -39,6 +82,7 @@ export default function EditQuestionPage() {
   const { role, loading: profileLoading } = useUserProfile();
 
   const [type, setType] = useState<QuestionType>("mcq_single");
+  const [template, setTemplate] = useState<QuestionTemplate | "">("");
   const [subjectId, setSubjectId] = useState("");
   const [subjectName, setSubjectName] = useState("");
   const [chapterId, setChapterId] = useState("");
@@ -47,6 +91,8 @@ export default function EditQuestionPage() {
   const [topicName, setTopicName] = useState("");
   const [subtopic, setSubtopic] = useState("");
   const [customId, setCustomId] = useState("");
+  const [passageId, setPassageId] = useState("");
+  const [passages, setPassages] = useState<Passage[]>([]);
   const [tagsInput, setTagsInput] = useState("");
 
   // Load subjects data
@@ -57,7 +103,12 @@ export default function EditQuestionPage() {
   const [text, setText] = useState(""); // TipTap HTML
   const [options, setOptions] = useState<string[]>(["", "", "", ""]);
   const [correctOptions, setCorrectOptions] = useState<number[]>([]);
-  const [correctAnswer, setCorrectAnswer] = useState<string>("");
+  const [numericalFields, setNumericalFields] = useState<NumericalFields>(EMPTY_NUMERICAL_FIELDS);
+  const [integerFields, setIntegerFields] = useState<IntegerFields>(EMPTY_INTEGER_FIELDS);
+  const [matrixFields, setMatrixFields] = useState<MatrixFields>(EMPTY_MATRIX_FIELDS);
+  const [templateFields, setTemplateFields] = useState<TemplateFields>(EMPTY_TEMPLATE_FIELDS);
+  const [rubricRows, setRubricRows] = useState<RubricFieldRow[]>([]);
+  const activeTemplate = type === "mcq_single" ? template : ""; // templates are single correct MCQs
   const [explanation, setExplanation] = useState(""); // TipTap HTML
   const [marks, setMarks] = useState<string>("4");
   const [penalty, setPenalty] = useState<string>("0");
@@ -86,6 +137,8 @@ export default function EditQuestionPage() {
 
         // Populate form with existing data
         setType(question.type);
+        setTemplate(question.template || "");
+        setTemplateFields(templateFieldsFromQuestion(question));
         
         // Find IDs from names for dropdowns
         const foundSubject = subjects.find(s => s.name === question.subject);
@@ -115,6 +168,7 @@ export default function EditQuestionPage() {
         
         setSubtopic(question.subtopic || "");
         setCustomId(question.customId || "");
+        setPassageId(question.passageId || "");
         setTagsInput(question.tags.join(", "));
         setText(question.text); // TipTap HTML
         setExplanation(question.explanation || "");
@@ -134,8 +188,16 @@ export default function EditQuestionPage() {
           setCorrectOptions(question.correctOptions);
         }
 
-        if (question.correctAnswer) {
-          setCorrectAnswer(question.correctAnswer);
+        if (question.type === "numerical") {
+          setNumericalFields(
+            numericalFieldsFromQuestion(question.numericalAnswer, question.correctAnswer)
+          );
+        } else if (question.type === "integer") {
+          setIntegerFields(integerFieldsFromQuestion(question));
+        } else if (question.type === "matrix_match") {
+          setMatrixFields(matrixFieldsFromQuestion(question));
+        } else if (question.type === "subjective") {
+          setRubricRows(rubricRowsFromQuestion(question));
         }
 
         console.log("[EditQuestionPage] Question loaded successfully");
@@ -185,6 +247,15 @@ export default function EditQuestionPage() {
     [type]
   );
 
+  // Load passages for the passage picker
+  useEffect(() => {
+    if (!user || role !== "admin") return;
+
+    listPassages()
+      .then(setPassages)
+      .catch((err) => console.error("[EditQuestionPage] Error loading passages:", err));
+  }, [user, role]);
+
   // Reset dependent dropdowns when parent changes
   useEffect(() => {
     if (subjectId) {
@@ -249,7 +320,7 @@ export default function EditQuestionPage() {
       const sanitizedChapter = sanitizeInput(chapterName).trim();
       const sanitizedTopic = sanitizeInput(topicName).trim();
       const sanitizedSubtopic = sanitizeInput(subtopic).trim();
-      const sanitizedText = text.trim(); // TipTap HTML
+      let sanitizedText = text.trim(); // TipTap HTML
       const sanitizedExplanation = explanation.trim() || "";
 
       if (!subjectId || !sanitizedSubject) {
@@ -272,7 +343,7 @@ export default function EditQuestionPage() {
         return;
       }
 
-      if (!sanitizedText) {
+      if (!sanitizedText && !activeTemplate) {
         setError("Question text is required.");
         return;
       }
@@ -294,8 +365,24 @@ export default function EditQuestionPage() {
       let finalOptions: string[] | undefined = undefined;
       let finalCorrectOptions: number[] | undefined = undefined;
       let finalCorrectAnswer: string | null | undefined = null;
-
-      if (type === "mcq_single" || type === "mcq_multiple") {
+      let finalNumericalAnswer: NumericalAnswerSpec | null = null;
+      let finalIntegerRange: IntegerAnswerRange | null = null;
+      let finalMatrixRows: string[] | undefined = undefined;
+      let finalMatrixColumns: string[] | undefined = undefined;
+      let finalStatements: string[] | undefined = undefined;
+      let finalRubric: RubricCriterion[] | undefined = undefined;
+
+      if (activeTemplate) {
+        const templated = buildTemplateQuestion(activeTemplate, templateFields);
+        if (templated.error !== undefined) {
+          setError(templated.error);
+          return;
+        }
+        sanitizedText = templated.text;
+        finalOptions = templated.options;
+        finalCorrectOptions = templated.correctOptions;
+        finalStatements = templated.statements;
+      } else if (type === "mcq_single" || type === "mcq_multiple") {
         const trimmedOptions = options.map((opt) => opt.trim());
 
         const originalToNewIndex: Map<number, number> = new Map();
@@ -339,14 +426,41 @@ export default function EditQuestionPage() {
         finalCorrectOptions = validIndices;
         finalCorrectAnswer = null;
       } else if (type === "numerical") {
-        const trimmedAnswer = correctAnswer.trim();
-        if (!trimmedAnswer) {
-          setError("Correct answer is required for numerical questions.");
+        const { spec, error: numericalError } = buildNumericalAnswerSpec(numericalFields);
+        if (!spec) {
+          setError(numericalError);
           return;
         }
-        finalCorrectAnswer = trimmedAnswer;
+        finalNumericalAnswer = spec;
+        // Keep a readable answer for older readers of correctAnswer
+        finalCorrectAnswer = describeNumericalAnswer(spec);
         finalOptions = undefined;
         finalCorrectOptions = undefined;
+      } else if (type === "integer") {
+        const { spec, range, error: integerError } = buildIntegerAnswer(integerFields);
+        if (!spec) {
+          setError(integerError);
+          return;
+        }
+        finalNumericalAnswer = spec;
+        finalIntegerRange = range;
+        finalCorrectAnswer = String(spec.value);
+      } else if (type === "matrix_match") {
+        const matrix = buildMatrixMatchAnswer(matrixFields);
+        if (matrix.error !== undefined) {
+          setError(matrix.error);
+          return;
+        }
+        finalMatrixRows = matrix.matrixRows;
+        finalMatrixColumns = matrix.matrixColumns;
+        finalCorrectOptions = matrix.correctOptions;
+      } else if (type === "subjective") {
+        const { rubric, error: rubricError } = buildRubric(rubricRows, parsedMarks);
+        if (!rubric) {
+          setError(rubricError);
+          return;
+        }
+        finalRubric = rubric;
       }
 
       const tags = tagsInput
@@ -367,12 +481,20 @@ export default function EditQuestionPage() {
           topic: sanitizedTopic,
           subtopic: sanitizedSubtopic,
           customId: sanitizedCustomId,
+          passageId: passageId || null,
           tags,
           text: sanitizedText, // TipTap HTML
           // imageUrl removed: all images should be inside text via TipTap
           ...(finalOptions !== undefined && { options: finalOptions }),
           ...(finalCorrectOptions !== undefined && { correctOptions: finalCorrectOptions }),
           correctAnswer: finalCorrectAnswer,
+          numericalAnswer: finalNumericalAnswer,
+          integerRange: finalIntegerRange,
+          ...(finalMatrixRows !== undefined && { matrixRows: finalMatrixRows }),
+          ...(finalMatrixColumns !== undefined && { matrixColumns: finalMatrixColumns }),
+          template: activeTemplate || null,
+          ...(finalStatements !== undefined && { statements: finalStatements }),
+          ...(finalRubric !== undefined && { rubric: finalRubric }),
           explanation: sanitizedExplanation || null, // TipTap HTML
           marks: parsedMarks,
           penalty: parsedPenalty,
@@ -406,12 +528,18 @@ export default function EditQuestionPage() {
       topicName,
       subtopic,
       customId,
+      passageId,
       text,
       explanation,
       tagsInput,
       options,
       correctOptions,
-      correctAnswer,
+      numericalFields,
+      integerFields,
+      matrixFields,
+      activeTemplate,
+      templateFields,
+      rubricRows,
       marks,
       penalty,
       difficulty,
@@ -533,6 +661,31 @@ export default function EditQuestionPage() {
               </div>
             </div>
 
+            {/* Template (single correct MCQs only) */}
+            {type === "mcq_single" && (
+              <div>
+                <label className="block mb-1 text-sm font-medium text-gray-700">
+                  Template
+                </label>
+                <select
+                  className="w-full border border-gray-300 rounded px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent"
+                  value={template}
+                  onChange={(e) => setTemplate(e.target.value as QuestionTemplate | "")}
+                >
+                  <option value="">None (write the question and options)</option>
+                  {QUESTION_TEMPLATES.map((t) => (
+                    <option key={t.value} value={t.value}>
+                      {t.label}
+                    </option>
+                  ))}
+                </select>
+                <p className="mt-1 text-xs text-gray-500">
+                  Optional. Templates only ask for the two statements; the question text and the
+                  standard four options are filled in for you.
+                </p>
+              </div>
+            )}
+
             {/* Chapter + Topic */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div>
@@ -614,6 +767,31 @@ export default function EditQuestionPage() {
               </p>
             </div>
 
+            {/* Passage */}
+            <div>
+              <label className="block mb-1 text-sm font-medium text-gray-700">
+                Passage
+              </label>
+              <select
+                className="w-full border border-gray-300 rounded px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent"
+                value={passageId}
+                onChange={(e) => setPassageId(e.target.value)}
+              >
+                <option value="">None</option>
+                {passages
+                  .filter((p) => !subjectName || p.subject === subjectName || p.id === passageId)
+                  .map((p) => (
+                    <option key={p.id} value={p.id}>
+                      {p.title}
+                    </option>
+                  ))}
+              </select>
+              <p className="mt-1 text-xs text-gray-500">
+                Optional. For comprehension questions - the passage is shown beside the question
+                and its questions are kept together in tests.
+              </p>
+            </div>
+
             {/* Tags */}
             <div>
               <label className="block mb-1 text-sm font-medium text-gray-700">
@@ -685,26 +863,41 @@ export default function EditQuestionPage() {
               </div>
             </div>
 
-            {/* Question Text – Rich Editor */}
-            <div>
-              <label className="block mb-1 text-sm font-medium text-gray-700">
-                Question Text
-              </label>
-              <RichTextEditor
-                value={text}
-                onChange={setText}
-                placeholder="Write the question statement here... You can drag and drop images directly into the editor."
-                minHeight="450px"
+            {activeTemplate && (
+              <StatementTemplateFields
+                template={activeTemplate}
+                value={templateFields}
+                onChange={setTemplateFields}
                 imageFolder={
                   subjectName && chapterName && topicName && subtopic && type
                     ? buildImageFolderPath(subjectName, chapterName, topicName, subtopic, type)
                     : undefined
                 }
               />
-            </div>
+            )}
+
+            {/* Question Text – Rich Editor */}
+            {!activeTemplate && (
+              <div>
+                <label className="block mb-1 text-sm font-medium text-gray-700">
+                  Question Text
+                </label>
+                <RichTextEditor
+                  value={text}
+                  onChange={setText}
+                  placeholder="Write the question statement here... You can drag and drop images directly into the editor."
+                  minHeight="450px"
+                  imageFolder={
+                    subjectName && chapterName && topicName && subtopic && type
+                      ? buildImageFolderPath(subjectName, chapterName, topicName, subtopic, type)
+                      : undefined
+                  }
+                />
+              </div>
+            )}
 
             {/* Options / Correct answer based on type */}
-            {(type === "mcq_single" || type === "mcq_multiple") && (
+            {(type === "mcq_single" || type === "mcq_multiple") && !activeTemplate && (
               <div className="border border-gray-200 rounded-lg p-3">
                 <p className="text-sm font-medium text-gray-800 mb-2">
                   Options &amp; Correct Answer
@@ -747,22 +940,28 @@ export default function EditQuestionPage() {
             )}
 
             {type === "numerical" && (
-              <div>
-                <label className="block mb-1 text-sm font-medium text-gray-700">
-                  Correct Answer (Numerical)
-                </label>
-                <input
-                  type="text"
-                  className="w-full border border-gray-300 rounded px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent"
-                  value={correctAnswer}
-                  onChange={(e) => setCorrectAnswer(e.target.value)}
-                  placeholder="e.g. 9.8"
-                  required
-                />
-                <p className="mt-1 text-xs text-gray-500">
-                  You can decide later how strictly to compare (e.g. rounding / tolerance).
-                </p>
-              </div>
+              <NumericalAnswerFields
+                value={numericalFields}
+                onChange={setNumericalFields}
+              />
+            )}
+
+            {type === "integer" && (
+              <IntegerAnswerFields
+                value={integerFields}
+                onChange={setIntegerFields}
+              />
+            )}
+
+            {type === "matrix_match" && (
+              <MatrixMatchFields
+                value={matrixFields}
+                onChange={setMatrixFields}
+              />
+            )}
+
+            {type === "subjective" && (
+              <RubricFields value={rubricRows} onChange={setRubricRows} />
             )}
 
             {/* Explanation – Rich Editor */}
@@ -5,8 +5,19 @@ import { useRouter, useParams } from "next/navigation";
 import { useAuth } from "@/context/AuthContext";
 import { useUserProfile } from "@/lib/hooks/useUserProfile";
 import { getQuestionById } from "@/lib/db/questions";
+import { getPassageById } from "@/lib/db/passages";
+import type { Passage } from "@/lib/types/passage";
 import type { Question } from "@/lib/types/question";
+import {
+  describeNumericalAnswer,
+  INTEGER_ANSWER_RANGES,
+  NUMERICAL_ANSWER_MODES,
+} from "@/lib/utils/numerical";
+import { describeMatrixAnswer } from "@/lib/utils/matrix";
+import MatrixMatchGrid from "@/components/test-player/MatrixMatchGrid";
 import Link from "next/link";
+import { QUESTION_TYPE_LABELS } from "@/lib/utils/questionTypes";
+import { QUESTION_TEMPLATE_LABELS } from "@/lib/utils/questionTemplates";
 
 export default function ViewQuestionPage() {
   const router = useRouter();
@@ -27,6 +38,7 @@ export default function ViewQuestionPage() {
   }, []);
 
   const [question, setQuestion] = useState<Question | null>(null);
+  const [passage, setPassage] = useState<Passage | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isMounted, setIsMounted] = useState(false);
@@ -62,6 +74,7 @@ export default function ViewQuestionPage() {
       }
       console.log("[ViewQuestionPage] Question loaded:", { id: data.id });
       setQuestion(data);
+      setPassage(data.passageId ? await getPassageById(data.passageId) : null);
     } catch (err) {
       console.error("[ViewQuestionPage] Error fetching question:", err);
       const errorMessage =
@@ -205,12 +218,13 @@ export default function ViewQuestionPage() {
             <div>
               <p className="text-xs text-gray-500 mb-1">Type</p>
               <p className="text-sm font-medium text-gray-900">
-                {question.type === "mcq_single"
-                  ? "MCQ (Single)"
-                  : question.type === "mcq_multiple"
-                  ? "MCQ (Multiple)"
-                  : "Numerical"}
+                {QUESTION_TYPE_LABELS[question.type]}
               </p>
+              {question.template && (
+                <p className="text-xs text-gray-500">
+                  {QUESTION_TEMPLATE_LABELS[question.template]}
+                </p>
+              )}
             </div>
             <div>
               <p className="text-xs text-gray-500 mb-1">Difficulty</p>
@@ -229,6 +243,25 @@ export default function ViewQuestionPage() {
             </div>
           </div>
 
+          {/* Passage (for comprehension questions) */}
+          {passage && (
+            <div>
+              <p className="text-xs text-gray-500 mb-2">
+                Passage:{" "}
+                <Link
+                  href={`/admin/passages/${passage.id}/edit`}
+                  className="text-blue-600 hover:text-blue-800 underline"
+                >
+                  {passage.title}
+                </Link>
+              </p>
+              <div
+                className="text-sm text-gray-900 bg-purple-50 border border-purple-100 rounded p-4 prose prose-sm max-w-none"
+                dangerouslySetInnerHTML={{ __html: passage.text }}
+              />
+            </div>
+          )}
+
           {/* Question Text (HTML content) */}
           <div>
             <p className="text-xs text-gray-500 mb-2">Question</p>
@@ -276,13 +309,69 @@ export default function ViewQuestionPage() {
               </div>
             )}
 
+          {/* Lists and matching (for Matrix Match) */}
+          {question.type === "matrix_match" && (
+            <div>
+              <p className="text-xs text-gray-500 mb-2">Lists &amp; Correct Matching</p>
+              <MatrixMatchGrid
+                question={question}
+                selected={[]}
+                correct={question.correctOptions ?? []}
+              />
+              <p className="mt-2 text-sm font-medium text-gray-900">
+                {describeMatrixAnswer(question, question.correctOptions ?? [])}
+              </p>
+            </div>
+          )}
+
+          {/* Correct Answer (for Integer) */}
+          {question.type === "integer" && (question.numericalAnswer || question.correctAnswer) && (
+            <div>
+              <p className="text-xs text-gray-500 mb-2">Correct Answer</p>
+              <div className="text-sm font-medium text-gray-900 bg-green-50 border border-green-200 rounded p-3">
+                {question.numericalAnswer?.value ?? question.correctAnswer}
+              </div>
+              <p className="mt-1 text-xs text-gray-500">
+                Allowed answers:{" "}
+                {INTEGER_ANSWER_RANGES.find((r) => r.value === (question.integerRange ?? "any"))?.label}
+              </p>
+            </div>
+          )}
+
           {/* Correct Answer (for Numerical) */}
-          {question.type === "numerical" && question.correctAnswer && (
+          {question.type === "numerical" && (question.numericalAnswer || question.correctAnswer) && (
             <div>
               <p className="text-xs text-gray-500 mb-2">Correct Answer</p>
               <div className="text-sm font-medium text-gray-900 bg-green-50 border border-green-200 rounded p-3">
-                {question.correctAnswer}
+                {question.numericalAnswer
+                  ? describeNumericalAnswer(question.numericalAnswer)
+                  : question.correctAnswer}
               </div>
+              {question.numericalAnswer && (
+                <p className="mt-1 text-xs text-gray-500">
+                  Mode:{" "}
+                  {NUMERICAL_ANSWER_MODES.find((m) => m.value === question.numericalAnswer?.mode)?.label}
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Rubric (for Subjective) */}
+          {question.type === "subjective" && (
+            <div>
+              <p className="text-xs text-gray-500 mb-2">Marking Rubric</p>
+              {question.rubric && question.rubric.length > 0 ? (
+                <ul className="text-sm text-gray-900 bg-green-50 border border-green-200 rounded p-3 space-y-1">
+                  {question.rubric.map((criterion, index) => (
+                    <li key={index} className="flex justify-between gap-4">
+                      <span>{criterion.description}</span>
+                      <span className="font-medium whitespace-nowrap">{criterion.marks} marks</span>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-gray-600">No rubric - graders mark the answer as a whole.</p>
+              )}
             </div>
           )}
 
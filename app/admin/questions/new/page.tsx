@@ -5,10 +5,46 @@ import { useRouter } from "next/navigation";
 import { useAuth } from "@/context/AuthContext";
 import { useUserProfile } from "@/lib/hooks/useUserProfile";
 import { createQuestion } from "@/lib/db/questions";
-import type { QuestionType, DifficultyLevel, QuestionInput } from "@/lib/types/question";
+import type {
+  QuestionType,
+  DifficultyLevel,
+  QuestionInput,
+  NumericalAnswerSpec,
+  IntegerAnswerRange,
+  QuestionTemplate,
+  RubricCriterion,
+} from "@/lib/types/question";
 import { sanitizeInput } from "@/lib/utils/validation";
 import RichTextEditor from "@/components/RichTextEditor";
+import { listPassages } from "@/lib/db/passages";
+import type { Passage } from "@/lib/types/passage";
+import NumericalAnswerFields from "@/components/admin/NumericalAnswerFields";
+import IntegerAnswerFields from "@/components/admin/IntegerAnswerFields";
+import MatrixMatchFields from "@/components/admin/MatrixMatchFields";
+import StatementTemplateFields from "@/components/admin/StatementTemplateFields";
+import RubricFields from "@/components/admin/RubricFields";
 import { buildImageFolderPath } from "@/lib/utils/imageStorage";
+import {
+  buildIntegerAnswer,
+  buildNumericalAnswerSpec,
+  describeNumericalAnswer,
+  EMPTY_INTEGER_FIELDS,
+  EMPTY_NUMERICAL_FIELDS,
+  type IntegerAnswerFields as IntegerFields,
+  type NumericalAnswerFields as NumericalFields,
+} from "@/lib/utils/numerical";
+import {
+  buildMatrixMatchAnswer,
+  EMPTY_MATRIX_FIELDS,
+  type MatrixMatchFields as MatrixFields,
+} from "@/lib/utils/matrix";
+import {
+  buildTemplateQuestion,
+  EMPTY_TEMPLATE_FIELDS,
+  QUESTION_TEMPLATES,
+  type TemplateFields,
+} from "@/lib/utils/questionTemplates";
+import { buildRubric, type RubricFieldRow } from "@/lib/utils/subjective";
 import {
   getSubjects,
   getChaptersBySubject,
@@ -23,6 +59,9 @@ const QUESTION_TYPES: { value: QuestionType; label: string }[] = [
   { value: "mcq_single", label: "MCQ (Single Correct)" },
   { value: "mcq_multiple", label: "MCQ (Multiple Correct)" },
   { value: "numerical", label: "Numerical" },
+  { value: "integer", label: "Integer" },
+  { value: "matrix_match", label: "Matrix Match" },
+  { value: "subjective", label: "Subjective (graded by hand)" },
 ];
 
 const DIFFICULTIES: { value: DifficultyLevel; label: string }[] = [
@@ -37,6 +76,7 @@ export default function NewQuestionPage() {
   const { role, loading: profileLoading } = useUserProfile();
 
   const [type, setType] = useState<QuestionType>("mcq_single");
+  const [template, setTemplate] = useState<QuestionTemplate | "">("");
   const [subjectId, setSubjectId] = useState("");
   const [subjectName, setSubjectName] = useState("");
   const [chapterId, setChapterId] = useState("");
@@ -45,6 +85,8 @@ export default function NewQuestionPage() {
   const [topicName, setTopicName] = useState("");
   const [subtopic, setSubtopic] = useState("");
   const [customId, setCustomId] = useState("");
+  const [passageId, setPassageId] = useState("");
+  const [passages, setPassages] = useState<Passage[]>([]);
   const [tagsInput, setTagsInput] = useState("");
 
   // Load subjects data
@@ -55,7 +97,11 @@ export default function NewQuestionPage() {
   const [text, setText] = useState(""); // TipTap HTML
   const [options, setOptions] = useState<string[]>(["", "", "", ""]);
   const [correctOptions, setCorrectOptions] = useState<number[]>([]);
-  const [correctAnswer, setCorrectAnswer] = useState<string>("");
+  const [numericalFields, setNumericalFields] = useState<NumericalFields>(EMPTY_NUMERICAL_FIELDS);
+  const [integerFields, setIntegerFields] = useState<IntegerFields>(EMPTY_INTEGER_FIELDS);
+  const [matrixFields, setMatrixFields] = useState<MatrixFields>(EMPTY_MATRIX_FIELDS);
+  const [templateFields, setTemplateFields] = useState<TemplateFields>(EMPTY_TEMPLATE_FIELDS);
+  const [rubricRows, setRubricRows] = useState<RubricFieldRow[]>([]);
   const [explanation, setExplanation] = useState(""); // TipTap HTML
   const [marks, setMarks] = useState<string>("4");
   const [penalty, setPenalty] = useState<string>("0");
@@ -88,13 +134,28 @@ export default function NewQuestionPage() {
   // Reset correct options and answer when question type changes
   useEffect(() => {
     setCorrectOptions([]);
-    setCorrectAnswer("");
-    if (type === "numerical") {
+    setNumericalFields(EMPTY_NUMERICAL_FIELDS);
+    setIntegerFields(EMPTY_INTEGER_FIELDS);
+    setMatrixFields(EMPTY_MATRIX_FIELDS);
+    setRubricRows([]);
+    if (type !== "mcq_single") {
+      setTemplate("");
+    }
+    if (type !== "mcq_single" && type !== "mcq_multiple") {
       setOptions(["", "", "", ""]);
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [type]);
 
+  // Load passages for the passage picker
+  useEffect(() => {
+    if (!user || role !== "admin") return;
+
+    listPassages()
+      .then(setPassages)
+      .catch((err) => console.error("[NewQuestionPage] Error loading passages:", err));
+  }, [user, role]);
+
   // Reset dependent dropdowns when parent changes
   useEffect(() => {
     setChapterId("");
@@ -153,7 +214,7 @@ export default function NewQuestionPage() {
       const sanitizedChapter = sanitizeInput(chapterName).trim();
       const sanitizedTopic = sanitizeInput(topicName).trim();
       const sanitizedSubtopic = sanitizeInput(subtopic).trim();
-      const sanitizedText = text.trim(); // TipTap HTML
+      let sanitizedText = text.trim(); // TipTap HTML
       const sanitizedExplanation = explanation.trim() || "";
 
       if (!subjectId || !sanitizedSubject) {
@@ -176,7 +237,7 @@ export default function NewQuestionPage() {
         return;
       }
 
-      if (!sanitizedText) {
+      if (!sanitizedText && !template) {
         setError("Question text is required.");
         return;
       }
@@ -198,8 +259,24 @@ export default function NewQuestionPage() {
       let finalOptions: string[] | undefined = undefined;
       let finalCorrectOptions: number[] | undefined = undefined;
       let finalCorrectAnswer: string | null | undefined = null;
-
-      if (type === "mcq_single" || type === "mcq_multiple") {
+      let finalNumericalAnswer: NumericalAnswerSpec | null = null;
+      let finalIntegerRange: IntegerAnswerRange | null = null;
+      let finalMatrixRows: string[] | undefined = undefined;
+      let finalMatrixColumns: string[] | undefined = undefined;
+      let finalStatements: string[] | undefined = undefined;
+      let finalRubric: RubricCriterion[] | undefined = undefined;
+
+      if (type === "mcq_single" && template) {
+        const templated = buildTemplateQuestion(template, templateFields);
+        if (templated.error !== undefined) {
+          setError(templated.error);
+          return;
+        }
+        sanitizedText = templated.text;
+        finalOptions = templated.options;
+        finalCorrectOptions = templated.correctOptions;
+        finalStatements = templated.statements;
+      } else if (type === "mcq_single" || type === "mcq_multiple") {
         const trimmedOptions = options.map((opt) => opt.trim());
 
         // Build a map: original index -> new index after filtering
@@ -261,14 +338,41 @@ export default function NewQuestionPage() {
         finalCorrectOptions = validIndices;
         finalCorrectAnswer = null;
       } else if (type === "numerical") {
-        const trimmedAnswer = correctAnswer.trim();
-        if (!trimmedAnswer) {
-          setError("Correct answer is required for numerical questions.");
+        const { spec, error: numericalError } = buildNumericalAnswerSpec(numericalFields);
+        if (!spec) {
+          setError(numericalError);
           return;
         }
-        finalCorrectAnswer = trimmedAnswer;
+        finalNumericalAnswer = spec;
+        // Keep a readable answer for older readers of correctAnswer
+        finalCorrectAnswer = describeNumericalAnswer(spec);
         finalOptions = undefined;
         finalCorrectOptions = undefined;
+      } else if (type === "integer") {
+        const { spec, range, error: integerError } = buildIntegerAnswer(integerFields);
+        if (!spec) {
+          setError(integerError);
+          return;
+        }
+        finalNumericalAnswer = spec;
+        finalIntegerRange = range;
+        finalCorrectAnswer = String(spec.value);
+      } else if (type === "matrix_match") {
+        const matrix = buildMatrixMatchAnswer(matrixFields);
+        if (matrix.error !== undefined) {
+          setError(matrix.error);
+          return;
+        }
+        finalMatrixRows = matrix.matrixRows;
+        finalMatrixColumns = matrix.matrixColumns;
+        finalCorrectOptions = matrix.correctOptions;
+      } else if (type === "subjective") {
+        const { rubric, error: rubricError } = buildRubric(rubricRows, parsedMarks);
+        if (!rubric) {
+          setError(rubricError);
+          return;
+        }
+        finalRubric = rubric;
       }
 
       const tags = tagsInput
@@ -289,12 +393,20 @@ export default function NewQuestionPage() {
           topic: sanitizedTopic,
           subtopic: sanitizedSubtopic,
           customId: sanitizedCustomId,
+          passageId: passageId || null,
           tags,
           text: sanitizedText, // TipTap HTML
           // imageUrl removed: all images should be inside text via TipTap
           ...(finalOptions !== undefined && { options: finalOptions }),
           ...(finalCorrectOptions !== undefined && { correctOptions: finalCorrectOptions }),
           correctAnswer: finalCorrectAnswer,
+          numericalAnswer: finalNumericalAnswer,
+          integerRange: finalIntegerRange,
+          ...(finalMatrixRows !== undefined && { matrixRows: finalMatrixRows }),
+          ...(finalMatrixColumns !== undefined && { matrixColumns: finalMatrixColumns }),
+          template: template || null,
+          ...(finalStatements !== undefined && { statements: finalStatements }),
+          ...(finalRubric !== undefined && { rubric: finalRubric }),
           explanation: sanitizedExplanation || null, // TipTap HTML
           marks: parsedMarks,
           penalty: parsedPenalty,
@@ -325,12 +437,18 @@ export default function NewQuestionPage() {
       topicName,
       subtopic,
       customId,
+      passageId,
       text,
       explanation,
       tagsInput,
       options,
       correctOptions,
-      correctAnswer,
+      numericalFields,
+      integerFields,
+      matrixFields,
+      template,
+      templateFields,
+      rubricRows,
       marks,
       penalty,
       difficulty,
@@ -443,6 +561,31 @@ export default function NewQuestionPage() {
               </div>
             </div>
 
+            {/* Template (single correct MCQs only) */}
+            {type === "mcq_single" && (
+              <div>
+                <label className="block mb-1 text-sm font-medium text-gray-700">
+                  Template
+                </label>
+                <select
+                  className="w-full border border-gray-300 rounded px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent"
+                  value={template}
+                  onChange={(e) => setTemplate(e.target.value as QuestionTemplate | "")}
+                >
+                  <option value="">None (write the question and options)</option>
+                  {QUESTION_TEMPLATES.map((t) => (
+                    <option key={t.value} value={t.value}>
+                      {t.label}
+                    </option>
+                  ))}
+                </select>
+                <p className="mt-1 text-xs text-gray-500">
+                  Optional. Templates only ask for the two statements; the question text and the
+                  standard four options are filled in for you.
+                </p>
+              </div>
+            )}
+
             {/* Chapter + Topic */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div>
@@ -524,6 +667,31 @@ export default function NewQuestionPage() {
               </p>
             </div>
 
+            {/* Passage */}
+            <div>
+              <label className="block mb-1 text-sm font-medium text-gray-700">
+                Passage
+              </label>
+              <select
+                className="w-full border border-gray-300 rounded px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent"
+                value={passageId}
+                onChange={(e) => setPassageId(e.target.value)}
+              >
+                <option value="">None</option>
+                {passages
+                  .filter((p) => !subjectName || p.subject === subjectName || p.id === passageId)
+                  .map((p) => (
+                    <option key={p.id} value={p.id}>
+                      {p.title}
+                    </option>
+                  ))}
+              </select>
+              <p className="mt-1 text-xs text-gray-500">
+                Optional. For comprehension questions - the passage is shown beside the question
+                and its questions are kept together in tests.
+              </p>
+            </div>
+
             {/* Tags */}
             <div>
               <label className="block mb-1 text-sm font-medium text-gray-700">
@@ -595,26 +763,41 @@ export default function NewQuestionPage() {
               </div>
             </div>
 
-            {/* Question Text – Rich Editor */}
-            <div>
-              <label className="block mb-1 text-sm font-medium text-gray-700">
-                Question Text
-              </label>
-              <RichTextEditor
-                value={text}
-                onChange={setText}
-                placeholder="Write the question statement here... You can drag and drop images directly into the editor."
-                minHeight="450px"
+            {template && (
+              <StatementTemplateFields
+                template={template}
+                value={templateFields}
+                onChange={setTemplateFields}
                 imageFolder={
                   subjectName && chapterName && topicName && subtopic && type
                     ? buildImageFolderPath(subjectName, chapterName, topicName, subtopic, type)
                     : undefined
                 }
               />
-            </div>
+            )}
+
+            {/* Question Text – Rich Editor */}
+            {!template && (
+              <div>
+                <label className="block mb-1 text-sm font-medium text-gray-700">
+                  Question Text
+                </label>
+                <RichTextEditor
+                  value={text}
+                  onChange={setText}
+                  placeholder="Write the question statement here... You can drag and drop images directly into the editor."
+                  minHeight="450px"
+                  imageFolder={
+                    subjectName && chapterName && topicName && subtopic && type
+                      ? buildImageFolderPath(subjectName, chapterName, topicName, subtopic, type)
+                      : undefined
+                  }
+                />
+              </div>
+            )}
 
             {/* Options / Correct answer based on type */}
-            {(type === "mcq_single" || type === "mcq_multiple") && (
+            {(type === "mcq_single" || type === "mcq_multiple") && !template && (
               <div className="border border-gray-200 rounded-lg p-3">
                 <p className="text-sm font-medium text-gray-800 mb-2">
                   Options &amp; Correct Answer
@@ -657,22 +840,28 @@ export default function NewQuestionPage() {
             )}
 
             {type === "numerical" && (
-              <div>
-                <label className="block mb-1 text-sm font-medium text-gray-700">
-                  Correct Answer (Numerical)
-                </label>
-                <input
-                  type="text"
-                  className="w-full border border-gray-300 rounded px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent"
-                  value={correctAnswer}
-                  onChange={(e) => setCorrectAnswer(e.target.value)}
-                  placeholder="e.g. 9.8"
-                  required
-                />
-                <p className="mt-1 text-xs text-gray-500">
-                  You can decide later how strictly to compare (e.g. rounding / tolerance).
-                </p>
-              </div>
+              <NumericalAnswerFields
+                value={numericalFields}
+                onChange={setNumericalFields}
+              />
+            )}
+
+            {type === "integer" && (
+              <IntegerAnswerFields
+                value={integerFields}
+                onChange={setIntegerFields}
+              />
+            )}
+
+            {type === "matrix_match" && (
+              <MatrixMatchFields
+                value={matrixFields}
+                onChange={setMatrixFields}
+              />
+            )}
+
+            {type === "subjective" && (
+              <RubricFields value={rubricRows} onChange={setRubricRows} />
             )}
 
             {/* Explanation – Rich Editor */}
@@ -6,13 +6,19 @@ import { useRouter } from "next/navigation";
 import { useAuth } from "@/context/AuthContext";
 import { useUserProfile } from "@/lib/hooks/useUserProfile";
 import { listQuestions, deleteQuestion, type ListQuestionsParams } from "@/lib/db/questions";
-import type { Question, QuestionType, DifficultyLevel } from "@/lib/types/question";
+import type { Question, QuestionType, QuestionTemplate, DifficultyLevel } from "@/lib/types/question";
+import type { QuestionStats } from "@/lib/types/questionStats";
+import { listQuestionStats } from "@/lib/db/questionStats";
+import { calibrateQuestions } from "@/lib/api/questions";
+import { CALIBRATION_FLAG_LABELS, getCalibrationFlags } from "@/lib/utils/calibration";
 import {
   getSubjects,
   getChaptersBySubject,
   getTopicsByChapter,
   getSubtopicsByTopic,
 } from "@/lib/utils/subjectData";
+import { QUESTION_TYPE_LABELS } from "@/lib/utils/questionTypes";
+import { QUESTION_TEMPLATE_LABELS, QUESTION_TEMPLATES } from "@/lib/utils/questionTemplates";
 
 export default function AdminQuestionsPage() {
   const router = useRouter();
@@ -32,8 +38,15 @@ export default function AdminQuestionsPage() {
   const [filterTopicName, setFilterTopicName] = useState("");
   const [filterSubtopic, setFilterSubtopic] = useState("");
   const [filterType, setFilterType] = useState<QuestionType | "">("");
+  const [filterTemplate, setFilterTemplate] = useState<QuestionTemplate | "">("");
   const [filterDifficulty, setFilterDifficulty] = useState<DifficultyLevel | "">("");
   const [searchCustomId, setSearchCustomId] = useState("");
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
+
+  // Empirical difficulty from attempt data
+  const [questionStats, setQuestionStats] = useState<Map<string, QuestionStats>>(new Map());
+  const [calibrating, setCalibrating] = useState(false);
+  const [calibrationMessage, setCalibrationMessage] = useState<string | null>(null);
 
   // Load subjects data for filters
   const subjects = getSubjects();
@@ -56,6 +69,7 @@ export default function AdminQuestionsPage() {
       if (filterTopicName) filterParams.topic = filterTopicName;
       if (filterSubtopic) filterParams.subtopic = filterSubtopic;
       if (filterType) filterParams.type = filterType;
+      if (filterTemplate) filterParams.template = filterTemplate;
       if (filterDifficulty) filterParams.difficulty = filterDifficulty;
 
       const data = await listQuestions(filterParams);
@@ -70,7 +84,7 @@ export default function AdminQuestionsPage() {
     } finally {
       setLoading(false);
     }
-  }, [filterSubjectName, filterChapterName, filterTopicName, filterSubtopic, filterType, filterDifficulty]);
+  }, [filterSubjectName, filterChapterName, filterTopicName, filterSubtopic, filterType, filterTemplate, filterDifficulty]);
 
   useEffect(() => {
     if (authLoading || profileLoading) return;
@@ -91,21 +105,68 @@ export default function AdminQuestionsPage() {
     fetchQuestions();
   }, [authLoading, profileLoading, user, role, router, fetchQuestions]);
 
+  const fetchQuestionStats = useCallback(async () => {
+    try {
+      setQuestionStats(await listQuestionStats());
+    } catch (err) {
+      // Calibration data is optional - the question bank is still usable without it
+      console.error("[AdminQuestionsPage] Error fetching question stats:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (authLoading || profileLoading || !user || role !== "admin") return;
+    fetchQuestionStats();
+  }, [authLoading, profileLoading, user, role, fetchQuestionStats]);
+
+  const handleCalibrate = useCallback(async () => {
+    console.log("[AdminQuestionsPage] Running difficulty calibration");
+    setCalibrating(true);
+    setCalibrationMessage(null);
+    try {
+      const outcome = await calibrateQuestions();
+      await fetchQuestionStats();
+      setCalibrationMessage(
+        `Calibrated ${outcome.questionCount} questions from ${outcome.attemptCount} attempts.`
+      );
+    } catch (err) {
+      console.error("[AdminQuestionsPage] Error running calibration:", err);
+      setCalibrationMessage(
+        err instanceof Error ? err.message : "Failed to run calibration. Please try again."
+      );
+    } finally {
+      setCalibrating(false);
+    }
+  }, [fetchQuestionStats]);
+
+  // Calibration flags against each question's current declared difficulty
+  const calibrationFlags = useMemo(() => {
+    const flags = new Map<string, ReturnType<typeof getCalibrationFlags>>();
+    allQuestions.forEach((q) => {
+      const stats = questionStats.get(q.id);
+      if (stats) flags.set(q.id, getCalibrationFlags(q.difficulty, stats));
+    });
+    return flags;
+  }, [allQuestions, questionStats]);
+
   const handleCreateClick = useCallback(() => {
     router.push("/admin/questions/new");
   }, [router]);
 
-  // Filter questions by custom ID (client-side filtering)
+  // Filter questions by custom ID and calibration flags (client-side filtering)
   const filteredQuestions = useMemo(() => {
+    const flagged = flaggedOnly
+      ? allQuestions.filter((q) => (calibrationFlags.get(q.id)?.length ?? 0) > 0)
+      : allQuestions;
     if (!searchCustomId.trim()) {
-      return allQuestions;
+      return flagged;
     }
     const searchLower = searchCustomId.toLowerCase().trim();
-    return allQuestions.filter((q) => {
+    return flagged.filter((q) => {
       const customIdLower = (q.customId || "").toLowerCase();
       return customIdLower.includes(searchLower);
     });
-  }, [allQuestions, searchCustomId]);
+  }, [allQuestions, searchCustomId, flaggedOnly, calibrationFlags]);
 
   // Reset dependent filters when parent changes
   useEffect(() => {
@@ -166,7 +227,9 @@ export default function AdminQuestionsPage() {
     setFilterTopicName("");
     setFilterSubtopic("");
     setFilterType("");
+    setFilterTemplate("");
     setFilterDifficulty("");
+    setFlaggedOnly(false);
   }, []);
 
   const hasActiveFilters = useMemo(() => {
@@ -177,9 +240,11 @@ export default function AdminQuestionsPage() {
       filterTopicName ||
       filterSubtopic ||
       filterType ||
-      filterDifficulty
+      filterTemplate ||
+      filterDifficulty ||
+      flaggedOnly
     );
-  }, [searchCustomId, filterSubjectName, filterChapterName, filterTopicName, filterSubtopic, filterType, filterDifficulty]);
+  }, [searchCustomId, filterSubjectName, filterChapterName, filterTopicName, filterSubtopic, filterType, filterTemplate, filterDifficulty, flaggedOnly]);
 
   const handleDelete = useCallback(
     async (id: string) => {
@@ -265,15 +330,30 @@ export default function AdminQuestionsPage() {
             </p>
           </div>
 
-          <button
-            onClick={handleCreateClick}
-            className="bg-black hover:bg-gray-900 text-white px-4 py-2 rounded text-sm transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-black focus:ring-offset-2"
-            aria-label="Create new question"
-          >
-            + New Question
-          </button>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleCalibrate}
+              disabled={calibrating}
+              className="px-4 py-2 rounded text-sm border border-gray-300 bg-white text-gray-700 hover:bg-gray-50 disabled:opacity-60 disabled:cursor-not-allowed transition-colors focus:outline-none focus:ring-2 focus:ring-black focus:ring-offset-2"
+            >
+              {calibrating ? "Calibrating..." : "Run Calibration"}
+            </button>
+            <button
+              onClick={handleCreateClick}
+              className="bg-black hover:bg-gray-900 text-white px-4 py-2 rounded text-sm transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-black focus:ring-offset-2"
+              aria-label="Create new question"
+            >
+              + New Question
+            </button>
+          </div>
         </div>
 
+        {calibrationMessage && (
+          <div className="mb-4 text-sm text-gray-700 bg-white border border-gray-200 rounded p-2">
+            {calibrationMessage}
+          </div>
+        )}
+
         {error && (
           <div className="mb-4 text-sm text-red-600 bg-red-50 border border-red-200 rounded p-2">
             {error}
@@ -371,7 +451,7 @@ export default function AdminQuestionsPage() {
                 </div>
               </div>
 
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                 {/* Subtopic Filter */}
                 <div>
                   <label className="block mb-1 text-xs font-medium text-gray-700">
@@ -406,6 +486,28 @@ export default function AdminQuestionsPage() {
                     <option value="mcq_single">MCQ (Single)</option>
                     <option value="mcq_multiple">MCQ (Multiple)</option>
                     <option value="numerical">Numerical</option>
+                    <option value="integer">Integer</option>
+                    <option value="matrix_match">Matrix Match</option>
+                    <option value="subjective">Subjective</option>
+                  </select>
+                </div>
+
+                {/* Template Filter */}
+                <div>
+                  <label className="block mb-1 text-xs font-medium text-gray-700">
+                    Template
+                  </label>
+                  <select
+                    value={filterTemplate}
+                    onChange={(e) => setFilterTemplate(e.target.value as QuestionTemplate | "")}
+                    className="w-full border border-gray-300 rounded px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent"
+                  >
+                    <option value="">All Templates</option>
+                    {QUESTION_TEMPLATES.map((t) => (
+                      <option key={t.value} value={t.value}>
+                        {t.label}
+                      </option>
+                    ))}
                   </select>
                 </div>
 
@@ -427,6 +529,17 @@ export default function AdminQuestionsPage() {
                 </div>
               </div>
 
+              {/* Calibration Filter */}
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={flaggedOnly}
+                  onChange={(e) => setFlaggedOnly(e.target.checked)}
+                  className="h-4 w-4"
+                />
+                Only questions flagged by calibration
+              </label>
+
             {/* Results Count */}
             <div className="mt-4 pt-4 border-t border-gray-200 text-sm text-gray-600">
               Showing {filteredQuestions.length} of {allQuestions.length} question{allQuestions.length !== 1 ? 's' : ''}
@@ -493,6 +606,9 @@ export default function AdminQuestionsPage() {
                   <th className="text-left px-6 py-3 font-medium text-gray-700 whitespace-nowrap">
                     Difficulty
                   </th>
+                  <th className="text-left px-6 py-3 font-medium text-gray-700 whitespace-nowrap">
+                    Observed
+                  </th>
                   <th className="text-left px-6 py-3 font-medium text-gray-700 whitespace-nowrap">
                     Marks
                   </th>
@@ -521,11 +637,12 @@ export default function AdminQuestionsPage() {
                     <td className="px-6 py-3 text-gray-700 whitespace-nowrap">{q.topic}</td>
                     <td className="px-6 py-3 text-gray-700 whitespace-nowrap">{q.subtopic || 'N/A'}</td>
                     <td className="px-6 py-3 text-gray-700 whitespace-nowrap">
-                      {q.type === "mcq_single"
-                        ? "MCQ (Single)"
-                        : q.type === "mcq_multiple"
-                        ? "MCQ (Multiple)"
-                        : "Numerical"}
+                      {QUESTION_TYPE_LABELS[q.type]}
+                      {q.template && (
+                        <span className="block text-xs text-gray-500">
+                          {QUESTION_TEMPLATE_LABELS[q.template]}
+                        </span>
+                      )}
                     </td>
                     <td className="px-6 py-3 whitespace-nowrap">
                       <span
@@ -542,6 +659,37 @@ export default function AdminQuestionsPage() {
                           q.difficulty.slice(1)}
                       </span>
                     </td>
+                    <td className="px-6 py-3 whitespace-nowrap">
+                      {(() => {
+                        const stats = questionStats.get(q.id);
+                        if (!stats) {
+                          return <span className="text-gray-400 text-xs">—</span>;
+                        }
+                        const flags = calibrationFlags.get(q.id) ?? [];
+                        return (
+                          <div className="space-y-1">
+                            <p className="text-xs text-gray-900">
+                              {stats.observedDifficulty
+                                ? stats.observedDifficulty.charAt(0).toUpperCase() +
+                                  stats.observedDifficulty.slice(1)
+                                : "Too few responses"}
+                            </p>
+                            <p className="text-xs text-gray-500">
+                              {stats.percentCorrect}% correct · D{" "}
+                              {stats.discriminationIndex ?? "—"} · n={stats.responseCount}
+                            </p>
+                            {flags.map((flag) => (
+                              <span
+                                key={flag}
+                                className="inline-flex mr-1 items-center px-2 py-0.5 rounded-full text-xs font-medium bg-red-50 text-red-700"
+                              >
+                                {CALIBRATION_FLAG_LABELS[flag]}
+                              </span>
+                            ))}
+                          </div>
+                        );
+                      })()}
+                    </td>
                     <td className="px-6 py-3 text-gray-700 whitespace-nowrap">{q.marks}</td>
                     <td className="px-6 py-3 whitespace-nowrap">
                       <div className="flex items-center gap-2">
@@ -0,0 +1,251 @@
+// app/admin/tests/[id]/attempts/page.tsx
+"use client";
+
+import { Fragment, useCallback, useEffect, useState } from "react";
+import { useRouter, useParams } from "next/navigation";
+import Link from "next/link";
+import { useAuth } from "@/context/AuthContext";
+import { useUserProfile } from "@/lib/hooks/useUserProfile";
+import { getTestById } from "@/lib/db/tests";
+import { listTestAttempts } from "@/lib/db/attempts";
+import { getUserById } from "@/lib/db/users";
+import type { Test } from "@/lib/types/test";
+import type { Attempt, AttemptStatus } from "@/lib/types/attempt";
+import { INTEGRITY_EVENT_LABELS, isViolation } from "@/lib/utils/integrity";
+
+const STATUS_LABELS: Record<AttemptStatus, string> = {
+  in_progress: "In progress",
+  submitted: "Submitted",
+  expired: "Expired",
+};
+
+export default function TestAttemptsPage() {
+  const router = useRouter();
+  const params = useParams();
+  const testId = params?.id as string;
+  const { user, loading: authLoading } = useAuth();
+  const { role, loading: profileLoading } = useUserProfile();
+
+  const [test, setTest] = useState<Test | null>(null);
+  const [attempts, setAttempts] = useState<Attempt[]>([]);
+  const [studentNames, setStudentNames] = useState<Map<string, string>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const fetchAttempts = useCallback(async () => {
+    if (!testId) return;
+
+    console.log("[TestAttemptsPage] Fetching attempts for test:", testId);
+    setLoading(true);
+    setError(null);
+
+    try {
+      const [testData, attemptData] = await Promise.all([
+        getTestById(testId),
+        listTestAttempts(testId),
+      ]);
+      if (!testData) {
+        setError("Test not found.");
+        return;
+      }
+
+      const userIds = Array.from(new Set(attemptData.map((attempt) => attempt.userId)));
+      const users = await Promise.all(userIds.map((uid) => getUserById(uid)));
+      const names = new Map<string, string>();
+      users.forEach((appUser) => {
+        if (appUser) names.set(appUser.uid, appUser.displayName || appUser.email || appUser.uid);
+      });
+
+      setTest(testData);
+      setAttempts(attemptData);
+      setStudentNames(names);
+    } catch (err) {
+      console.error("[TestAttemptsPage] Error loading attempts:", err);
+      setError(err instanceof Error ? err.message : "Failed to load attempts.");
+    } finally {
+      setLoading(false);
+    }
+  }, [testId]);
+
+  useEffect(() => {
+    if (authLoading || profileLoading) return;
+
+    if (!user) {
+      router.replace("/login");
+      return;
+    }
+
+    if (role !== "admin") {
+      router.replace("/dashboard");
+      return;
+    }
+
+    fetchAttempts();
+  }, [authLoading, profileLoading, user, role, router, fetchAttempts]);
+
+  if (authLoading || profileLoading) {
+    return (
+      <div className="p-8 bg-gray-50 min-h-screen flex items-center justify-center">
+        <p className="text-gray-600">Checking admin access...</p>
+      </div>
+    );
+  }
+
+  if (!user || role !== "admin") {
+    return (
+      <div className="p-8 bg-gray-50 min-h-screen flex items-center justify-center">
+        <p className="text-gray-600">Redirecting...</p>
+      </div>
+    );
+  }
+
+  const visibleAttempts = flaggedOnly
+    ? attempts.filter((attempt) => (attempt.violationCount ?? 0) > 0)
+    : attempts;
+
+  return (
+    <div className="pt-16 md:pt-8 p-4 md:p-8 bg-gray-50 min-h-screen">
+      <div className="mb-6">
+        <Link
+          href={`/admin/tests/${testId}`}
+          className="text-sm text-blue-600 hover:text-blue-800 underline mb-2 inline-block"
+        >
+          ← Back to Test
+        </Link>
+        <h1 className="text-2xl font-semibold text-gray-900 mb-1">
+          Attempts{test ? ` - ${test.title}` : ""}
+        </h1>
+        <p className="text-sm text-gray-600">
+          {test?.proctored
+            ? "Open an attempt to see its integrity log."
+            : "This test is not proctored, so no integrity events are recorded."}
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-4 text-sm text-red-600 bg-red-50 border border-red-200 rounded p-2">
+          {error}
+        </div>
+      )}
+
+      <label className="mb-4 flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          className="h-4 w-4"
+          checked={flaggedOnly}
+          onChange={(e) => setFlaggedOnly(e.target.checked)}
+        />
+        Only attempts with violations
+      </label>
+
+      {loading ? (
+        <p className="text-sm text-gray-600">Loading attempts...</p>
+      ) : visibleAttempts.length === 0 ? (
+        <div className="bg-white border border-dashed border-gray-300 rounded-lg p-6 text-center">
+          <p className="text-sm text-gray-600">No attempts to show.</p>
+        </div>
+      ) : (
+        <div className="bg-white border border-gray-200 rounded-lg shadow-sm overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 text-left text-xs text-gray-500 uppercase">
+              <tr>
+                <th className="px-4 py-3 font-medium">Student</th>
+                <th className="px-4 py-3 font-medium">Attempt</th>
+                <th className="px-4 py-3 font-medium">Started</th>
+                <th className="px-4 py-3 font-medium">Status</th>
+                <th className="px-4 py-3 font-medium">Score</th>
+                <th className="px-4 py-3 font-medium">Violations</th>
+                <th className="px-4 py-3 font-medium"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {visibleAttempts.map((attempt) => {
+                const events = attempt.integrityEvents ?? [];
+                const isExpanded = expandedId === attempt.id;
+                return (
+                  <Fragment key={attempt.id}>
+                    <tr>
+                      <td className="px-4 py-3 text-gray-900">
+                        {studentNames.get(attempt.userId) ?? attempt.userId}
+                      </td>
+                      <td className="px-4 py-3 text-gray-700">
+                        #{attempt.attemptNumber ?? 1}
+                        {attempt.isRanked === false && " (practice)"}
+                      </td>
+                      <td className="px-4 py-3 text-gray-700">
+                        {attempt.startedAt?.toDate().toLocaleString("en-IN")}
+                      </td>
+                      <td className="px-4 py-3 text-gray-700">
+                        {STATUS_LABELS[attempt.status]}
+                        {attempt.autoSubmittedForViolations && (
+                          <span className="ml-2 text-xs px-2 py-0.5 rounded-full bg-red-50 text-red-700 font-medium">
+                            Auto-submitted
+                          </span>
+                        )}
+                        {attempt.submittedOffline && (
+                          <span className="ml-2 text-xs px-2 py-0.5 rounded-full bg-yellow-50 text-yellow-800 font-medium">
+                            Synced after deadline
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-gray-700">
+                        {attempt.result
+                          ? `${attempt.result.totalScore} / ${attempt.result.maxScore}`
+                          : "-"}
+                      </td>
+                      <td
+                        className={`px-4 py-3 font-medium ${
+                          (attempt.violationCount ?? 0) > 0 ? "text-red-600" : "text-gray-700"
+                        }`}
+                      >
+                        {attempt.violationCount ?? 0}
+                        {test?.maxViolations ? ` / ${test.maxViolations}` : ""}
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        {events.length > 0 && (
+                          <button
+                            onClick={() => setExpandedId(isExpanded ? null : attempt.id)}
+                            className="text-blue-600 hover:text-blue-800 underline"
+                          >
+                            {isExpanded ? "Hide log" : `View log (${events.length})`}
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                    {isExpanded && test && (
+                      <tr>
+                        <td colSpan={7} className="px-4 py-3 bg-gray-50">
+                          <ol className="space-y-1">
+                            {events.map((event, index) => (
+                              <li key={index} className="flex gap-4 text-xs">
+                                <span className="font-mono text-gray-500 w-24 shrink-0">
+                                  {new Date(event.clientAt).toLocaleTimeString("en-IN")}
+                                </span>
+                                <span
+                                  className={
+                                    isViolation(test, event.type) ? "text-red-700" : "text-gray-700"
+                                  }
+                                >
+                                  {INTEGRITY_EVENT_LABELS[event.type]}
+                                </span>
+                                <span className="text-gray-400">
+                                  recorded {event.at?.toDate().toLocaleTimeString("en-IN")}
+                                </span>
+                              </li>
+                            ))}
+                          </ol>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
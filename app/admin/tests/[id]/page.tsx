@@ -1,15 +1,20 @@
 // app/admin/tests/[id]/page.tsx
 "use client";
 
-import { useEffect, useState, useCallback } from "react";
+import { Fragment, useEffect, useState, useCallback, useMemo } from "react";
 import { useRouter, useParams } from "next/navigation";
 import Link from "next/link";
 import { useAuth } from "@/context/AuthContext";
 import { useUserProfile } from "@/lib/hooks/useUserProfile";
 import { getTestById, updateTest } from "@/lib/db/tests";
 import { getQuestionById } from "@/lib/db/questions";
+import { rebuildTestStats } from "@/lib/api/tests";
 import type { Test } from "@/lib/types/test";
 import type { Question } from "@/lib/types/question";
+import { MARKING_SCHEMES } from "@/lib/utils/scoring";
+import { getSectionRanges, sortQuestionsBySection } from "@/lib/utils/sections";
+import { formatScheduleTime } from "@/lib/utils/schedule";
+import { QUESTION_TYPE_LABELS } from "@/lib/utils/questionTypes";
 
 export default function ViewTestPage() {
   const router = useRouter();
@@ -22,6 +27,8 @@ export default function ViewTestPage() {
   const [questions, setQuestions] = useState<Map<string, Question>>(new Map());
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [rebuildingStats, setRebuildingStats] = useState(false);
+  const [statsMessage, setStatsMessage] = useState<string | null>(null);
 
   const fetchTest = useCallback(async () => {
     if (!testId) return;
@@ -65,6 +72,61 @@ export default function ViewTestPage() {
     }
   }, [testId]);
 
+  // Questions in paper order, grouped by section
+  const orderedQuestions = useMemo(
+    () => (test ? sortQuestionsBySection(test.questions, test.sections, (tq) => tq) : []),
+    [test]
+  );
+  const sectionRanges = useMemo(
+    () => getSectionRanges(orderedQuestions, test?.sections, (tq) => tq),
+    [orderedQuestions, test]
+  );
+
+  // Move a question (with the rest of its passage) to another section and renumber the paper
+  const handleMoveToSection = useCallback(
+    async (questionId: string, sectionId: string) => {
+      if (!test) return;
+
+      try {
+        const passageId = test.questions.find((q) => q.questionId === questionId)?.passageId;
+        const moved = [...test.questions]
+          .sort((a, b) => a.order - b.order)
+          .map((q) =>
+            q.questionId === questionId || (passageId && q.passageId === passageId)
+              ? { ...q, sectionId, order: Number.MAX_SAFE_INTEGER }
+              : q
+          );
+        const updatedQuestions = sortQuestionsBySection(moved, test.sections, (q) => q).map(
+          (q, idx) => ({ ...q, order: idx + 1 })
+        );
+
+        await updateTest(testId, { questions: updatedQuestions });
+        setTest((prev) => (prev ? { ...prev, questions: updatedQuestions } : null));
+      } catch (err) {
+        console.error("[ViewTestPage] Error moving question to section:", err);
+        const errorMessage =
+          err instanceof Error ? err.message : "Failed to move question.";
+        setError(errorMessage);
+      }
+    },
+    [test, testId]
+  );
+
+  // Recompute ranks, percentiles and the leaderboard from all attempts
+  const handleRebuildStats = async () => {
+    setRebuildingStats(true);
+    setStatsMessage(null);
+    try {
+      const { participantCount } = await rebuildTestStats(testId);
+      setStatsMessage(`Rank stats recomputed for ${participantCount} students.`);
+    } catch (err) {
+      console.error("[ViewTestPage] Error rebuilding test stats:", err);
+      setStatsMessage(err instanceof Error ? err.message : "Failed to recompute rank stats.");
+    } finally {
+      setRebuildingStats(false);
+    }
+  };
+
   useEffect(() => {
     if (authLoading || profileLoading) return;
 
@@ -141,6 +203,23 @@ export default function ViewTestPage() {
               {test.title}
             </h1>
           </div>
+          <div className="text-right">
+            <Link
+              href={`/admin/tests/${test.id}/attempts`}
+              className="mr-2 px-4 py-2 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-100 inline-block"
+            >
+              Attempts
+            </Link>
+            <button
+              type="button"
+              onClick={handleRebuildStats}
+              disabled={rebuildingStats}
+              className="px-4 py-2 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+            >
+              {rebuildingStats ? "Recomputing..." : "Recompute rank stats"}
+            </button>
+            {statsMessage && <p className="text-xs text-gray-600 mt-1">{statsMessage}</p>}
+          </div>
         </div>
 
         <div className="bg-white border border-gray-200 rounded-lg p-6 shadow-sm space-y-6">
@@ -164,6 +243,59 @@ export default function ViewTestPage() {
                 {test.questions.reduce((sum, q) => sum + q.marks, 0)}
               </p>
             </div>
+            <div>
+              <p className="text-xs text-gray-500 mb-1">Randomisation</p>
+              <p className="text-sm font-medium text-gray-900">
+                {[
+                  test.shuffleQuestions && "Questions shuffled",
+                  test.shuffleOptions && "Options shuffled",
+                ]
+                  .filter(Boolean)
+                  .join(", ") || "Fixed order"}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-gray-500 mb-1">Attempts</p>
+              <p className="text-sm font-medium text-gray-900">
+                {test.maxAttempts ? `Up to ${test.maxAttempts}` : "Unlimited"}
+                {test.maxAttempts !== 1 &&
+                  ` · re-attempts ${test.reattemptMode === "ranked" ? "ranked" : "practice only"}`}
+                {test.reattemptCooldownMinutes
+                  ? ` · ${test.reattemptCooldownMinutes} min cooldown`
+                  : ""}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-gray-500 mb-1">Proctoring</p>
+              <p className="text-sm font-medium text-gray-900">
+                {test.proctored
+                  ? [
+                      "On",
+                      test.requireFullscreen && "fullscreen required",
+                      test.maxViolations
+                        ? `auto-submit after ${test.maxViolations} violations`
+                        : "no auto-submit",
+                    ]
+                      .filter(Boolean)
+                      .join(" · ")
+                  : "Off"}
+              </p>
+            </div>
+            {(test.startsAt || test.endsAt) && (
+              <div className="col-span-2 md:col-span-3">
+                <p className="text-xs text-gray-500 mb-1">
+                  Schedule{test.liveMode ? " (live test)" : ""}
+                </p>
+                <p className="text-sm font-medium text-gray-900">
+                  {test.startsAt ? formatScheduleTime(test.startsAt.toMillis()) : "Open now"}
+                  {" → "}
+                  {test.endsAt ? formatScheduleTime(test.endsAt.toMillis()) : "No closing time"}
+                  {test.lateEntryMinutes !== null &&
+                    test.lateEntryMinutes !== undefined &&
+                    ` · late entry up to ${test.lateEntryMinutes} min`}
+                </p>
+              </div>
+            )}
           </div>
 
           {test.description && (
@@ -177,8 +309,11 @@ export default function ViewTestPage() {
           <div>
             <p className="text-xs text-gray-500 mb-2">Questions</p>
             <div className="space-y-3">
-              {test.questions.map((tq, index) => {
+              {orderedQuestions.map((tq, index) => {
                 const question = questions.get(tq.questionId);
+                const sectionStart = sectionRanges.find(
+                  (range) => range.section && range.startIndex === index
+                );
                 const handleQuestionClick = () => {
                   if (question) {
                     router.push(`/admin/questions/${tq.questionId}?fromTest=${testId}`);
@@ -227,78 +362,120 @@ export default function ViewTestPage() {
                   }
                 };
                 return (
-                  <div
-                    key={tq.questionId}
-                    onClick={handleQuestionClick}
-                    className={`border border-gray-200 rounded p-4 bg-gray-50 ${
-                      question ? "cursor-pointer hover:bg-gray-100 hover:border-gray-300 transition-colors" : ""
-                    }`}
-                  >
-                    <div className="flex items-start justify-between mb-2">
-                      <div className="flex-1">
-                        <div className="flex items-center gap-2 mb-1 flex-wrap">
-                          <span className="text-sm font-medium text-gray-900">
-                            Q{index + 1}.
+                  <Fragment key={tq.questionId}>
+                    {sectionStart?.section && (
+                      <div className="pt-3">
+                        <div className="flex items-baseline justify-between border-b border-gray-300 pb-1">
+                          <h3 className="text-sm font-semibold text-gray-900">
+                            {sectionStart.section.name}
+                          </h3>
+                          <span className="text-xs text-gray-500">
+                            {sectionStart.endIndex - sectionStart.startIndex} questions
+                            {sectionStart.section.timeLimitMinutes !== null &&
+                              ` · ${sectionStart.section.timeLimitMinutes} min`}
+                            {sectionStart.section.attemptLimit
+                              ? ` · attempt any ${sectionStart.section.attemptLimit}`
+                              : null}
                           </span>
-                          {question?.customId && (
-                            <span className="font-mono text-xs font-semibold text-blue-700 bg-blue-50 px-2 py-0.5 rounded">
-                              {question.customId}
+                        </div>
+                        {sectionStart.section.instructions && (
+                          <p className="mt-1 text-xs text-gray-600 whitespace-pre-line">
+                            {sectionStart.section.instructions}
+                          </p>
+                        )}
+                      </div>
+                    )}
+                    <div
+                      onClick={handleQuestionClick}
+                      className={`border border-gray-200 rounded p-4 bg-gray-50 ${
+                        question ? "cursor-pointer hover:bg-gray-100 hover:border-gray-300 transition-colors" : ""
+                      }`}
+                    >
+                      <div className="flex items-start justify-between mb-2">
+                        <div className="flex-1">
+                          <div className="flex items-center gap-2 mb-1 flex-wrap">
+                            <span className="text-sm font-medium text-gray-900">
+                              Q{index + 1}.
                             </span>
-                          )}
-                          {question ? (
-                            <>
-                              <span className="text-xs text-gray-600">
-                                {question.subject}
-                                {question.chapter && ` / ${question.chapter}`}
-                                {question.topic && ` / ${question.topic}`}
+                            {question?.customId && (
+                              <span className="font-mono text-xs font-semibold text-blue-700 bg-blue-50 px-2 py-0.5 rounded">
+                                {question.customId}
                               </span>
-                              <span className="text-xs px-2 py-0.5 rounded bg-gray-200 text-gray-700">
-                                {question.type === "mcq_single"
-                                  ? "MCQ (Single)"
-                                  : question.type === "mcq_multiple"
-                                  ? "MCQ (Multiple)"
-                                  : "Numerical"}
+                            )}
+                            {question ? (
+                              <>
+                                <span className="text-xs text-gray-600">
+                                  {question.subject}
+                                  {question.chapter && ` / ${question.chapter}`}
+                                  {question.topic && ` / ${question.topic}`}
+                                </span>
+                                <span className="text-xs px-2 py-0.5 rounded bg-gray-200 text-gray-700">
+                                  {QUESTION_TYPE_LABELS[question.type]}
+                                </span>
+                              </>
+                            ) : (
+                              <span className="text-xs text-gray-500">
+                                Question not found
                               </span>
-                            </>
-                          ) : (
-                            <span className="text-xs text-gray-500">
-                              Question not found
-                            </span>
+                            )}
+                          </div>
+                          {question && (
+                            <div className="text-sm text-gray-700 mt-2 line-clamp-2">
+                              <div
+                                dangerouslySetInnerHTML={{
+                                  __html: question.text.substring(0, 200) + "...",
+                                }}
+                              />
+                            </div>
                           )}
                         </div>
-                        {question && (
-                          <div className="text-sm text-gray-700 mt-2 line-clamp-2">
-                            <div
-                              dangerouslySetInnerHTML={{
-                                __html: question.text.substring(0, 200) + "...",
-                              }}
-                            />
-                          </div>
-                        )}
-                      </div>
-                      <div className="ml-4 flex flex-col items-end gap-2">
-                        <div className="text-right">
-                          <div className="text-xs text-gray-500 mb-1">Scoring</div>
-                          <div className="text-sm font-medium text-gray-900">
-                            +{tq.marks}
-                          </div>
-                          {tq.negativeMarks > 0 && (
-                            <div className="text-xs text-red-600">
-                              -{tq.negativeMarks}
+                        <div className="ml-4 flex flex-col items-end gap-2">
+                          <div className="text-right">
+                            <div className="text-xs text-gray-500 mb-1">Scoring</div>
+                            <div className="text-sm font-medium text-gray-900">
+                              +{tq.marks}
                             </div>
+                            {tq.negativeMarks > 0 && (
+                              <div className="text-xs text-red-600">
+                                -{tq.negativeMarks}
+                              </div>
+                            )}
+                            {question?.type === "mcq_multiple" && (
+                              <div className="text-xs text-gray-500">
+                                {MARKING_SCHEMES.find(
+                                  (s) => s.value === (tq.markingScheme ?? "all_or_nothing")
+                                )?.label}
+                              </div>
+                            )}
+                          </div>
+                          <button
+                            onClick={handleDeleteFromTest}
+                            className="text-xs px-2 py-1 rounded border border-red-300 text-red-700 hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-red-400 focus:ring-offset-1 transition-colors"
+                            aria-label={`Remove question ${tq.questionId} from test`}
+                            title="Remove from test (does not delete from question bank)"
+                          >
+                            Remove
+                          </button>
+                          {test.sections && test.sections.length > 0 && (
+                            <select
+                              value={tq.sectionId ?? ""}
+                              onClick={(e) => e.stopPropagation()}
+                              onChange={(e) => handleMoveToSection(tq.questionId, e.target.value)}
+                              className="text-xs border border-gray-300 rounded px-1 py-1 focus:outline-none focus:ring-2 focus:ring-black"
+                              aria-label={`Section for question ${index + 1}`}
+                            >
+                              {!tq.sectionId && <option value="">No section</option>}
+                              {test.sections.map((s) => (
+                                <option key={s.id} value={s.id}>
+                                  {s.name}
+                                </option>
+                              ))}
+                            </select>
                           )}
                         </div>
-                        <button
-                          onClick={handleDeleteFromTest}
-                          className="text-xs px-2 py-1 rounded border border-red-300 text-red-700 hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-red-400 focus:ring-offset-1 transition-colors"
-                          aria-label={`Remove question ${tq.questionId} from test`}
-                          title="Remove from test (does not delete from question bank)"
-                        >
-                          Remove
-                        </button>
                       </div>
                     </div>
-                  </div>
+                  </Fragment>
                 );
               })}
             </div>
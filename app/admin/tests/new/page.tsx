@@ -1,14 +1,33 @@
 "use client";
 
-import { FormEvent, useCallback, useState, useEffect } from "react";
+import { FormEvent, useCallback, useMemo, useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
+import { Timestamp } from "firebase/firestore";
 import { useAuth } from "@/context/AuthContext";
 import { useUserProfile } from "@/lib/hooks/useUserProfile";
 import { createTest } from "@/lib/db/tests";
 import { listQuestions } from "@/lib/db/questions";
 import type { Question } from "@/lib/types/question";
-import type { TestInput, TestQuestion } from "@/lib/types/test";
+import type { MarkingScheme, ReattemptMode, TestInput, TestQuestion } from "@/lib/types/test";
 import { sanitizeInput } from "@/lib/utils/validation";
+import { MARKING_SCHEMES } from "@/lib/utils/scoring";
+import { buildTestSections, type TestSectionDraft } from "@/lib/utils/sections";
+import {
+  getLiveDurationMinutes,
+  parseTestSchedule,
+  type TestScheduleDraft,
+} from "@/lib/utils/schedule";
+import { REATTEMPT_MODES } from "@/lib/utils/attemptPolicy";
+import { findSplitPassage, groupPassageQuestions } from "@/lib/utils/passages";
+import TestSectionsEditor from "@/components/admin/TestSectionsEditor";
+import { QUESTION_TYPE_LABELS } from "@/lib/utils/questionTypes";
+
+interface SelectedQuestionScoring {
+  marks: string;
+  negativeMarks: string;
+  markingScheme: MarkingScheme | null; // null for types without partial marking
+  sectionId: string;                   // "" until assigned (tests with sections)
+}
 
 export default function NewTestPage() {
   const router = useRouter();
@@ -18,8 +37,23 @@ export default function NewTestPage() {
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
   const [durationMinutes, setDurationMinutes] = useState<string>("60");
+  const [sections, setSections] = useState<TestSectionDraft[]>([]);
+  const [shuffleQuestions, setShuffleQuestions] = useState(false);
+  const [shuffleOptions, setShuffleOptions] = useState(false);
+  const [maxAttempts, setMaxAttempts] = useState("");
+  const [reattemptMode, setReattemptMode] = useState<ReattemptMode>("practice");
+  const [reattemptCooldown, setReattemptCooldown] = useState("");
+  const [proctored, setProctored] = useState(false);
+  const [requireFullscreen, setRequireFullscreen] = useState(false);
+  const [maxViolations, setMaxViolations] = useState("");
+  const [schedule, setSchedule] = useState<TestScheduleDraft>({
+    startsAt: "",
+    endsAt: "",
+    lateEntryMinutes: "",
+    liveMode: false,
+  });
   const [questions, setQuestions] = useState<Question[]>([]);
-  const [selectedQuestions, setSelectedQuestions] = useState<Map<string, { marks: string; negativeMarks: string }>>(new Map());
+  const [selectedQuestions, setSelectedQuestions] = useState<Map<string, SelectedQuestionScoring>>(new Map());
   const [loadingQuestions, setLoadingQuestions] = useState(true);
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -45,22 +79,35 @@ export default function NewTestPage() {
     }
   }, [user, role]);
 
+  // Questions that must be added, removed and assigned together (a passage's questions)
+  const getQuestionGroup = useCallback(
+    (question: Question) =>
+      question.passageId ? questions.filter((q) => q.passageId === question.passageId) : [question],
+    [questions]
+  );
+
   // Handle question selection
   const handleQuestionToggle = useCallback((questionId: string, question: Question) => {
+    const group = getQuestionGroup(question);
     setSelectedQuestions((prev) => {
       const newMap = new Map(prev);
       if (newMap.has(questionId)) {
-        newMap.delete(questionId);
+        group.forEach((q) => newMap.delete(q.id));
       } else {
         // Initialize with question's default marks and penalty
-        newMap.set(questionId, {
-          marks: question.marks.toString(),
-          negativeMarks: question.penalty.toString(),
+        group.forEach((q) => {
+          if (newMap.has(q.id)) return;
+          newMap.set(q.id, {
+            marks: q.marks.toString(),
+            negativeMarks: q.penalty.toString(),
+            markingScheme: q.type === "mcq_multiple" ? "all_or_nothing" : null,
+            sectionId: newMap.get(questionId)?.sectionId ?? "",
+          });
         });
       }
       return newMap;
     });
-  }, []);
+  }, [getQuestionGroup]);
 
   // Handle marks change for selected question
   const handleMarksChange = useCallback((questionId: string, field: "marks" | "negativeMarks", value: string) => {
@@ -77,6 +124,67 @@ export default function NewTestPage() {
     });
   }, []);
 
+  // Handle marking scheme change for a selected mcq_multiple question
+  const handleSchemeChange = useCallback((questionId: string, markingScheme: MarkingScheme) => {
+    setSelectedQuestions((prev) => {
+      const newMap = new Map(prev);
+      const current = newMap.get(questionId);
+      if (current) {
+        newMap.set(questionId, { ...current, markingScheme });
+      }
+      return newMap;
+    });
+  }, []);
+
+  // Handle section assignment for a selected question (a passage moves as a whole)
+  const handleSectionAssign = useCallback((question: Question, sectionId: string) => {
+    setSelectedQuestions((prev) => {
+      const newMap = new Map(prev);
+      for (const q of getQuestionGroup(question)) {
+        const current = newMap.get(q.id);
+        if (current) {
+          newMap.set(q.id, { ...current, sectionId });
+        }
+      }
+      return newMap;
+    });
+  }, [getQuestionGroup]);
+
+  // Keep question assignments valid when sections change
+  const handleSectionsChange = useCallback((next: TestSectionDraft[]) => {
+    setSections(next);
+    const validIds = new Set(next.map((s) => s.id));
+    setSelectedQuestions((prev) => {
+      const newMap = new Map(prev);
+      for (const [questionId, scoring] of newMap.entries()) {
+        if (scoring.sectionId && !validIds.has(scoring.sectionId)) {
+          newMap.set(questionId, { ...scoring, sectionId: "" });
+        }
+      }
+      return newMap;
+    });
+  }, []);
+
+  const sectionQuestionCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    for (const scoring of selectedQuestions.values()) {
+      if (scoring.sectionId) {
+        counts[scoring.sectionId] = (counts[scoring.sectionId] ?? 0) + 1;
+      }
+    }
+    return counts;
+  }, [selectedQuestions]);
+
+  // Timed sections run back to back, so they fix the test duration
+  const sectionalDuration = useMemo(() => {
+    if (sections.length === 0 || sections.some((s) => s.timeLimit.trim() === "")) return null;
+    return sections.reduce((sum, s) => sum + (Number(s.timeLimit) || 0), 0);
+  }, [sections]);
+
+  // Live tests run from their start time to their end time
+  const liveDuration = getLiveDurationMinutes(schedule);
+  const fixedDuration = sectionalDuration ?? liveDuration;
+
   const handleSubmit = useCallback(
     async (e: FormEvent<HTMLFormElement>) => {
       e.preventDefault();
@@ -90,7 +198,7 @@ export default function NewTestPage() {
       // Basic validation
       const sanitizedTitle = sanitizeInput(title).trim();
       const sanitizedDescription = sanitizeInput(description).trim();
-      const parsedDuration = Number(durationMinutes);
+      const parsedDuration = fixedDuration ?? Number(durationMinutes);
 
       if (!sanitizedTitle) {
         setError("Test title is required.");
@@ -107,8 +215,45 @@ export default function NewTestPage() {
         return;
       }
 
+      const { sections: builtSections, error: sectionsError } = buildTestSections(sections);
+      if (!builtSections) {
+        setError(sectionsError);
+        return;
+      }
+
+      const { schedule: parsedSchedule, error: scheduleError } = parseTestSchedule(schedule);
+      if (!parsedSchedule) {
+        setError(scheduleError);
+        return;
+      }
+      if (parsedSchedule.liveMode && sectionalDuration !== null) {
+        setError("Timed sections cannot be used in a live test.");
+        return;
+      }
+
+      const parsedMaxAttempts = maxAttempts.trim() === "" ? null : Number(maxAttempts);
+      if (parsedMaxAttempts !== null && (!Number.isInteger(parsedMaxAttempts) || parsedMaxAttempts < 1)) {
+        setError("Maximum attempts must be a positive whole number (or empty for unlimited).");
+        return;
+      }
+      const parsedCooldown = reattemptCooldown.trim() === "" ? null : Number(reattemptCooldown);
+      if (parsedCooldown !== null && (Number.isNaN(parsedCooldown) || parsedCooldown < 0)) {
+        setError("Re-attempt cooldown cannot be negative.");
+        return;
+      }
+      const parsedMaxViolations =
+        !proctored || maxViolations.trim() === "" ? null : Number(maxViolations);
+      if (
+        parsedMaxViolations !== null &&
+        (!Number.isInteger(parsedMaxViolations) || parsedMaxViolations < 1)
+      ) {
+        setError("Violation limit must be a positive whole number (or empty for no auto-submit).");
+        return;
+      }
+
       // Validate marks for each selected question
       const testQuestions: TestQuestion[] = [];
+      const questionsById = new Map(questions.map((q) => [q.id, q]));
       let order = 0;
 
       for (const [questionId, scoring] of selectedQuestions.entries()) {
@@ -125,14 +270,71 @@ export default function NewTestPage() {
           return;
         }
 
+        if (builtSections.length > 0 && !scoring.sectionId) {
+          setError(`Question ${order + 1} must be assigned to a section.`);
+          return;
+        }
+
         testQuestions.push({
           questionId,
           marks,
           negativeMarks,
           order: order++,
+          ...(scoring.markingScheme && { markingScheme: scoring.markingScheme }),
+          ...(builtSections.length > 0 && { sectionId: scoring.sectionId }),
+          ...(questionsById.get(questionId)?.passageId && {
+            passageId: questionsById.get(questionId)!.passageId!,
+          }),
         });
       }
 
+      if (findSplitPassage(testQuestions)) {
+        setError("Questions of the same passage must all be in one section.");
+        return;
+      }
+
+      const emptySection = builtSections.find(
+        (s) => !testQuestions.some((tq) => tq.sectionId === s.id)
+      );
+      if (emptySection) {
+        setError(`Section "${emptySection.name}" has no questions.`);
+        return;
+      }
+
+      const overLimitSection = builtSections.find(
+        (s) =>
+          s.attemptLimit &&
+          s.attemptLimit > testQuestions.filter((tq) => tq.sectionId === s.id).length
+      );
+      if (overLimitSection) {
+        setError(
+          `"Attempt any" for section "${overLimitSection.name}" is more than its number of questions.`
+        );
+        return;
+      }
+
+      // Number questions section by section so the stored order matches the paper
+      if (builtSections.length > 0) {
+        const sectionIndex = new Map(builtSections.map((s, index) => [s.id, index]));
+        testQuestions
+          .sort(
+            (a, b) =>
+              sectionIndex.get(a.sectionId!)! - sectionIndex.get(b.sectionId!)! || a.order - b.order
+          )
+          .forEach((tq, index) => {
+            tq.order = index;
+          });
+      }
+
+      // Keep each passage's questions next to each other in the paper
+      const orderedQuestions = groupPassageQuestions(
+        [...testQuestions].sort((a, b) => a.order - b.order),
+        (tq) => tq
+      );
+      orderedQuestions.forEach((tq, index) => {
+        tq.order = index;
+      });
+
       setSubmitting(true);
       setError(null);
 
@@ -141,7 +343,24 @@ export default function NewTestPage() {
           title: sanitizedTitle,
           description: sanitizedDescription,
           durationMinutes: parsedDuration,
-          questions: testQuestions,
+          questions: orderedQuestions,
+          ...(builtSections.length > 0 && { sections: builtSections }),
+          shuffleQuestions,
+          shuffleOptions,
+          startsAt:
+            parsedSchedule.startsAtMs !== null
+              ? Timestamp.fromMillis(parsedSchedule.startsAtMs)
+              : null,
+          endsAt:
+            parsedSchedule.endsAtMs !== null ? Timestamp.fromMillis(parsedSchedule.endsAtMs) : null,
+          lateEntryMinutes: parsedSchedule.lateEntryMinutes,
+          liveMode: parsedSchedule.liveMode,
+          maxAttempts: parsedMaxAttempts,
+          reattemptMode,
+          reattemptCooldownMinutes: parsedCooldown,
+          proctored,
+          requireFullscreen: proctored && requireFullscreen,
+          maxViolations: parsedMaxViolations,
         };
 
         console.log("[NewTestPage] Final TestInput:", input);
@@ -158,7 +377,27 @@ export default function NewTestPage() {
         setSubmitting(false);
       }
     },
-    [user, title, description, durationMinutes, selectedQuestions, router]
+    [
+      user,
+      title,
+      description,
+      durationMinutes,
+      sectionalDuration,
+      fixedDuration,
+      sections,
+      shuffleQuestions,
+      shuffleOptions,
+      schedule,
+      maxAttempts,
+      reattemptMode,
+      reattemptCooldown,
+      proctored,
+      requireFullscreen,
+      maxViolations,
+      selectedQuestions,
+      questions,
+      router,
+    ]
   );
 
   const handleCancel = useCallback(() => {
@@ -264,16 +503,214 @@ export default function NewTestPage() {
                   <input
                     type="number"
                     className="w-full border border-gray-300 rounded px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent"
-                    value={durationMinutes}
+                    value={fixedDuration !== null ? fixedDuration.toString() : durationMinutes}
                     onChange={(e) => setDurationMinutes(e.target.value)}
                     min={1}
                     step="1"
+                    disabled={fixedDuration !== null}
                     required
                   />
+                  {fixedDuration !== null && (
+                    <p className="mt-1 text-xs text-gray-500">
+                      {sectionalDuration !== null
+                        ? "Set by the section time limits."
+                        : "Set by the live test's start and end times."}
+                    </p>
+                  )}
                 </div>
               </div>
             </div>
 
+            {/* Schedule */}
+            <div className="border-b border-gray-200 pb-4">
+              <h2 className="text-lg font-medium text-gray-900 mb-4">Schedule</h2>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block mb-1 text-sm font-medium text-gray-700">Opens at</label>
+                  <input
+                    type="datetime-local"
+                    className="w-full border border-gray-300 rounded px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent"
+                    value={schedule.startsAt}
+                    onChange={(e) => setSchedule((prev) => ({ ...prev, startsAt: e.target.value }))}
+                  />
+                </div>
+                <div>
+                  <label className="block mb-1 text-sm font-medium text-gray-700">Closes at</label>
+                  <input
+                    type="datetime-local"
+                    className="w-full border border-gray-300 rounded px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent"
+                    value={schedule.endsAt}
+                    onChange={(e) => setSchedule((prev) => ({ ...prev, endsAt: e.target.value }))}
+                  />
+                </div>
+                <div>
+                  <label className="block mb-1 text-sm font-medium text-gray-700">
+                    Late entry (minutes after opening)
+                  </label>
+                  <input
+                    type="number"
+                    className="w-full border border-gray-300 rounded px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent"
+                    value={schedule.lateEntryMinutes}
+                    onChange={(e) =>
+                      setSchedule((prev) => ({ ...prev, lateEntryMinutes: e.target.value }))
+                    }
+                    min={0}
+                    step="1"
+                    placeholder="Until closing"
+                  />
+                </div>
+              </div>
+              <label className="mt-3 flex items-start gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4 mt-0.5"
+                  checked={schedule.liveMode}
+                  onChange={(e) => setSchedule((prev) => ({ ...prev, liveMode: e.target.checked }))}
+                />
+                <span>Live test - every attempt ends at the closing time, however late it starts</span>
+              </label>
+              <p className="mt-2 text-xs text-gray-500">
+                Leave the times empty for a test that is always open.
+              </p>
+            </div>
+
+            {/* Sections */}
+            <div className="border-b border-gray-200 pb-4">
+              <h2 className="text-lg font-medium text-gray-900 mb-4">Sections</h2>
+              <TestSectionsEditor
+                sections={sections}
+                onChange={handleSectionsChange}
+                questionCounts={sectionQuestionCounts}
+              />
+            </div>
+
+            {/* Randomisation */}
+            <div className="border-b border-gray-200 pb-4">
+              <h2 className="text-lg font-medium text-gray-900 mb-4">Randomisation</h2>
+              <div className="space-y-2">
+                <label className="flex items-start gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4 mt-0.5"
+                    checked={shuffleQuestions}
+                    onChange={(e) => setShuffleQuestions(e.target.checked)}
+                  />
+                  <span>
+                    Shuffle question order for each student
+                    {sections.length > 0 && " (questions stay within their section)"}
+                  </span>
+                </label>
+                <label className="flex items-start gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4 mt-0.5"
+                    checked={shuffleOptions}
+                    onChange={(e) => setShuffleOptions(e.target.checked)}
+                  />
+                  <span>Shuffle MCQ options for each student (assertion-reason and statement-pair options keep their order)</span>
+                </label>
+              </div>
+            </div>
+
+            {/* Attempts */}
+            <div className="border-b border-gray-200 pb-4">
+              <h2 className="text-lg font-medium text-gray-900 mb-4">Attempts</h2>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block mb-1 text-sm font-medium text-gray-700">
+                    Maximum attempts
+                  </label>
+                  <input
+                    type="number"
+                    className="w-full border border-gray-300 rounded px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent"
+                    value={maxAttempts}
+                    onChange={(e) => setMaxAttempts(e.target.value)}
+                    min={1}
+                    step="1"
+                    placeholder="Unlimited"
+                  />
+                </div>
+                <div>
+                  <label className="block mb-1 text-sm font-medium text-gray-700">
+                    Re-attempts
+                  </label>
+                  <select
+                    className="w-full border border-gray-300 rounded px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent"
+                    value={reattemptMode}
+                    onChange={(e) => setReattemptMode(e.target.value as ReattemptMode)}
+                    disabled={maxAttempts.trim() === "1"}
+                  >
+                    {REATTEMPT_MODES.map((mode) => (
+                      <option key={mode.value} value={mode.value}>
+                        {mode.label}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="mt-1 text-xs text-gray-500">
+                    {REATTEMPT_MODES.find((mode) => mode.value === reattemptMode)?.description}
+                  </p>
+                </div>
+                <div>
+                  <label className="block mb-1 text-sm font-medium text-gray-700">
+                    Cooldown between attempts (minutes)
+                  </label>
+                  <input
+                    type="number"
+                    className="w-full border border-gray-300 rounded px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent"
+                    value={reattemptCooldown}
+                    onChange={(e) => setReattemptCooldown(e.target.value)}
+                    min={0}
+                    step="1"
+                    placeholder="None"
+                    disabled={maxAttempts.trim() === "1"}
+                  />
+                </div>
+              </div>
+            </div>
+
+            {/* Proctoring */}
+            <div className="border-b border-gray-200 pb-4">
+              <h2 className="text-lg font-medium text-gray-900 mb-4">Proctoring</h2>
+              <div className="space-y-2">
+                <label className="flex items-start gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4 mt-0.5"
+                    checked={proctored}
+                    onChange={(e) => setProctored(e.target.checked)}
+                  />
+                  <span>
+                    Record tab switches, window changes, copy/paste and right-clicks during attempts
+                  </span>
+                </label>
+                <label className="flex items-start gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4 mt-0.5"
+                    checked={requireFullscreen}
+                    onChange={(e) => setRequireFullscreen(e.target.checked)}
+                    disabled={!proctored}
+                  />
+                  <span>Require fullscreen - leaving it counts as a violation</span>
+                </label>
+              </div>
+              <div className="mt-3 max-w-xs">
+                <label className="block mb-1 text-sm font-medium text-gray-700">
+                  Auto-submit after violations
+                </label>
+                <input
+                  type="number"
+                  className="w-full border border-gray-300 rounded px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent"
+                  value={maxViolations}
+                  onChange={(e) => setMaxViolations(e.target.value)}
+                  min={1}
+                  step="1"
+                  placeholder="Never"
+                  disabled={!proctored}
+                />
+              </div>
+            </div>
+
             {/* Question Selection */}
             <div>
               <div className="flex items-center justify-between mb-4">
@@ -330,6 +767,14 @@ export default function NewTestPage() {
                         <th className="text-left px-4 py-2 font-medium text-gray-700 w-24">
                           Penalty
                         </th>
+                        <th className="text-left px-4 py-2 font-medium text-gray-700 w-36">
+                          Marking
+                        </th>
+                        {sections.length > 0 && (
+                          <th className="text-left px-4 py-2 font-medium text-gray-700 w-36">
+                            Section
+                          </th>
+                        )}
                       </tr>
                     </thead>
                     <tbody>
@@ -378,11 +823,12 @@ export default function NewTestPage() {
                               )}
                             </td>
                             <td className="px-4 py-2 text-gray-700">
-                              {q.type === "mcq_single"
-                                ? "MCQ (Single)"
-                                : q.type === "mcq_multiple"
-                                ? "MCQ (Multiple)"
-                                : "Numerical"}
+                              {QUESTION_TYPE_LABELS[q.type]}
+                              {q.passageId && (
+                                <span className="ml-2 text-xs px-2 py-0.5 rounded bg-purple-50 text-purple-700">
+                                  Passage
+                                </span>
+                              )}
                             </td>
                             <td className="px-4 py-2">
                               <span
@@ -427,6 +873,44 @@ export default function NewTestPage() {
                                 <span className="text-gray-600">{q.penalty}</span>
                               )}
                             </td>
+                            <td className="px-4 py-2">
+                              {isSelected && scoring?.markingScheme ? (
+                                <select
+                                  className="w-full border border-gray-300 rounded px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent"
+                                  value={scoring.markingScheme}
+                                  onChange={(e) => handleSchemeChange(q.id, e.target.value as MarkingScheme)}
+                                  title={MARKING_SCHEMES.find((s) => s.value === scoring.markingScheme)?.description}
+                                >
+                                  {MARKING_SCHEMES.map((s) => (
+                                    <option key={s.value} value={s.value}>
+                                      {s.label}
+                                    </option>
+                                  ))}
+                                </select>
+                              ) : (
+                                <span className="text-gray-400 text-xs">—</span>
+                              )}
+                            </td>
+                            {sections.length > 0 && (
+                              <td className="px-4 py-2">
+                                {isSelected ? (
+                                  <select
+                                    className="w-full border border-gray-300 rounded px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent"
+                                    value={scoring?.sectionId ?? ""}
+                                    onChange={(e) => handleSectionAssign(q, e.target.value)}
+                                  >
+                                    <option value="">Select...</option>
+                                    {sections.map((s, index) => (
+                                      <option key={s.id} value={s.id}>
+                                        {s.name.trim() || `Section ${index + 1}`}
+                                      </option>
+                                    ))}
+                                  </select>
+                                ) : (
+                                  <span className="text-gray-400 text-xs">—</span>
+                                )}
+                              </td>
+                            )}
                           </tr>
                         );
                       })}
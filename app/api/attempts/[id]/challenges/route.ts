@@ -0,0 +1,30 @@
+// app/api/attempts/[id]/challenges/route.ts
+import { verifyRequestUser } from "@/lib/server/auth";
+import { raiseChallenge } from "@/lib/server/challenges";
+import { ApiError, errorResponse } from "@/lib/server/errors";
+
+/**
+ * Challenge the answer key of a question from a scored attempt
+ * Body: { questionId: string, reason: string }
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const user = await verifyRequestUser(request);
+
+    const body = await request.json().catch(() => {
+      throw new ApiError(400, "Request body must be valid JSON");
+    });
+
+    const challengeId = await raiseChallenge(id, user.uid, {
+      questionId: body?.questionId,
+      reason: body?.reason,
+    });
+    return Response.json({ challengeId }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error, "[Challenges API]");
+  }
+}
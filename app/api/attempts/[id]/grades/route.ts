@@ -0,0 +1,31 @@
+// app/api/attempts/[id]/grades/route.ts
+import { verifyRequestAdmin } from "@/lib/server/auth";
+import { gradeSubjectiveAnswer } from "@/lib/server/grading";
+import { ApiError, errorResponse } from "@/lib/server/errors";
+
+/**
+ * Grade a subjective answer of a submitted attempt and re-score it (admins only)
+ * Body: SubjectiveGradeInput
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const admin = await verifyRequestAdmin(request);
+
+    const body = await request.json().catch(() => {
+      throw new ApiError(400, "Request body must be valid JSON");
+    });
+
+    const outcome = await gradeSubjectiveAnswer(id, admin.uid, {
+      questionId: body?.questionId,
+      criterionMarks: body?.criterionMarks,
+      comment: body?.comment ?? null,
+    });
+    return Response.json(outcome);
+  } catch (error) {
+    return errorResponse(error, "[Grading API]");
+  }
+}
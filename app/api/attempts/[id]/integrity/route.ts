@@ -0,0 +1,27 @@
+// app/api/attempts/[id]/integrity/route.ts
+import { verifyRequestUser } from "@/lib/server/auth";
+import { recordIntegrityEvents } from "@/lib/server/integrity";
+import { ApiError, errorResponse } from "@/lib/server/errors";
+
+/**
+ * Record proctoring events of an in-progress attempt
+ * Body: { events: { type: IntegrityEventType, clientAt: number }[] }
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const user = await verifyRequestUser(request);
+
+    const body = await request.json().catch(() => {
+      throw new ApiError(400, "Request body must be valid JSON");
+    });
+
+    const outcome = await recordIntegrityEvents(id, user.uid, body?.events);
+    return Response.json(outcome);
+  } catch (error) {
+    return errorResponse(error, "[Integrity API]");
+  }
+}
@@ -0,0 +1,27 @@
+// app/api/attempts/[id]/progress/route.ts
+import { verifyRequestUser } from "@/lib/server/auth";
+import { syncAttemptProgress } from "@/lib/server/attempts";
+import { ApiError, errorResponse } from "@/lib/server/errors";
+
+/**
+ * Save the player state of an in-progress attempt, reconciled against its deadline
+ * Body: { progress: AttemptProgress, capturedAt: number }
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const user = await verifyRequestUser(request);
+
+    const body = await request.json().catch(() => {
+      throw new ApiError(400, "Request body must be valid JSON");
+    });
+
+    const outcome = await syncAttemptProgress(id, user.uid, body?.progress, body?.capturedAt);
+    return Response.json(outcome);
+  } catch (error) {
+    return errorResponse(error, "[Progress API]");
+  }
+}
@@ -0,0 +1,22 @@
+// app/api/attempts/[id]/questions/route.ts
+import { verifyRequestUser } from "@/lib/server/auth";
+import { loadAttemptReviewQuestions } from "@/lib/server/questions";
+import { errorResponse } from "@/lib/server/errors";
+
+/**
+ * Questions of a submitted attempt's test, with answer keys and solutions for the review
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const user = await verifyRequestUser(request);
+
+    const questions = await loadAttemptReviewQuestions(id, user.uid);
+    return Response.json({ questions });
+  } catch (error) {
+    return errorResponse(error, "[Attempt Questions API]");
+  }
+}
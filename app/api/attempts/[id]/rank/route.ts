@@ -0,0 +1,22 @@
+// app/api/attempts/[id]/rank/route.ts
+import { verifyRequestUser } from "@/lib/server/auth";
+import { getAttemptRank } from "@/lib/server/attempts";
+import { errorResponse } from "@/lib/server/errors";
+
+/**
+ * Rank of a scored attempt among all scored attempts of its test
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const user = await verifyRequestUser(request);
+
+    const rank = await getAttemptRank(id, user.uid);
+    return Response.json(rank);
+  } catch (error) {
+    return errorResponse(error, "[Rank API]");
+  }
+}
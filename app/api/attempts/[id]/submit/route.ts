@@ -0,0 +1,28 @@
+// app/api/attempts/[id]/submit/route.ts
+import { verifyRequestUser } from "@/lib/server/auth";
+import { submitAttempt } from "@/lib/server/attempts";
+import { ApiError, errorResponse } from "@/lib/server/errors";
+
+/**
+ * Submit an in-progress attempt and score it on the server
+ * Body: { responses: Record<questionId, QuestionResponse>, capturedAt?: number }
+ * capturedAt is sent when the submission was queued offline
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const user = await verifyRequestUser(request);
+
+    const body = await request.json().catch(() => {
+      throw new ApiError(400, "Request body must be valid JSON");
+    });
+
+    const outcome = await submitAttempt(id, user.uid, body?.responses, body?.capturedAt);
+    return Response.json(outcome);
+  } catch (error) {
+    return errorResponse(error, "[Submit API]");
+  }
+}
@@ -0,0 +1,27 @@
+// app/api/practice/sessions/[id]/answers/route.ts
+import { verifyRequestUser } from "@/lib/server/auth";
+import { answerPracticeQuestion } from "@/lib/server/practice";
+import { ApiError, errorResponse } from "@/lib/server/errors";
+
+/**
+ * Check a practice answer and return instant feedback
+ * Body: { questionId: string, response: QuestionResponse }
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const user = await verifyRequestUser(request);
+
+    const body = await request.json().catch(() => {
+      throw new ApiError(400, "Request body must be valid JSON");
+    });
+
+    const feedback = await answerPracticeQuestion(id, user.uid, body?.questionId, body?.response);
+    return Response.json(feedback);
+  } catch (error) {
+    return errorResponse(error, "[Practice Answer API]");
+  }
+}
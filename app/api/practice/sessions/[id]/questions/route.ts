@@ -0,0 +1,22 @@
+// app/api/practice/sessions/[id]/questions/route.ts
+import { verifyRequestUser } from "@/lib/server/auth";
+import { listPracticeQuestions } from "@/lib/server/practice";
+import { errorResponse } from "@/lib/server/errors";
+
+/**
+ * Unanswered questions of a practice session, without their answer keys
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const user = await verifyRequestUser(request);
+
+    const questions = await listPracticeQuestions(id, user.uid);
+    return Response.json({ questions });
+  } catch (error) {
+    return errorResponse(error, "[Practice Questions API]");
+  }
+}
@@ -0,0 +1,23 @@
+// app/api/practice/sessions/route.ts
+import { verifyRequestUser } from "@/lib/server/auth";
+import { startPracticeSession } from "@/lib/server/practice";
+import { ApiError, errorResponse } from "@/lib/server/errors";
+
+/**
+ * Start a practice session
+ * Body: { subject: string, chapter: string | null, topic: string | null }
+ */
+export async function POST(request: Request) {
+  try {
+    const user = await verifyRequestUser(request);
+
+    const body = await request.json().catch(() => {
+      throw new ApiError(400, "Request body must be valid JSON");
+    });
+
+    const sessionId = await startPracticeSession(user.uid, body);
+    return Response.json({ sessionId }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error, "[Practice API]");
+  }
+}
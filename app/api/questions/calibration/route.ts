@@ -0,0 +1,18 @@
+// app/api/questions/calibration/route.ts
+import { verifyRequestAdmin } from "@/lib/server/auth";
+import { calibrateQuestions } from "@/lib/server/questionStats";
+import { errorResponse } from "@/lib/server/errors";
+
+/**
+ * Recompute every question's empirical difficulty from attempt data (admins only)
+ */
+export async function POST(request: Request) {
+  try {
+    await verifyRequestAdmin(request);
+
+    const outcome = await calibrateQuestions();
+    return Response.json(outcome);
+  } catch (error) {
+    return errorResponse(error, "[Calibration API]");
+  }
+}
@@ -0,0 +1,31 @@
+// app/api/tests/[id]/attempts/route.ts
+import { verifyRequestUser } from "@/lib/server/auth";
+import { startAttempt } from "@/lib/server/attempts";
+import { ApiError, errorResponse } from "@/lib/server/errors";
+
+/**
+ * Start (or resume) the caller's attempt of a test
+ * Body: { testSeriesId?: string | null }
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const user = await verifyRequestUser(request);
+
+    const body = await request.json().catch(() => {
+      throw new ApiError(400, "Request body must be valid JSON");
+    });
+    const testSeriesId =
+      typeof body?.testSeriesId === "string" && body.testSeriesId !== ""
+        ? body.testSeriesId
+        : null;
+
+    const outcome = await startAttempt({ testId: id, testSeriesId }, user.uid);
+    return Response.json(outcome, { status: outcome.resumed ? 200 : 201 });
+  } catch (error) {
+    return errorResponse(error, "[Start Attempt API]");
+  }
+}
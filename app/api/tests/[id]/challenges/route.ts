@@ -0,0 +1,27 @@
+// app/api/tests/[id]/challenges/route.ts
+import { verifyRequestAdmin } from "@/lib/server/auth";
+import { decideChallenges } from "@/lib/server/challenges";
+import { ApiError, errorResponse } from "@/lib/server/errors";
+
+/**
+ * Accept or reject the pending challenges of one question (admins only)
+ * Body: ChallengeDecision
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const admin = await verifyRequestAdmin(request);
+
+    const body = await request.json().catch(() => {
+      throw new ApiError(400, "Request body must be valid JSON");
+    });
+
+    const outcome = await decideChallenges(id, admin.uid, body);
+    return Response.json(outcome);
+  } catch (error) {
+    return errorResponse(error, "[Challenge Decision API]");
+  }
+}
@@ -0,0 +1,24 @@
+// app/api/tests/[id]/leaderboard/route.ts
+import { verifyRequestUser } from "@/lib/server/auth";
+import { loadTest } from "@/lib/server/attempts";
+import { getTestLeaderboard } from "@/lib/server/testStats";
+import { errorResponse } from "@/lib/server/errors";
+
+/**
+ * Leaderboard of a test with subject toppers and the caller's own row
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const user = await verifyRequestUser(request);
+    await loadTest(id); // 404 for unknown tests
+
+    const leaderboard = await getTestLeaderboard(id, user.uid);
+    return Response.json(leaderboard);
+  } catch (error) {
+    return errorResponse(error, "[Leaderboard API]");
+  }
+}
@@ -0,0 +1,22 @@
+// app/api/tests/[id]/questions/route.ts
+import { verifyRequestUser } from "@/lib/server/auth";
+import { loadStudentTestQuestions } from "@/lib/server/questions";
+import { errorResponse } from "@/lib/server/errors";
+
+/**
+ * Questions of a test for the player - answer keys and solutions are left out
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const user = await verifyRequestUser(request);
+
+    const questions = await loadStudentTestQuestions(id, user.uid);
+    return Response.json({ questions });
+  } catch (error) {
+    return errorResponse(error, "[Test Questions API]");
+  }
+}
@@ -0,0 +1,24 @@
+// app/api/tests/[id]/stats/route.ts
+import { verifyRequestAdmin } from "@/lib/server/auth";
+import { loadTest } from "@/lib/server/attempts";
+import { rebuildTestStats } from "@/lib/server/testStats";
+import { errorResponse } from "@/lib/server/errors";
+
+/**
+ * Rebuild a test's rank stats from all of its attempts (admins only)
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    await verifyRequestAdmin(request);
+    await loadTest(id); // 404 for unknown tests
+
+    const stats = await rebuildTestStats(id);
+    return Response.json({ participantCount: stats.participantCount });
+  } catch (error) {
+    return errorResponse(error, "[Test Stats API]");
+  }
+}
@@ -0,0 +1,24 @@
+// app/api/tests/[id]/topper-times/route.ts
+import { verifyRequestUser } from "@/lib/server/auth";
+import { loadTest } from "@/lib/server/attempts";
+import { getTopperTimes } from "@/lib/server/testStats";
+import { errorResponse } from "@/lib/server/errors";
+
+/**
+ * Average time the test's toppers spent on each question
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    await verifyRequestUser(request);
+    await loadTest(id); // 404 for unknown tests
+
+    const topperTimes = await getTopperTimes(id);
+    return Response.json(topperTimes);
+  } catch (error) {
+    return errorResponse(error, "[Topper Times API]");
+  }
+}
@@ -0,0 +1,395 @@
+// app/dashboard/attempts/[id]/page.tsx
+"use client";
+
+import { useRouter, useParams } from "next/navigation";
+import { useAuth } from "@/context/AuthContext";
+import { useUserProfile } from "@/lib/hooks/useUserProfile";
+import { useEffect, useMemo, useState } from "react";
+import { getAttemptById } from "@/lib/db/attempts";
+import { getTestById } from "@/lib/db/tests";
+import {
+  getAttemptQuestions,
+  getAttemptRank,
+  type AttemptRankResponse,
+} from "@/lib/api/attempts";
+import { getTopperTimes } from "@/lib/api/tests";
+import { raiseChallenge } from "@/lib/api/challenges";
+import { listUserChallenges } from "@/lib/db/challenges";
+import type { Challenge } from "@/lib/types/challenge";
+import type { Attempt, QuestionOutcome } from "@/lib/types/attempt";
+import type { Test, TestQuestion } from "@/lib/types/test";
+import type { QuestionContent } from "@/lib/types/question";
+import type { TopperTimes } from "@/lib/types/testStats";
+import { formatDuration } from "@/lib/utils/duration";
+import { sortQuestionsBySection } from "@/lib/utils/sections";
+import { arrangeQuestionsForAttempt, getAttemptOptionOrder } from "@/lib/utils/shuffle";
+import { getTimeBudgetSeconds } from "@/lib/utils/timeAnalysis";
+import QuestionReviewCard from "@/components/test-result/QuestionReviewCard";
+import TimeAnalysis from "@/components/test-result/TimeAnalysis";
+import ChallengePanel from "@/components/test-result/ChallengePanel";
+
+/**
+ * A test question resolved against the question bank
+ */
+interface ReviewQuestion {
+  testQuestion: TestQuestion;
+  question: QuestionContent;
+}
+
+type ReviewFilter = "all" | QuestionOutcome;
+
+const REVIEW_FILTERS: { value: ReviewFilter; label: string }[] = [
+  { value: "all", label: "All" },
+  { value: "correct", label: "Correct" },
+  { value: "partial", label: "Partial" },
+  { value: "incorrect", label: "Incorrect" },
+  { value: "unattempted", label: "Not Attempted" },
+];
+
+export default function AttemptResultPage() {
+  const router = useRouter();
+  const params = useParams();
+  const attemptId = params?.id as string;
+  const { user, loading: authLoading } = useAuth();
+  const { role, loading: profileLoading } = useUserProfile();
+
+  const [attempt, setAttempt] = useState<Attempt | null>(null);
+  const [test, setTest] = useState<Test | null>(null);
+  const [reviewQuestions, setReviewQuestions] = useState<ReviewQuestion[]>([]);
+  const [rank, setRank] = useState<AttemptRankResponse | null>(null);
+  const [topperTimes, setTopperTimes] = useState<TopperTimes | null>(null);
+  const [challenges, setChallenges] = useState<Challenge[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState<ReviewFilter>("all");
+
+  // Load attempt, test and questions
+  useEffect(() => {
+    if (authLoading || profileLoading || !attemptId) return;
+
+    if (!user) {
+      console.log("[AttemptResultPage] No user, redirecting to login");
+      router.replace("/login");
+      return;
+    }
+
+    if (role === "admin") {
+      router.replace("/admin");
+      return;
+    }
+
+    const loadResult = async () => {
+      setLoading(true);
+      setError(null);
+      console.log("[AttemptResultPage] Loading attempt:", attemptId);
+
+      try {
+        const attemptData = await getAttemptById(attemptId);
+        if (!attemptData || attemptData.userId !== user.uid) {
+          setError("Result not found.");
+          return;
+        }
+
+        if (attemptData.status === "in_progress" || !attemptData.result) {
+          // Nothing to review until the attempt is submitted
+          router.replace(`/dashboard/tests/${attemptData.testId}`);
+          return;
+        }
+
+        const testData = await getTestById(attemptData.testId);
+        if (!testData) {
+          setError("The test for this attempt no longer exists.");
+          return;
+        }
+
+        // Review in the same order the student saw the questions
+        const ordered = arrangeQuestionsForAttempt(
+          sortQuestionsBySection(testData.questions, testData.sections, (tq) => tq),
+          testData,
+          attemptData.shuffleSeed,
+          (tq) => tq
+        );
+        // Keys and solutions come from the server, which only serves them after submission
+        const { questions } = await getAttemptQuestions(attemptId);
+        const questionsById = new Map(questions.map((question) => [question.id, question]));
+
+        const resolved: ReviewQuestion[] = [];
+        ordered.forEach((testQuestion) => {
+          const question = questionsById.get(testQuestion.questionId);
+          if (question) {
+            resolved.push({ testQuestion, question });
+          } else {
+            console.warn("[AttemptResultPage] Question missing from bank:", testQuestion.questionId);
+          }
+        });
+
+        setAttempt(attemptData);
+        setTest(testData);
+        setReviewQuestions(resolved);
+        console.log("[AttemptResultPage] Result loaded");
+
+        // Topper times are optional - without them the paper's time budget is used
+        getTopperTimes(testData.id)
+          .then(setTopperTimes)
+          .catch((err) => console.error("[AttemptResultPage] Error loading topper times:", err));
+        listUserChallenges(user.uid, testData.id)
+          .then(setChallenges)
+          .catch((err) => console.error("[AttemptResultPage] Error loading challenges:", err));
+      } catch (err) {
+        console.error("[AttemptResultPage] Error loading result:", err);
+        const errorMessage =
+          err instanceof Error ? err.message : "Failed to load result.";
+        setError(errorMessage);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    const loadRank = async () => {
+      try {
+        setRank(await getAttemptRank(attemptId));
+      } catch (err) {
+        // Rank is optional - the rest of the result is still useful
+        console.error("[AttemptResultPage] Error loading rank:", err);
+      }
+    };
+
+    loadResult();
+    loadRank();
+  }, [authLoading, profileLoading, user, role, router, attemptId]);
+
+  const result = attempt?.result ?? null;
+
+  const timeTakenSeconds = useMemo(() => {
+    if (!attempt?.submittedAt) return null;
+    return (attempt.submittedAt.toMillis() - attempt.startedAt.toMillis()) / 1000;
+  }, [attempt]);
+
+  const questionNumbers = useMemo(
+    () => new Map(reviewQuestions.map((rq, index) => [rq.question.id, index + 1])),
+    [reviewQuestions]
+  );
+
+  const visibleQuestions = useMemo(
+    () =>
+      reviewQuestions
+        .map((rq, index) => ({ ...rq, number: index + 1 }))
+        .filter(
+          (rq) =>
+            filter === "all" ||
+            (result?.questionResults[rq.question.id]?.outcome ?? "unattempted") === filter
+        ),
+    [reviewQuestions, filter, result]
+  );
+
+  const handleRaiseChallenge = async (questionId: string, reason: string) => {
+    if (!attempt || !user) return;
+    await raiseChallenge(attempt.id, questionId, reason);
+    setChallenges(await listUserChallenges(user.uid, attempt.testId));
+  };
+
+  if (authLoading || profileLoading || loading) {
+    return (
+      <main className="min-h-screen flex items-center justify-center bg-white">
+        <p className="text-gray-600">Loading result...</p>
+      </main>
+    );
+  }
+
+  if (error || !attempt || !test || !result) {
+    return (
+      <main className="min-h-screen flex items-center justify-center bg-white">
+        <div className="text-center">
+          <p className="text-red-600 mb-4">{error || "Result not found."}</p>
+          <button
+            onClick={() => router.push("/dashboard")}
+            className="text-[#ff6b35] hover:text-yellow-400 transition-colors"
+          >
+            ← Back to Dashboard
+          </button>
+        </div>
+      </main>
+    );
+  }
+
+  const summaryCards = [
+    { label: "Score", value: `${result.totalScore} / ${result.maxScore}` },
+    {
+      label: "Rank",
+      value: rank
+        ? rank.isRanked
+          ? `${rank.rank} / ${rank.totalParticipants}`
+          : `~${rank.rank} (practice)`
+        : "—",
+    },
+    { label: "Percentile", value: rank ? rank.percentile.toFixed(2) : "—" },
+    { label: "Accuracy", value: `${result.accuracy}%` },
+    {
+      label: "Time Taken",
+      value: timeTakenSeconds !== null ? formatDuration(timeTakenSeconds) : "—",
+    },
+  ];
+
+  return (
+    <main className="min-h-screen bg-gray-50">
+      <nav className="bg-[#ff6b35] text-white px-4 md:px-8 py-4 shadow-lg">
+        <div className="max-w-7xl mx-auto flex items-center justify-between">
+          <div className="text-2xl font-bold">AcadXL</div>
+          <button
+            onClick={() => router.push("/dashboard")}
+            className="text-white hover:text-yellow-200 transition-colors"
+          >
+            Dashboard
+          </button>
+        </div>
+      </nav>
+
+      <div className="max-w-5xl mx-auto px-4 md:px-8 py-8 space-y-6">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">{test.title}</h1>
+            <p className="text-gray-600">
+              Result and solutions
+              {attempt.attemptNumber > 1 && ` · Attempt ${attempt.attemptNumber}`}
+              {attempt.isRanked === false && " · Practice (not ranked)"}
+            </p>
+            {attempt.status === "expired" && (
+              <p className="mt-2 text-sm text-red-600">
+                This attempt was submitted after the time limit, so only the answers saved before the deadline were scored.
+              </p>
+            )}
+            {(result.pendingGradingCount ?? 0) > 0 && (
+              <p className="mt-2 text-sm text-blue-800">
+                {result.pendingGradingCount} written answer{result.pendingGradingCount === 1 ? " is" : "s are"} still
+                being graded. They count as not attempted until then, and your score and rank update once they are marked.
+              </p>
+            )}
+          </div>
+          <button
+            onClick={() => router.push(`/dashboard/tests/${test.id}/leaderboard`)}
+            className="px-4 py-2 bg-[#ff6b35] hover:bg-yellow-400 text-white rounded-lg font-medium transition-all"
+          >
+            Leaderboard
+          </button>
+        </div>
+
+        {/* Summary */}
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+          {summaryCards.map((card) => (
+            <div key={card.label} className="bg-white rounded-lg shadow p-4 text-center">
+              <p className="text-xs text-gray-500 mb-1">{card.label}</p>
+              <p className="text-2xl font-bold text-[#ff6b35]">{card.value}</p>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center text-sm">
+          <div className="bg-green-50 border border-green-200 rounded-lg p-3">
+            <p className="text-green-800 font-semibold text-lg">{result.correctCount}</p>
+            <p className="text-green-700">Correct</p>
+          </div>
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3">
+            <p className="text-yellow-800 font-semibold text-lg">{result.partialCount ?? 0}</p>
+            <p className="text-yellow-700">Partial</p>
+          </div>
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+            <p className="text-red-800 font-semibold text-lg">{result.incorrectCount}</p>
+            <p className="text-red-700">Incorrect</p>
+          </div>
+          <div className="bg-gray-100 border border-gray-200 rounded-lg p-3">
+            <p className="text-gray-800 font-semibold text-lg">{result.unattemptedCount}</p>
+            <p className="text-gray-700">Not Attempted</p>
+          </div>
+        </div>
+
+        {/* Subject-wise breakdown */}
+        {result.subjectBreakdown.length > 0 && (
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Subject-wise Score</h2>
+            <table className="min-w-full text-sm">
+              <thead className="border-b border-gray-200">
+                <tr>
+                  <th className="text-left py-2 font-medium text-gray-700">Subject</th>
+                  <th className="text-right py-2 font-medium text-gray-700">Score</th>
+                  <th className="text-right py-2 font-medium text-gray-700">Correct</th>
+                  <th className="text-right py-2 font-medium text-gray-700">Incorrect</th>
+                  <th className="text-right py-2 font-medium text-gray-700">Not Attempted</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.subjectBreakdown.map((entry) => (
+                  <tr key={entry.subject} className="border-b last:border-b-0">
+                    <td className="py-2 text-gray-900">{entry.subject}</td>
+                    <td className="py-2 text-right text-gray-900">
+                      {entry.score} / {entry.maxScore}
+                    </td>
+                    <td className="py-2 text-right text-green-700">{entry.correct}</td>
+                    <td className="py-2 text-right text-red-600">{entry.incorrect}</td>
+                    <td className="py-2 text-right text-gray-600">{entry.unattempted}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <TimeAnalysis
+          questionResults={result.questionResults}
+          questionNumbers={questionNumbers}
+          budgetSeconds={getTimeBudgetSeconds(test)}
+          topperTimes={topperTimes}
+        />
+
+        {/* Question-by-question review */}
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <h2 className="text-lg font-semibold text-gray-900">Solutions</h2>
+            <div className="flex flex-wrap gap-2">
+              {REVIEW_FILTERS.map((f) => (
+                <button
+                  key={f.value}
+                  onClick={() => setFilter(f.value)}
+                  className={`px-3 py-1 rounded-full text-sm border transition-colors ${
+                    filter === f.value
+                      ? "bg-[#ff6b35] border-[#ff6b35] text-white"
+                      : "bg-white border-gray-300 text-gray-700 hover:bg-gray-50"
+                  }`}
+                >
+                  {f.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {visibleQuestions.length === 0 ? (
+            <p className="text-sm text-gray-600 bg-white border border-dashed border-gray-300 rounded-lg p-6 text-center">
+              No questions match this filter.
+            </p>
+          ) : (
+            visibleQuestions.map((rq) => (
+              <QuestionReviewCard
+                key={rq.question.id}
+                question={rq.question}
+                questionNumber={rq.number}
+                response={attempt.responses[rq.question.id]}
+                result={result.questionResults[rq.question.id]}
+                optionOrder={getAttemptOptionOrder(test, attempt.shuffleSeed, rq.question)}
+                grade={attempt.grades?.[rq.question.id] ?? null}
+                topperAverageSeconds={
+                  topperTimes && topperTimes.topperCount > 0
+                    ? topperTimes.averageSeconds[rq.question.id] ?? null
+                    : null
+                }
+              >
+                <ChallengePanel
+                  challenge={challenges.find((c) => c.questionId === rq.question.id) ?? null}
+                  onSubmit={(reason) => handleRaiseChallenge(rq.question.id, reason)}
+                />
+              </QuestionReviewCard>
+            ))
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -12,6 +12,20 @@ import type { TestSeries } from "@/lib/types/testSeries";
 import type { EnrollmentWithSeries } from "@/lib/db/students";
 import { getTestById } from "@/lib/db/tests";
 import type { Test } from "@/lib/types/test";
+import { listUserAttempts } from "@/lib/db/attempts";
+import type { Attempt } from "@/lib/types/attempt";
+import PerformanceAnalytics from "@/components/dashboard/PerformanceAnalytics";
+import {
+  formatScheduleTime,
+  getTestWindowStatus,
+  type TestWindowStatus,
+} from "@/lib/utils/schedule";
+
+const WINDOW_BADGES: Record<TestWindowStatus, { label: string; className: string }> = {
+  upcoming: { label: "Upcoming", className: "bg-blue-100 text-blue-800" },
+  live: { label: "Live", className: "bg-green-100 text-green-800" },
+  ended: { label: "Ended", className: "bg-gray-200 text-gray-700" },
+};
 
 export default function DashboardPage() {
   const router = useRouter();
@@ -21,10 +35,14 @@ export default function DashboardPage() {
   const [enrolledSeries, setEnrolledSeries] = useState<EnrollmentWithSeries[]>([]);
   const [loadingSeries, setLoadingSeries] = useState(true);
   const [enrollingId, setEnrollingId] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<"available" | "enrolled">("available");
+  const [activeTab, setActiveTab] = useState<"available" | "enrolled" | "analytics">("available");
   const [selectedSeriesId, setSelectedSeriesId] = useState<string | null>(null);
   const [seriesTests, setSeriesTests] = useState<Test[]>([]);
   const [loadingTests, setLoadingTests] = useState(false);
+  // When the series' tests were loaded - reference time for their Upcoming / Live / Ended status
+  const [testsLoadedAtMs, setTestsLoadedAtMs] = useState(0);
+  const [attempts, setAttempts] = useState<Attempt[] | null>(null);
+  const [attemptTestTitles, setAttemptTestTitles] = useState<Map<string, string>>(new Map());
 
   // All hooks must be called before any early returns
   const handleLogout = useCallback(async () => {
@@ -87,6 +105,7 @@ export default function DashboardPage() {
           })
         );
         setSeriesTests(tests.filter((t): t is Test => t !== null));
+        setTestsLoadedAtMs(Date.now());
       } catch (error) {
         console.error("[DashboardPage] Error loading tests:", error);
       } finally {
@@ -97,6 +116,28 @@ export default function DashboardPage() {
     loadTests();
   }, [selectedSeriesId, enrolledSeries]);
 
+  // Load attempts for analytics (once, when the tab is first opened)
+  useEffect(() => {
+    if (activeTab !== "analytics" || attempts !== null || !user) return;
+
+    const loadAnalytics = async () => {
+      try {
+        const userAttempts = await listUserAttempts(user.uid);
+        const testIds = Array.from(new Set(userAttempts.map((attempt) => attempt.testId)));
+        const tests = await Promise.all(testIds.map((testId) => getTestById(testId)));
+        setAttemptTestTitles(
+          new Map(tests.filter((t): t is Test => t !== null).map((t) => [t.id, t.title]))
+        );
+        setAttempts(userAttempts);
+      } catch (error) {
+        console.error("[DashboardPage] Error loading analytics:", error);
+        setAttempts([]);
+      }
+    };
+
+    loadAnalytics();
+  }, [activeTab, attempts, user]);
+
   // Redirect admins to admin panel
   useEffect(() => {
     if (authLoading || profileLoading) return;
@@ -154,6 +195,12 @@ export default function DashboardPage() {
           <div className="text-2xl font-bold">AcadXL</div>
           <div className="flex items-center gap-4">
             <span className="text-sm">Welcome, {displayName}</span>
+            <button
+              onClick={() => router.push("/dashboard/practice")}
+              className="px-4 py-2 border border-white text-white rounded hover:bg-white/10 transition-colors font-medium"
+            >
+              Practice
+            </button>
             <button
               onClick={handleLogout}
               className="px-4 py-2 bg-white text-[#ff6b35] rounded hover:bg-yellow-50 transition-colors font-medium"
@@ -193,6 +240,19 @@ export default function DashboardPage() {
           >
             My Enrolled Series ({enrolledSeries.length})
           </button>
+          <button
+            onClick={() => {
+              setActiveTab("analytics");
+              setSelectedSeriesId(null);
+            }}
+            className={`px-6 py-3 font-semibold transition-colors ${
+              activeTab === "analytics"
+                ? "text-[#ff6b35] border-b-2 border-[#ff6b35]"
+                : "text-gray-600 hover:text-[#ff6b35]"
+            }`}
+          >
+            My Performance
+          </button>
         </div>
 
         {/* Available Test Series */}
@@ -350,25 +410,46 @@ export default function DashboardPage() {
                               <p className="text-center text-gray-600 py-4">No tests available in this series.</p>
                             ) : (
                               <div className="space-y-3">
-                                {seriesTests.map((test) => (
-                                  <div
-                                    key={test.id}
-                                    className="flex items-center justify-between p-4 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors"
-                                  >
-                                    <div>
-                                      <h4 className="font-semibold text-gray-900">{test.title}</h4>
-                                      <p className="text-sm text-gray-600">
-                                        {test.durationMinutes} min • {test.questions?.length || 0} Questions
-                                      </p>
-                                    </div>
-                                    <button
-                                      onClick={() => router.push(`/dashboard/tests/${test.id}`)}
-                                      className="px-4 py-2 bg-[#ff6b35] hover:bg-yellow-400 text-white rounded-lg font-medium transition-all"
+                                {seriesTests.map((test) => {
+                                  const windowStatus = getTestWindowStatus(test, testsLoadedAtMs);
+                                  return (
+                                    <div
+                                      key={test.id}
+                                      className="flex items-center justify-between p-4 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors"
                                     >
-                                      Start Test
-                                    </button>
-                                  </div>
-                                ))}
+                                      <div>
+                                        <div className="flex items-center gap-2">
+                                          <h4 className="font-semibold text-gray-900">{test.title}</h4>
+                                          {windowStatus && (
+                                            <span
+                                              className={`text-xs px-2 py-0.5 rounded font-medium ${WINDOW_BADGES[windowStatus].className}`}
+                                            >
+                                              {WINDOW_BADGES[windowStatus].label}
+                                            </span>
+                                          )}
+                                        </div>
+                                        <p className="text-sm text-gray-600">
+                                          {test.durationMinutes} min • {test.questions?.length || 0} Questions
+                                          {windowStatus === "upcoming" && test.startsAt &&
+                                            ` • Opens ${formatScheduleTime(test.startsAt.toMillis())}`}
+                                          {windowStatus === "live" && test.endsAt &&
+                                            ` • Closes ${formatScheduleTime(test.endsAt.toMillis())}`}
+                                        </p>
+                                      </div>
+                                      <button
+                                        onClick={() => router.push(`/dashboard/tests/${test.id}?seriesId=${series.id}`)}
+                                        disabled={windowStatus === "upcoming" || windowStatus === "ended"}
+                                        className="px-4 py-2 bg-[#ff6b35] hover:bg-yellow-400 text-white rounded-lg font-medium transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                                      >
+                                        {windowStatus === "upcoming"
+                                          ? "Not Open Yet"
+                                          : windowStatus === "ended"
+                                            ? "Ended"
+                                            : "Start Test"}
+                                      </button>
+                                    </div>
+                                  );
+                                })}
                               </div>
                             )}
                           </div>
@@ -381,6 +462,20 @@ export default function DashboardPage() {
             )}
           </div>
         )}
+
+        {/* Performance Analytics */}
+        {activeTab === "analytics" && (
+          <div>
+            <h2 className="text-3xl font-bold text-gray-900 mb-6">My Performance</h2>
+            {attempts === null ? (
+              <div className="text-center py-12">
+                <p className="text-gray-600 text-lg">Loading analytics...</p>
+              </div>
+            ) : (
+              <PerformanceAnalytics attempts={attempts} testTitles={attemptTestTitles} />
+            )}
+          </div>
+        )}
       </div>
 
     </main>
@@ -0,0 +1,230 @@
+// app/dashboard/practice/[id]/page.tsx
+"use client";
+
+import { useRouter, useParams } from "next/navigation";
+import { useAuth } from "@/context/AuthContext";
+import { useUserProfile } from "@/lib/hooks/useUserProfile";
+import { useEffect, useRef, useState } from "react";
+import { getPracticeSessionById } from "@/lib/db/practice";
+import { answerPracticeQuestion, getPracticeQuestions } from "@/lib/api/practice";
+import type { PracticeFeedback, PracticeSession } from "@/lib/types/practice";
+import type { StudentQuestion } from "@/lib/types/question";
+import type { QuestionResponse } from "@/lib/types/attempt";
+import { generateShuffleSeed, seededShuffle } from "@/lib/utils/shuffle";
+import { describePracticeScope } from "@/lib/utils/practice";
+import QuestionRenderer, { EMPTY_RESPONSE, isAnswered } from "@/components/test-player/QuestionRenderer";
+import QuestionReviewCard from "@/components/test-result/QuestionReviewCard";
+
+export default function PracticeSessionPage() {
+  const router = useRouter();
+  const params = useParams();
+  const sessionId = params?.id as string;
+  const { user, loading: authLoading } = useAuth();
+  const { role, loading: profileLoading } = useUserProfile();
+
+  const [session, setSession] = useState<PracticeSession | null>(null);
+  const [queue, setQueue] = useState<StudentQuestion[]>([]);
+  const [response, setResponse] = useState<QuestionResponse>(EMPTY_RESPONSE);
+  const [feedback, setFeedback] = useState<PracticeFeedback | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [checking, setChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const questionShownAt = useRef(Date.now());
+
+  useEffect(() => {
+    if (authLoading || profileLoading) return;
+
+    if (!user) {
+      router.replace("/login");
+      return;
+    }
+
+    if (role === "admin") {
+      router.replace("/admin");
+      return;
+    }
+
+    const loadSession = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const sessionData = await getPracticeSessionById(sessionId);
+        if (!sessionData || sessionData.userId !== user.uid) {
+          setError("Practice session not found.");
+          return;
+        }
+
+        // Unanswered questions without their keys - subjective ones need a grader and are left out
+        const { questions } = await getPracticeQuestions(sessionId);
+
+        setSession(sessionData);
+        setQueue(seededShuffle(questions, generateShuffleSeed()));
+        questionShownAt.current = Date.now();
+      } catch (err) {
+        console.error("[PracticeSessionPage] Error loading practice session:", err);
+        setError("Failed to load the practice session.");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSession();
+  }, [authLoading, profileLoading, user, role, router, sessionId]);
+
+  const question = queue[0] ?? null;
+
+  const handleCheck = async () => {
+    if (!question || !isAnswered(response)) return;
+
+    setChecking(true);
+    setError(null);
+    try {
+      const timeSpentSeconds = Math.round((Date.now() - questionShownAt.current) / 1000);
+      const result = await answerPracticeQuestion(sessionId, question.id, {
+        ...response,
+        timeSpentSeconds,
+      });
+      setResponse((prev) => ({ ...prev, timeSpentSeconds }));
+      setFeedback(result);
+    } catch (err) {
+      console.error("[PracticeSessionPage] Error checking answer:", err);
+      setError(err instanceof Error ? err.message : "Failed to check your answer.");
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleNext = () => {
+    setQueue((prev) => prev.slice(1));
+    setResponse(EMPTY_RESPONSE);
+    setFeedback(null);
+    setError(null);
+    questionShownAt.current = Date.now();
+  };
+
+  if (authLoading || profileLoading || loading) {
+    return (
+      <main className="min-h-screen flex items-center justify-center bg-white">
+        <p className="text-gray-900 text-lg">Loading practice...</p>
+      </main>
+    );
+  }
+
+  const answeredCount = feedback?.answeredCount ?? session?.answeredCount ?? 0;
+  const correctCount = feedback?.correctCount ?? session?.correctCount ?? 0;
+
+  return (
+    <main className="min-h-screen bg-gray-50">
+      <nav className="bg-[#ff6b35] text-white px-4 md:px-8 py-4 shadow-lg">
+        <div className="max-w-7xl mx-auto flex items-center justify-between">
+          <div className="text-2xl font-bold">AcadXL</div>
+          <button
+            onClick={() => router.push("/dashboard/practice")}
+            className="text-white hover:text-yellow-200 transition-colors"
+          >
+            ← Back to Practice
+          </button>
+        </div>
+      </nav>
+
+      <div className="max-w-4xl mx-auto px-4 md:px-8 py-8 space-y-6">
+        {session && (
+          <div className="flex flex-wrap items-end justify-between gap-4">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900 mb-1">Practice</h1>
+              <p className="text-sm text-gray-600">{describePracticeScope(session)}</p>
+            </div>
+            <div className="text-sm text-gray-700">
+              <span className="font-semibold text-gray-900">{correctCount}</span> / {answeredCount}{" "}
+              correct
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <div className="text-sm text-red-600 bg-red-50 border border-red-200 rounded p-2">
+            {error}
+          </div>
+        )}
+
+        {session && !question && (
+          <div className="bg-white border border-gray-200 rounded-lg p-6 shadow-sm text-center space-y-4">
+            <p className="text-gray-900 font-medium">
+              {answeredCount > 0
+                ? "You have answered every question available for this selection."
+                : "There are no questions for this selection yet."}
+            </p>
+            <button
+              onClick={() => router.push("/dashboard/practice")}
+              className="px-6 py-2 bg-[#ff6b35] hover:bg-yellow-400 text-white rounded-lg font-semibold transition-all"
+            >
+              Choose Another Topic
+            </button>
+          </div>
+        )}
+
+        {session && question && (
+          <>
+            {feedback ? (
+              <QuestionReviewCard
+                question={{ ...question, ...feedback.solution }}
+                questionNumber={answeredCount}
+                response={response}
+                result={{
+                  outcome: feedback.outcome,
+                  awardedMarks: feedback.awardedMarks,
+                  maxMarks: feedback.maxMarks,
+                  subject: question.subject,
+                  chapter: question.chapter ?? null,
+                  topic: question.topic,
+                  subtopic: question.subtopic ?? null,
+                  timeSpentSeconds: response.timeSpentSeconds,
+                }}
+              />
+            ) : (
+              <div className="bg-white border border-gray-200 rounded-lg p-6 shadow-sm">
+                <QuestionRenderer
+                  question={question}
+                  questionNumber={answeredCount + 1}
+                  marks={question.marks}
+                  negativeMarks={question.penalty}
+                  response={response}
+                  onChange={setResponse}
+                  disabled={checking}
+                />
+              </div>
+            )}
+
+            <div className="flex justify-end gap-3">
+              {feedback ? (
+                <button
+                  onClick={handleNext}
+                  className="px-6 py-2 bg-[#ff6b35] hover:bg-yellow-400 text-white rounded-lg font-semibold transition-all"
+                >
+                  {queue.length > 1 ? "Next Question" : "Finish"}
+                </button>
+              ) : (
+                <>
+                  <button
+                    onClick={handleNext}
+                    disabled={checking}
+                    className="px-6 py-2 border border-gray-300 text-gray-700 hover:bg-gray-100 rounded-lg font-medium transition-all disabled:opacity-50"
+                  >
+                    Skip
+                  </button>
+                  <button
+                    onClick={handleCheck}
+                    disabled={checking || !isAnswered(response)}
+                    className="px-6 py-2 bg-[#ff6b35] hover:bg-yellow-400 text-white rounded-lg font-semibold transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {checking ? "Checking..." : "Check Answer"}
+                  </button>
+                </>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,226 @@
+// app/dashboard/practice/page.tsx
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useAuth } from "@/context/AuthContext";
+import { useUserProfile } from "@/lib/hooks/useUserProfile";
+import { useEffect, useState } from "react";
+import { listUserPracticeSessions } from "@/lib/db/practice";
+import { startPracticeSession } from "@/lib/api/practice";
+import type { PracticeSession } from "@/lib/types/practice";
+import { getChaptersBySubject, getSubjects, getTopicsByChapter } from "@/lib/utils/subjectData";
+import { describePracticeScope } from "@/lib/utils/practice";
+
+export default function PracticePage() {
+  const router = useRouter();
+  const { user, loading: authLoading } = useAuth();
+  const { role, loading: profileLoading } = useUserProfile();
+
+  const [subjectId, setSubjectId] = useState("");
+  const [chapterId, setChapterId] = useState("");
+  const [topicId, setTopicId] = useState("");
+  const [sessions, setSessions] = useState<PracticeSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [starting, setStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const subjects = getSubjects();
+  const chapters = subjectId ? getChaptersBySubject(subjectId) : [];
+  const topics = subjectId && chapterId ? getTopicsByChapter(subjectId, chapterId) : [];
+
+  useEffect(() => {
+    if (authLoading || profileLoading) return;
+
+    if (!user) {
+      router.replace("/login");
+      return;
+    }
+
+    if (role === "admin") {
+      router.replace("/admin");
+      return;
+    }
+
+    const loadSessions = async () => {
+      setLoading(true);
+      try {
+        setSessions(await listUserPracticeSessions(user.uid));
+      } catch (err) {
+        console.error("[PracticePage] Error loading practice history:", err);
+        setError("Failed to load your practice history.");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSessions();
+  }, [authLoading, profileLoading, user, role, router]);
+
+  const handleStart = async () => {
+    const subject = subjects.find((s) => s.id === subjectId);
+    if (!subject) {
+      setError("Choose a subject to practise.");
+      return;
+    }
+    const chapter = chapters.find((c) => c.id === chapterId) ?? null;
+    const topic = topics.find((t) => t.id === topicId) ?? null;
+
+    setStarting(true);
+    setError(null);
+    try {
+      const { sessionId } = await startPracticeSession({
+        subject: subject.name,
+        chapter: chapter?.name ?? null,
+        topic: topic?.name ?? null,
+      });
+      router.push(`/dashboard/practice/${sessionId}`);
+    } catch (err) {
+      console.error("[PracticePage] Error starting practice:", err);
+      setError(err instanceof Error ? err.message : "Failed to start practice.");
+      setStarting(false);
+    }
+  };
+
+  if (authLoading || profileLoading) {
+    return (
+      <main className="min-h-screen flex items-center justify-center bg-white">
+        <p className="text-gray-900 text-lg">Checking session...</p>
+      </main>
+    );
+  }
+
+  const selectClassName =
+    "w-full border border-gray-300 rounded px-3 py-2 text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-[#ff6b35] focus:border-transparent disabled:bg-gray-100";
+
+  return (
+    <main className="min-h-screen bg-gray-50">
+      <nav className="bg-[#ff6b35] text-white px-4 md:px-8 py-4 shadow-lg">
+        <div className="max-w-7xl mx-auto flex items-center justify-between">
+          <div className="text-2xl font-bold">AcadXL</div>
+          <button
+            onClick={() => router.push("/dashboard")}
+            className="text-white hover:text-yellow-200 transition-colors"
+          >
+            ← Back to Dashboard
+          </button>
+        </div>
+      </nav>
+
+      <div className="max-w-4xl mx-auto px-4 md:px-8 py-8 space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 mb-1">Practice</h1>
+          <p className="text-sm text-gray-600">
+            Answer questions one at a time and see the solution straight away. Practice is not
+            timed and never affects your test ranks.
+          </p>
+        </div>
+
+        <div className="bg-white border border-gray-200 rounded-lg p-6 shadow-sm space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block mb-1 text-sm font-medium text-gray-700">Subject</label>
+              <select
+                className={selectClassName}
+                value={subjectId}
+                onChange={(e) => {
+                  setSubjectId(e.target.value);
+                  setChapterId("");
+                  setTopicId("");
+                }}
+              >
+                <option value="">Select Subject</option>
+                {subjects.map((subject) => (
+                  <option key={subject.id} value={subject.id}>
+                    {subject.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block mb-1 text-sm font-medium text-gray-700">Chapter</label>
+              <select
+                className={selectClassName}
+                value={chapterId}
+                onChange={(e) => {
+                  setChapterId(e.target.value);
+                  setTopicId("");
+                }}
+                disabled={!subjectId}
+              >
+                <option value="">All chapters</option>
+                {chapters.map((chapter) => (
+                  <option key={chapter.id} value={chapter.id}>
+                    {chapter.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block mb-1 text-sm font-medium text-gray-700">Topic</label>
+              <select
+                className={selectClassName}
+                value={topicId}
+                onChange={(e) => setTopicId(e.target.value)}
+                disabled={!chapterId}
+              >
+                <option value="">All topics</option>
+                {topics.map((topic) => (
+                  <option key={topic.id} value={topic.id}>
+                    {topic.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {error && (
+            <div className="text-sm text-red-600 bg-red-50 border border-red-200 rounded p-2">
+              {error}
+            </div>
+          )}
+
+          <button
+            onClick={handleStart}
+            disabled={starting || !subjectId}
+            className="px-6 py-2 bg-[#ff6b35] hover:bg-yellow-400 text-white rounded-lg font-semibold transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {starting ? "Starting..." : "Start Practice"}
+          </button>
+        </div>
+
+        <div className="bg-white border border-gray-200 rounded-lg p-6 shadow-sm">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Practice History</h2>
+          {loading ? (
+            <p className="text-sm text-gray-600">Loading...</p>
+          ) : sessions.length === 0 ? (
+            <p className="text-sm text-gray-600">You have not practised yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {sessions.map((session) => (
+                <li key={session.id} className="py-3 flex items-center justify-between gap-4">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">
+                      {describePracticeScope(session)}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {session.updatedAt?.toDate().toLocaleString("en-IN")} ·{" "}
+                      {session.correctCount} / {session.answeredCount} correct
+                      {session.answeredCount > 0 &&
+                        ` (${Math.round((session.correctCount / session.answeredCount) * 100)}%)`}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => router.push(`/dashboard/practice/${session.id}`)}
+                    className="text-sm text-[#ff6b35] hover:text-yellow-500 font-medium"
+                  >
+                    Continue →
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
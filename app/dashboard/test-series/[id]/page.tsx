@@ -10,9 +10,30 @@ import { auth } from "@/lib/firebase/client";
 import { getTestSeriesById } from "@/lib/db/testSeries";
 import { enrollInTestSeries, isEnrolled } from "@/lib/db/students";
 import { getTestById } from "@/lib/db/tests";
+import { listUserAttempts } from "@/lib/db/attempts";
 import type { TestSeries } from "@/lib/types/testSeries";
 import type { Test } from "@/lib/types/test";
+import type { Attempt } from "@/lib/types/attempt";
 import DescriptionRenderer from "@/components/DescriptionRenderer";
+import {
+  formatScheduleTime,
+  getTestWindowStatus,
+  type TestWindowStatus,
+} from "@/lib/utils/schedule";
+import { getTestAttemptState, type TestAttemptAction } from "@/lib/utils/attemptPolicy";
+
+const WINDOW_BADGES: Record<TestWindowStatus, { label: string; className: string }> = {
+  upcoming: { label: "Upcoming", className: "bg-blue-100 text-blue-800" },
+  live: { label: "Live", className: "bg-green-100 text-green-800" },
+  ended: { label: "Ended", className: "bg-gray-200 text-gray-700" },
+};
+
+const ACTION_LABELS: Record<TestAttemptAction, string> = {
+  attempt: "Attempt",
+  resume: "Resume",
+  reattempt: "Reattempt",
+  view_result: "View Result",
+};
 
 export default function TestSeriesDetailsPage() {
   const router = useRouter();
@@ -24,6 +45,10 @@ export default function TestSeriesDetailsPage() {
   const [loading, setLoading] = useState(true);
   const [enrolling, setEnrolling] = useState(false);
   const [isEnrolledInSeries, setIsEnrolledInSeries] = useState(false);
+  // When the tests were loaded - reference time for their Upcoming / Live / Ended status
+  const [loadedAtMs, setLoadedAtMs] = useState(0);
+  // The student's attempts grouped by testId
+  const [attemptsByTest, setAttemptsByTest] = useState<Record<string, Attempt[]>>({});
 
   const seriesId = params.id as string;
 
@@ -60,6 +85,15 @@ export default function TestSeriesDetailsPage() {
         const enrolled = await isEnrolled(user.uid, seriesId);
         setIsEnrolledInSeries(enrolled);
 
+        if (enrolled) {
+          const userAttempts = await listUserAttempts(user.uid);
+          const grouped: Record<string, Attempt[]> = {};
+          userAttempts.forEach((attempt) => {
+            (grouped[attempt.testId] ??= []).push(attempt);
+          });
+          setAttemptsByTest(grouped);
+        }
+
         // Load test details
         if (series.testIds && series.testIds.length > 0) {
           const testPromises = series.testIds.map(async (testId) => {
@@ -68,6 +102,7 @@ export default function TestSeriesDetailsPage() {
           });
           const loadedTests = await Promise.all(testPromises);
           setTests(loadedTests.filter((t): t is Test => t !== null));
+          setLoadedAtMs(Date.now());
         }
       } catch (error) {
         console.error("[TestSeriesDetailsPage] Error loading data:", error);
@@ -231,31 +266,84 @@ export default function TestSeriesDetailsPage() {
                 <p className="text-gray-600">No tests available in this series.</p>
               ) : (
                 <div className="space-y-3">
-                  {tests.map((test) => (
-                    <div
-                      key={test.id}
-                      className="flex items-center justify-between p-4 bg-gray-50 rounded-lg border border-gray-200 hover:bg-gray-100 transition-colors"
-                    >
-                      <div className="flex-1">
-                        <h3 className="font-semibold text-gray-900 text-lg">{test.title}</h3>
-                        <div className="flex items-center gap-4 mt-1 text-sm text-gray-600">
-                          {test.durationMinutes && <span>⏱️ {test.durationMinutes} minutes</span>}
-                          {test.questions && <span>📝 {test.questions.length} Questions</span>}
+                  {tests.map((test) => {
+                    const windowStatus = getTestWindowStatus(test, loadedAtMs);
+                    const attemptState = getTestAttemptState(
+                      test,
+                      attemptsByTest[test.id] ?? [],
+                      loadedAtMs
+                    );
+                    const resultHref = attemptState.latestResultId
+                      ? `/dashboard/attempts/${attemptState.latestResultId}`
+                      : null;
+                    const playerHref = `/dashboard/tests/${test.id}?seriesId=${seriesId}`;
+                    return (
+                      <div
+                        key={test.id}
+                        className="flex items-center justify-between p-4 bg-gray-50 rounded-lg border border-gray-200 hover:bg-gray-100 transition-colors"
+                      >
+                        <div className="flex-1">
+                          <div className="flex items-center gap-2">
+                            <h3 className="font-semibold text-gray-900 text-lg">{test.title}</h3>
+                            {windowStatus && (
+                              <span
+                                className={`text-xs px-2 py-0.5 rounded font-medium ${WINDOW_BADGES[windowStatus].className}`}
+                              >
+                                {WINDOW_BADGES[windowStatus].label}
+                              </span>
+                            )}
+                          </div>
+                          <div className="flex items-center gap-4 mt-1 text-sm text-gray-600">
+                            {test.durationMinutes && <span>⏱️ {test.durationMinutes} minutes</span>}
+                            {test.questions && <span>📝 {test.questions.length} Questions</span>}
+                            {windowStatus === "upcoming" && test.startsAt && (
+                              <span>Opens {formatScheduleTime(test.startsAt.toMillis())}</span>
+                            )}
+                            {windowStatus === "live" && test.endsAt && (
+                              <span>Closes {formatScheduleTime(test.endsAt.toMillis())}</span>
+                            )}
+                          </div>
+                          {test.description && (
+                            <p className="text-sm text-gray-600 mt-2">{test.description}</p>
+                          )}
                         </div>
-                        {test.description && (
-                          <p className="text-sm text-gray-600 mt-2">{test.description}</p>
+                        {isEnrolledInSeries && (
+                          <div className="flex flex-col items-end gap-1 ml-4">
+                            <button
+                              onClick={() =>
+                                router.push(
+                                  attemptState.action === "view_result" && resultHref
+                                    ? resultHref
+                                    : playerHref
+                                )
+                              }
+                              disabled={
+                                (attemptState.action === "attempt" && attemptState.blockReason !== null) ||
+                                (attemptState.action === "view_result" && !resultHref)
+                              }
+                              title={attemptState.blockReason ?? undefined}
+                              className="px-4 py-2 bg-[#ff6b35] hover:bg-yellow-400 text-white rounded-lg font-medium transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                              {attemptState.action === "attempt" && windowStatus === "upcoming"
+                                ? "Not Open Yet"
+                                : ACTION_LABELS[attemptState.action]}
+                            </button>
+                            {attemptState.action === "reattempt" && resultHref && (
+                              <button
+                                onClick={() => router.push(resultHref)}
+                                className="text-xs text-[#ff6b35] hover:text-yellow-500"
+                              >
+                                View Result
+                              </button>
+                            )}
+                            {attemptState.action === "view_result" && attemptState.blockReason && (
+                              <span className="text-xs text-gray-500">{attemptState.blockReason}</span>
+                            )}
+                          </div>
                         )}
                       </div>
-                      {isEnrolledInSeries && (
-                        <button
-                          onClick={() => router.push(`/dashboard/tests/${test.id}`)}
-                          className="px-4 py-2 bg-[#ff6b35] hover:bg-yellow-400 text-white rounded-lg font-medium transition-all ml-4"
-                        >
-                          Start Test
-                        </button>
-                      )}
-                    </div>
-                  ))}
+                    );
+                  })}
                 </div>
               )}
             </div>
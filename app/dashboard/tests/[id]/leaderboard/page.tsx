@@ -0,0 +1,218 @@
+// app/dashboard/tests/[id]/leaderboard/page.tsx
+"use client";
+
+import { useRouter, useParams } from "next/navigation";
+import { useAuth } from "@/context/AuthContext";
+import { useUserProfile } from "@/lib/hooks/useUserProfile";
+import { useEffect, useState } from "react";
+import { getTestById } from "@/lib/db/tests";
+import { getTestLeaderboard } from "@/lib/api/tests";
+import type { Test } from "@/lib/types/test";
+import type { LeaderboardRow, TestLeaderboard } from "@/lib/types/testStats";
+import { formatDuration } from "@/lib/utils/duration";
+
+export default function TestLeaderboardPage() {
+  const router = useRouter();
+  const params = useParams();
+  const testId = params?.id as string;
+  const { user, loading: authLoading } = useAuth();
+  const { role, loading: profileLoading } = useUserProfile();
+
+  const [test, setTest] = useState<Test | null>(null);
+  const [leaderboard, setLeaderboard] = useState<TestLeaderboard | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (authLoading || profileLoading || !testId) return;
+
+    if (!user) {
+      console.log("[TestLeaderboardPage] No user, redirecting to login");
+      router.replace("/login");
+      return;
+    }
+
+    if (role === "admin") {
+      router.replace("/admin");
+      return;
+    }
+
+    const loadLeaderboard = async () => {
+      setLoading(true);
+      setError(null);
+      console.log("[TestLeaderboardPage] Loading leaderboard:", testId);
+
+      try {
+        const [testData, leaderboardData] = await Promise.all([
+          getTestById(testId),
+          getTestLeaderboard(testId),
+        ]);
+        if (!testData) {
+          setError("Test not found.");
+          return;
+        }
+
+        setTest(testData);
+        setLeaderboard(leaderboardData);
+      } catch (err) {
+        console.error("[TestLeaderboardPage] Error loading leaderboard:", err);
+        const errorMessage =
+          err instanceof Error ? err.message : "Failed to load leaderboard.";
+        setError(errorMessage);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadLeaderboard();
+  }, [authLoading, profileLoading, user, role, router, testId]);
+
+  if (authLoading || profileLoading || loading) {
+    return (
+      <main className="min-h-screen flex items-center justify-center bg-white">
+        <p className="text-gray-600">Loading leaderboard...</p>
+      </main>
+    );
+  }
+
+  if (error || !test || !leaderboard) {
+    return (
+      <main className="min-h-screen flex items-center justify-center bg-white">
+        <div className="text-center">
+          <p className="text-red-600 mb-4">{error || "Leaderboard not found."}</p>
+          <button
+            onClick={() => router.push("/dashboard")}
+            className="text-[#ff6b35] hover:text-yellow-400 transition-colors"
+          >
+            ← Back to Dashboard
+          </button>
+        </div>
+      </main>
+    );
+  }
+
+  const me = leaderboard.me;
+  const meInTop = !!me && leaderboard.rows.some((row) => row.userId === me.userId);
+  const toppers = Object.entries(leaderboard.subjectToppers);
+
+  const renderRow = (row: LeaderboardRow) => {
+    const isMe = row.userId === user?.uid;
+    return (
+      <tr
+        key={row.userId}
+        className={`border-b last:border-b-0 ${isMe ? "bg-orange-50 font-semibold" : ""}`}
+      >
+        <td className="py-2 px-3 text-gray-900">{row.rank}</td>
+        <td className="py-2 px-3 text-gray-900">
+          {row.displayName}
+          {isMe && <span className="ml-2 text-xs text-[#ff6b35]">(You)</span>}
+        </td>
+        <td className="py-2 px-3 text-right text-gray-900">
+          {row.score} / {row.maxScore}
+        </td>
+        <td className="py-2 px-3 text-right text-gray-700">{row.percentile.toFixed(2)}</td>
+        <td className="py-2 px-3 text-right text-gray-700">{row.accuracy}%</td>
+        <td className="py-2 px-3 text-right text-gray-700">
+          {formatDuration(row.timeTakenSeconds)}
+        </td>
+      </tr>
+    );
+  };
+
+  return (
+    <main className="min-h-screen bg-gray-50">
+      <nav className="bg-[#ff6b35] text-white px-4 md:px-8 py-4 shadow-lg">
+        <div className="max-w-7xl mx-auto flex items-center justify-between">
+          <div className="text-2xl font-bold">AcadXL</div>
+          <button
+            onClick={() => router.push("/dashboard")}
+            className="text-white hover:text-yellow-200 transition-colors"
+          >
+            Dashboard
+          </button>
+        </div>
+      </nav>
+
+      <div className="max-w-5xl mx-auto px-4 md:px-8 py-8 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">{test.title}</h1>
+          <p className="text-gray-600">Leaderboard</p>
+        </div>
+
+        {/* Summary */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {[
+            { label: "Participants", value: leaderboard.participantCount },
+            { label: "Average Score", value: leaderboard.averageScore },
+            { label: "Your Rank", value: me ? me.rank : "—" },
+            { label: "Your Percentile", value: me ? me.percentile.toFixed(2) : "—" },
+          ].map((card) => (
+            <div key={card.label} className="bg-white rounded-lg shadow p-4 text-center">
+              <p className="text-xs text-gray-500 mb-1">{card.label}</p>
+              <p className="text-2xl font-bold text-[#ff6b35]">{card.value}</p>
+            </div>
+          ))}
+        </div>
+
+        {/* Subject toppers */}
+        {toppers.length > 0 && (
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Subject Toppers</h2>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {toppers.map(([subject, subjectToppers]) => (
+                <div key={subject} className="border border-gray-200 rounded-lg p-4">
+                  <p className="text-sm font-medium text-gray-500">{subject}</p>
+                  <p className="text-gray-900 font-semibold">
+                    {subjectToppers.map((topper) => topper.displayName).join(", ")}
+                  </p>
+                  {subjectToppers[0] && (
+                    <p className="text-sm text-gray-600">
+                      {subjectToppers[0].score} / {subjectToppers[0].maxScore}
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Rankings */}
+        <div className="bg-white rounded-lg shadow p-6 overflow-x-auto">
+          <h2 className="text-lg font-semibold text-gray-900 mb-1">Rankings</h2>
+          <p className="text-xs text-gray-500 mb-4">
+            Students with equal scores share a rank. Only ranked attempts are counted.
+          </p>
+          {leaderboard.rows.length === 0 ? (
+            <p className="text-sm text-gray-600">No one has completed this test yet.</p>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead className="border-b border-gray-200">
+                <tr>
+                  <th className="text-left py-2 px-3 font-medium text-gray-700">Rank</th>
+                  <th className="text-left py-2 px-3 font-medium text-gray-700">Name</th>
+                  <th className="text-right py-2 px-3 font-medium text-gray-700">Score</th>
+                  <th className="text-right py-2 px-3 font-medium text-gray-700">Percentile</th>
+                  <th className="text-right py-2 px-3 font-medium text-gray-700">Accuracy</th>
+                  <th className="text-right py-2 px-3 font-medium text-gray-700">Time</th>
+                </tr>
+              </thead>
+              <tbody>
+                {leaderboard.rows.map(renderRow)}
+                {me && !meInTop && (
+                  <>
+                    <tr>
+                      <td colSpan={6} className="py-1 text-center text-gray-400">
+                        ⋯
+                      </td>
+                    </tr>
+                    {renderRow(me)}
+                  </>
+                )}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
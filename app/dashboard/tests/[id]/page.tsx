@@ -0,0 +1,1128 @@
+// app/dashboard/tests/[id]/page.tsx
+"use client";
+
+import { useRouter, useParams } from "next/navigation";
+import { useAuth } from "@/context/AuthContext";
+import { useUserProfile } from "@/lib/hooks/useUserProfile";
+import { useEffect, useState, useCallback, useMemo, useRef } from "react";
+import { getTestById } from "@/lib/db/tests";
+import { getPassagesByIds } from "@/lib/db/passages";
+import { getAttemptById, listUserAttempts } from "@/lib/db/attempts";
+import { startAttempt, type SubmitAttemptResponse } from "@/lib/api/attempts";
+import { getTestQuestions } from "@/lib/api/tests";
+import type { Test, TestQuestion } from "@/lib/types/test";
+import type { StudentQuestion } from "@/lib/types/question";
+import type { Passage } from "@/lib/types/passage";
+import type { AttemptProgress, QuestionResponse } from "@/lib/types/attempt";
+import { useCountdown, formatCountdown } from "@/lib/hooks/useCountdown";
+import { requestPageFullscreen, useProctoring } from "@/lib/hooks/useProctoring";
+import { useAttemptSync } from "@/lib/hooks/useAttemptSync";
+import { getQueuedSnapshot } from "@/lib/utils/offlineQueue";
+import QuestionRenderer, {
+  EMPTY_RESPONSE,
+  isAnswered,
+} from "@/components/test-player/QuestionRenderer";
+import QuestionPalette, { getPaletteStatus } from "@/components/test-player/QuestionPalette";
+import SubmitSummaryModal from "@/components/test-player/SubmitSummaryModal";
+import PassagePane from "@/components/test-player/PassagePane";
+import {
+  getActiveSectionIndex,
+  getSectionRanges,
+  describeAttemptLimit,
+  getSectionSchedule,
+  hasSectionalTiming,
+  sortQuestionsBySection,
+} from "@/lib/utils/sections";
+import { arrangeQuestionsForAttempt, getAttemptOptionOrder } from "@/lib/utils/shuffle";
+import { buildAnswerImageFolderPath } from "@/lib/utils/subjective";
+import {
+  formatScheduleTime,
+  getAttemptDeadlineMs,
+  getEntryCutoffMs,
+} from "@/lib/utils/schedule";
+import { getTestAttemptState, isAttemptRanked } from "@/lib/utils/attemptPolicy";
+
+/**
+ * A test question resolved against the question bank
+ */
+interface PlayerQuestion {
+  testQuestion: TestQuestion;
+  question: StudentQuestion;
+}
+
+type PlayerPhase = "instructions" | "in_progress" | "submitted";
+
+// Wait for the student to pause before saving progress
+const AUTOSAVE_DEBOUNCE_MS = 2000;
+
+/**
+ * Convert stored questionId lists to lookup flags
+ */
+function toFlags(questionIds: string[] | undefined): Record<string, boolean> {
+  const flags: Record<string, boolean> = {};
+  (questionIds ?? []).forEach((id) => {
+    flags[id] = true;
+  });
+  return flags;
+}
+
+/**
+ * Convert lookup flags back to a questionId list for storage
+ */
+function flaggedIds(flags: Record<string, boolean>): string[] {
+  return Object.keys(flags).filter((id) => flags[id]);
+}
+
+/**
+ * Record a visit to a question and add its time to the response
+ */
+function addTimeSpent(
+  responses: Record<string, QuestionResponse>,
+  questionId: string,
+  seconds: number
+): Record<string, QuestionResponse> {
+  if (seconds <= 0) return responses;
+  const current = responses[questionId] ?? EMPTY_RESPONSE;
+  return {
+    ...responses,
+    [questionId]: {
+      ...current,
+      timeSpentSeconds: current.timeSpentSeconds + seconds,
+      visitSeconds: [...(current.visitSeconds ?? []), seconds],
+    },
+  };
+}
+
+export default function TestPlayerPage() {
+  const router = useRouter();
+  const params = useParams();
+  const testId = params?.id as string;
+  const { user, loading: authLoading } = useAuth();
+  const { role, loading: profileLoading } = useUserProfile();
+
+  const [test, setTest] = useState<Test | null>(null);
+  const [playerQuestions, setPlayerQuestions] = useState<PlayerQuestion[]>([]);
+  const [passages, setPassages] = useState<Map<string, Passage>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [phase, setPhase] = useState<PlayerPhase>("instructions");
+  const [attemptId, setAttemptId] = useState<string | null>(null);
+  const [starting, setStarting] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [submission, setSubmission] = useState<SubmitAttemptResponse | null>(null);
+  const [deadlineMs, setDeadlineMs] = useState<number | null>(null);
+  const [startedAtMs, setStartedAtMs] = useState<number | null>(null);
+  const [shuffleSeed, setShuffleSeed] = useState<number | null>(null);
+  // Why a new attempt cannot start (outside the test's window), checked on load
+  const [startBlockReason, setStartBlockReason] = useState<string | null>(null);
+  const [nextAttemptNumber, setNextAttemptNumber] = useState(1);
+  // Index (in test.sections) of the open section when sections are timed
+  const [timedSectionIndex, setTimedSectionIndex] = useState(0);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [responses, setResponses] = useState<Record<string, QuestionResponse>>({});
+  const [markedForReview, setMarkedForReview] = useState<Record<string, boolean>>({});
+  const [visited, setVisited] = useState<Record<string, boolean>>({});
+  const [submissionQueued, setSubmissionQueued] = useState(false);
+  const [showSubmitSummary, setShowSubmitSummary] = useState(false);
+
+  // When the student landed on the current question (for time tracking)
+  const questionEnteredAtRef = useRef<number>(0);
+
+  // Load test and resolve its questions
+  useEffect(() => {
+    if (authLoading || profileLoading || !testId) return;
+
+    if (!user) {
+      console.log("[TestPlayerPage] No user, redirecting to login");
+      router.replace("/login");
+      return;
+    }
+
+    if (role === "admin") {
+      router.replace("/admin");
+      return;
+    }
+
+    const loadTest = async () => {
+      setLoading(true);
+      setError(null);
+      console.log("[TestPlayerPage] Loading test:", testId);
+
+      try {
+        const testData = await getTestById(testId);
+        if (!testData) {
+          setError("Test not found.");
+          return;
+        }
+
+        const ordered = sortQuestionsBySection(testData.questions, testData.sections, (tq) => tq);
+        // The server leaves out answer keys and solutions
+        const { questions } = await getTestQuestions(testId);
+        const questionsById = new Map(questions.map((question) => [question.id, question]));
+
+        const resolved: PlayerQuestion[] = [];
+        ordered.forEach((testQuestion) => {
+          const question = questionsById.get(testQuestion.questionId);
+          if (question) {
+            resolved.push({ testQuestion, question });
+          } else {
+            console.warn("[TestPlayerPage] Question missing from bank:", testQuestion.questionId);
+          }
+        });
+
+        if (resolved.length === 0) {
+          setError("This test has no questions available.");
+          return;
+        }
+
+        const passageData = await getPassagesByIds(
+          resolved.map(({ question }) => question.passageId ?? "")
+        );
+
+        setTest(testData);
+        setPlayerQuestions(resolved);
+        setPassages(passageData);
+
+        // Window and attempt policy decide whether a new attempt may start
+        const userAttempts = await listUserAttempts(user.uid, testId);
+        const attemptState = getTestAttemptState(testData, userAttempts, Date.now());
+        setStartBlockReason(attemptState.blockReason);
+        setNextAttemptNumber(attemptState.finishedCount + 1);
+        console.log("[TestPlayerPage] Test loaded with questions:", resolved.length);
+
+        // Resume an unfinished attempt where the student left off
+        const inProgress = userAttempts.find((attempt) => attempt.status === "in_progress");
+        if (inProgress) {
+          console.log("[TestPlayerPage] Resuming attempt:", inProgress.id);
+          const resumeStartedAtMs = inProgress.startedAt.toMillis();
+          const arranged = arrangeQuestionsForAttempt(
+            resolved,
+            testData,
+            inProgress.shuffleSeed,
+            (pq) => pq.testQuestion
+          );
+
+          // Progress queued on this device while offline may be newer than the server's
+          const queued = await getQueuedSnapshot(inProgress.id);
+          const serverCapturedMs =
+            inProgress.progressCapturedAt?.toMillis() ?? inProgress.updatedAt?.toMillis() ?? 0;
+          const saved: AttemptProgress =
+            queued && queued.capturedAt > serverCapturedMs ? queued.progress : inProgress;
+
+          let resumeIndex = arranged.findIndex(
+            (pq) => pq.question.id === saved.currentQuestionId
+          );
+
+          // With timed sections, only the section open right now can be resumed
+          if (testData.sections && hasSectionalTiming(testData.sections)) {
+            const schedule = getSectionSchedule(testData.sections, resumeStartedAtMs);
+            const activeIndex = getActiveSectionIndex(schedule, Date.now());
+            const activeSectionId = schedule[activeIndex].sectionId;
+            if (arranged[resumeIndex]?.testQuestion.sectionId !== activeSectionId) {
+              resumeIndex = arranged.findIndex(
+                (pq) => pq.testQuestion.sectionId === activeSectionId
+              );
+            }
+            setTimedSectionIndex(activeIndex);
+          }
+
+          setAttemptId(inProgress.id);
+          setPlayerQuestions(arranged);
+          setShuffleSeed(inProgress.shuffleSeed ?? null);
+          setResponses(saved.responses ?? {});
+          setMarkedForReview(toFlags(saved.markedForReview));
+          setVisited(toFlags(saved.visited));
+          setCurrentIndex(resumeIndex >= 0 ? resumeIndex : 0);
+          setStartedAtMs(resumeStartedAtMs);
+          questionEnteredAtRef.current = Date.now();
+          if (queued?.submitRequested) {
+            // Submitted offline on an earlier visit - it is sent once the connection is back
+            setSubmissionQueued(true);
+            setPhase("submitted");
+          } else {
+            setDeadlineMs(getAttemptDeadlineMs(inProgress, testData));
+            setPhase("in_progress");
+          }
+        }
+      } catch (err) {
+        console.error("[TestPlayerPage] Error loading test:", err);
+        const errorMessage =
+          err instanceof Error ? err.message : "Failed to load test.";
+        setError(errorMessage);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadTest();
+  }, [authLoading, profileLoading, user, role, router, testId]);
+
+  const currentQuestion = playerQuestions[currentIndex];
+  const currentPassageId = currentQuestion?.question.passageId ?? null;
+  const currentPassage = currentPassageId ? passages.get(currentPassageId) ?? null : null;
+  const passageQuestionNumbers = useMemo(
+    () =>
+      currentPassageId
+        ? playerQuestions.flatMap((pq, index) =>
+            pq.question.passageId === currentPassageId ? [index + 1] : []
+          )
+        : [],
+    [playerQuestions, currentPassageId]
+  );
+
+  const sectionRanges = useMemo(
+    () => getSectionRanges(playerQuestions, test?.sections, (pq) => pq.testQuestion),
+    [playerQuestions, test]
+  );
+  const hasSections = sectionRanges.some((range) => range.section !== null);
+  const currentRange = sectionRanges.find(
+    (range) => currentIndex >= range.startIndex && currentIndex < range.endIndex
+  );
+
+  // Timed sections are taken one after another on a fixed schedule
+  const sectionSchedule = useMemo(
+    () =>
+      test?.sections && hasSectionalTiming(test.sections) && startedAtMs !== null
+        ? getSectionSchedule(test.sections, startedAtMs)
+        : null,
+    [test, startedAtMs]
+  );
+  const openSectionId = sectionSchedule?.[timedSectionIndex]?.sectionId ?? null;
+
+  // Whether the student may move to a question (closed timed sections are locked)
+  const canVisit = useCallback(
+    (index: number) => {
+      if (index < 0 || index >= playerQuestions.length) return false;
+      return !openSectionId || playerQuestions[index].testQuestion.sectionId === openSectionId;
+    },
+    [playerQuestions, openSectionId]
+  );
+
+  // "Attempt any N" - once N questions of the section are answered, the rest are locked
+  const attemptLimitReached = useMemo(() => {
+    const limit = currentRange?.section?.attemptLimit;
+    if (!limit || !currentRange || !currentQuestion) return false;
+    if (isAnswered(responses[currentQuestion.question.id])) return false;
+    const sectionAnswered = playerQuestions
+      .slice(currentRange.startIndex, currentRange.endIndex)
+      .filter((pq) => isAnswered(responses[pq.question.id])).length;
+    return sectionAnswered >= limit;
+  }, [currentRange, currentQuestion, playerQuestions, responses]);
+
+  const handleStart = useCallback(async () => {
+    if (!user || !test || playerQuestions.length === 0) return;
+    console.log("[TestPlayerPage] Starting test:", test.id);
+    // Browsers only allow fullscreen from a click, so it is requested before any await
+    if (test.proctored && test.requireFullscreen) requestPageFullscreen();
+    setStarting(true);
+    setActionError(null);
+
+    try {
+      const testSeriesId = new URLSearchParams(window.location.search).get("seriesId");
+      const { attemptId: newAttemptId, resumed } = await startAttempt(test.id, testSeriesId);
+
+      // The server sets the attempt's start and expiry times - they drive the timer
+      const attempt = await getAttemptById(newAttemptId);
+      const startedAtMs = attempt?.startedAt?.toMillis() ?? Date.now();
+      const seed = attempt?.shuffleSeed ?? null;
+      const arranged = arrangeQuestionsForAttempt(
+        playerQuestions,
+        test,
+        seed,
+        (pq) => pq.testQuestion
+      );
+
+      setAttemptId(newAttemptId);
+      setPlayerQuestions(arranged);
+      setShuffleSeed(seed);
+      setStartedAtMs(startedAtMs);
+      setTimedSectionIndex(0);
+      setDeadlineMs(
+        attempt
+          ? getAttemptDeadlineMs(attempt, test)
+          : startedAtMs + test.durationMinutes * 60 * 1000
+      );
+      setCurrentIndex(0);
+      if (resumed && attempt) {
+        // Started from another tab or device in the meantime
+        setResponses(attempt.responses ?? {});
+        setMarkedForReview(toFlags(attempt.markedForReview));
+      }
+      setVisited({
+        ...(resumed && attempt ? toFlags(attempt.visited) : {}),
+        [arranged[0].question.id]: true,
+      });
+      questionEnteredAtRef.current = Date.now();
+      setPhase("in_progress");
+    } catch (err) {
+      console.error("[TestPlayerPage] Error starting attempt:", err);
+      setActionError(
+        err instanceof Error ? err.message : "Failed to start the test. Please try again."
+      );
+    } finally {
+      setStarting(false);
+    }
+  }, [user, test, playerQuestions]);
+
+  // Seconds spent on the current question since the student landed on it
+  const takeElapsedSeconds = useCallback(() => {
+    const now = Date.now();
+    const elapsed = Math.round((now - questionEnteredAtRef.current) / 1000);
+    questionEnteredAtRef.current = now;
+    return elapsed;
+  }, []);
+
+  const goToQuestion = useCallback(
+    (index: number) => {
+      if (!canVisit(index) || !currentQuestion) return;
+      const elapsed = takeElapsedSeconds();
+      setResponses((prev) => addTimeSpent(prev, currentQuestion.question.id, elapsed));
+      setVisited((prev) => ({ ...prev, [playerQuestions[index].question.id]: true }));
+      setCurrentIndex(index);
+    },
+    [playerQuestions, currentQuestion, takeElapsedSeconds, canVisit]
+  );
+
+  const handleResponseChange = useCallback(
+    (response: QuestionResponse) => {
+      if (!currentQuestion || attemptLimitReached) return;
+      setResponses((prev) => ({ ...prev, [currentQuestion.question.id]: response }));
+    },
+    [currentQuestion, attemptLimitReached]
+  );
+
+  const handleClearResponse = useCallback(() => {
+    if (!currentQuestion) return;
+    const questionId = currentQuestion.question.id;
+    setResponses((prev) => ({
+      ...prev,
+      [questionId]: {
+        ...EMPTY_RESPONSE,
+        timeSpentSeconds: prev[questionId]?.timeSpentSeconds ?? 0,
+        visitSeconds: prev[questionId]?.visitSeconds ?? [],
+      },
+    }));
+  }, [currentQuestion]);
+
+  // Save & Next - responses are kept as they change, so this only moves on
+  const handleSaveAndNext = useCallback(() => {
+    if (canVisit(currentIndex + 1)) {
+      goToQuestion(currentIndex + 1);
+    }
+  }, [currentIndex, canVisit, goToQuestion]);
+
+  const handleMarkAndNext = useCallback(() => {
+    if (!currentQuestion) return;
+    const questionId = currentQuestion.question.id;
+    setMarkedForReview((prev) => ({ ...prev, [questionId]: true }));
+    if (canVisit(currentIndex + 1)) {
+      goToQuestion(currentIndex + 1);
+    }
+  }, [currentQuestion, currentIndex, canVisit, goToQuestion]);
+
+  const handleUnmark = useCallback(() => {
+    if (!currentQuestion) return;
+    const questionId = currentQuestion.question.id;
+    setMarkedForReview((prev) => ({ ...prev, [questionId]: false }));
+  }, [currentQuestion]);
+
+  // A submission queued while offline reached the server
+  const handleQueuedSubmit = useCallback((outcome: SubmitAttemptResponse) => {
+    console.log("[TestPlayerPage] Queued submission accepted");
+    setSubmission(outcome);
+    setSubmissionQueued(false);
+    setPhase("submitted");
+    setDeadlineMs(null);
+  }, []);
+
+  // A submission queued while offline was refused - reload the attempt to see where it stands
+  const handleQueuedSubmitFailed = useCallback(
+    async (message: string) => {
+      console.warn("[TestPlayerPage] Queued submission rejected:", message);
+      setSubmissionQueued(false);
+      if (!attemptId || !test) return;
+
+      try {
+        const attempt = await getAttemptById(attemptId);
+        if (attempt?.result) {
+          // Already scored, e.g. submitted from another device
+          setSubmission({ status: attempt.status, result: attempt.result });
+        } else if (attempt?.status === "in_progress") {
+          // Still open - back to the player so the student can submit again
+          setActionError(message);
+          setDeadlineMs(getAttemptDeadlineMs(attempt, test));
+          setPhase("in_progress");
+        }
+      } catch (err) {
+        console.error("[TestPlayerPage] Error reloading attempt:", err);
+      }
+    },
+    [attemptId, test]
+  );
+
+  const attemptSync = useAttemptSync({
+    attemptId,
+    onQueuedSubmit: handleQueuedSubmit,
+    onQueuedSubmitFailed: handleQueuedSubmitFailed,
+  });
+  const { saveProgress, submit } = attemptSync;
+
+  // Snapshot of the player state with the given responses
+  const captureProgress = useCallback(
+    (progressResponses: Record<string, QuestionResponse>): AttemptProgress => ({
+      responses: progressResponses,
+      visited: flaggedIds(visited),
+      markedForReview: flaggedIds(markedForReview),
+      currentQuestionId: currentQuestion?.question.id ?? null,
+      remainingSeconds:
+        deadlineMs !== null ? Math.max(0, Math.round((deadlineMs - Date.now()) / 1000)) : null,
+    }),
+    [visited, markedForReview, currentQuestion, deadlineMs]
+  );
+
+  // Save the current player state - on the device first, then to the server when online
+  const persistProgress = useCallback(async () => {
+    if (!attemptId || !currentQuestion) return;
+
+    // Include time on the current question without resetting its clock
+    const elapsed = Math.round((Date.now() - questionEnteredAtRef.current) / 1000);
+    await saveProgress(
+      captureProgress(addTimeSpent(responses, currentQuestion.question.id, elapsed))
+    );
+  }, [attemptId, currentQuestion, responses, saveProgress, captureProgress]);
+
+  // Debounced autosave whenever the player state changes
+  useEffect(() => {
+    if (phase !== "in_progress" || !attemptId) return;
+    const timer = setTimeout(() => {
+      persistProgress();
+    }, AUTOSAVE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [phase, attemptId, persistProgress]);
+
+  // Save immediately when the tab is hidden or the browser is closing
+  useEffect(() => {
+    if (phase !== "in_progress") return;
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden") {
+        persistProgress();
+      }
+    };
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () => document.removeEventListener("visibilitychange", handleVisibilityChange);
+  }, [phase, persistProgress]);
+
+  const finishTest = useCallback(async () => {
+    if (!attemptId || !currentQuestion) return;
+    console.log("[TestPlayerPage] Submitting attempt:", attemptId);
+    setSubmitting(true);
+    setActionError(null);
+
+    const finalResponses = addTimeSpent(
+      responses,
+      currentQuestion.question.id,
+      takeElapsedSeconds()
+    );
+    setResponses(finalResponses);
+
+    try {
+      const outcome = await submit(finalResponses, captureProgress(finalResponses));
+      if (outcome) {
+        console.log("[TestPlayerPage] Attempt submitted:", attemptId);
+      } else {
+        console.log("[TestPlayerPage] Offline - submission queued:", attemptId);
+      }
+      setSubmission(outcome);
+      setSubmissionQueued(outcome === null);
+      setShowSubmitSummary(false);
+      setPhase("submitted");
+      setDeadlineMs(null);
+    } catch (err) {
+      console.error("[TestPlayerPage] Error submitting attempt:", err);
+      setShowSubmitSummary(false);
+      setActionError("Failed to submit the test. Please check your connection and try again.");
+    } finally {
+      setSubmitting(false);
+    }
+  }, [attemptId, currentQuestion, responses, takeElapsedSeconds, submit, captureProgress]);
+
+  const handleSubmitClick = useCallback(() => {
+    setShowSubmitSummary(true);
+  }, []);
+
+  const handleTimeUp = useCallback(() => {
+    // A timed section ended - move on to the next one
+    if (sectionSchedule && timedSectionIndex < sectionSchedule.length - 1) {
+      const nextIndex = timedSectionIndex + 1;
+      const nextRange = sectionRanges.find(
+        (range) => range.section?.id === sectionSchedule[nextIndex].sectionId
+      );
+      console.log("[TestPlayerPage] Section time is up, moving to section:", nextIndex + 1);
+
+      if (currentQuestion) {
+        const elapsed = takeElapsedSeconds();
+        setResponses((prev) => addTimeSpent(prev, currentQuestion.question.id, elapsed));
+      }
+      setTimedSectionIndex(nextIndex);
+      if (nextRange) {
+        const firstQuestionId = playerQuestions[nextRange.startIndex].question.id;
+        setVisited((prev) => ({ ...prev, [firstQuestionId]: true }));
+        setCurrentIndex(nextRange.startIndex);
+      }
+      return;
+    }
+
+    console.log("[TestPlayerPage] Time is up, auto-submitting");
+    finishTest();
+  }, [
+    sectionSchedule,
+    timedSectionIndex,
+    sectionRanges,
+    currentQuestion,
+    playerQuestions,
+    takeElapsedSeconds,
+    finishTest,
+  ]);
+
+  const handleViolationLimit = useCallback(() => {
+    console.log("[TestPlayerPage] Violation limit reached, auto-submitting");
+    finishTest();
+  }, [finishTest]);
+
+  const proctoring = useProctoring({
+    attemptId,
+    enabled: phase === "in_progress" && !!test?.proctored,
+    requireFullscreen: !!test?.proctored && !!test?.requireFullscreen,
+    onLimitReached: handleViolationLimit,
+  });
+
+  // Timed sections count down to the end of the open section
+  const timerDeadlineMs =
+    sectionSchedule?.[timedSectionIndex]?.endsAtMs ?? deadlineMs;
+
+  const remainingSeconds = useCountdown(
+    phase === "in_progress" ? timerDeadlineMs : null,
+    handleTimeUp
+  );
+
+  const paletteStatuses = useMemo(
+    () =>
+      playerQuestions.map((pq) =>
+        getPaletteStatus(
+          isAnswered(responses[pq.question.id]),
+          !!markedForReview[pq.question.id],
+          !!visited[pq.question.id]
+        )
+      ),
+    [playerQuestions, responses, markedForReview, visited]
+  );
+  const answeredCount = paletteStatuses.filter(
+    (status) => status === "answered" || status === "answered_marked"
+  ).length;
+
+  if (authLoading || profileLoading || loading) {
+    return (
+      <main className="min-h-screen flex items-center justify-center bg-white">
+        <p className="text-gray-900 text-lg">Loading test...</p>
+      </main>
+    );
+  }
+
+  if (!user) {
+    return (
+      <main className="min-h-screen flex items-center justify-center bg-white">
+        <p className="text-gray-900 text-lg">Redirecting...</p>
+      </main>
+    );
+  }
+
+  if (error || !test) {
+    return (
+      <main className="min-h-screen flex items-center justify-center bg-white">
+        <div className="text-center">
+          <p className="text-gray-900 text-lg mb-4">{error || "Test not found"}</p>
+          <button
+            onClick={() => router.push("/dashboard")}
+            className="px-6 py-2 bg-[#ff6b35] hover:bg-yellow-400 text-white rounded-lg font-semibold transition-all"
+          >
+            Go Back to Dashboard
+          </button>
+        </div>
+      </main>
+    );
+  }
+
+  const totalMarks = playerQuestions.reduce((sum, pq) => sum + pq.testQuestion.marks, 0);
+  const hasNegativeMarking = playerQuestions.some((pq) => pq.testQuestion.negativeMarks > 0);
+  const entryCutoffMs = getEntryCutoffMs(test);
+
+  // Instructions screen
+  if (phase === "instructions") {
+    return (
+      <main className="min-h-screen bg-white">
+        <nav className="bg-[#ff6b35] text-white px-4 md:px-8 py-4 shadow-lg">
+          <div className="max-w-7xl mx-auto text-2xl font-bold">AcadXL</div>
+        </nav>
+        <div className="max-w-3xl mx-auto px-4 md:px-8 py-8">
+          <div className="bg-white rounded-lg shadow-2xl p-6 md:p-8">
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">{test.title}</h1>
+            {test.description && (
+              <p className="text-gray-600 mb-6">{test.description}</p>
+            )}
+
+            <div className="grid grid-cols-3 gap-4 mb-6">
+              <div className="bg-gray-50 rounded-lg p-4 text-center">
+                <p className="text-xs text-gray-500 mb-1">Duration</p>
+                <p className="text-lg font-semibold text-gray-900">{test.durationMinutes} min</p>
+              </div>
+              <div className="bg-gray-50 rounded-lg p-4 text-center">
+                <p className="text-xs text-gray-500 mb-1">Questions</p>
+                <p className="text-lg font-semibold text-gray-900">{playerQuestions.length}</p>
+              </div>
+              <div className="bg-gray-50 rounded-lg p-4 text-center">
+                <p className="text-xs text-gray-500 mb-1">Total Marks</p>
+                <p className="text-lg font-semibold text-gray-900">{totalMarks}</p>
+              </div>
+            </div>
+
+            {(test.startsAt || test.endsAt) && (
+              <div className="mb-6 text-sm text-gray-700 bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-1">
+                {test.startsAt && (
+                  <p>
+                    <span className="font-medium">Opens:</span>{" "}
+                    {formatScheduleTime(test.startsAt.toMillis())}
+                  </p>
+                )}
+                {entryCutoffMs !== null && entryCutoffMs !== test.endsAt?.toMillis() && (
+                  <p>
+                    <span className="font-medium">Last entry:</span>{" "}
+                    {formatScheduleTime(entryCutoffMs)}
+                  </p>
+                )}
+                {test.endsAt && (
+                  <p>
+                    <span className="font-medium">Closes:</span>{" "}
+                    {formatScheduleTime(test.endsAt.toMillis())}
+                  </p>
+                )}
+              </div>
+            )}
+
+            <h2 className="text-lg font-semibold text-gray-900 mb-2">Instructions</h2>
+            <ul className="list-disc list-inside space-y-1 text-sm text-gray-700 mb-8">
+              <li>The timer starts as soon as you click &quot;Start Test&quot;.</li>
+              <li>The test is submitted automatically when the time runs out.</li>
+              {test.liveMode && test.endsAt && (
+                <li>
+                  This is a live test - every attempt ends at{" "}
+                  {formatScheduleTime(test.endsAt.toMillis())}, however late you start.
+                </li>
+              )}
+              <li>You can move between questions using the question palette.</li>
+              {test.sections && hasSectionalTiming(test.sections) && (
+                <li>
+                  Each section has its own time limit. When a section&apos;s time runs out you
+                  move to the next section and cannot return to it.
+                </li>
+              )}
+              {(nextAttemptNumber > 1 || (test.maxAttempts ?? 0) > 1) && (
+                <li>
+                  This will be your attempt {nextAttemptNumber}
+                  {test.maxAttempts ? ` of ${test.maxAttempts}` : ""}.
+                  {!isAttemptRanked(test, nextAttemptNumber) &&
+                    " Re-attempts are for practice and do not count towards your rank."}
+                </li>
+              )}
+              {(test.shuffleQuestions || test.shuffleOptions) && (
+                <li>
+                  Questions and options appear in a different order for each student. Refer to
+                  questions by their content, not their number.
+                </li>
+              )}
+              <li>
+                Your answers are saved automatically. If you close the page, reopen the test to
+                continue - the timer keeps running in the meantime.
+              </li>
+              <li>
+                {hasNegativeMarking
+                  ? "Some questions carry negative marks for wrong answers."
+                  : "There is no negative marking in this test."}
+              </li>
+              {test.proctored && (
+                <li>
+                  This test is proctored. Switching tabs or windows, copying, pasting and
+                  right-clicking are recorded
+                  {test.requireFullscreen && ", and the test must stay in fullscreen"}.
+                  {!!test.maxViolations &&
+                    ` The test is submitted automatically after ${test.maxViolations} violation${
+                      test.maxViolations !== 1 ? "s" : ""
+                    }.`}
+                </li>
+              )}
+            </ul>
+
+            {hasSections && (
+              <div className="mb-8 space-y-3">
+                <h2 className="text-lg font-semibold text-gray-900">Sections</h2>
+                {sectionRanges.map((range) => (
+                  <div
+                    key={range.section?.id ?? "unsectioned"}
+                    className="border border-gray-200 rounded-lg p-4"
+                  >
+                    <div className="flex items-baseline justify-between">
+                      <p className="font-semibold text-gray-900">
+                        {range.section?.name ?? "Other Questions"}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {range.endIndex - range.startIndex} questions
+                        {range.section?.timeLimitMinutes
+                          ? ` · ${range.section.timeLimitMinutes} min`
+                          : ""}
+                      </p>
+                    </div>
+                    {describeAttemptLimit(range.section, range.endIndex - range.startIndex) && (
+                      <p className="mt-1 text-sm font-medium text-[#ff6b35]">
+                        {describeAttemptLimit(range.section, range.endIndex - range.startIndex)}
+                      </p>
+                    )}
+                    {range.section?.instructions && (
+                      <p className="mt-2 text-sm text-gray-700 whitespace-pre-line">
+                        {range.section.instructions}
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {startBlockReason && (
+              <div className="mb-4 text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded p-2">
+                {startBlockReason}
+              </div>
+            )}
+
+            {actionError && (
+              <div className="mb-4 text-sm text-red-600 bg-red-50 border border-red-200 rounded p-2">
+                {actionError}
+              </div>
+            )}
+
+            <div className="flex items-center justify-between">
+              <button
+                onClick={() => router.back()}
+                className="text-[#ff6b35] hover:text-yellow-400 transition-colors"
+              >
+                ← Back
+              </button>
+              <button
+                onClick={handleStart}
+                disabled={starting || startBlockReason !== null}
+                className="px-8 py-3 bg-[#ff6b35] hover:bg-yellow-400 text-white rounded-lg font-semibold transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {starting ? "Starting..." : "Start Test"}
+              </button>
+            </div>
+          </div>
+        </div>
+      </main>
+    );
+  }
+
+  // Submitted screen
+  if (phase === "submitted") {
+    return (
+      <main className="min-h-screen flex items-center justify-center bg-white">
+        <div className="bg-white rounded-lg shadow-2xl p-8 text-center max-w-md">
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">
+            {submissionQueued ? "Waiting for Connection" : "Test Submitted"}
+          </h1>
+          {submissionQueued && (
+            <p className="text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded p-2 mb-2">
+              You are offline. Your answers are saved on this device and will be submitted as soon
+              as the connection is back - keep this page open.
+            </p>
+          )}
+          {attemptSync.syncError && (
+            <p className="text-sm text-red-600 mb-2">{attemptSync.syncError}</p>
+          )}
+          {submission?.status === "expired" && (
+            <p className="text-sm text-red-600 mb-2">
+              Your submission arrived after the time limit, so only the answers saved before the deadline were scored.
+            </p>
+          )}
+          {submission && (
+            <p className="text-4xl font-bold text-[#ff6b35] my-4">
+              {submission.result.totalScore} / {submission.result.maxScore}
+            </p>
+          )}
+          <p className="text-gray-600 mb-6">
+            You answered {answeredCount} of {playerQuestions.length} questions.
+          </p>
+          <div className="flex flex-col sm:flex-row items-center justify-center gap-3">
+            {submission && attemptId && (
+              <button
+                onClick={() => router.push(`/dashboard/attempts/${attemptId}`)}
+                className="px-6 py-2 bg-[#ff6b35] hover:bg-yellow-400 text-white rounded-lg font-semibold transition-all"
+              >
+                View Result &amp; Solutions
+              </button>
+            )}
+            <button
+              onClick={() => router.push("/dashboard")}
+              className="px-6 py-2 border border-[#ff6b35] text-[#ff6b35] hover:bg-orange-50 rounded-lg font-semibold transition-all"
+            >
+              Back to Dashboard
+            </button>
+          </div>
+        </div>
+      </main>
+    );
+  }
+
+  const isLowOnTime = remainingSeconds !== null && remainingSeconds <= 300;
+
+  return (
+    <main className="min-h-screen bg-gray-50">
+      {/* Header with timer */}
+      <nav className="bg-[#ff6b35] text-white px-4 md:px-8 py-3 shadow-lg sticky top-0 z-10">
+        <div className="max-w-7xl mx-auto flex items-center justify-between">
+          <h1 className="text-lg font-bold truncate">{test.title}</h1>
+          <div className="flex items-center gap-4">
+            <span className="text-xs text-white/90 hidden sm:inline" aria-live="polite">
+              {attemptSync.syncStatus === "saving"
+                ? "Saving..."
+                : attemptSync.syncStatus === "saved"
+                ? "All changes saved"
+                : attemptSync.syncStatus === "queued"
+                ? "Saved on this device - syncs when you reconnect"
+                : attemptSync.syncStatus === "error"
+                ? attemptSync.syncError ?? "Not saved"
+                : ""}
+            </span>
+            <span
+              className={`flex items-center gap-1.5 text-xs font-medium px-2 py-1 rounded ${
+                attemptSync.connection === "online" ? "bg-white/20" : "bg-red-600"
+              }`}
+              title={
+                attemptSync.connection === "online"
+                  ? "Connected"
+                  : "No connection - keep going, your answers are saved on this device"
+              }
+            >
+              <span
+                className={`h-2 w-2 rounded-full ${
+                  attemptSync.connection === "online" ? "bg-green-300" : "bg-white animate-pulse"
+                }`}
+              />
+              {attemptSync.connection === "online" ? "Online" : "Offline"}
+            </span>
+            <div
+              className={`px-4 py-1.5 rounded font-mono text-lg font-semibold ${
+                isLowOnTime ? "bg-red-600 text-white" : "bg-white text-[#ff6b35]"
+              }`}
+              aria-label={sectionSchedule ? "Time remaining in this section" : "Time remaining"}
+              title={sectionSchedule ? "Time remaining in this section" : undefined}
+            >
+              {remainingSeconds !== null ? formatCountdown(remainingSeconds) : "--:--"}
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      {/* Proctoring warning */}
+      {proctoring.warning && (
+        <div className="bg-red-50 border-b border-red-200">
+          <div className="max-w-7xl mx-auto px-4 md:px-8 py-2 flex items-center justify-between gap-4 text-sm text-red-700">
+            <span>
+              {proctoring.warning}
+              {proctoring.maxViolations !== null &&
+                ` ${proctoring.violationCount} of ${proctoring.maxViolations} violations - the test is submitted automatically at the limit.`}
+            </span>
+            <button
+              onClick={proctoring.dismissWarning}
+              className="text-red-700 hover:text-red-900 font-medium"
+            >
+              Dismiss
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Section tabs */}
+      {hasSections && (
+        <div className="bg-white border-b border-gray-200">
+          <div className="max-w-7xl mx-auto px-4 md:px-8 flex gap-1 overflow-x-auto">
+            {sectionRanges.map((range) => {
+              const isActive = range === currentRange;
+              const isLocked = !canVisit(range.startIndex);
+              const sectionAnswered = paletteStatuses
+                .slice(range.startIndex, range.endIndex)
+                .filter((status) => status === "answered" || status === "answered_marked").length;
+              return (
+                <button
+                  key={range.section?.id ?? "unsectioned"}
+                  type="button"
+                  onClick={() => goToQuestion(range.startIndex)}
+                  disabled={isLocked}
+                  className={`px-4 py-3 text-sm font-medium border-b-2 whitespace-nowrap transition-colors disabled:cursor-not-allowed disabled:opacity-50 ${
+                    isActive
+                      ? "border-[#ff6b35] text-[#ff6b35]"
+                      : "border-transparent text-gray-600 hover:text-gray-900"
+                  }`}
+                >
+                  {range.section?.name ?? "Other Questions"}
+                  <span className="ml-2 text-xs text-gray-500">
+                    {sectionAnswered}/{range.section?.attemptLimit ?? range.endIndex - range.startIndex}
+                  </span>
+                  {isLocked && <span className="ml-1 text-xs">(locked)</span>}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      <div className="max-w-7xl mx-auto px-4 md:px-8 py-6 grid grid-cols-1 lg:grid-cols-4 gap-6">
+        {/* Question area */}
+        <div className="lg:col-span-3 bg-white border border-gray-200 rounded-lg p-6">
+          {currentRange?.section?.instructions && (
+            <details className="mb-4 text-sm text-gray-700 bg-gray-50 border border-gray-200 rounded px-3 py-2">
+              <summary className="cursor-pointer font-medium text-gray-900">
+                {currentRange.section.name} instructions
+              </summary>
+              <p className="mt-2 whitespace-pre-line">{currentRange.section.instructions}</p>
+            </details>
+          )}
+          {attemptLimitReached && currentRange && (
+            <div className="mb-4 text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded px-3 py-2">
+              {describeAttemptLimit(currentRange.section, currentRange.endIndex - currentRange.startIndex)}
+              . You have already answered {currentRange.section?.attemptLimit} - clear another
+              response in this section to answer this one.
+            </div>
+          )}
+          {currentQuestion && (
+            <div className={currentPassage ? "grid grid-cols-1 lg:grid-cols-2 gap-6 items-start" : ""}>
+              {currentPassage && (
+                <PassagePane passage={currentPassage} questionNumbers={passageQuestionNumbers} />
+              )}
+              <QuestionRenderer
+                key={currentQuestion.question.id}
+                question={currentQuestion.question}
+                questionNumber={currentIndex + 1}
+                marks={currentQuestion.testQuestion.marks}
+                negativeMarks={currentQuestion.testQuestion.negativeMarks}
+                markingScheme={currentQuestion.testQuestion.markingScheme}
+                response={responses[currentQuestion.question.id] ?? EMPTY_RESPONSE}
+                onChange={handleResponseChange}
+                disabled={attemptLimitReached}
+                optionOrder={test && getAttemptOptionOrder(test, shuffleSeed, currentQuestion.question)}
+                answerImageFolder={
+                  user && attemptId ? buildAnswerImageFolderPath(user.uid, attemptId) : undefined
+                }
+              />
+            </div>
+          )}
+
+          {/* Navigation */}
+          <div className="flex flex-wrap items-center justify-between gap-3 mt-8 pt-4 border-t border-gray-200">
+            <div className="flex flex-wrap gap-2">
+              {currentQuestion && markedForReview[currentQuestion.question.id] ? (
+                <button
+                  onClick={handleUnmark}
+                  className="px-4 py-2 rounded border border-purple-300 text-purple-700 hover:bg-purple-50 text-sm font-medium transition-colors"
+                >
+                  Unmark Review
+                </button>
+              ) : (
+                <button
+                  onClick={handleMarkAndNext}
+                  className="px-4 py-2 rounded bg-purple-600 hover:bg-purple-700 text-white text-sm font-medium transition-colors"
+                >
+                  Mark for Review &amp; Next
+                </button>
+              )}
+              <button
+                onClick={handleClearResponse}
+                className="px-4 py-2 rounded border border-gray-300 text-gray-700 hover:bg-gray-50 text-sm font-medium transition-colors"
+              >
+                Clear Response
+              </button>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => goToQuestion(currentIndex - 1)}
+                disabled={!canVisit(currentIndex - 1)}
+                className="px-4 py-2 rounded border border-gray-300 text-gray-700 hover:bg-gray-50 text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                Previous
+              </button>
+              <button
+                onClick={handleSaveAndNext}
+                disabled={!canVisit(currentIndex + 1)}
+                className="px-4 py-2 rounded bg-green-600 hover:bg-green-700 text-white text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                Save &amp; Next
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {/* Sidebar */}
+        <div className="space-y-4">
+          <QuestionPalette
+            currentIndex={currentIndex}
+            statuses={
+              currentRange
+                ? paletteStatuses.slice(currentRange.startIndex, currentRange.endIndex)
+                : paletteStatuses
+            }
+            firstIndex={currentRange?.startIndex ?? 0}
+            title={currentRange?.section?.name ?? "Questions"}
+            onSelect={goToQuestion}
+          />
+          {actionError && (
+            <div className="text-sm text-red-600 bg-red-50 border border-red-200 rounded p-2">
+              {actionError}
+            </div>
+          )}
+          <button
+            onClick={handleSubmitClick}
+            disabled={submitting}
+            className="w-full py-3 bg-black hover:bg-gray-900 text-white rounded-lg font-semibold transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+          >
+            {submitting ? "Submitting..." : "Submit Test"}
+          </button>
+        </div>
+      </div>
+
+      {showSubmitSummary && (
+        <SubmitSummaryModal
+          statuses={paletteStatuses}
+          submitting={submitting}
+          onConfirm={finishTest}
+          onCancel={() => setShowSubmitSummary(false)}
+        />
+      )}
+
+      {test.proctored && test.requireFullscreen && !proctoring.isFullscreen && (
+        <div className="fixed inset-0 z-50 bg-black/90 flex items-center justify-center p-4">
+          <div className="bg-white rounded-lg shadow-2xl p-8 text-center max-w-md">
+            <h2 className="text-xl font-bold text-gray-900 mb-2">Fullscreen Required</h2>
+            <p className="text-gray-600 mb-6">
+              This test must be taken in fullscreen. Leaving fullscreen is recorded as a
+              violation - return to fullscreen to continue.
+            </p>
+            <button
+              onClick={proctoring.enterFullscreen}
+              className="px-6 py-2 bg-[#ff6b35] hover:bg-yellow-400 text-white rounded-lg font-semibold transition-all"
+            >
+              Return to Fullscreen
+            </button>
+          </div>
+        </div>
+      )}
+    </main>
+  );
+}
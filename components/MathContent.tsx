@@ -0,0 +1,45 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import renderMathInElement from "katex/contrib/auto-render";
+import "katex/dist/katex.min.css";
+
+interface MathContentProps {
+  html: string;
+  className?: string;
+}
+
+// Same delimiters authors use in the rich text editor: $...$, $$...$$, \(...\), \[...\]
+const MATH_DELIMITERS = [
+  { left: "$$", right: "$$", display: true },
+  { left: "\\[", right: "\\]", display: true },
+  { left: "\\(", right: "\\)", display: false },
+  { left: "$", right: "$", display: false },
+];
+
+/**
+ * Render stored HTML (questions, explanations) with LaTeX typeset by KaTeX
+ */
+export default function MathContent({ html, className = "" }: MathContentProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+    try {
+      renderMathInElement(containerRef.current, {
+        delimiters: MATH_DELIMITERS,
+        throwOnError: false,
+      });
+    } catch (err) {
+      console.error("[MathContent] Error rendering math:", err);
+    }
+  }, [html]);
+
+  return (
+    <div
+      ref={containerRef}
+      className={className}
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+}
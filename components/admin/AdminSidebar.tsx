@@ -36,6 +36,9 @@ export default function AdminSidebar({ onNavigate }: AdminSidebarProps) {
     { path: "/admin/test-series", label: "Test Series", icon: "📚" },
     { path: "/admin/tests", label: "Tests", icon: "📝" },
     { path: "/admin/questions", label: "Questions", icon: "❓" },
+    { path: "/admin/passages", label: "Passages", icon: "📄" },
+    { path: "/admin/challenges", label: "Challenges", icon: "⚖️" },
+    { path: "/admin/grading", label: "Grading", icon: "✍️" },
     { path: "/admin/orders", label: "Orders", icon: "🛒" },
   ];
 
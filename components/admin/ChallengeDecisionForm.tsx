@@ -0,0 +1,138 @@
+"use client";
+
+import { useState } from "react";
+import type { Question } from "@/lib/types/question";
+import type { ChallengeDecision, ChallengeResolution } from "@/lib/types/challenge";
+import MathContent from "@/components/MathContent";
+
+type DecisionChoice = "reject" | ChallengeResolution;
+
+const DECISION_CHOICES: { value: DecisionChoice; label: string; description: string }[] = [
+  { value: "reject", label: "Reject", description: "The key is right - nothing changes" },
+  { value: "change_key", label: "Change key", description: "Correct the options in the question bank" },
+  { value: "bonus", label: "Award bonus", description: "Full marks to every student in this test" },
+  { value: "drop", label: "Drop question", description: "Leave it out of scoring in this test" },
+];
+
+interface ChallengeDecisionFormProps {
+  question: Question;
+  onDecide: (decision: ChallengeDecision) => Promise<void>;
+}
+
+/**
+ * Admin decision on the pending challenges of one question
+ */
+export default function ChallengeDecisionForm({ question, onDecide }: ChallengeDecisionFormProps) {
+  const isMcq = question.type === "mcq_single" || question.type === "mcq_multiple";
+  const [choice, setChoice] = useState<DecisionChoice>("reject");
+  const [correctOptions, setCorrectOptions] = useState<number[]>(question.correctOptions ?? []);
+  const [adminNote, setAdminNote] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleOption = (index: number) => {
+    if (question.type === "mcq_single") {
+      setCorrectOptions([index]);
+      return;
+    }
+    setCorrectOptions((prev) =>
+      prev.includes(index) ? prev.filter((i) => i !== index) : [...prev, index].sort((a, b) => a - b)
+    );
+  };
+
+  const handleSubmit = async () => {
+    const confirmed =
+      choice === "reject" ||
+      window.confirm(
+        "Accepting will re-score every affected attempt and re-rank the test. Continue?"
+      );
+    if (!confirmed) return;
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      await onDecide({
+        questionId: question.id,
+        status: choice === "reject" ? "rejected" : "accepted",
+        resolution: choice === "reject" ? null : choice,
+        correctOptions: choice === "change_key" ? correctOptions : null,
+        adminNote: adminNote.trim() || null,
+      });
+    } catch (err) {
+      console.error("[ChallengeDecisionForm] Error deciding challenges:", err);
+      setError(err instanceof Error ? err.message : "Failed to save the decision.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 border-t border-gray-200 pt-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        {DECISION_CHOICES.filter((option) => option.value !== "change_key" || isMcq).map(
+          (option) => (
+            <label
+              key={option.value}
+              className={`flex items-start gap-2 border rounded p-2 text-sm cursor-pointer ${
+                choice === option.value ? "border-black bg-gray-50" : "border-gray-200"
+              }`}
+            >
+              <input
+                type="radio"
+                name={`decision-${question.id}`}
+                checked={choice === option.value}
+                onChange={() => setChoice(option.value)}
+                className="mt-1"
+              />
+              <span>
+                <span className="block font-medium text-gray-900">{option.label}</span>
+                <span className="block text-xs text-gray-600">{option.description}</span>
+              </span>
+            </label>
+          )
+        )}
+      </div>
+
+      {choice === "change_key" && question.options && (
+        <div className="space-y-1">
+          <p className="text-xs font-medium text-gray-700">Correct option(s)</p>
+          {question.options.map((option, index) => (
+            <label key={index} className="flex items-start gap-2 text-sm">
+              <input
+                type={question.type === "mcq_single" ? "radio" : "checkbox"}
+                name={`key-${question.id}`}
+                checked={correctOptions.includes(index)}
+                onChange={() => toggleOption(index)}
+                className="mt-1"
+              />
+              <span className="font-medium text-gray-600">{String.fromCharCode(65 + index)}.</span>
+              <MathContent html={option} className="text-gray-900 prose prose-sm max-w-none" />
+            </label>
+          ))}
+        </div>
+      )}
+
+      <textarea
+        value={adminNote}
+        onChange={(e) => setAdminNote(e.target.value)}
+        rows={2}
+        placeholder="Note for students (optional)"
+        className="w-full border border-gray-300 rounded px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent"
+      />
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <button
+        onClick={handleSubmit}
+        disabled={submitting}
+        className="bg-black hover:bg-gray-900 text-white px-4 py-2 rounded text-sm transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+      >
+        {submitting
+          ? "Saving..."
+          : choice === "reject"
+          ? "Reject Challenges"
+          : "Accept and Re-score"}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+"use client";
+
+import { useState } from "react";
+import type { Question } from "@/lib/types/question";
+import { getGradedMarks, getGradingCriteria } from "@/lib/utils/subjective";
+
+interface GradingFormProps {
+  question: Question;
+  marks: number; // marks of the question in the test
+  onGrade: (criterionMarks: number[], comment: string | null) => Promise<void>;
+}
+
+const inputClassName =
+  "border border-gray-300 rounded px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent";
+
+/**
+ * Rubric-based marks and feedback for one subjective answer
+ */
+export default function GradingForm({ question, marks, onGrade }: GradingFormProps) {
+  const criteria = getGradingCriteria(question, marks);
+  const [criterionMarks, setCriterionMarks] = useState<string[]>(criteria.map(() => ""));
+  const [comment, setComment] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const parsedMarks = criterionMarks.map((value) => Number(value));
+  const total = getGradedMarks(
+    question,
+    marks,
+    parsedMarks.map((value) => (Number.isFinite(value) ? value : 0))
+  );
+
+  const handleSubmit = async () => {
+    const invalid = criteria.findIndex(
+      (criterion, index) =>
+        criterionMarks[index].trim() === "" ||
+        !Number.isFinite(parsedMarks[index]) ||
+        parsedMarks[index] < 0 ||
+        parsedMarks[index] > criterion.marks
+    );
+    if (invalid !== -1) {
+      setError(`Give between 0 and ${criteria[invalid].marks} marks for "${criteria[invalid].description}".`);
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      await onGrade(parsedMarks, comment.trim() || null);
+    } catch (err) {
+      console.error("[GradingForm] Error saving grade:", err);
+      setError(err instanceof Error ? err.message : "Failed to save the grade.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 border-t border-gray-200 pt-4">
+      <table className="w-full text-sm">
+        <tbody>
+          {criteria.map((criterion, index) => (
+            <tr key={index}>
+              <td className="py-1 pr-3 text-gray-800">{criterion.description}</td>
+              <td className="py-1 text-right whitespace-nowrap">
+                <input
+                  type="number"
+                  className={`w-20 ${inputClassName}`}
+                  value={criterionMarks[index]}
+                  onChange={(e) =>
+                    setCriterionMarks((prev) =>
+                      prev.map((value, i) => (i === index ? e.target.value : value))
+                    )
+                  }
+                  min={0}
+                  max={criterion.marks}
+                  step="0.5"
+                  aria-label={`Marks for ${criterion.description}`}
+                />
+                <span className="ml-2 text-gray-600">/ {criterion.marks}</span>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div>
+        <label className="block mb-1 text-sm font-medium text-gray-700">Comment for the student</label>
+        <textarea
+          className={`w-full ${inputClassName}`}
+          rows={3}
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          placeholder="Optional feedback, e.g. what was missing"
+        />
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-700">
+          Total: <span className="font-semibold">{total}</span> / {marks}
+        </p>
+        <button
+          type="button"
+          onClick={handleSubmit}
+          disabled={submitting}
+          className="bg-black hover:bg-gray-900 text-white px-4 py-2 rounded text-sm disabled:opacity-60 disabled:cursor-not-allowed"
+        >
+          {submitting ? "Saving..." : "Save Grade"}
+        </button>
+      </div>
+    </div>
+  );
+}
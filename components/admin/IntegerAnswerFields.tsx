@@ -0,0 +1,69 @@
+"use client";
+
+import {
+  INTEGER_ANSWER_RANGES,
+  type IntegerAnswerFields as Fields,
+} from "@/lib/utils/numerical";
+import type { IntegerAnswerRange } from "@/lib/types/question";
+
+interface IntegerAnswerFieldsProps {
+  value: Fields;
+  onChange: (value: Fields) => void;
+}
+
+const inputClassName =
+  "w-full border border-gray-300 rounded px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent";
+
+export default function IntegerAnswerFields({
+  value,
+  onChange,
+}: IntegerAnswerFieldsProps) {
+  return (
+    <div className="border border-gray-200 rounded-lg p-3 space-y-3">
+      <p className="text-sm font-medium text-gray-800">
+        Correct Answer (Integer)
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block mb-1 text-sm font-medium text-gray-700">
+            Allowed Answers
+          </label>
+          <select
+            className={inputClassName}
+            value={value.range}
+            onChange={(e) =>
+              onChange({ ...value, range: e.target.value as IntegerAnswerRange })
+            }
+          >
+            {INTEGER_ANSWER_RANGES.map((r) => (
+              <option key={r.value} value={r.value}>
+                {r.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block mb-1 text-sm font-medium text-gray-700">
+            Correct Integer
+          </label>
+          <input
+            type="text"
+            inputMode="numeric"
+            className={inputClassName}
+            value={value.value}
+            onChange={(e) => onChange({ ...value, value: e.target.value })}
+            placeholder={value.range === "single_digit" ? "0-9" : "e.g. -12"}
+            required
+          />
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        {value.range === "single_digit"
+          ? "Students pick one digit from 0 to 9."
+          : "Students type a whole number. Answers with decimals or fractions are marked wrong."}
+      </p>
+    </div>
+  );
+}
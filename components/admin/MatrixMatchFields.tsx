@@ -0,0 +1,165 @@
+"use client";
+
+import {
+  MAX_MATRIX_SIZE,
+  MIN_MATRIX_SIZE,
+  matrixColumnLabel,
+  matrixRowLabel,
+  type MatrixMatchFields as Fields,
+} from "@/lib/utils/matrix";
+
+interface MatrixMatchFieldsProps {
+  value: Fields;
+  onChange: (value: Fields) => void;
+}
+
+const inputClassName =
+  "flex-1 border border-gray-300 rounded px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent";
+
+export default function MatrixMatchFields({
+  value,
+  onChange,
+}: MatrixMatchFieldsProps) {
+  const setEntry = (list: "rows" | "columns", index: number, text: string) => {
+    const entries = [...value[list]];
+    entries[index] = text;
+    onChange({ ...value, [list]: entries });
+  };
+
+  const addRow = () => {
+    onChange({
+      ...value,
+      rows: [...value.rows, ""],
+      correct: [...value.correct, value.columns.map(() => false)],
+    });
+  };
+
+  const removeRow = (index: number) => {
+    onChange({
+      ...value,
+      rows: value.rows.filter((_, i) => i !== index),
+      correct: value.correct.filter((_, i) => i !== index),
+    });
+  };
+
+  const addColumn = () => {
+    onChange({
+      ...value,
+      columns: [...value.columns, ""],
+      correct: value.correct.map((row) => [...row, false]),
+    });
+  };
+
+  const removeColumn = (index: number) => {
+    onChange({
+      ...value,
+      columns: value.columns.filter((_, i) => i !== index),
+      correct: value.correct.map((row) => row.filter((_, i) => i !== index)),
+    });
+  };
+
+  const toggleCell = (row: number, column: number) => {
+    onChange({
+      ...value,
+      correct: value.correct.map((cells, r) =>
+        r === row ? cells.map((checked, c) => (c === column ? !checked : checked)) : cells
+      ),
+    });
+  };
+
+  const renderList = (list: "rows" | "columns") => {
+    const entries = value[list];
+    const label = list === "rows" ? matrixRowLabel : matrixColumnLabel;
+    return (
+      <div className="space-y-2">
+        {entries.map((entry, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <span className="text-sm font-medium text-gray-600 min-w-[1.5rem]">
+              {label(index)}.
+            </span>
+            <input
+              type="text"
+              className={inputClassName}
+              value={entry}
+              onChange={(e) => setEntry(list, index, e.target.value)}
+              placeholder={`${list === "rows" ? "List-I" : "List-II"} entry ${label(index)}`}
+            />
+            <button
+              type="button"
+              onClick={() => (list === "rows" ? removeRow(index) : removeColumn(index))}
+              disabled={entries.length <= MIN_MATRIX_SIZE}
+              className="text-xs text-red-600 hover:text-red-800 disabled:text-gray-300 disabled:cursor-not-allowed"
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={list === "rows" ? addRow : addColumn}
+          disabled={entries.length >= MAX_MATRIX_SIZE}
+          className="text-xs text-gray-700 underline hover:text-gray-900 disabled:text-gray-300 disabled:no-underline disabled:cursor-not-allowed"
+        >
+          + Add entry
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-3 space-y-4">
+      <p className="text-sm font-medium text-gray-800">
+        Lists &amp; Correct Matching
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <p className="mb-2 text-sm font-medium text-gray-700">List-I</p>
+          {renderList("rows")}
+        </div>
+        <div>
+          <p className="mb-2 text-sm font-medium text-gray-700">List-II</p>
+          {renderList("columns")}
+        </div>
+      </div>
+
+      <div>
+        <p className="mb-2 text-sm font-medium text-gray-700">Correct Matching</p>
+        <table className="text-sm">
+          <thead>
+            <tr>
+              <th className="px-2 py-1"></th>
+              {value.columns.map((_, column) => (
+                <th key={column} className="px-2 py-1 font-medium text-gray-600">
+                  {matrixColumnLabel(column)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {value.rows.map((_, row) => (
+              <tr key={row}>
+                <th className="px-2 py-1 font-medium text-gray-600">{matrixRowLabel(row)}</th>
+                {value.columns.map((_, column) => (
+                  <td key={column} className="px-2 py-1 text-center">
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4"
+                      aria-label={`${matrixRowLabel(row)} matches ${matrixColumnLabel(column)}`}
+                      checked={value.correct[row]?.[column] ?? false}
+                      onChange={() => toggleCell(row, column)}
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p className="mt-1 text-xs text-gray-500">
+          Tick every List-II entry that matches each List-I entry. Marks are split evenly across
+          the List-I rows, so students get credit for each row they match exactly.
+        </p>
+      </div>
+    </div>
+  );
+}
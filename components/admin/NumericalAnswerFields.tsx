@@ -0,0 +1,123 @@
+"use client";
+
+import {
+  NUMERICAL_ANSWER_MODES,
+  type NumericalAnswerFields as Fields,
+} from "@/lib/utils/numerical";
+import type { NumericalAnswerMode } from "@/lib/types/question";
+
+interface NumericalAnswerFieldsProps {
+  value: Fields;
+  onChange: (value: Fields) => void;
+}
+
+const inputClassName =
+  "w-full border border-gray-300 rounded px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent";
+
+export default function NumericalAnswerFields({
+  value,
+  onChange,
+}: NumericalAnswerFieldsProps) {
+  const setField = (field: keyof Fields, fieldValue: string) => {
+    onChange({ ...value, [field]: fieldValue });
+  };
+
+  const usesValue = value.mode !== "range";
+  const usesTolerance =
+    value.mode === "absolute_tolerance" || value.mode === "relative_tolerance";
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-3 space-y-3">
+      <p className="text-sm font-medium text-gray-800">
+        Correct Answer (Numerical)
+      </p>
+
+      <div>
+        <label className="block mb-1 text-sm font-medium text-gray-700">
+          Answer Mode
+        </label>
+        <select
+          className={inputClassName}
+          value={value.mode}
+          onChange={(e) => setField("mode", e.target.value as NumericalAnswerMode)}
+        >
+          {NUMERICAL_ANSWER_MODES.map((m) => (
+            <option key={m.value} value={m.value}>
+              {m.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {usesValue && (
+          <div>
+            <label className="block mb-1 text-sm font-medium text-gray-700">
+              {value.mode === "integer" ? "Correct Integer" : "Correct Value"}
+            </label>
+            <input
+              type="text"
+              className={inputClassName}
+              value={value.value}
+              onChange={(e) => setField("value", e.target.value)}
+              placeholder={value.mode === "integer" ? "e.g. 7" : "e.g. 9.8 or 5/2"}
+              required
+            />
+          </div>
+        )}
+
+        {usesTolerance && (
+          <div>
+            <label className="block mb-1 text-sm font-medium text-gray-700">
+              {value.mode === "relative_tolerance" ? "Tolerance (%)" : "Tolerance (±)"}
+            </label>
+            <input
+              type="text"
+              className={inputClassName}
+              value={value.tolerance}
+              onChange={(e) => setField("tolerance", e.target.value)}
+              placeholder={value.mode === "relative_tolerance" ? "e.g. 1" : "e.g. 0.01"}
+              required
+            />
+          </div>
+        )}
+
+        {value.mode === "range" && (
+          <>
+            <div>
+              <label className="block mb-1 text-sm font-medium text-gray-700">
+                Minimum (inclusive)
+              </label>
+              <input
+                type="text"
+                className={inputClassName}
+                value={value.min}
+                onChange={(e) => setField("min", e.target.value)}
+                placeholder="e.g. 2.4"
+                required
+              />
+            </div>
+            <div>
+              <label className="block mb-1 text-sm font-medium text-gray-700">
+                Maximum (inclusive)
+              </label>
+              <input
+                type="text"
+                className={inputClassName}
+                value={value.max}
+                onChange={(e) => setField("max", e.target.value)}
+                placeholder="e.g. 2.6"
+                required
+              />
+            </div>
+          </>
+        )}
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Student answers such as &quot;2.50&quot;, &quot;2.5&quot; and &quot;5/2&quot; are treated as the same value.
+        {value.mode === "integer" && " In integer-only mode, answers with decimals or fractions are marked wrong."}
+      </p>
+    </div>
+  );
+}
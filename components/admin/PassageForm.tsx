@@ -0,0 +1,187 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import type { PassageInput } from "@/lib/types/passage";
+import { sanitizeInput } from "@/lib/utils/validation";
+import RichTextEditor from "@/components/RichTextEditor";
+import { getChaptersBySubject, getSubjects, getTopicsByChapter } from "@/lib/utils/subjectData";
+
+interface PassageFormProps {
+  initial?: PassageInput;
+  submitLabel: string;
+  onSubmit: (input: PassageInput) => Promise<void>;
+  onCancel: () => void;
+}
+
+const inputClassName =
+  "w-full border border-gray-300 rounded px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent disabled:bg-gray-100";
+
+/**
+ * Create / edit form for a comprehension passage
+ */
+export default function PassageForm({ initial, submitLabel, onSubmit, onCancel }: PassageFormProps) {
+  const subjects = getSubjects();
+  const initialSubject = subjects.find((s) => s.name === initial?.subject);
+  const initialChapter = initialSubject
+    ? getChaptersBySubject(initialSubject.id).find((c) => c.name === initial?.chapter)
+    : undefined;
+  const initialTopic =
+    initialSubject && initialChapter
+      ? getTopicsByChapter(initialSubject.id, initialChapter.id).find((t) => t.name === initial?.topic)
+      : undefined;
+
+  const [title, setTitle] = useState(initial?.title ?? "");
+  const [text, setText] = useState(initial?.text ?? ""); // rich text HTML
+  const [subjectId, setSubjectId] = useState(initialSubject?.id ?? "");
+  const [chapterId, setChapterId] = useState(initialChapter?.id ?? "");
+  const [topicId, setTopicId] = useState(initialTopic?.id ?? "");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const chapters = subjectId ? getChaptersBySubject(subjectId) : [];
+  const topics = subjectId && chapterId ? getTopicsByChapter(subjectId, chapterId) : [];
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    const sanitizedTitle = sanitizeInput(title).trim();
+    const subject = subjects.find((s) => s.id === subjectId);
+    const chapter = chapters.find((c) => c.id === chapterId);
+    const topic = topics.find((t) => t.id === topicId);
+
+    if (!sanitizedTitle) {
+      setError("Title is required.");
+      return;
+    }
+    if (!subject) {
+      setError("Subject is required.");
+      return;
+    }
+    if (!text.trim()) {
+      setError("Passage text is required.");
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      await onSubmit({
+        title: sanitizedTitle,
+        text: text.trim(),
+        subject: subject.name,
+        chapter: chapter?.name,
+        topic: topic?.name,
+      });
+    } catch (err) {
+      console.error("[PassageForm] Error saving passage:", err);
+      setError(err instanceof Error ? err.message : "Failed to save passage. Please try again.");
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4" noValidate>
+      {error && (
+        <div className="text-sm text-red-600 bg-red-50 border border-red-200 rounded p-2">
+          {error}
+        </div>
+      )}
+
+      <div>
+        <label className="block mb-1 text-sm font-medium text-gray-700">Title</label>
+        <input
+          type="text"
+          className={inputClassName}
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          placeholder="e.g. Photoelectric effect paragraph"
+        />
+        <p className="mt-1 text-xs text-gray-500">Only admins see the title.</p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block mb-1 text-sm font-medium text-gray-700">Subject</label>
+          <select
+            className={inputClassName}
+            value={subjectId}
+            onChange={(e) => {
+              setSubjectId(e.target.value);
+              setChapterId("");
+              setTopicId("");
+            }}
+          >
+            <option value="">Select Subject</option>
+            {subjects.map((s) => (
+              <option key={s.id} value={s.id}>
+                {s.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block mb-1 text-sm font-medium text-gray-700">Chapter (optional)</label>
+          <select
+            className={inputClassName}
+            value={chapterId}
+            onChange={(e) => {
+              setChapterId(e.target.value);
+              setTopicId("");
+            }}
+            disabled={!subjectId}
+          >
+            <option value="">Any chapter</option>
+            {chapters.map((c) => (
+              <option key={c.id} value={c.id}>
+                {c.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block mb-1 text-sm font-medium text-gray-700">Topic (optional)</label>
+          <select
+            className={inputClassName}
+            value={topicId}
+            onChange={(e) => setTopicId(e.target.value)}
+            disabled={!chapterId}
+          >
+            <option value="">Any topic</option>
+            {topics.map((t) => (
+              <option key={t.id} value={t.id}>
+                {t.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <label className="block mb-1 text-sm font-medium text-gray-700">Passage Text</label>
+        <RichTextEditor
+          value={text}
+          onChange={setText}
+          placeholder="Write the passage that the questions refer to..."
+          minHeight="400px"
+        />
+      </div>
+
+      <div className="flex items-center justify-end gap-3 pt-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="text-sm text-gray-600 hover:text-gray-800 focus:outline-none"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={submitting}
+          className="bg-black hover:bg-gray-900 text-white px-4 py-2 rounded text-sm disabled:opacity-60 disabled:cursor-not-allowed transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-black focus:ring-offset-2"
+        >
+          {submitting ? "Saving..." : submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+}
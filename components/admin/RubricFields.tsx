@@ -0,0 +1,70 @@
+"use client";
+
+import type { RubricFieldRow } from "@/lib/utils/subjective";
+
+interface RubricFieldsProps {
+  value: RubricFieldRow[];
+  onChange: (value: RubricFieldRow[]) => void;
+}
+
+const inputClassName =
+  "border border-gray-300 rounded px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent";
+
+export default function RubricFields({ value, onChange }: RubricFieldsProps) {
+  const setRow = (index: number, row: RubricFieldRow) => {
+    onChange(value.map((existing, i) => (i === index ? row : existing)));
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-3 space-y-3">
+      <p className="text-sm font-medium text-gray-800">Marking Rubric</p>
+
+      {value.length > 0 && (
+        <div className="space-y-2">
+          {value.map((row, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <span className="text-sm font-medium text-gray-600 min-w-[1.5rem]">{index + 1}.</span>
+              <input
+                type="text"
+                className={`flex-1 ${inputClassName}`}
+                value={row.description}
+                onChange={(e) => setRow(index, { ...row, description: e.target.value })}
+                placeholder="e.g. States Newton's second law"
+              />
+              <input
+                type="number"
+                className={`w-24 ${inputClassName}`}
+                value={row.marks}
+                onChange={(e) => setRow(index, { ...row, marks: e.target.value })}
+                min={0}
+                step="0.5"
+                placeholder="Marks"
+              />
+              <button
+                type="button"
+                onClick={() => onChange(value.filter((_, i) => i !== index))}
+                className="text-xs text-red-600 hover:text-red-800"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <button
+        type="button"
+        onClick={() => onChange([...value, { description: "", marks: "" }])}
+        className="text-xs text-gray-700 underline hover:text-gray-900"
+      >
+        + Add criterion
+      </button>
+
+      <p className="text-xs text-gray-500">
+        Optional. Graders award marks against each criterion and the criteria must add up to the
+        question&apos;s marks. Without a rubric the answer is marked as a whole. Put a model answer in
+        the explanation - students see it with their graded answer.
+      </p>
+    </div>
+  );
+}
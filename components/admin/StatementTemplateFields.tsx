@@ -0,0 +1,74 @@
+"use client";
+
+import RichTextEditor from "@/components/RichTextEditor";
+import type { QuestionTemplate } from "@/lib/types/question";
+import {
+  TEMPLATE_OPTIONS,
+  TEMPLATE_STATEMENT_LABELS,
+  type TemplateFields as Fields,
+} from "@/lib/utils/questionTemplates";
+
+interface StatementTemplateFieldsProps {
+  template: QuestionTemplate;
+  value: Fields;
+  onChange: (value: Fields) => void;
+  imageFolder?: string;
+}
+
+export default function StatementTemplateFields({
+  template,
+  value,
+  onChange,
+  imageFolder,
+}: StatementTemplateFieldsProps) {
+  const labels = TEMPLATE_STATEMENT_LABELS[template];
+
+  const setStatement = (index: number, html: string) => {
+    const statements: [string, string] = [...value.statements];
+    statements[index] = html;
+    onChange({ ...value, statements });
+  };
+
+  return (
+    <div className="space-y-4">
+      {labels.map((label, index) => (
+        <div key={label}>
+          <label className="block mb-1 text-sm font-medium text-gray-700">
+            {label}
+          </label>
+          <RichTextEditor
+            value={value.statements[index]}
+            onChange={(html) => setStatement(index, html)}
+            placeholder={`Write ${label} here...`}
+            minHeight="200px"
+            imageFolder={imageFolder}
+          />
+        </div>
+      ))}
+
+      <div className="border border-gray-200 rounded-lg p-3">
+        <p className="text-sm font-medium text-gray-800 mb-2">
+          Options &amp; Correct Answer
+        </p>
+        <div className="space-y-2">
+          {TEMPLATE_OPTIONS[template].map((option, index) => (
+            <label key={index} className="flex items-start gap-2 text-sm text-gray-700">
+              <input
+                type="radio"
+                name="template-correct-option"
+                className="h-4 w-4 mt-0.5"
+                checked={value.correctOption === index}
+                onChange={() => onChange({ ...value, correctOption: index })}
+              />
+              <span>{option}</span>
+            </label>
+          ))}
+        </div>
+        <p className="mt-1 text-xs text-gray-500">
+          The question text and these four options are generated from the statements above.
+          Mark the correct option using the radio button.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+"use client";
+
+import { generateSectionId, type TestSectionDraft } from "@/lib/utils/sections";
+
+interface TestSectionsEditorProps {
+  sections: TestSectionDraft[];
+  onChange: (sections: TestSectionDraft[]) => void;
+  questionCounts: Record<string, number>; // selected questions per section id
+}
+
+const inputClassName =
+  "w-full border border-gray-300 rounded px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-black focus:border-transparent";
+
+export default function TestSectionsEditor({
+  sections,
+  onChange,
+  questionCounts,
+}: TestSectionsEditorProps) {
+  const updateSection = (id: string, changes: Partial<TestSectionDraft>) => {
+    onChange(sections.map((s) => (s.id === id ? { ...s, ...changes } : s)));
+  };
+
+  const moveSection = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= sections.length) return;
+    const copy = [...sections];
+    [copy[index], copy[target]] = [copy[target], copy[index]];
+    onChange(copy);
+  };
+
+  const handleAdd = () => {
+    onChange([
+      ...sections,
+      { id: generateSectionId(), name: "", instructions: "", timeLimit: "", attemptLimit: "" },
+    ]);
+  };
+
+  return (
+    <div className="space-y-3">
+      {sections.length === 0 && (
+        <p className="text-sm text-gray-600">
+          No sections - all questions are shown as one list. Add sections to split the
+          paper, e.g. Physics / Chemistry / Maths.
+        </p>
+      )}
+
+      {sections.map((section, index) => (
+        <div key={section.id} className="border border-gray-200 rounded-lg p-3 space-y-3">
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-medium text-gray-800">
+              Section {index + 1}
+              <span className="ml-2 text-xs font-normal text-gray-500">
+                {questionCounts[section.id] ?? 0} question
+                {(questionCounts[section.id] ?? 0) === 1 ? "" : "s"}
+              </span>
+            </p>
+            <div className="flex items-center gap-2 text-xs">
+              <button
+                type="button"
+                onClick={() => moveSection(index, -1)}
+                disabled={index === 0}
+                className="px-2 py-1 rounded border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-40"
+                aria-label="Move section up"
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                onClick={() => moveSection(index, 1)}
+                disabled={index === sections.length - 1}
+                className="px-2 py-1 rounded border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-40"
+                aria-label="Move section down"
+              >
+                ↓
+              </button>
+              <button
+                type="button"
+                onClick={() => onChange(sections.filter((s) => s.id !== section.id))}
+                className="px-2 py-1 rounded border border-red-300 text-red-700 hover:bg-red-50"
+              >
+                Remove
+              </button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <div className="md:col-span-2">
+              <label className="block mb-1 text-xs font-medium text-gray-700">
+                Name <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="text"
+                className={inputClassName}
+                value={section.name}
+                onChange={(e) => updateSection(section.id, { name: e.target.value })}
+                placeholder="e.g. Physics"
+              />
+            </div>
+            <div>
+              <label className="block mb-1 text-xs font-medium text-gray-700">
+                Time limit (minutes)
+              </label>
+              <input
+                type="number"
+                className={inputClassName}
+                value={section.timeLimit}
+                onChange={(e) => updateSection(section.id, { timeLimit: e.target.value })}
+                min={1}
+                step="1"
+                placeholder="No limit"
+              />
+            </div>
+            <div>
+              <label className="block mb-1 text-xs font-medium text-gray-700">
+                Attempt any
+              </label>
+              <input
+                type="number"
+                className={inputClassName}
+                value={section.attemptLimit}
+                onChange={(e) => updateSection(section.id, { attemptLimit: e.target.value })}
+                min={1}
+                step="1"
+                placeholder="All"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block mb-1 text-xs font-medium text-gray-700">
+              Instructions
+            </label>
+            <textarea
+              className={inputClassName}
+              value={section.instructions}
+              onChange={(e) => updateSection(section.id, { instructions: e.target.value })}
+              placeholder="e.g. Each question has exactly one correct option."
+              rows={2}
+            />
+          </div>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={handleAdd}
+        className="text-sm px-3 py-1.5 rounded border border-gray-300 text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-black focus:ring-offset-1"
+      >
+        + Add Section
+      </button>
+
+      {sections.length > 0 && (
+        <p className="text-xs text-gray-500">
+          If every section has a time limit, sections are taken one after another and the
+          test duration is the sum of the limits. With &quot;Attempt any N&quot;, students can
+          answer at most N questions of the section and only those are scored.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { Attempt } from "@/lib/types/attempt";
+import {
+  ANALYTICS_LEVELS,
+  aggregatePerformance,
+  getScoreTrend,
+  getWeakTopics,
+  type AnalyticsLevel,
+} from "@/lib/utils/analytics";
+import { formatDuration } from "@/lib/utils/duration";
+
+interface PerformanceAnalyticsProps {
+  attempts: Attempt[];
+  testTitles: Map<string, string>; // keyed by testId
+}
+
+/**
+ * A student's performance across all of their scored attempts
+ */
+export default function PerformanceAnalytics({ attempts, testTitles }: PerformanceAnalyticsProps) {
+  const [level, setLevel] = useState<AnalyticsLevel>("subject");
+
+  const trend = useMemo(() => getScoreTrend(attempts), [attempts]);
+  const levelStats = useMemo(() => aggregatePerformance(attempts, level), [attempts, level]);
+  const weakTopics = useMemo(
+    () => getWeakTopics(aggregatePerformance(attempts, "topic")),
+    [attempts]
+  );
+  const overall = useMemo(() => {
+    const subjects = aggregatePerformance(attempts, "subject");
+    const attempted = subjects.reduce((sum, stat) => sum + stat.attempted, 0);
+    const correct = subjects.reduce((sum, stat) => sum + stat.correct, 0);
+    const timeSeconds = subjects.reduce(
+      (sum, stat) => sum + stat.avgTimeSeconds * stat.attempted,
+      0
+    );
+    return {
+      accuracy: attempted > 0 ? Math.round((correct / attempted) * 10000) / 100 : 0,
+      avgTimeSeconds: attempted > 0 ? timeSeconds / attempted : 0,
+    };
+  }, [attempts]);
+
+  if (trend.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-gray-600 text-lg">
+          Your analytics will appear here once you complete a test.
+        </p>
+      </div>
+    );
+  }
+
+  const averagePercentage =
+    Math.round((trend.reduce((sum, point) => sum + point.percentage, 0) / trend.length) * 100) /
+    100;
+
+  return (
+    <div className="space-y-8">
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {[
+          { label: "Tests Completed", value: trend.length },
+          { label: "Average Score", value: `${averagePercentage}%` },
+          { label: "Accuracy", value: `${overall.accuracy}%` },
+          { label: "Avg Time / Question", value: formatDuration(overall.avgTimeSeconds) },
+        ].map((card) => (
+          <div key={card.label} className="bg-white rounded-lg shadow-xl p-4 text-center">
+            <p className="text-xs text-gray-500 mb-1">{card.label}</p>
+            <p className="text-2xl font-bold text-[#ff6b35]">{card.value}</p>
+          </div>
+        ))}
+      </div>
+
+      {/* Score trend */}
+      <div className="bg-white rounded-lg shadow-xl p-6">
+        <h3 className="text-xl font-bold text-gray-900 mb-4">Score Trend</h3>
+        <div className="space-y-2">
+          {trend.map((point) => (
+            <div key={point.attemptId} className="flex items-center gap-3 text-sm">
+              <div className="w-40 shrink-0 truncate text-gray-700" title={testTitles.get(point.testId)}>
+                {testTitles.get(point.testId) ?? "Test"}
+              </div>
+              <div className="flex-1 h-4 bg-gray-100 rounded">
+                <div
+                  className="h-4 rounded bg-[#ff6b35]"
+                  style={{ width: `${Math.min(100, Math.max(0, point.percentage))}%` }}
+                />
+              </div>
+              <div className="w-28 shrink-0 text-right text-gray-900">
+                {point.score} / {point.maxScore}
+              </div>
+              <div className="w-24 shrink-0 text-right text-xs text-gray-500">
+                {new Date(point.submittedAtMs).toLocaleDateString("en-IN", {
+                  day: "numeric",
+                  month: "short",
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Weak topics */}
+      <div className="bg-white rounded-lg shadow-xl p-6">
+        <h3 className="text-xl font-bold text-gray-900 mb-1">Topics to Revise</h3>
+        <p className="text-sm text-gray-500 mb-4">
+          Topics where your accuracy is below 60% over at least 3 attempted questions.
+        </p>
+        {weakTopics.length === 0 ? (
+          <p className="text-sm text-gray-600">No weak topics yet - keep it up!</p>
+        ) : (
+          <ul className="space-y-2">
+            {weakTopics.map((stat) => (
+              <li
+                key={stat.key}
+                className="flex items-center justify-between p-3 bg-red-50 border border-red-100 rounded-lg"
+              >
+                <div>
+                  <p className="font-semibold text-gray-900">{stat.topic}</p>
+                  <p className="text-xs text-gray-600">
+                    {stat.subject}
+                    {stat.chapter ? ` › ${stat.chapter}` : ""}
+                  </p>
+                </div>
+                <div className="text-right">
+                  <p className="font-semibold text-red-600">{stat.accuracy}%</p>
+                  <p className="text-xs text-gray-600">
+                    {stat.correct} / {stat.attempted} correct
+                  </p>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Breakdown */}
+      <div className="bg-white rounded-lg shadow-xl p-6 overflow-x-auto">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+          <h3 className="text-xl font-bold text-gray-900">Breakdown</h3>
+          <div className="flex gap-2">
+            {ANALYTICS_LEVELS.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => setLevel(option.value)}
+                className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+                  level === option.value
+                    ? "bg-[#ff6b35] text-white"
+                    : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <table className="min-w-full text-sm">
+          <thead className="border-b border-gray-200">
+            <tr>
+              <th className="text-left py-2 px-3 font-medium text-gray-700">
+                {ANALYTICS_LEVELS.find((option) => option.value === level)?.label}
+              </th>
+              <th className="text-right py-2 px-3 font-medium text-gray-700">Attempted</th>
+              <th className="text-right py-2 px-3 font-medium text-gray-700">Accuracy</th>
+              <th className="text-right py-2 px-3 font-medium text-gray-700">Avg Time</th>
+              <th className="text-right py-2 px-3 font-medium text-gray-700">Score</th>
+            </tr>
+          </thead>
+          <tbody>
+            {levelStats.map((stat) => (
+              <tr key={stat.key} className="border-b last:border-b-0">
+                <td className="py-2 px-3 text-gray-900">{stat.key}</td>
+                <td className="py-2 px-3 text-right text-gray-700">
+                  {stat.attempted} / {stat.questionCount}
+                </td>
+                <td className="py-2 px-3 text-right text-gray-700">{stat.accuracy}%</td>
+                <td className="py-2 px-3 text-right text-gray-700">
+                  {formatDuration(stat.avgTimeSeconds)}
+                </td>
+                <td className="py-2 px-3 text-right text-gray-900">
+                  {stat.score} / {stat.maxScore}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+"use client";
+
+import type { Question } from "@/lib/types/question";
+import { matrixCellIndex, matrixColumnLabel, matrixRowLabel } from "@/lib/utils/matrix";
+import MathContent from "@/components/MathContent";
+
+interface MatrixMatchGridProps {
+  question: Pick<Question, "id" | "matrixRows" | "matrixColumns">;
+  selected: number[];             // flattened cells chosen by the student
+  correct?: number[] | null;      // answer key - highlights cells when reviewing
+  onToggle?: (cell: number) => void;
+  disabled?: boolean;
+}
+
+/**
+ * List-I / List-II of a matrix-match question and the grid used to match them
+ */
+export default function MatrixMatchGrid({
+  question,
+  selected,
+  correct = null,
+  onToggle,
+  disabled = false,
+}: MatrixMatchGridProps) {
+  const rows = question.matrixRows ?? [];
+  const columns = question.matrixColumns ?? [];
+  const isInteractive = !!onToggle && !disabled;
+
+  const cellClassName = (cell: number) => {
+    const isSelected = selected.includes(cell);
+    if (correct) {
+      const isCorrect = correct.includes(cell);
+      if (isCorrect) return "bg-green-50 border-green-300";
+      if (isSelected) return "bg-red-50 border-red-300";
+      return "bg-white border-gray-200";
+    }
+    return isSelected ? "bg-orange-50 border-[#ff6b35]" : "bg-white border-gray-200";
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="border border-gray-200 rounded-lg p-3">
+          <p className="text-xs font-semibold text-gray-500 uppercase mb-2">List-I</p>
+          <ol className="space-y-2">
+            {rows.map((row, index) => (
+              <li key={index} className="flex items-start gap-2">
+                <span className="text-sm font-medium text-gray-600 min-w-[1.5rem]">
+                  {matrixRowLabel(index)}.
+                </span>
+                <MathContent html={row} className="text-sm text-gray-900 flex-1 prose prose-sm max-w-none" />
+              </li>
+            ))}
+          </ol>
+        </div>
+        <div className="border border-gray-200 rounded-lg p-3">
+          <p className="text-xs font-semibold text-gray-500 uppercase mb-2">List-II</p>
+          <ol className="space-y-2">
+            {columns.map((column, index) => (
+              <li key={index} className="flex items-start gap-2">
+                <span className="text-sm font-medium text-gray-600 min-w-[1.5rem]">
+                  {matrixColumnLabel(index)}.
+                </span>
+                <MathContent html={column} className="text-sm text-gray-900 flex-1 prose prose-sm max-w-none" />
+              </li>
+            ))}
+          </ol>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="text-sm">
+          <thead>
+            <tr>
+              <th className="px-2 py-1"></th>
+              {columns.map((_, column) => (
+                <th key={column} className="px-2 py-1 font-medium text-gray-600">
+                  {matrixColumnLabel(column)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((_, row) => (
+              <tr key={row}>
+                <th className="px-2 py-1 font-medium text-gray-600">{matrixRowLabel(row)}</th>
+                {columns.map((_, column) => {
+                  const cell = matrixCellIndex(row, column, columns.length);
+                  return (
+                    <td key={column} className="px-1 py-1">
+                      <label
+                        className={`flex items-center justify-center w-10 h-10 rounded border transition-colors ${cellClassName(cell)} ${
+                          isInteractive ? "cursor-pointer hover:bg-gray-50" : "cursor-default"
+                        }`}
+                      >
+                        <input
+                          type="checkbox"
+                          className="h-4 w-4"
+                          name={`matrix-${question.id}`}
+                          aria-label={`${matrixRowLabel(row)} matches ${matrixColumnLabel(column)}`}
+                          checked={selected.includes(cell)}
+                          onChange={() => onToggle?.(cell)}
+                          disabled={!isInteractive}
+                        />
+                      </label>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
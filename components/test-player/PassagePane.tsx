@@ -0,0 +1,28 @@
+"use client";
+
+import type { Passage } from "@/lib/types/passage";
+import MathContent from "@/components/MathContent";
+
+interface PassagePaneProps {
+  passage: Passage;
+  questionNumbers: number[]; // numbers of the questions that follow this passage
+}
+
+/**
+ * Comprehension passage shown beside its questions, pinned while the student scrolls
+ */
+export default function PassagePane({ passage, questionNumbers }: PassagePaneProps) {
+  const first = questionNumbers[0];
+  const last = questionNumbers[questionNumbers.length - 1];
+
+  return (
+    <div className="lg:sticky lg:top-4 lg:max-h-[calc(100vh-2rem)] overflow-y-auto bg-gray-50 border border-gray-200 rounded-lg p-4">
+      <p className="text-xs font-semibold text-gray-500 uppercase mb-2">
+        {questionNumbers.length > 1
+          ? `Passage for Questions ${first}-${last}`
+          : `Passage for Question ${first}`}
+      </p>
+      <MathContent html={passage.text} className="text-sm text-gray-900 prose prose-sm max-w-none" />
+    </div>
+  );
+}
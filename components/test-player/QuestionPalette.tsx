@@ -0,0 +1,145 @@
+"use client";
+
+import type { ReactNode } from "react";
+
+/**
+ * NTA-style status of a question in the palette
+ */
+export type PaletteStatus =
+  | "not_visited"
+  | "not_answered"
+  | "answered"
+  | "marked"
+  | "answered_marked";
+
+export const PALETTE_STATUSES: { value: PaletteStatus; label: string }[] = [
+  { value: "not_visited", label: "Not Visited" },
+  { value: "not_answered", label: "Not Answered" },
+  { value: "answered", label: "Answered" },
+  { value: "marked", label: "Marked for Review" },
+  { value: "answered_marked", label: "Answered & Marked for Review" },
+];
+
+/**
+ * Work out the palette status of a question
+ */
+export function getPaletteStatus(
+  answered: boolean,
+  markedForReview: boolean,
+  visited: boolean
+): PaletteStatus {
+  if (markedForReview) return answered ? "answered_marked" : "marked";
+  if (answered) return "answered";
+  return visited ? "not_answered" : "not_visited";
+}
+
+/**
+ * Number of questions in each palette status
+ */
+export function countPaletteStatuses(
+  statuses: PaletteStatus[]
+): Record<PaletteStatus, number> {
+  const counts: Record<PaletteStatus, number> = {
+    not_visited: 0,
+    not_answered: 0,
+    answered: 0,
+    marked: 0,
+    answered_marked: 0,
+  };
+  statuses.forEach((status) => {
+    counts[status] += 1;
+  });
+  return counts;
+}
+
+// NTA colours: grey / red / green / purple / purple with a green tick
+const STATUS_STYLES: Record<PaletteStatus, string> = {
+  not_visited: "bg-gray-100 border-gray-300 text-gray-700 hover:bg-gray-200",
+  not_answered: "bg-red-500 border-red-600 text-white",
+  answered: "bg-green-500 border-green-600 text-white",
+  marked: "bg-purple-600 border-purple-700 text-white rounded-full",
+  answered_marked: "bg-purple-600 border-purple-700 text-white rounded-full",
+};
+
+/**
+ * Coloured marker for a status (used in the palette and its legend)
+ */
+export function PaletteStatusBadge({
+  status,
+  children,
+}: {
+  status: PaletteStatus;
+  children?: ReactNode;
+}) {
+  return (
+    <span
+      className={`relative inline-flex items-center justify-center h-6 min-w-6 px-1 rounded border text-xs font-semibold ${STATUS_STYLES[status]}`}
+    >
+      {children}
+      {status === "answered_marked" && (
+        <span className="absolute -bottom-1 -right-1 h-3 w-3 rounded-full bg-green-500 border border-white" />
+      )}
+    </span>
+  );
+}
+
+interface QuestionPaletteProps {
+  currentIndex: number;
+  statuses: PaletteStatus[];      // statuses of the questions shown (e.g. one section)
+  firstIndex?: number;            // index in the test of the first question shown
+  title?: string;
+  onSelect: (index: number) => void;
+}
+
+export default function QuestionPalette({
+  currentIndex,
+  statuses,
+  firstIndex = 0,
+  title = "Questions",
+  onSelect,
+}: QuestionPaletteProps) {
+  const counts = countPaletteStatuses(statuses);
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4">
+      {/* Legend with counts */}
+      <div className="grid grid-cols-2 gap-2 mb-4 pb-3 border-b border-gray-200 text-xs text-gray-700">
+        {PALETTE_STATUSES.map(({ value, label }) => (
+          <div
+            key={value}
+            className={`flex items-center gap-2 ${value === "answered_marked" ? "col-span-2" : ""}`}
+          >
+            <PaletteStatusBadge status={value}>{counts[value]}</PaletteStatusBadge>
+            <span>{label}</span>
+          </div>
+        ))}
+      </div>
+
+      <h2 className="text-sm font-semibold text-gray-900 mb-3">{title}</h2>
+      <div className="grid grid-cols-5 gap-2">
+        {statuses.map((status, offset) => {
+          const index = firstIndex + offset;
+          const isCurrent = index === currentIndex;
+          return (
+            <button
+              key={index}
+              type="button"
+              onClick={() => onSelect(index)}
+              className={`relative h-10 rounded text-sm font-medium border transition-colors cursor-pointer ${
+                STATUS_STYLES[status]
+              } ${isCurrent ? "ring-2 ring-[#ff6b35] ring-offset-1" : ""}`}
+              aria-label={`Go to question ${index + 1} (${
+                PALETTE_STATUSES.find((s) => s.value === status)?.label
+              })`}
+            >
+              {index + 1}
+              {status === "answered_marked" && (
+                <span className="absolute -bottom-1 -right-1 h-3 w-3 rounded-full bg-green-500 border border-white" />
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
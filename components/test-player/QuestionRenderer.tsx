@@ -0,0 +1,246 @@
+"use client";
+
+import type { QuestionType, StudentQuestion } from "@/lib/types/question";
+import type { QuestionResponse } from "@/lib/types/attempt";
+import type { MarkingScheme } from "@/lib/types/test";
+import { MARKING_SCHEMES } from "@/lib/utils/scoring";
+import MathContent from "@/components/MathContent";
+import MatrixMatchGrid from "./MatrixMatchGrid";
+import SubjectiveAnswerInput from "./SubjectiveAnswerInput";
+
+const TYPE_LABELS: Record<QuestionType, string> = {
+  mcq_single: "Single Correct",
+  mcq_multiple: "Multiple Correct",
+  numerical: "Numerical",
+  integer: "Integer",
+  matrix_match: "Matrix Match",
+  subjective: "Subjective",
+};
+
+const DIGITS = ["0", "1", "2", "3", "4", "5", "6", "7", "8", "9"];
+
+export const EMPTY_RESPONSE: QuestionResponse = {
+  selectedOptions: [],
+  numericalAnswer: null,
+  timeSpentSeconds: 0,
+};
+
+/**
+ * Whether the student has given any answer for the question
+ */
+export function isAnswered(response: QuestionResponse | undefined): boolean {
+  if (!response) return false;
+  return (
+    response.selectedOptions.length > 0 ||
+    (response.numericalAnswer ?? "").trim() !== "" ||
+    (response.answerText ?? "").trim() !== "" ||
+    (response.answerImageUrls?.length ?? 0) > 0
+  );
+}
+
+interface QuestionRendererProps {
+  question: StudentQuestion;
+  questionNumber: number;
+  marks: number;
+  negativeMarks: number;
+  markingScheme?: MarkingScheme;
+  response: QuestionResponse;
+  onChange: (response: QuestionResponse) => void;
+  disabled?: boolean;
+  optionOrder?: number[] | null; // shuffled display order (original option indices)
+  answerImageFolder?: string;     // storage folder for subjective answer photos
+}
+
+export default function QuestionRenderer({
+  question,
+  questionNumber,
+  marks,
+  negativeMarks,
+  markingScheme = "all_or_nothing",
+  response,
+  onChange,
+  disabled = false,
+  optionOrder = null,
+  answerImageFolder,
+}: QuestionRendererProps) {
+  const handleOptionToggle = (index: number) => {
+    if (disabled) return;
+
+    if (question.type === "mcq_single") {
+      onChange({ ...response, selectedOptions: [index] });
+      return;
+    }
+
+    const selected = response.selectedOptions.includes(index)
+      ? response.selectedOptions.filter((i) => i !== index)
+      : [...response.selectedOptions, index].sort((a, b) => a - b);
+    onChange({ ...response, selectedOptions: selected });
+  };
+
+  const handleMatrixToggle = (cell: number) => {
+    if (disabled) return;
+
+    const selected = response.selectedOptions.includes(cell)
+      ? response.selectedOptions.filter((i) => i !== cell)
+      : [...response.selectedOptions, cell].sort((a, b) => a - b);
+    onChange({ ...response, selectedOptions: selected });
+  };
+
+  const typeLabel = TYPE_LABELS[question.type];
+  const isIntegerAnswer =
+    question.type === "integer" || question.numericalAnswer?.mode === "integer";
+  const schemeNote =
+    question.type === "mcq_multiple"
+      ? MARKING_SCHEMES.find((s) => s.value === markingScheme)?.description
+      : question.type === "matrix_match"
+      ? "Each row of List-I may match one or more entries of List-II. Marks are split across the rows and each row matched exactly earns its share."
+      : question.type === "subjective"
+      ? "Marked by a teacher after the test, with part marks for each point covered."
+      : null;
+
+  return (
+    <div className="space-y-6">
+      {/* Question header */}
+      <div className="flex items-center justify-between pb-3 border-b border-gray-200">
+        <div className="flex items-center gap-3">
+          <span className="text-lg font-semibold text-gray-900">
+            Question {questionNumber}
+          </span>
+          <span className="text-xs px-2 py-0.5 rounded bg-gray-200 text-gray-700">
+            {typeLabel}
+          </span>
+        </div>
+        <div className="text-sm text-gray-600">
+          <span className="text-green-700 font-medium">+{marks}</span>
+          {negativeMarks > 0 && (
+            <span className="text-red-600 font-medium ml-2">-{negativeMarks}</span>
+          )}
+        </div>
+      </div>
+
+      {schemeNote && (
+        <p className="text-xs text-gray-600 bg-gray-50 border border-gray-200 rounded px-3 py-2">
+          Marking: {schemeNote}
+        </p>
+      )}
+
+      {/* Question text (HTML content) */}
+      <MathContent
+        html={question.text}
+        className="text-base text-gray-900 prose max-w-none"
+      />
+
+      {/* Options (for MCQs) */}
+      {(question.type === "mcq_single" || question.type === "mcq_multiple") &&
+        question.options && (
+          <div className="space-y-3">
+            {(optionOrder ?? question.options.map((_, index) => index)).map((index, position) => {
+              const option = question.options![index];
+              const isSelected = response.selectedOptions.includes(index);
+              return (
+                <label
+                  key={index}
+                  className={`flex items-start gap-3 p-4 rounded-lg border cursor-pointer transition-colors ${
+                    isSelected
+                      ? "bg-orange-50 border-[#ff6b35]"
+                      : "bg-white border-gray-200 hover:bg-gray-50"
+                  } ${disabled ? "cursor-not-allowed opacity-75" : ""}`}
+                >
+                  <input
+                    type={question.type === "mcq_single" ? "radio" : "checkbox"}
+                    name={`question-${question.id}`}
+                    className="h-4 w-4 mt-1"
+                    checked={isSelected}
+                    onChange={() => handleOptionToggle(index)}
+                    disabled={disabled}
+                  />
+                  <span className="text-sm font-medium text-gray-600 min-w-[1.5rem]">
+                    {String.fromCharCode(65 + position)}.
+                  </span>
+                  <MathContent
+                    html={option}
+                    className="text-sm text-gray-900 flex-1 prose prose-sm max-w-none"
+                  />
+                </label>
+              );
+            })}
+          </div>
+        )}
+
+      {/* Matrix-match grid */}
+      {question.type === "matrix_match" && (
+        <MatrixMatchGrid
+          question={question}
+          selected={response.selectedOptions}
+          onToggle={handleMatrixToggle}
+          disabled={disabled}
+        />
+      )}
+
+      {/* Single-digit integer answer */}
+      {question.type === "integer" && question.integerRange === "single_digit" && (
+        <div>
+          <label className="block mb-2 text-sm font-medium text-gray-700">
+            Your Answer (0-9)
+          </label>
+          <div className="flex flex-wrap gap-2">
+            {DIGITS.map((digit) => {
+              const isSelected = response.numericalAnswer === digit;
+              return (
+                <button
+                  key={digit}
+                  type="button"
+                  onClick={() =>
+                    onChange({ ...response, numericalAnswer: isSelected ? null : digit })
+                  }
+                  disabled={disabled}
+                  className={`w-10 h-10 rounded border text-sm font-semibold transition-colors ${
+                    isSelected
+                      ? "bg-orange-50 border-[#ff6b35] text-[#ff6b35]"
+                      : "bg-white border-gray-200 text-gray-900 hover:bg-gray-50"
+                  } disabled:cursor-not-allowed disabled:opacity-75`}
+                >
+                  {digit}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Numerical answer input */}
+      {(question.type === "numerical" ||
+        (question.type === "integer" && question.integerRange !== "single_digit")) && (
+        <div>
+          <label className="block mb-1 text-sm font-medium text-gray-700">
+            Your Answer
+          </label>
+          <input
+            type="text"
+            inputMode={isIntegerAnswer ? "numeric" : "decimal"}
+            className="w-full max-w-xs border border-gray-300 rounded px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-[#ff6b35] focus:border-transparent"
+            value={response.numericalAnswer ?? ""}
+            onChange={(e) => onChange({ ...response, numericalAnswer: e.target.value })}
+            placeholder={isIntegerAnswer ? "Enter an integer" : "Enter a numerical value"}
+            disabled={disabled}
+          />
+          <p className="mt-1 text-xs text-gray-500">
+            {isIntegerAnswer
+              ? "The answer is an integer. Decimals and fractions are marked wrong."
+              : "Decimals (2.5) and fractions (5/2) are both accepted."}
+          </p>
+        </div>
+      )}
+
+      {/* Written / handwritten answer */}
+      {question.type === "subjective" && (
+        <SubjectiveAnswerInput
+          response={response}
+          onChange={onChange}
+          imageFolder={answerImageFolder}
+          disabled={disabled}
+        />
+      )}
+    </div>
+  );
+}
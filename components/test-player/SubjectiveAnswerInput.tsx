@@ -0,0 +1,122 @@
+"use client";
+
+import { ChangeEvent, useState } from "react";
+import type { QuestionResponse } from "@/lib/types/attempt";
+import { uploadImage, validateImageFile } from "@/lib/utils/imageStorage";
+import { MAX_ANSWER_IMAGES, MAX_ANSWER_TEXT_LENGTH } from "@/lib/utils/subjective";
+
+interface SubjectiveAnswerInputProps {
+  response: QuestionResponse;
+  onChange: (response: QuestionResponse) => void;
+  imageFolder?: string; // storage folder for answer photos (uploads are off without one)
+  disabled?: boolean;
+}
+
+/**
+ * Written answer plus photos of a handwritten answer for a subjective question
+ */
+export default function SubjectiveAnswerInput({
+  response,
+  onChange,
+  imageFolder,
+  disabled = false,
+}: SubjectiveAnswerInputProps) {
+  const [uploading, setUploading] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+
+  const imageUrls = response.answerImageUrls ?? [];
+  const canUpload = !!imageFolder && !disabled && imageUrls.length < MAX_ANSWER_IMAGES;
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file || !imageFolder) return;
+
+    const validation = validateImageFile(file);
+    if (!validation.isValid) {
+      setUploadError(validation.error ?? "This image cannot be uploaded.");
+      return;
+    }
+
+    setUploading(true);
+    setUploadError(null);
+    try {
+      // Photos go to Storage - inline base64 images would overflow the attempt document
+      const { url } = await uploadImage(file, { provider: "firebase", folder: imageFolder });
+      onChange({ ...response, answerImageUrls: [...imageUrls, url] });
+    } catch (err) {
+      console.error("[SubjectiveAnswerInput] Error uploading answer photo:", err);
+      setUploadError(err instanceof Error ? err.message : "Failed to upload the photo. Please try again.");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleRemoveImage = (url: string) => {
+    if (disabled) return;
+    onChange({ ...response, answerImageUrls: imageUrls.filter((u) => u !== url) });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block mb-1 text-sm font-medium text-gray-700">
+          Your Answer
+        </label>
+        <textarea
+          className="w-full min-h-[200px] border border-gray-300 rounded px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-[#ff6b35] focus:border-transparent"
+          value={response.answerText ?? ""}
+          onChange={(e) => onChange({ ...response, answerText: e.target.value })}
+          maxLength={MAX_ANSWER_TEXT_LENGTH}
+          placeholder="Type your answer here, or upload photos of your handwritten answer below."
+          disabled={disabled}
+        />
+      </div>
+
+      <div>
+        <p className="mb-2 text-sm font-medium text-gray-700">
+          Handwritten Answer Photos ({imageUrls.length}/{MAX_ANSWER_IMAGES})
+        </p>
+        {imageUrls.length > 0 && (
+          <div className="flex flex-wrap gap-3 mb-3">
+            {imageUrls.map((url, index) => (
+              <div key={url} className="relative">
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img
+                  src={url}
+                  alt={`Answer photo ${index + 1}`}
+                  className="h-32 w-auto rounded border border-gray-200 object-contain bg-gray-50"
+                />
+                {!disabled && (
+                  <button
+                    type="button"
+                    onClick={() => handleRemoveImage(url)}
+                    className="absolute top-1 right-1 bg-white/90 text-xs text-red-600 px-2 py-0.5 rounded border border-red-200 hover:bg-red-50"
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+        {canUpload && (
+          <label className="inline-flex items-center gap-2 px-3 py-2 text-sm border border-gray-300 rounded cursor-pointer hover:bg-gray-50">
+            <input
+              type="file"
+              accept="image/jpeg,image/png,image/webp"
+              className="hidden"
+              onChange={handleFileChange}
+              disabled={uploading}
+            />
+            {uploading ? "Uploading..." : "Upload Photo"}
+          </label>
+        )}
+        {uploadError && <p className="mt-2 text-xs text-red-600">{uploadError}</p>}
+        <p className="mt-1 text-xs text-gray-500">
+          This answer is marked by a teacher after the test. Your score updates once it is graded.
+        </p>
+      </div>
+    </div>
+  );
+}
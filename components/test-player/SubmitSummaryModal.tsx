@@ -0,0 +1,90 @@
+"use client";
+
+import {
+  PALETTE_STATUSES,
+  PaletteStatusBadge,
+  countPaletteStatuses,
+  type PaletteStatus,
+} from "./QuestionPalette";
+
+interface SubmitSummaryModalProps {
+  statuses: PaletteStatus[];
+  submitting: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Status counts shown before the student confirms the final submission
+ */
+export default function SubmitSummaryModal({
+  statuses,
+  submitting,
+  onConfirm,
+  onCancel,
+}: SubmitSummaryModalProps) {
+  const counts = countPaletteStatuses(statuses);
+
+  return (
+    <div className="fixed inset-0 z-20 flex items-center justify-center bg-black/50 px-4">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="submit-summary-title"
+        className="bg-white rounded-lg shadow-2xl p-6 w-full max-w-md"
+      >
+        <h2 id="submit-summary-title" className="text-xl font-bold text-gray-900 mb-4">
+          Submit Test?
+        </h2>
+
+        <table className="w-full text-sm mb-4">
+          <tbody>
+            {PALETTE_STATUSES.map(({ value, label }) => (
+              <tr key={value} className="border-b last:border-b-0 border-gray-200">
+                <td className="py-2">
+                  <span className="flex items-center gap-2 text-gray-700">
+                    <PaletteStatusBadge status={value} />
+                    {label}
+                  </span>
+                </td>
+                <td className="py-2 text-right font-semibold text-gray-900">{counts[value]}</td>
+              </tr>
+            ))}
+            <tr>
+              <td className="pt-3 font-semibold text-gray-900">Total Questions</td>
+              <td className="pt-3 text-right font-semibold text-gray-900">{statuses.length}</td>
+            </tr>
+          </tbody>
+        </table>
+
+        {counts.marked + counts.answered_marked > 0 && (
+          <p className="text-xs text-gray-600 mb-4">
+            Answers on questions marked for review will be evaluated.
+          </p>
+        )}
+        <p className="text-sm text-gray-700 mb-6">
+          You will not be able to change your answers after submitting.
+        </p>
+
+        <div className="flex items-center justify-end gap-3">
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={submitting}
+            className="px-4 py-2 rounded border border-gray-300 text-gray-700 hover:bg-gray-50 text-sm font-medium transition-colors disabled:opacity-60"
+          >
+            Back to Test
+          </button>
+          <button
+            type="button"
+            onClick={onConfirm}
+            disabled={submitting}
+            className="px-4 py-2 rounded bg-black hover:bg-gray-900 text-white text-sm font-semibold transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+          >
+            {submitting ? "Submitting..." : "Submit"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
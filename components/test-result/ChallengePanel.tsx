@@ -0,0 +1,98 @@
+"use client";
+
+import { useState } from "react";
+import type { Challenge, ChallengeStatus } from "@/lib/types/challenge";
+
+interface ChallengePanelProps {
+  challenge: Challenge | null;            // the student's challenge of this question, if any
+  onSubmit: (reason: string) => Promise<void>;
+}
+
+const STATUS_STYLES: Record<ChallengeStatus, { label: string; className: string }> = {
+  pending: { label: "Challenge under review", className: "bg-yellow-50 border-yellow-200 text-yellow-800" },
+  accepted: { label: "Challenge accepted", className: "bg-green-50 border-green-200 text-green-800" },
+  rejected: { label: "Challenge rejected", className: "bg-gray-50 border-gray-200 text-gray-700" },
+};
+
+const RESOLUTION_LABELS = {
+  change_key: "The answer key was corrected and the test re-scored.",
+  bonus: "Everyone gets full marks for this question.",
+  drop: "The question was dropped from scoring.",
+};
+
+/**
+ * Raise a challenge to a question's answer key, or show the status of an earlier one
+ */
+export default function ChallengePanel({ challenge, onSubmit }: ChallengePanelProps) {
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (challenge) {
+    const style = STATUS_STYLES[challenge.status];
+    return (
+      <div className={`border rounded-lg p-3 text-sm ${style.className}`}>
+        <p className="font-semibold">{style.label}</p>
+        {challenge.resolution && <p>{RESOLUTION_LABELS[challenge.resolution]}</p>}
+        {challenge.adminNote && <p className="mt-1">Note: {challenge.adminNote}</p>}
+      </div>
+    );
+  }
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        className="text-sm text-[#ff6b35] hover:text-yellow-500 transition-colors"
+      >
+        Think the answer key is wrong? Challenge it
+      </button>
+    );
+  }
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      await onSubmit(reason);
+    } catch (err) {
+      console.error("[ChallengePanel] Error raising challenge:", err);
+      setError(err instanceof Error ? err.message : "Failed to submit the challenge.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-3 space-y-2">
+      <label className="block text-sm font-medium text-gray-900">
+        Why is the answer key wrong?
+      </label>
+      <textarea
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        rows={3}
+        placeholder="Explain your reasoning, with a reference if you have one"
+        className="w-full border border-gray-300 rounded px-3 py-2 text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-[#ff6b35]"
+      />
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <div className="flex gap-2">
+        <button
+          onClick={handleSubmit}
+          disabled={submitting || reason.trim() === ""}
+          className="px-4 py-1.5 bg-[#ff6b35] hover:bg-yellow-400 text-white rounded text-sm font-medium disabled:opacity-50 transition-all"
+        >
+          {submitting ? "Submitting..." : "Submit Challenge"}
+        </button>
+        <button
+          onClick={() => setOpen(false)}
+          disabled={submitting}
+          className="px-4 py-1.5 border border-gray-300 rounded text-sm text-gray-700 hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
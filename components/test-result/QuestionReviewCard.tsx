@@ -0,0 +1,270 @@
+"use client";
+
+import type { ReactNode } from "react";
+import type { QuestionContent } from "@/lib/types/question";
+import type {
+  QuestionOutcome,
+  QuestionResponse,
+  QuestionResult,
+  SubjectiveGrade,
+} from "@/lib/types/attempt";
+import { describeNumericalAnswer } from "@/lib/utils/numerical";
+import { formatDuration } from "@/lib/utils/duration";
+import { countCorrectMatrixRows, describeMatrixAnswer } from "@/lib/utils/matrix";
+import { getGradingCriteria } from "@/lib/utils/subjective";
+import MathContent from "@/components/MathContent";
+import { isAnswered } from "@/components/test-player/QuestionRenderer";
+import MatrixMatchGrid from "@/components/test-player/MatrixMatchGrid";
+
+interface QuestionReviewCardProps {
+  question: QuestionContent;
+  questionNumber: number;
+  response: QuestionResponse | undefined;
+  result: QuestionResult | undefined;
+  optionOrder?: number[] | null; // order the options were shown in the attempt
+  topperAverageSeconds?: number | null; // average time the test's toppers spent on the question
+  grade?: SubjectiveGrade | null; // grader's marks and feedback (subjective only)
+  children?: ReactNode;           // extra actions shown under the solution (e.g. challenges)
+}
+
+const OUTCOME_STYLES: Record<QuestionOutcome, { label: string; className: string }> = {
+  correct: { label: "Correct", className: "bg-green-100 text-green-800" },
+  partial: { label: "Partially Correct", className: "bg-yellow-100 text-yellow-800" },
+  incorrect: { label: "Incorrect", className: "bg-red-100 text-red-800" },
+  unattempted: { label: "Not Attempted", className: "bg-gray-100 text-gray-700" },
+};
+
+export default function QuestionReviewCard({
+  question,
+  questionNumber,
+  response,
+  result,
+  optionOrder = null,
+  topperAverageSeconds = null,
+  grade = null,
+  children,
+}: QuestionReviewCardProps) {
+  const outcome = result?.outcome ?? "unattempted";
+  // Answers beyond a section's "attempt any N" limit are shown but not scored
+  const outcomeStyle =
+    result?.beyondAttemptLimit && response && isAnswered(response)
+      ? { label: "Not Evaluated (attempt limit)", className: "bg-gray-100 text-gray-700" }
+      : result?.pendingGrading
+      ? { label: "Awaiting Grading", className: "bg-blue-100 text-blue-800" }
+      : OUTCOME_STYLES[outcome];
+  const selected = response?.selectedOptions ?? [];
+  const visitCount = response?.visitSeconds?.length ?? 0;
+  const correctOptions = question.correctOptions ?? [];
+
+  const correctNumerical = question.numericalAnswer
+    ? describeNumericalAnswer(question.numericalAnswer)
+    : question.correctAnswer;
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-6 space-y-4">
+      {/* Header */}
+      <div className="flex flex-wrap items-center justify-between gap-2 pb-3 border-b border-gray-200">
+        <div className="flex items-center gap-3">
+          <span className="text-lg font-semibold text-gray-900">Question {questionNumber}</span>
+          <span className={`text-xs px-2 py-0.5 rounded font-medium ${outcomeStyle.className}`}>
+            {outcomeStyle.label}
+          </span>
+          {result?.resolution && (
+            <span className="text-xs px-2 py-0.5 rounded font-medium bg-blue-100 text-blue-800">
+              {result.resolution === "bonus" ? "Bonus - full marks to all" : "Dropped from scoring"}
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-4 text-sm text-gray-600">
+          {result && (
+            <span
+              className={`font-semibold ${
+                result.awardedMarks > 0
+                  ? "text-green-700"
+                  : result.awardedMarks < 0
+                  ? "text-red-600"
+                  : "text-gray-600"
+              }`}
+            >
+              {result.awardedMarks > 0 ? "+" : ""}
+              {result.awardedMarks} / {result.maxMarks}
+            </span>
+          )}
+          <span>
+            Time: {formatDuration(response?.timeSpentSeconds ?? 0)}
+            {visitCount > 1 && ` over ${visitCount} visits`}
+          </span>
+          {topperAverageSeconds !== null && (
+            <span>Toppers: {formatDuration(topperAverageSeconds)}</span>
+          )}
+        </div>
+      </div>
+
+      {/* Question text */}
+      <MathContent
+        html={question.text}
+        className="text-base text-gray-900 prose max-w-none"
+      />
+
+      {/* MCQ options with the student's choice and the key */}
+      {(question.type === "mcq_single" || question.type === "mcq_multiple") &&
+        question.options && (
+          <div className="space-y-2">
+            {(optionOrder ?? question.options.map((_, index) => index)).map((index, position) => {
+              const option = question.options![index];
+              const isCorrect = correctOptions.includes(index);
+              const isSelected = selected.includes(index);
+              return (
+                <div
+                  key={index}
+                  className={`flex items-start gap-3 p-3 rounded-lg border ${
+                    isCorrect
+                      ? "bg-green-50 border-green-300"
+                      : isSelected
+                      ? "bg-red-50 border-red-300"
+                      : "bg-white border-gray-200"
+                  }`}
+                >
+                  <span className="text-sm font-medium text-gray-600 min-w-[1.5rem]">
+                    {String.fromCharCode(65 + position)}.
+                  </span>
+                  <MathContent
+                    html={option}
+                    className="text-sm text-gray-900 flex-1 prose prose-sm max-w-none"
+                  />
+                  <div className="flex gap-1 shrink-0">
+                    {isSelected && (
+                      <span className="text-xs px-2 py-0.5 rounded bg-orange-100 text-[#ff6b35] font-medium">
+                        Your answer
+                      </span>
+                    )}
+                    {isCorrect && (
+                      <span className="text-xs px-2 py-0.5 rounded bg-green-100 text-green-800 font-medium">
+                        Correct
+                      </span>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+      {/* Matrix-match grid with the student's matching and the key */}
+      {question.type === "matrix_match" && (
+        <div className="space-y-3">
+          <MatrixMatchGrid question={question} selected={selected} correct={correctOptions} />
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div className="bg-gray-50 border border-gray-200 rounded p-3">
+              <p className="text-xs text-gray-500 mb-1">
+                Your Answer
+                {selected.length > 0 &&
+                  ` (${countCorrectMatrixRows(question, selected)} / ${
+                    question.matrixRows?.length ?? 0
+                  } rows correct)`}
+              </p>
+              <p className="text-sm font-medium text-gray-900">
+                {describeMatrixAnswer(question, selected) || "—"}
+              </p>
+            </div>
+            <div className="bg-green-50 border border-green-200 rounded p-3">
+              <p className="text-xs text-gray-500 mb-1">Correct Answer</p>
+              <p className="text-sm font-medium text-gray-900">
+                {describeMatrixAnswer(question, correctOptions) || "—"}
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Numerical answers */}
+      {(question.type === "numerical" || question.type === "integer") && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div className="bg-gray-50 border border-gray-200 rounded p-3">
+            <p className="text-xs text-gray-500 mb-1">Your Answer</p>
+            <p className="text-sm font-medium text-gray-900">
+              {response?.numericalAnswer?.trim() || "—"}
+            </p>
+          </div>
+          <div className="bg-green-50 border border-green-200 rounded p-3">
+            <p className="text-xs text-gray-500 mb-1">Correct Answer</p>
+            <p className="text-sm font-medium text-gray-900">{correctNumerical || "—"}</p>
+          </div>
+        </div>
+      )}
+
+      {/* Subjective answer with the grader's marks */}
+      {question.type === "subjective" && (
+        <div className="space-y-3">
+          <div className="bg-gray-50 border border-gray-200 rounded p-3">
+            <p className="text-xs text-gray-500 mb-1">Your Answer</p>
+            {response?.answerText?.trim() ? (
+              <p className="text-sm text-gray-900 whitespace-pre-wrap">{response.answerText}</p>
+            ) : (
+              !response?.answerImageUrls?.length && <p className="text-sm text-gray-900">—</p>
+            )}
+            {(response?.answerImageUrls?.length ?? 0) > 0 && (
+              <div className="flex flex-wrap gap-3 mt-2">
+                {response!.answerImageUrls!.map((url, index) => (
+                  <a key={url} href={url} target="_blank" rel="noopener noreferrer">
+                    {/* eslint-disable-next-line @next/next/no-img-element */}
+                    <img
+                      src={url}
+                      alt={`Answer photo ${index + 1}`}
+                      className="h-40 w-auto rounded border border-gray-200 object-contain bg-white"
+                    />
+                  </a>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {grade ? (
+            <div className="bg-green-50 border border-green-200 rounded p-3 space-y-2">
+              <p className="text-xs text-gray-500">Marking</p>
+              <table className="w-full text-sm">
+                <tbody>
+                  {getGradingCriteria(question, result?.maxMarks ?? 0).map((criterion, index) => (
+                    <tr key={index}>
+                      <td className="py-1 pr-3 text-gray-800">{criterion.description}</td>
+                      <td className="py-1 text-right font-medium text-gray-900 whitespace-nowrap">
+                        {grade.criterionMarks[index] ?? 0} / {criterion.marks}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {grade.comment && (
+                <div className="pt-2 border-t border-green-200">
+                  <p className="text-xs text-gray-500 mb-1">Teacher&apos;s Comment</p>
+                  <p className="text-sm text-gray-900 whitespace-pre-wrap">{grade.comment}</p>
+                </div>
+              )}
+            </div>
+          ) : (
+            result?.pendingGrading && (
+              <p className="text-sm text-blue-800 bg-blue-50 border border-blue-200 rounded p-3">
+                Your answer is waiting to be graded. Your score will update once it is marked.
+              </p>
+            )
+          )}
+        </div>
+      )}
+
+      {/* Solution */}
+      <div className="border-t border-gray-200 pt-4">
+        <p className="text-sm font-semibold text-gray-900 mb-2">Solution</p>
+        {question.explanation ? (
+          <MathContent
+            html={question.explanation}
+            className="text-sm text-gray-800 prose prose-sm max-w-none"
+          />
+        ) : (
+          <p className="text-sm text-gray-500">No solution has been added for this question yet.</p>
+        )}
+      </div>
+
+      {children}
+    </div>
+  );
+}
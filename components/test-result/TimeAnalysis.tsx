@@ -0,0 +1,154 @@
+"use client";
+
+import { useMemo } from "react";
+import type { QuestionResult } from "@/lib/types/attempt";
+import type { TopperTimes } from "@/lib/types/testStats";
+import { formatDuration } from "@/lib/utils/duration";
+import {
+  TIME_QUADRANTS,
+  getOverspentQuestions,
+  getTimeQuadrants,
+  type TimeQuadrant,
+} from "@/lib/utils/timeAnalysis";
+
+interface TimeAnalysisProps {
+  questionResults: Record<string, QuestionResult>;
+  questionNumbers: Map<string, number>; // questionId -> number shown in the attempt
+  budgetSeconds: number;                // paper's time budget per question
+  topperTimes: TopperTimes | null;
+}
+
+const QUADRANT_STYLES: Record<TimeQuadrant, string> = {
+  quick_correct: "bg-green-50 border-green-200 text-green-800",
+  slow_correct: "bg-yellow-50 border-yellow-200 text-yellow-800",
+  quick_wrong: "bg-orange-50 border-orange-200 text-orange-800",
+  slow_wrong: "bg-red-50 border-red-200 text-red-800",
+};
+
+/**
+ * Time vs. correctness quadrants, over-spent questions and the comparison with toppers
+ */
+export default function TimeAnalysis({
+  questionResults,
+  questionNumbers,
+  budgetSeconds,
+  topperTimes,
+}: TimeAnalysisProps) {
+  // Without toppers (e.g. the first student to finish) the budget is the benchmark
+  const topperAverages =
+    topperTimes && topperTimes.topperCount > 0 ? topperTimes.averageSeconds : null;
+
+  const quadrants = useMemo(
+    () => getTimeQuadrants(questionResults, budgetSeconds, topperAverages),
+    [questionResults, budgetSeconds, topperAverages]
+  );
+  const overspent = useMemo(
+    () => getOverspentQuestions(questionResults, budgetSeconds, topperAverages),
+    [questionResults, budgetSeconds, topperAverages]
+  );
+
+  const yourTotal = Object.values(questionResults).reduce(
+    (sum, result) => sum + result.timeSpentSeconds,
+    0
+  );
+  const topperTotal = topperAverages
+    ? Object.keys(questionResults).reduce((sum, id) => sum + (topperAverages[id] ?? 0), 0)
+    : null;
+
+  const questionLabels = (ids: string[]) =>
+    ids
+      .map((id) => questionNumbers.get(id))
+      .filter((number): number is number => number !== undefined)
+      .sort((a, b) => a - b)
+      .map((number) => `Q${number}`)
+      .join(", ");
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 space-y-6">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900">Time Management</h2>
+        <p className="text-sm text-gray-500">
+          {topperAverages
+            ? `Compared with the average time of the top ${topperTimes!.topperCount} students on each question.`
+            : `Compared with the paper's time budget of ${formatDuration(budgetSeconds)} per question.`}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
+        <div className="bg-gray-50 border border-gray-200 rounded-lg p-3">
+          <p className="text-gray-500">Your time on questions</p>
+          <p className="text-lg font-semibold text-gray-900">{formatDuration(yourTotal)}</p>
+        </div>
+        <div className="bg-gray-50 border border-gray-200 rounded-lg p-3">
+          <p className="text-gray-500">Toppers&apos; average</p>
+          <p className="text-lg font-semibold text-gray-900">
+            {topperTotal !== null ? formatDuration(topperTotal) : "—"}
+          </p>
+        </div>
+      </div>
+
+      {/* Quadrants */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {TIME_QUADRANTS.map((quadrant) => (
+          <div
+            key={quadrant.value}
+            className={`border rounded-lg p-4 ${QUADRANT_STYLES[quadrant.value]}`}
+          >
+            <div className="flex items-baseline justify-between">
+              <p className="font-semibold">{quadrant.label}</p>
+              <p className="text-2xl font-bold">{quadrants[quadrant.value].length}</p>
+            </div>
+            <p className="text-xs mb-2">{quadrant.description}</p>
+            <p className="text-sm text-gray-700">
+              {questionLabels(quadrants[quadrant.value]) || "—"}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      {/* Over-spent questions */}
+      <div>
+        <h3 className="text-sm font-semibold text-gray-900 mb-2">Where you over-spent</h3>
+        {overspent.length === 0 ? (
+          <p className="text-sm text-gray-600">
+            No question took more than twice the expected time.
+          </p>
+        ) : (
+          <table className="min-w-full text-sm">
+            <thead className="border-b border-gray-200">
+              <tr>
+                <th className="text-left py-2 font-medium text-gray-700">Question</th>
+                <th className="text-left py-2 font-medium text-gray-700">Subject</th>
+                <th className="text-right py-2 font-medium text-gray-700">Your Time</th>
+                <th className="text-right py-2 font-medium text-gray-700">
+                  {topperAverages ? "Toppers" : "Budget"}
+                </th>
+                <th className="text-right py-2 font-medium text-gray-700">Outcome</th>
+              </tr>
+            </thead>
+            <tbody>
+              {overspent.map((entry) => {
+                const result = questionResults[entry.questionId];
+                return (
+                  <tr key={entry.questionId} className="border-b last:border-b-0">
+                    <td className="py-2 text-gray-900">
+                      Q{questionNumbers.get(entry.questionId) ?? "?"}
+                    </td>
+                    <td className="py-2 text-gray-700">{result.subject}</td>
+                    <td className="py-2 text-right text-red-600">
+                      {formatDuration(entry.timeSpentSeconds)}
+                    </td>
+                    <td className="py-2 text-right text-gray-700">
+                      {formatDuration(entry.referenceSeconds)}
+                    </td>
+                    <td className="py-2 text-right text-gray-700 capitalize">{result.outcome}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
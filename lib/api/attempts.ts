@@ -0,0 +1,139 @@
+// lib/api/attempts.ts
+import type {
+  AttemptProgress,
+  AttemptStatus,
+  IntegrityEventType,
+  QuestionResponse,
+} from "@/lib/types/attempt";
+import type { QuestionContent } from "@/lib/types/question";
+import type { ComputedAttemptResult } from "@/lib/utils/scoring";
+import { authorizedFetch } from "./client";
+
+export interface StartAttemptResponse {
+  attemptId: string;
+  resumed: boolean;
+}
+
+export interface SubmitAttemptResponse {
+  status: AttemptStatus;
+  result: ComputedAttemptResult;
+}
+
+export interface SyncProgressResponse {
+  applied: boolean;
+  serverTime: number;
+}
+
+export interface IntegrityEventsResponse {
+  violationCount: number;
+  maxViolations: number | null;
+  limitReached: boolean;
+}
+
+export interface AttemptQuestionsResponse {
+  questions: QuestionContent[];
+}
+
+export interface AttemptRankResponse {
+  rank: number;
+  percentile: number;
+  totalParticipants: number;
+  isRanked: boolean;
+}
+
+/**
+ * Start (or resume) an attempt - the server checks the test's availability window
+ * @param testId - Test document id
+ * @param testSeriesId - Series the test was opened from (if any)
+ */
+export async function startAttempt(
+  testId: string,
+  testSeriesId: string | null
+): Promise<StartAttemptResponse> {
+  console.log("[Attempts API] startAttempt called with:", { testId, testSeriesId });
+
+  const outcome = await authorizedFetch<StartAttemptResponse>(
+    `/api/tests/${testId}/attempts`,
+    { method: "POST", json: { testSeriesId } }
+  );
+
+  console.log("[Attempts API] Attempt started:", outcome);
+  return outcome;
+}
+
+/**
+ * Submit an attempt for server-side scoring
+ * @param attemptId - Attempt document id
+ * @param responses - Final responses keyed by questionId
+ * @param capturedAt - When the responses were captured, for a submission queued offline
+ */
+export async function submitAttempt(
+  attemptId: string,
+  responses: Record<string, QuestionResponse>,
+  capturedAt?: number
+): Promise<SubmitAttemptResponse> {
+  console.log("[Attempts API] submitAttempt called with id:", attemptId);
+
+  const outcome = await authorizedFetch<SubmitAttemptResponse>(
+    `/api/attempts/${attemptId}/submit`,
+    { method: "POST", json: { responses, capturedAt } }
+  );
+
+  console.log("[Attempts API] Attempt scored:", {
+    status: outcome.status,
+    totalScore: outcome.result.totalScore,
+  });
+  return outcome;
+}
+
+/**
+ * Save a snapshot of the player state (possibly queued on the device while offline)
+ * @param attemptId - Attempt document id
+ * @param progress - Player state
+ * @param capturedAt - When the snapshot was captured (ms since epoch, server-corrected)
+ */
+export async function syncAttemptProgress(
+  attemptId: string,
+  progress: AttemptProgress,
+  capturedAt: number
+): Promise<SyncProgressResponse> {
+  console.log("[Attempts API] syncAttemptProgress called with id:", attemptId);
+  return authorizedFetch<SyncProgressResponse>(`/api/attempts/${attemptId}/progress`, {
+    method: "POST",
+    json: { progress, capturedAt },
+  });
+}
+
+/**
+ * Get the rank of a scored attempt among all attempts of its test
+ * @param attemptId - Attempt document id
+ */
+export async function getAttemptRank(attemptId: string): Promise<AttemptRankResponse> {
+  console.log("[Attempts API] getAttemptRank called with id:", attemptId);
+  return authorizedFetch<AttemptRankResponse>(`/api/attempts/${attemptId}/rank`);
+}
+
+/**
+ * Get the questions of a submitted attempt's test, with keys and solutions for the review
+ * @param attemptId - Attempt document id
+ */
+export async function getAttemptQuestions(attemptId: string): Promise<AttemptQuestionsResponse> {
+  console.log("[Attempts API] getAttemptQuestions called with id:", attemptId);
+  return authorizedFetch<AttemptQuestionsResponse>(`/api/attempts/${attemptId}/questions`);
+}
+
+/**
+ * Report proctoring events seen by the player during an attempt
+ * @param attemptId - Attempt document id
+ * @param events - Events in the order they happened (clientAt in ms since epoch)
+ */
+export async function reportIntegrityEvents(
+  attemptId: string,
+  events: { type: IntegrityEventType; clientAt: number }[]
+): Promise<IntegrityEventsResponse> {
+  console.log("[Attempts API] reportIntegrityEvents called:", { attemptId, count: events.length });
+  return authorizedFetch<IntegrityEventsResponse>(`/api/attempts/${attemptId}/integrity`, {
+    method: "POST",
+    json: { events },
+  });
+}
@@ -0,0 +1,46 @@
+// lib/api/challenges.ts
+import type { ChallengeDecision } from "@/lib/types/challenge";
+import { authorizedFetch } from "./client";
+
+export interface RaiseChallengeResponse {
+  challengeId: string;
+}
+
+export interface DecideChallengesResponse {
+  resolvedCount: number;
+  rescoredTestIds: string[];
+}
+
+/**
+ * Challenge the answer key of a question from a scored attempt
+ * @param attemptId - Attempt document id
+ * @param questionId - Question being challenged
+ * @param reason - Why the student believes the key is wrong
+ */
+export async function raiseChallenge(
+  attemptId: string,
+  questionId: string,
+  reason: string
+): Promise<RaiseChallengeResponse> {
+  console.log("[Challenges API] raiseChallenge called with:", { attemptId, questionId });
+  return authorizedFetch<RaiseChallengeResponse>(`/api/attempts/${attemptId}/challenges`, {
+    method: "POST",
+    json: { questionId, reason },
+  });
+}
+
+/**
+ * Accept or reject the pending challenges of a question; accepting re-scores the test
+ * @param testId - Test the challenges were raised in
+ * @param decision - Decision and correction
+ */
+export async function decideChallenges(
+  testId: string,
+  decision: ChallengeDecision
+): Promise<DecideChallengesResponse> {
+  console.log("[Challenges API] decideChallenges called with:", { testId, decision });
+  return authorizedFetch<DecideChallengesResponse>(`/api/tests/${testId}/challenges`, {
+    method: "POST",
+    json: decision,
+  });
+}
@@ -0,0 +1,55 @@
+// lib/api/client.ts
+import { auth } from "@/lib/firebase/client";
+
+/**
+ * Call one of the app's route handlers as the signed-in user
+ * @param path - Route path, e.g. "/api/attempts/abc/submit"
+ * @param init - Standard fetch options; a JSON body may be passed as `json`
+ * @returns Parsed JSON response body
+ * @throws {Error} With the server's error message if the request fails
+ */
+export async function authorizedFetch<T>(
+  path: string,
+  init: RequestInit & { json?: unknown } = {}
+): Promise<T> {
+  const currentUser = auth.currentUser;
+  if (!currentUser) {
+    throw new Error("You must be logged in to perform this action.");
+  }
+
+  const token = await currentUser.getIdToken();
+  const { json, headers, ...rest } = init;
+
+  const response = await fetch(path, {
+    ...rest,
+    headers: {
+      ...headers,
+      Authorization: `Bearer ${token}`,
+      ...(json !== undefined && { "Content-Type": "application/json" }),
+    },
+    ...(json !== undefined && { body: JSON.stringify(json) }),
+  });
+
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    const message =
+      body && typeof body.error === "string"
+        ? body.error
+        : `Request failed with status ${response.status}`;
+    throw new Error(message);
+  }
+
+  return body as T;
+}
+
+/**
+ * Whether a failed call never reached the server (offline or a dropped connection),
+ * as opposed to being rejected by it
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (typeof navigator !== "undefined" && !navigator.onLine) return true;
+  // fetch() rejects with a TypeError when the request cannot be sent
+  if (error instanceof TypeError) return true;
+  return (error as { code?: string } | null)?.code === "auth/network-request-failed";
+}
@@ -0,0 +1,28 @@
+// lib/api/grading.ts
+import type { SubjectiveGradeInput } from "@/lib/types/attempt";
+import type { ComputedAttemptResult } from "@/lib/utils/scoring";
+import { authorizedFetch } from "./client";
+
+export interface GradeAnswerResponse {
+  result: ComputedAttemptResult;
+  pendingGradingCount: number;
+}
+
+/**
+ * Grade a subjective answer; the attempt is re-scored with the new marks
+ * @param attemptId - Attempt document id
+ * @param input - Question, marks per rubric criterion and feedback
+ */
+export async function gradeSubjectiveAnswer(
+  attemptId: string,
+  input: SubjectiveGradeInput
+): Promise<GradeAnswerResponse> {
+  console.log("[Grading API] gradeSubjectiveAnswer called with:", {
+    attemptId,
+    questionId: input.questionId,
+  });
+  return authorizedFetch<GradeAnswerResponse>(`/api/attempts/${attemptId}/grades`, {
+    method: "POST",
+    json: input,
+  });
+}
@@ -0,0 +1,52 @@
+// lib/api/practice.ts
+import type { QuestionResponse } from "@/lib/types/attempt";
+import type { PracticeFeedback, PracticeScope } from "@/lib/types/practice";
+import type { StudentQuestion } from "@/lib/types/question";
+import { authorizedFetch } from "./client";
+
+export interface StartPracticeResponse {
+  sessionId: string;
+}
+
+export interface PracticeQuestionsResponse {
+  questions: StudentQuestion[];
+}
+
+/**
+ * Start a practice session for a subject, chapter or topic
+ * @param scope - Part of the syllabus to practise
+ */
+export async function startPracticeSession(scope: PracticeScope): Promise<StartPracticeResponse> {
+  console.log("[Practice API] startPracticeSession called with:", scope);
+  return authorizedFetch<StartPracticeResponse>("/api/practice/sessions", {
+    method: "POST",
+    json: scope,
+  });
+}
+
+/**
+ * Get the questions of a practice session not answered yet - without their answer keys
+ * @param sessionId - Practice session document id
+ */
+export async function getPracticeQuestions(sessionId: string): Promise<PracticeQuestionsResponse> {
+  console.log("[Practice API] getPracticeQuestions called with id:", sessionId);
+  return authorizedFetch<PracticeQuestionsResponse>(`/api/practice/sessions/${sessionId}/questions`);
+}
+
+/**
+ * Check a practice answer - the result is recorded in the session's history
+ * @param sessionId - Practice session document id
+ * @param questionId - Question being answered
+ * @param response - The student's answer
+ */
+export async function answerPracticeQuestion(
+  sessionId: string,
+  questionId: string,
+  response: QuestionResponse
+): Promise<PracticeFeedback> {
+  console.log("[Practice API] answerPracticeQuestion called with:", { sessionId, questionId });
+  return authorizedFetch<PracticeFeedback>(`/api/practice/sessions/${sessionId}/answers`, {
+    method: "POST",
+    json: { questionId, response },
+  });
+}
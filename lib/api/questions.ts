@@ -0,0 +1,17 @@
+// lib/api/questions.ts
+import { authorizedFetch } from "./client";
+
+export interface CalibrateQuestionsResponse {
+  attemptCount: number;
+  questionCount: number;
+}
+
+/**
+ * Recompute every question's empirical difficulty from attempt data (admins only)
+ */
+export async function calibrateQuestions(): Promise<CalibrateQuestionsResponse> {
+  console.log("[Questions API] calibrateQuestions called");
+  return authorizedFetch<CalibrateQuestionsResponse>("/api/questions/calibration", {
+    method: "POST",
+  });
+}
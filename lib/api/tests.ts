@@ -0,0 +1,50 @@
+// lib/api/tests.ts
+import type { StudentQuestion } from "@/lib/types/question";
+import type { TestLeaderboard, TopperTimes } from "@/lib/types/testStats";
+import { authorizedFetch } from "./client";
+
+export interface RebuildTestStatsResponse {
+  participantCount: number;
+}
+
+export interface TestQuestionsResponse {
+  questions: StudentQuestion[];
+}
+
+/**
+ * Get the questions of a test for the player - without answer keys or solutions
+ * @param testId - Test document id
+ */
+export async function getTestQuestions(testId: string): Promise<TestQuestionsResponse> {
+  console.log("[Tests API] getTestQuestions called with id:", testId);
+  return authorizedFetch<TestQuestionsResponse>(`/api/tests/${testId}/questions`);
+}
+
+/**
+ * Get the leaderboard of a test
+ * @param testId - Test document id
+ */
+export async function getTestLeaderboard(testId: string): Promise<TestLeaderboard> {
+  console.log("[Tests API] getTestLeaderboard called with id:", testId);
+  return authorizedFetch<TestLeaderboard>(`/api/tests/${testId}/leaderboard`);
+}
+
+/**
+ * Get the average time the toppers of a test spent on each question
+ * @param testId - Test document id
+ */
+export async function getTopperTimes(testId: string): Promise<TopperTimes> {
+  console.log("[Tests API] getTopperTimes called with id:", testId);
+  return authorizedFetch<TopperTimes>(`/api/tests/${testId}/topper-times`);
+}
+
+/**
+ * Recompute a test's rank stats from all of its attempts (admins only)
+ * @param testId - Test document id
+ */
+export async function rebuildTestStats(testId: string): Promise<RebuildTestStatsResponse> {
+  console.log("[Tests API] rebuildTestStats called with id:", testId);
+  return authorizedFetch<RebuildTestStatsResponse>(`/api/tests/${testId}/stats`, {
+    method: "POST",
+  });
+}
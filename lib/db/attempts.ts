@@ -0,0 +1,180 @@
+// lib/db/attempts.ts
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  type DocumentSnapshot,
+  type QueryDocumentSnapshot,
+} from "firebase/firestore";
+import { db } from "@/lib/firebase/client";
+import type { Attempt, AttemptDoc } from "@/lib/types/attempt";
+
+const ATTEMPTS_COLLECTION = "attempts";
+
+function attemptsCollectionRef() {
+  return collection(db, ATTEMPTS_COLLECTION);
+}
+
+/**
+ * Maps a Firestore document snapshot to an Attempt object
+ */
+function mapAttemptDoc(
+  snapshot: QueryDocumentSnapshot | DocumentSnapshot
+): Attempt {
+  const data = snapshot.data() as AttemptDoc;
+  return {
+    id: snapshot.id,
+    ...data,
+  };
+}
+
+/**
+ * Get a single attempt by id
+ * @param id - Attempt document id
+ */
+export async function getAttemptById(id: string): Promise<Attempt | null> {
+  console.log("[Attempts DB] getAttemptById called with id:", id);
+
+  if (!id || typeof id !== "string" || id.trim() === "") {
+    const error = new Error("Attempt id is required and must be a non-empty string");
+    console.error("[Attempts DB] getAttemptById error:", error);
+    throw error;
+  }
+
+  const attemptRef = doc(db, ATTEMPTS_COLLECTION, id);
+
+  try {
+    const snap = await getDoc(attemptRef);
+    if (!snap.exists()) {
+      console.warn("[Attempts DB] Attempt not found for id:", id);
+      return null;
+    }
+
+    const attempt = mapAttemptDoc(snap);
+    console.log("[Attempts DB] Attempt loaded:", { id: attempt.id });
+    return attempt;
+  } catch (error) {
+    const dbError =
+      error instanceof Error
+        ? error
+        : new Error("Failed to fetch attempt from Firestore");
+    console.error("[Attempts DB] Error fetching attempt:", dbError);
+    throw dbError;
+  }
+}
+
+/**
+ * List a student's attempts, newest first
+ * @param userId - Student UID
+ * @param testId - Optionally restrict to attempts of a single test
+ */
+export async function listUserAttempts(
+  userId: string,
+  testId?: string
+): Promise<Attempt[]> {
+  console.log("[Attempts DB] listUserAttempts called with:", { userId, testId });
+
+  if (!userId || typeof userId !== "string" || userId.trim() === "") {
+    const error = new Error("userId is required and must be a non-empty string");
+    console.error("[Attempts DB] listUserAttempts error:", error);
+    throw error;
+  }
+
+  try {
+    const constraints = [where("userId", "==", userId)];
+    if (testId) {
+      constraints.push(where("testId", "==", testId));
+    }
+
+    // No orderBy to avoid composite index requirement - sort client-side instead
+    const qRef = query(attemptsCollectionRef(), ...constraints);
+    const snapshot = await getDocs(qRef);
+    const attempts: Attempt[] = snapshot.docs
+      .map((docSnap) => mapAttemptDoc(docSnap))
+      .sort((a, b) => {
+        const aTime = a.startedAt?.toMillis() || 0;
+        const bTime = b.startedAt?.toMillis() || 0;
+        return bTime - aTime; // newest first
+      });
+
+    console.log("[Attempts DB] listUserAttempts loaded count:", attempts.length);
+    return attempts;
+  } catch (error) {
+    const dbError =
+      error instanceof Error
+        ? error
+        : new Error("Failed to list attempts from Firestore");
+    console.error("[Attempts DB] Error listing attempts:", dbError);
+    throw dbError;
+  }
+}
+
+/**
+ * List every attempt of a test (admin only - used for the integrity log)
+ * @param testId - Test document id
+ * @returns Attempts of the test, newest first
+ */
+export async function listTestAttempts(testId: string): Promise<Attempt[]> {
+  console.log("[Attempts DB] listTestAttempts called with testId:", testId);
+
+  if (!testId || typeof testId !== "string" || testId.trim() === "") {
+    const error = new Error("testId is required and must be a non-empty string");
+    console.error("[Attempts DB] listTestAttempts error:", error);
+    throw error;
+  }
+
+  try {
+    const qRef = query(attemptsCollectionRef(), where("testId", "==", testId));
+    const snapshot = await getDocs(qRef);
+    const attempts: Attempt[] = snapshot.docs
+      .map((docSnap) => mapAttemptDoc(docSnap))
+      .sort((a, b) => {
+        const aTime = a.startedAt?.toMillis() || 0;
+        const bTime = b.startedAt?.toMillis() || 0;
+        return bTime - aTime; // newest first
+      });
+
+    console.log("[Attempts DB] listTestAttempts loaded count:", attempts.length);
+    return attempts;
+  } catch (error) {
+    const dbError =
+      error instanceof Error
+        ? error
+        : new Error("Failed to list test attempts from Firestore");
+    console.error("[Attempts DB] Error listing test attempts:", dbError);
+    throw dbError;
+  }
+}
+
+/**
+ * List submitted attempts with subjective answers still to be graded (admin only)
+ * @returns Attempts oldest submission first, so the queue is worked in order
+ */
+export async function listAttemptsAwaitingGrading(): Promise<Attempt[]> {
+  console.log("[Attempts DB] listAttemptsAwaitingGrading called");
+
+  try {
+    const qRef = query(attemptsCollectionRef(), where("result.pendingGradingCount", ">", 0));
+    const snapshot = await getDocs(qRef);
+    const attempts: Attempt[] = snapshot.docs
+      .map((docSnap) => mapAttemptDoc(docSnap))
+      .sort((a, b) => {
+        const aTime = a.submittedAt?.toMillis() || 0;
+        const bTime = b.submittedAt?.toMillis() || 0;
+        return aTime - bTime; // oldest first
+      });
+
+    console.log("[Attempts DB] listAttemptsAwaitingGrading loaded count:", attempts.length);
+    return attempts;
+  } catch (error) {
+    const dbError =
+      error instanceof Error
+        ? error
+        : new Error("Failed to list attempts awaiting grading from Firestore");
+    console.error("[Attempts DB] Error listing attempts awaiting grading:", dbError);
+    throw dbError;
+  }
+}
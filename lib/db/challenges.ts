@@ -0,0 +1,91 @@
+// lib/db/challenges.ts
+import {
+  collection,
+  getDocs,
+  query,
+  where,
+  type QueryDocumentSnapshot,
+} from "firebase/firestore";
+import { db } from "@/lib/firebase/client";
+import type { Challenge, ChallengeDoc, ChallengeStatus } from "@/lib/types/challenge";
+
+const CHALLENGES_COLLECTION = "challenges";
+
+function challengesCollectionRef() {
+  return collection(db, CHALLENGES_COLLECTION);
+}
+
+/**
+ * Maps a Firestore document snapshot to a Challenge object
+ */
+function mapChallengeDoc(snapshot: QueryDocumentSnapshot): Challenge {
+  const data = snapshot.data() as ChallengeDoc;
+  return {
+    id: snapshot.id,
+    ...data,
+  };
+}
+
+/**
+ * Sort challenges oldest first (client-side to avoid composite indexes)
+ */
+function sortByCreatedAt(challenges: Challenge[]): Challenge[] {
+  return challenges.sort(
+    (a, b) => (a.createdAt?.toMillis() || 0) - (b.createdAt?.toMillis() || 0)
+  );
+}
+
+/**
+ * List a student's challenges of a test
+ * @param userId - Student UID
+ * @param testId - Test document id
+ */
+export async function listUserChallenges(userId: string, testId: string): Promise<Challenge[]> {
+  console.log("[Challenges DB] listUserChallenges called with:", { userId, testId });
+
+  if (!userId || typeof userId !== "string" || userId.trim() === "") {
+    const error = new Error("userId is required and must be a non-empty string");
+    console.error("[Challenges DB] listUserChallenges error:", error);
+    throw error;
+  }
+
+  try {
+    const qRef = query(
+      challengesCollectionRef(),
+      where("userId", "==", userId),
+      where("testId", "==", testId)
+    );
+    const snapshot = await getDocs(qRef);
+    return sortByCreatedAt(snapshot.docs.map((docSnap) => mapChallengeDoc(docSnap)));
+  } catch (error) {
+    const dbError =
+      error instanceof Error
+        ? error
+        : new Error("Failed to list challenges from Firestore");
+    console.error("[Challenges DB] Error listing challenges:", dbError);
+    throw dbError;
+  }
+}
+
+/**
+ * List all challenges with a status (admins only)
+ * @param status - Challenge status to list
+ */
+export async function listChallengesByStatus(status: ChallengeStatus): Promise<Challenge[]> {
+  console.log("[Challenges DB] listChallengesByStatus called with:", status);
+
+  try {
+    const qRef = query(challengesCollectionRef(), where("status", "==", status));
+    const snapshot = await getDocs(qRef);
+    const challenges = sortByCreatedAt(snapshot.docs.map((docSnap) => mapChallengeDoc(docSnap)));
+    console.log("[Challenges DB] listChallengesByStatus loaded count:", challenges.length);
+    return challenges;
+  } catch (error) {
+    const dbError =
+      error instanceof Error
+        ? error
+        : new Error("Failed to list challenges from Firestore");
+    console.error("[Challenges DB] Error listing challenges:", dbError);
+    throw dbError;
+  }
+}
@@ -0,0 +1,219 @@
+// lib/db/passages.ts
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  limit,
+  addDoc,
+  updateDoc,
+  deleteDoc,
+  serverTimestamp,
+  type DocumentSnapshot,
+  type QueryDocumentSnapshot,
+} from "firebase/firestore";
+import { db } from "@/lib/firebase/client";
+import type { Passage, PassageDoc, PassageInput } from "@/lib/types/passage";
+
+const PASSAGES_COLLECTION = "passages";
+const QUESTIONS_COLLECTION = "questions";
+
+/**
+ * Maps a Firestore document snapshot to a Passage object
+ */
+function mapPassageDoc(snapshot: QueryDocumentSnapshot | DocumentSnapshot): Passage {
+  const data = snapshot.data() as PassageDoc;
+  return {
+    id: snapshot.id,
+    ...data,
+  };
+}
+
+/**
+ * Create a new passage document
+ * @param input - Passage data from form (no timestamps / createdBy)
+ * @param adminUid - UID of the admin creating the passage
+ * @returns The newly created passage document id
+ */
+export async function createPassage(input: PassageInput, adminUid: string): Promise<string> {
+  console.log("[Passages DB] createPassage called with:", { input, adminUid });
+
+  if (!adminUid || typeof adminUid !== "string" || adminUid.trim() === "") {
+    const error = new Error("adminUid is required and must be a non-empty string");
+    console.error("[Passages DB] createPassage error:", error);
+    throw error;
+  }
+
+  // Remove undefined values to avoid Firestore errors
+  const cleanInput = Object.fromEntries(
+    Object.entries(input).filter(([, value]) => value !== undefined)
+  ) as PassageInput;
+
+  const docData: Omit<PassageDoc, "createdAt" | "updatedAt"> & {
+    createdAt: ReturnType<typeof serverTimestamp>;
+    updatedAt: ReturnType<typeof serverTimestamp>;
+  } = {
+    ...cleanInput,
+    createdBy: adminUid,
+    createdAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
+  };
+
+  try {
+    const docRef = await addDoc(collection(db, PASSAGES_COLLECTION), docData);
+    console.log("[Passages DB] Passage created with id:", docRef.id);
+    return docRef.id;
+  } catch (error) {
+    const dbError =
+      error instanceof Error ? error : new Error("Failed to create passage in Firestore");
+    console.error("[Passages DB] Error creating passage:", dbError);
+    throw dbError;
+  }
+}
+
+/**
+ * Update an existing passage document
+ * @param id - Passage document id
+ * @param updates - Partial passage input to update
+ */
+export async function updatePassage(id: string, updates: Partial<PassageInput>): Promise<void> {
+  console.log("[Passages DB] updatePassage called with:", { id, updates });
+
+  if (!id || typeof id !== "string" || id.trim() === "") {
+    const error = new Error("Passage id is required and must be a non-empty string");
+    console.error("[Passages DB] updatePassage error:", error);
+    throw error;
+  }
+
+  try {
+    await updateDoc(doc(db, PASSAGES_COLLECTION, id), {
+      ...updates,
+      updatedAt: serverTimestamp(),
+    });
+    console.log("[Passages DB] Passage updated successfully");
+  } catch (error) {
+    const dbError =
+      error instanceof Error ? error : new Error("Failed to update passage in Firestore");
+    console.error("[Passages DB] Error updating passage:", dbError);
+    throw dbError;
+  }
+}
+
+/**
+ * Delete a passage document. Passages that questions still follow cannot be deleted.
+ * @param id - Passage document id
+ */
+export async function deletePassage(id: string): Promise<void> {
+  console.log("[Passages DB] deletePassage called with id:", id);
+
+  if (!id || typeof id !== "string" || id.trim() === "") {
+    const error = new Error("Passage id is required and must be a non-empty string");
+    console.error("[Passages DB] deletePassage error:", error);
+    throw error;
+  }
+
+  try {
+    const linked = await getDocs(
+      query(collection(db, QUESTIONS_COLLECTION), where("passageId", "==", id), limit(1))
+    );
+    if (!linked.empty) {
+      throw new Error("Questions still use this passage. Unlink or delete them first.");
+    }
+
+    await deleteDoc(doc(db, PASSAGES_COLLECTION, id));
+    console.log("[Passages DB] Passage deleted successfully");
+  } catch (error) {
+    const dbError =
+      error instanceof Error ? error : new Error("Failed to delete passage from Firestore");
+    console.error("[Passages DB] Error deleting passage:", dbError);
+    throw dbError;
+  }
+}
+
+/**
+ * Get a single passage by id
+ * @param id - Passage document id
+ * @returns The passage, or null if it does not exist
+ */
+export async function getPassageById(id: string): Promise<Passage | null> {
+  console.log("[Passages DB] getPassageById called with id:", id);
+
+  if (!id || typeof id !== "string" || id.trim() === "") {
+    const error = new Error("Passage id is required and must be a non-empty string");
+    console.error("[Passages DB] getPassageById error:", error);
+    throw error;
+  }
+
+  try {
+    const snap = await getDoc(doc(db, PASSAGES_COLLECTION, id));
+    if (!snap.exists()) {
+      console.warn("[Passages DB] Passage not found for id:", id);
+      return null;
+    }
+    return mapPassageDoc(snap);
+  } catch (error) {
+    const dbError =
+      error instanceof Error ? error : new Error("Failed to fetch passage from Firestore");
+    console.error("[Passages DB] Error fetching passage:", dbError);
+    throw dbError;
+  }
+}
+
+/**
+ * Load several passages at once, keyed by id (missing passages are left out)
+ * @param ids - Passage document ids
+ */
+export async function getPassagesByIds(ids: string[]): Promise<Map<string, Passage>> {
+  const uniqueIds = Array.from(new Set(ids.filter(Boolean)));
+  console.log("[Passages DB] getPassagesByIds called with count:", uniqueIds.length);
+
+  const passages = new Map<string, Passage>();
+  if (uniqueIds.length === 0) return passages;
+
+  try {
+    const snaps = await Promise.all(
+      uniqueIds.map((id) => getDoc(doc(db, PASSAGES_COLLECTION, id)))
+    );
+    snaps.forEach((snap) => {
+      if (snap.exists()) passages.set(snap.id, mapPassageDoc(snap));
+    });
+    return passages;
+  } catch (error) {
+    const dbError =
+      error instanceof Error ? error : new Error("Failed to fetch passages from Firestore");
+    console.error("[Passages DB] Error fetching passages:", dbError);
+    throw dbError;
+  }
+}
+
+/**
+ * List passages, optionally for one subject
+ * @param subject - Subject name to filter by
+ * @returns Passages, newest first
+ */
+export async function listPassages(subject?: string): Promise<Passage[]> {
+  console.log("[Passages DB] listPassages called with subject:", subject);
+
+  try {
+    // No orderBy with the filter to avoid composite index requirement - sort client-side instead
+    const qRef = subject
+      ? query(collection(db, PASSAGES_COLLECTION), where("subject", "==", subject))
+      : query(collection(db, PASSAGES_COLLECTION), orderBy("createdAt", "desc"));
+    const snapshot = await getDocs(qRef);
+    const passages = snapshot.docs.map((docSnap) => mapPassageDoc(docSnap));
+    if (subject) {
+      passages.sort((a, b) => (b.createdAt?.toMillis() || 0) - (a.createdAt?.toMillis() || 0));
+    }
+
+    console.log("[Passages DB] listPassages loaded count:", passages.length);
+    return passages;
+  } catch (error) {
+    const dbError =
+      error instanceof Error ? error : new Error("Failed to list passages from Firestore");
+    console.error("[Passages DB] Error listing passages:", dbError);
+    throw dbError;
+  }
+}
@@ -0,0 +1,133 @@
+// lib/db/practice.ts
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  type DocumentSnapshot,
+  type QueryDocumentSnapshot,
+} from "firebase/firestore";
+import { db } from "@/lib/firebase/client";
+import type {
+  PracticeAnswer,
+  PracticeAnswerDoc,
+  PracticeSession,
+  PracticeSessionDoc,
+} from "@/lib/types/practice";
+
+const PRACTICE_SESSIONS_COLLECTION = "practiceSessions";
+const ANSWERS_SUBCOLLECTION = "answers";
+
+/**
+ * Maps a Firestore document snapshot to a PracticeSession object
+ */
+function mapPracticeSessionDoc(
+  snapshot: QueryDocumentSnapshot | DocumentSnapshot
+): PracticeSession {
+  const data = snapshot.data() as PracticeSessionDoc;
+  return {
+    id: snapshot.id,
+    ...data,
+  };
+}
+
+/**
+ * Get a practice session by id
+ * @param id - Practice session document id
+ * @returns The session, or null if it does not exist
+ */
+export async function getPracticeSessionById(id: string): Promise<PracticeSession | null> {
+  console.log("[Practice DB] getPracticeSessionById called with id:", id);
+
+  if (!id || typeof id !== "string" || id.trim() === "") {
+    const error = new Error("Practice session id is required and must be a non-empty string");
+    console.error("[Practice DB] getPracticeSessionById error:", error);
+    throw error;
+  }
+
+  try {
+    const snapshot = await getDoc(doc(db, PRACTICE_SESSIONS_COLLECTION, id));
+    if (!snapshot.exists()) {
+      console.log("[Practice DB] Practice session not found:", id);
+      return null;
+    }
+    return mapPracticeSessionDoc(snapshot);
+  } catch (error) {
+    const dbError =
+      error instanceof Error
+        ? error
+        : new Error("Failed to get practice session from Firestore");
+    console.error("[Practice DB] Error getting practice session:", dbError);
+    throw dbError;
+  }
+}
+
+/**
+ * List a student's practice sessions
+ * @param userId - Student UID
+ * @returns Sessions, most recently practised first
+ */
+export async function listUserPracticeSessions(userId: string): Promise<PracticeSession[]> {
+  console.log("[Practice DB] listUserPracticeSessions called with userId:", userId);
+
+  if (!userId || typeof userId !== "string" || userId.trim() === "") {
+    const error = new Error("userId is required and must be a non-empty string");
+    console.error("[Practice DB] listUserPracticeSessions error:", error);
+    throw error;
+  }
+
+  try {
+    // No orderBy to avoid composite index requirement - sort client-side instead
+    const qRef = query(
+      collection(db, PRACTICE_SESSIONS_COLLECTION),
+      where("userId", "==", userId)
+    );
+    const snapshot = await getDocs(qRef);
+    const sessions = snapshot.docs
+      .map((docSnap) => mapPracticeSessionDoc(docSnap))
+      .sort((a, b) => (b.updatedAt?.toMillis() || 0) - (a.updatedAt?.toMillis() || 0));
+
+    console.log("[Practice DB] listUserPracticeSessions loaded count:", sessions.length);
+    return sessions;
+  } catch (error) {
+    const dbError =
+      error instanceof Error
+        ? error
+        : new Error("Failed to list practice sessions from Firestore");
+    console.error("[Practice DB] Error listing practice sessions:", dbError);
+    throw dbError;
+  }
+}
+
+/**
+ * List the answers of a practice session
+ * @param sessionId - Practice session document id
+ * @param userId - Owner of the session (the security rules check it on each answer)
+ * @returns Answers in the order they were given
+ */
+export async function listPracticeAnswers(
+  sessionId: string,
+  userId: string
+): Promise<PracticeAnswer[]> {
+  console.log("[Practice DB] listPracticeAnswers called with:", { sessionId, userId });
+
+  try {
+    const qRef = query(
+      collection(db, PRACTICE_SESSIONS_COLLECTION, sessionId, ANSWERS_SUBCOLLECTION),
+      where("userId", "==", userId)
+    );
+    const snapshot = await getDocs(qRef);
+    return snapshot.docs
+      .map((docSnap) => ({ id: docSnap.id, ...(docSnap.data() as PracticeAnswerDoc) }))
+      .sort((a, b) => (a.answeredAt?.toMillis() || 0) - (b.answeredAt?.toMillis() || 0));
+  } catch (error) {
+    const dbError =
+      error instanceof Error
+        ? error
+        : new Error("Failed to list practice answers from Firestore");
+    console.error("[Practice DB] Error listing practice answers:", dbError);
+    throw dbError;
+  }
+}
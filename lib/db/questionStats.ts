@@ -0,0 +1,48 @@
+// lib/db/questionStats.ts
+import {
+  collection,
+  getDocs,
+  type QueryDocumentSnapshot,
+} from "firebase/firestore";
+import { db } from "@/lib/firebase/client";
+import type { QuestionStats, QuestionStatsDoc } from "@/lib/types/questionStats";
+
+const QUESTION_STATS_COLLECTION = "questionStats";
+
+/**
+ * Maps a Firestore document snapshot to a QuestionStats object
+ */
+function mapQuestionStatsDoc(snapshot: QueryDocumentSnapshot): QuestionStats {
+  const data = snapshot.data() as QuestionStatsDoc;
+  return {
+    id: snapshot.id,
+    ...data,
+  };
+}
+
+/**
+ * List the calibration stats of all questions (admins only)
+ * @returns Stats keyed by questionId
+ */
+export async function listQuestionStats(): Promise<Map<string, QuestionStats>> {
+  console.log("[QuestionStats DB] listQuestionStats called");
+
+  try {
+    const snapshot = await getDocs(collection(db, QUESTION_STATS_COLLECTION));
+    const stats = new Map<string, QuestionStats>();
+    snapshot.docs.forEach((docSnap) => {
+      const entry = mapQuestionStatsDoc(docSnap);
+      stats.set(entry.questionId, entry);
+    });
+
+    console.log("[QuestionStats DB] listQuestionStats loaded count:", stats.size);
+    return stats;
+  } catch (error) {
+    const dbError =
+      error instanceof Error
+        ? error
+        : new Error("Failed to list question stats from Firestore");
+    console.error("[QuestionStats DB] Error listing question stats:", dbError);
+    throw dbError;
+  }
+}
@@ -21,6 +21,7 @@ import type {
   QuestionInput,
   DifficultyLevel,
   QuestionType,
+  QuestionTemplate,
 } from "@/lib/types/question";
 
 const QUESTIONS_COLLECTION = "questions";
@@ -75,6 +76,7 @@ export async function createQuestion(
     ...cleanInput,
     explanation: cleanInput.explanation ?? null,
     correctAnswer: cleanInput.correctAnswer ?? null,
+    numericalAnswer: cleanInput.numericalAnswer ?? null,
     createdBy: adminUid,
     createdAt: serverTimestamp(),
     updatedAt: serverTimestamp(),
@@ -203,6 +205,8 @@ export interface ListQuestionsParams {
   subtopic?: string;
   difficulty?: DifficultyLevel;
   type?: QuestionType;
+  passageId?: string;
+  template?: QuestionTemplate;
 }
 
 /**
@@ -215,7 +219,7 @@ export async function listQuestions(
 
   try {
     const constraints = [];
-    const hasFilters = !!(params.subject || params.chapter || params.topic || params.subtopic || params.difficulty || params.type);
+    const hasFilters = !!(params.subject || params.chapter || params.topic || params.subtopic || params.difficulty || params.type || params.passageId || params.template);
 
     if (params.subject) {
       constraints.push(where("subject", "==", params.subject));
@@ -235,6 +239,12 @@ export async function listQuestions(
     if (params.type) {
       constraints.push(where("type", "==", params.type));
     }
+    if (params.passageId) {
+      constraints.push(where("passageId", "==", params.passageId));
+    }
+    if (params.template) {
+      constraints.push(where("template", "==", params.template));
+    }
 
     // Only use orderBy when there are no filters to avoid composite index requirement
     // When filters are applied, we'll sort client-side
@@ -87,6 +87,53 @@ export async function createTest(
     }
   });
 
+  // Validate sections
+  const sections = input.sections ?? [];
+  if (sections.length > 0) {
+    const sectionIds = new Set(sections.map((s) => s.id));
+    sections.forEach((s, index) => {
+      if (!s.name || s.name.trim() === "") {
+        throw new Error(`Section ${index + 1} must have a name`);
+      }
+    });
+    input.questions.forEach((q, index) => {
+      if (!q.sectionId || !sectionIds.has(q.sectionId)) {
+        throw new Error(`Question ${index + 1} must belong to one of the test's sections`);
+      }
+    });
+  }
+
+  // Validate availability window
+  const startsAt = input.startsAt ?? null;
+  const endsAt = input.endsAt ?? null;
+  const lateEntryMinutes = input.lateEntryMinutes ?? null;
+  if (startsAt && endsAt && endsAt.toMillis() <= startsAt.toMillis()) {
+    throw new Error("Test end time must be after its start time");
+  }
+  if (lateEntryMinutes !== null && (!startsAt || lateEntryMinutes < 0)) {
+    throw new Error("Late entry needs a start time and cannot be negative");
+  }
+  if (input.liveMode && (!startsAt || !endsAt)) {
+    throw new Error("Live tests need both a start and an end time");
+  }
+
+  // Validate attempt policy
+  const maxAttempts = input.maxAttempts ?? null;
+  const reattemptCooldownMinutes = input.reattemptCooldownMinutes ?? null;
+  if (maxAttempts !== null && (!Number.isInteger(maxAttempts) || maxAttempts < 1)) {
+    throw new Error("Maximum attempts must be a positive whole number");
+  }
+  if (reattemptCooldownMinutes !== null && reattemptCooldownMinutes < 0) {
+    throw new Error("Re-attempt cooldown cannot be negative");
+  }
+
+  // Validate proctoring
+  const proctored = input.proctored ?? false;
+  const maxViolations = proctored ? input.maxViolations ?? null : null;
+  if (maxViolations !== null && (!Number.isInteger(maxViolations) || maxViolations < 1)) {
+    throw new Error("Violation limit must be a positive whole number");
+  }
+
   const docData: Omit<TestDoc, "createdAt" | "updatedAt"> & {
     createdAt: ReturnType<typeof serverTimestamp>;
     updatedAt: ReturnType<typeof serverTimestamp>;
@@ -95,6 +142,19 @@ export async function createTest(
     description: input.description.trim(),
     durationMinutes: input.durationMinutes,
     questions: input.questions,
+    ...(sections.length > 0 && { sections }),
+    shuffleQuestions: input.shuffleQuestions ?? false,
+    shuffleOptions: input.shuffleOptions ?? false,
+    startsAt,
+    endsAt,
+    lateEntryMinutes,
+    liveMode: input.liveMode ?? false,
+    maxAttempts,
+    reattemptMode: input.reattemptMode ?? "practice",
+    reattemptCooldownMinutes,
+    proctored,
+    requireFullscreen: proctored && (input.requireFullscreen ?? false),
+    maxViolations,
     createdBy: adminUid,
     createdAt: serverTimestamp(),
     updatedAt: serverTimestamp(),
@@ -1,6 +1,6 @@
 // lib/db/users.ts
 import { db } from "@/lib/firebase/client";
-import { doc, setDoc, serverTimestamp, Timestamp } from "firebase/firestore";
+import { doc, getDoc, setDoc, serverTimestamp, Timestamp } from "firebase/firestore";
 
 export type UserRole = "student" | "admin";
 
@@ -65,3 +65,42 @@ export async function createUserDocument(
     throw dbError;
   }
 }
+
+/**
+ * Get a user document by UID (own document, or any document for admins)
+ * @param uid - User UID
+ * @returns The user, or null if there is no user document
+ */
+export async function getUserById(uid: string): Promise<AppUser | null> {
+  console.log("[Users DB] getUserById called with uid:", uid);
+
+  if (!uid || typeof uid !== "string" || uid.trim() === "") {
+    const error = new Error("User UID is required and must be a non-empty string");
+    console.error("[Users DB] getUserById error:", error);
+    throw error;
+  }
+
+  try {
+    const snapshot = await getDoc(doc(db, "users", uid));
+    if (!snapshot.exists()) {
+      console.log("[Users DB] User document not found:", uid);
+      return null;
+    }
+
+    const data = snapshot.data();
+    return {
+      uid: snapshot.id,
+      email: data.email ?? null,
+      displayName: data.displayName ?? null,
+      role: data.role,
+      createdAt: data.createdAt ?? null,
+    };
+  } catch (error) {
+    const dbError =
+      error instanceof Error
+        ? error
+        : new Error("Failed to get user document from Firestore");
+    console.error("[Users DB] Error getting user document:", dbError);
+    throw dbError;
+  }
+}
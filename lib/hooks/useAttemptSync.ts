@@ -0,0 +1,218 @@
+// lib/hooks/useAttemptSync.ts
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  submitAttempt,
+  syncAttemptProgress,
+  type SubmitAttemptResponse,
+} from "@/lib/api/attempts";
+import { isNetworkError } from "@/lib/api/client";
+import type { AttemptProgress, QuestionResponse } from "@/lib/types/attempt";
+import {
+  getQueuedSnapshot,
+  removeQueuedSnapshot,
+  saveQueuedSnapshot,
+} from "@/lib/utils/offlineQueue";
+
+// Browsers do not always fire "online" - queued work is also retried on this interval
+const RETRY_INTERVAL_MS = 15000;
+
+export type ConnectionStatus = "online" | "offline";
+
+export type SyncStatus = "idle" | "saving" | "saved" | "queued" | "error";
+
+interface AttemptSyncOptions {
+  attemptId: string | null;
+  onQueuedSubmit: (outcome: SubmitAttemptResponse) => void; // a submission queued offline went through
+  onQueuedSubmitFailed: (message: string) => void;            // the server refused a queued submission
+}
+
+export interface AttemptSyncState {
+  connection: ConnectionStatus;
+  syncStatus: SyncStatus;
+  syncError: string | null;
+  saveProgress: (progress: AttemptProgress) => Promise<void>;
+  // Resolves to null when the submission was queued to be sent on reconnect
+  submit: (
+    responses: Record<string, QuestionResponse>,
+    progress: AttemptProgress
+  ) => Promise<SubmitAttemptResponse | null>;
+}
+
+/**
+ * Saves attempt progress through an on-device queue (IndexedDB) so the player keeps
+ * working when the connection drops, and syncs the latest snapshot on reconnect.
+ * The server decides whether a late snapshot still counts against the deadline.
+ */
+export function useAttemptSync({
+  attemptId,
+  onQueuedSubmit,
+  onQueuedSubmitFailed,
+}: AttemptSyncOptions): AttemptSyncState {
+  const [connection, setConnection] = useState<ConnectionStatus>(() =>
+    typeof navigator !== "undefined" && !navigator.onLine ? "offline" : "online"
+  );
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>("idle");
+  const [syncError, setSyncError] = useState<string | null>(null);
+
+  // Server clock minus device clock, so capture times are on the server's clock
+  const clockOffsetRef = useRef(0);
+  const flushingRef = useRef(false);
+  const onQueuedSubmitRef = useRef(onQueuedSubmit);
+  const onQueuedSubmitFailedRef = useRef(onQueuedSubmitFailed);
+
+  useEffect(() => {
+    onQueuedSubmitRef.current = onQueuedSubmit;
+  }, [onQueuedSubmit]);
+
+  useEffect(() => {
+    onQueuedSubmitFailedRef.current = onQueuedSubmitFailed;
+  }, [onQueuedSubmitFailed]);
+
+  const handleSyncFailure = useCallback(
+    async (id: string, error: unknown, wasSubmission: boolean) => {
+      if (isNetworkError(error)) {
+        setConnection("offline");
+        setSyncStatus("queued");
+        return;
+      }
+      // The server refused the snapshot (e.g. the time limit passed) - retrying will not help
+      console.error("[useAttemptSync] Snapshot rejected:", error);
+      await removeQueuedSnapshot(id);
+      const message = error instanceof Error ? error.message : "Failed to sync your answers.";
+      setSyncError(message);
+      setSyncStatus("error");
+      // The player is waiting on the queued submission - tell it so it can recover
+      if (wasSubmission) {
+        onQueuedSubmitFailedRef.current(message);
+      }
+    },
+    []
+  );
+
+  // Send the queued snapshot of the attempt, if any (again if a newer one was queued meanwhile)
+  const flush = useCallback(async () => {
+    if (!attemptId || flushingRef.current) return;
+
+    flushingRef.current = true;
+    let sendingSubmission = false;
+    try {
+      let snapshot = await getQueuedSnapshot(attemptId);
+      while (snapshot) {
+        setSyncStatus("saving");
+        sendingSubmission = snapshot.submitRequested;
+        if (snapshot.submitRequested) {
+          console.log("[useAttemptSync] Sending queued submission:", attemptId);
+          const outcome = await submitAttempt(
+            attemptId,
+            snapshot.progress.responses,
+            snapshot.capturedAt
+          );
+          await removeQueuedSnapshot(attemptId);
+          onQueuedSubmitRef.current(outcome);
+          snapshot = null;
+        } else {
+          const outcome = await syncAttemptProgress(
+            attemptId,
+            snapshot.progress,
+            snapshot.capturedAt
+          );
+          clockOffsetRef.current = outcome.serverTime - Date.now();
+          await removeQueuedSnapshot(attemptId, snapshot.capturedAt);
+          const next = await getQueuedSnapshot(attemptId);
+          snapshot = next && next.capturedAt > snapshot.capturedAt ? next : null;
+        }
+        setConnection("online");
+        setSyncStatus("saved");
+        setSyncError(null);
+      }
+    } catch (err) {
+      await handleSyncFailure(attemptId, err, sendingSubmission);
+    } finally {
+      flushingRef.current = false;
+    }
+  }, [attemptId, handleSyncFailure]);
+
+  const saveProgress = useCallback(
+    async (progress: AttemptProgress) => {
+      if (!attemptId) return;
+
+      const existing = await getQueuedSnapshot(attemptId);
+      if (existing?.submitRequested) return; // already submitted on this device
+
+      const capturedAt = Date.now() + clockOffsetRef.current;
+      try {
+        await saveQueuedSnapshot({ attemptId, progress, capturedAt, submitRequested: false });
+      } catch {
+        // Without the device store the snapshot is still sent directly
+      }
+
+      if (typeof navigator !== "undefined" && !navigator.onLine) {
+        setConnection("offline");
+        setSyncStatus("queued");
+        return;
+      }
+      await flush();
+    },
+    [attemptId, flush]
+  );
+
+  const submit = useCallback(
+    async (responses: Record<string, QuestionResponse>, progress: AttemptProgress) => {
+      if (!attemptId) return null;
+      const capturedAt = Date.now() + clockOffsetRef.current;
+
+      try {
+        const outcome = await submitAttempt(attemptId, responses);
+        await removeQueuedSnapshot(attemptId);
+        setConnection("online");
+        return outcome;
+      } catch (err) {
+        if (!isNetworkError(err)) throw err;
+
+        console.log("[useAttemptSync] Offline - queueing submission:", attemptId);
+        await saveQueuedSnapshot({
+          attemptId,
+          progress: { ...progress, responses },
+          capturedAt,
+          submitRequested: true,
+        });
+        setConnection("offline");
+        setSyncStatus("queued");
+        return null;
+      }
+    },
+    [attemptId]
+  );
+
+  // Track the connection and sync as soon as it comes back
+  useEffect(() => {
+    const handleOnline = () => {
+      setConnection("online");
+      flush();
+    };
+    const handleOffline = () => setConnection("offline");
+
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, [flush]);
+
+  // Send anything left from an earlier visit of the page
+  useEffect(() => {
+    flush();
+  }, [flush]);
+
+  // Keep retrying while work is queued
+  useEffect(() => {
+    if (syncStatus !== "queued") return;
+    const interval = setInterval(flush, RETRY_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [syncStatus, flush]);
+
+  return { connection, syncStatus, syncError, saveProgress, submit };
+}
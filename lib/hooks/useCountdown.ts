@@ -0,0 +1,60 @@
+// lib/hooks/useCountdown.ts
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+
+/**
+ * Counts down to a deadline and reports the whole seconds remaining.
+ * @param deadlineMs - Deadline as epoch milliseconds (null while unknown)
+ * @param onExpire - Called once when the deadline is reached
+ */
+export function useCountdown(
+  deadlineMs: number | null,
+  onExpire?: () => void
+): number | null {
+  const [now, setNow] = useState(() => Date.now());
+  const onExpireRef = useRef(onExpire);
+  const expiredRef = useRef(false);
+
+  useEffect(() => {
+    onExpireRef.current = onExpire;
+  }, [onExpire]);
+
+  useEffect(() => {
+    if (deadlineMs === null) return;
+    expiredRef.current = false;
+
+    const interval = setInterval(() => {
+      setNow(Date.now());
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [deadlineMs]);
+
+  const remainingSeconds =
+    deadlineMs === null ? null : Math.max(0, Math.ceil((deadlineMs - now) / 1000));
+
+  useEffect(() => {
+    if (remainingSeconds === 0 && !expiredRef.current) {
+      expiredRef.current = true;
+      console.log("[useCountdown] Deadline reached");
+      onExpireRef.current?.();
+    }
+  }, [remainingSeconds]);
+
+  return remainingSeconds;
+}
+
+/**
+ * Format a number of seconds as HH:MM:SS (or MM:SS under an hour)
+ */
+export function formatCountdown(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (n: number) => n.toString().padStart(2, "0");
+
+  return hours > 0
+    ? `${pad(hours)}:${pad(minutes)}:${pad(seconds)}`
+    : `${pad(minutes)}:${pad(seconds)}`;
+}
@@ -0,0 +1,182 @@
+// lib/hooks/useProctoring.ts
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { reportIntegrityEvents } from "@/lib/api/attempts";
+import type { IntegrityEventType } from "@/lib/types/attempt";
+import { INTEGRITY_EVENT_LABELS } from "@/lib/utils/integrity";
+
+// Events are sent in small batches rather than one request each
+const FLUSH_DELAY_MS = 1000;
+
+// Switching tabs blurs the window just before hiding the page - only the tab switch is kept
+const BLUR_SETTLE_MS = 300;
+
+interface ProctoringOptions {
+  attemptId: string | null;
+  enabled: boolean;               // proctored test with an attempt in progress
+  requireFullscreen: boolean;
+  onLimitReached: () => void;     // called once when the server reports the violation limit
+}
+
+export interface ProctoringState {
+  violationCount: number;
+  maxViolations: number | null;
+  isFullscreen: boolean;
+  warning: string | null;         // latest violation, shown until dismissed
+  dismissWarning: () => void;
+  enterFullscreen: () => void;
+}
+
+/**
+ * Request fullscreen for the whole page (must be called from a user gesture)
+ */
+export function requestPageFullscreen(): void {
+  if (typeof document === "undefined" || document.fullscreenElement) return;
+  document.documentElement.requestFullscreen?.().catch((err) => {
+    console.warn("[useProctoring] Fullscreen request refused:", err);
+  });
+}
+
+/**
+ * Watches the page for proctoring signals during an attempt and reports them to the server.
+ * Copy, cut, paste and the context menu are blocked as well as recorded.
+ */
+export function useProctoring({
+  attemptId,
+  enabled,
+  requireFullscreen,
+  onLimitReached,
+}: ProctoringOptions): ProctoringState {
+  const [violationCount, setViolationCount] = useState(0);
+  const [maxViolations, setMaxViolations] = useState<number | null>(null);
+  const [isFullscreen, setIsFullscreen] = useState(
+    () => typeof document !== "undefined" && !!document.fullscreenElement
+  );
+  const [warning, setWarning] = useState<string | null>(null);
+
+  const queueRef = useRef<{ type: IntegrityEventType; clientAt: number }[]>([]);
+  const flushTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const limitReachedRef = useRef(false);
+  const onLimitReachedRef = useRef(onLimitReached);
+
+  useEffect(() => {
+    onLimitReachedRef.current = onLimitReached;
+  }, [onLimitReached]);
+
+  const flush = useCallback(async () => {
+    flushTimerRef.current = null;
+    if (!attemptId || queueRef.current.length === 0) return;
+
+    const events = queueRef.current;
+    queueRef.current = [];
+    try {
+      const outcome = await reportIntegrityEvents(attemptId, events);
+      setViolationCount(outcome.violationCount);
+      setMaxViolations(outcome.maxViolations);
+      if (outcome.limitReached && !limitReachedRef.current) {
+        limitReachedRef.current = true;
+        console.log("[useProctoring] Violation limit reached, auto-submitting");
+        onLimitReachedRef.current();
+      }
+    } catch (err) {
+      // Keep the events for the next flush
+      console.error("[useProctoring] Error reporting events:", err);
+      queueRef.current = [...events, ...queueRef.current];
+    }
+  }, [attemptId]);
+
+  const record = useCallback(
+    (type: IntegrityEventType) => {
+      console.log("[useProctoring] Event:", type);
+      queueRef.current.push({ type, clientAt: Date.now() });
+      if (type !== "visibility_visible") {
+        setWarning(`${INTEGRITY_EVENT_LABELS[type]} was recorded as a violation.`);
+      }
+      if (!flushTimerRef.current) {
+        flushTimerRef.current = setTimeout(flush, FLUSH_DELAY_MS);
+      }
+    },
+    [flush]
+  );
+
+  useEffect(() => {
+    if (!enabled) return;
+    limitReachedRef.current = false;
+    let blurTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden") {
+        if (blurTimer) {
+          clearTimeout(blurTimer);
+          blurTimer = null;
+        }
+        record("visibility_hidden");
+      } else {
+        record("visibility_visible");
+      }
+    };
+    const handleBlur = () => {
+      blurTimer = setTimeout(() => {
+        blurTimer = null;
+        if (document.visibilityState === "visible") record("window_blur");
+      }, BLUR_SETTLE_MS);
+    };
+    const handleFullscreenChange = () => {
+      const active = !!document.fullscreenElement;
+      setIsFullscreen(active);
+      if (!active) record("fullscreen_exit");
+    };
+    const blockAndRecord = (type: IntegrityEventType) => (event: Event) => {
+      event.preventDefault();
+      record(type);
+    };
+    const handleCopy = blockAndRecord("copy");
+    const handleCut = blockAndRecord("cut");
+    const handlePaste = blockAndRecord("paste");
+    const handleContextMenu = blockAndRecord("context_menu");
+
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    window.addEventListener("blur", handleBlur);
+    document.addEventListener("fullscreenchange", handleFullscreenChange);
+    document.addEventListener("copy", handleCopy);
+    document.addEventListener("cut", handleCut);
+    document.addEventListener("paste", handlePaste);
+    document.addEventListener("contextmenu", handleContextMenu);
+
+    return () => {
+      if (blurTimer) clearTimeout(blurTimer);
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      window.removeEventListener("blur", handleBlur);
+      document.removeEventListener("fullscreenchange", handleFullscreenChange);
+      document.removeEventListener("copy", handleCopy);
+      document.removeEventListener("cut", handleCut);
+      document.removeEventListener("paste", handlePaste);
+      document.removeEventListener("contextmenu", handleContextMenu);
+    };
+  }, [enabled, record]);
+
+  // Send whatever is queued when the attempt ends or the player unmounts
+  useEffect(() => {
+    if (enabled) return;
+    if (flushTimerRef.current) clearTimeout(flushTimerRef.current);
+    flush();
+  }, [enabled, flush]);
+
+  // Leave fullscreen once the attempt is over
+  useEffect(() => {
+    if (enabled || !requireFullscreen) return;
+    if (typeof document !== "undefined" && document.fullscreenElement) {
+      document.exitFullscreen?.().catch(() => undefined);
+    }
+  }, [enabled, requireFullscreen]);
+
+  return {
+    violationCount,
+    maxViolations,
+    isFullscreen,
+    warning,
+    dismissWarning: useCallback(() => setWarning(null), []),
+    enterFullscreen: requestPageFullscreen,
+  };
+}
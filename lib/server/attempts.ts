@@ -0,0 +1,685 @@
+// lib/server/attempts.ts
+import { FieldValue, Timestamp, type DocumentReference } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase/admin";
+import type {
+  AttemptDoc,
+  AttemptInput,
+  AttemptProgress,
+  AttemptStatus,
+  QuestionResponse,
+} from "@/lib/types/attempt";
+import type { TestDoc, TestQuestion } from "@/lib/types/test";
+import type { QuestionDoc } from "@/lib/types/question";
+import { scoreAttempt, type ComputedAttemptResult } from "@/lib/utils/scoring";
+import {
+  getAttemptDeadlineMs,
+  getAttemptExpiresAtMs,
+  getRankedTimeSeconds,
+  getStartBlockReason,
+} from "@/lib/utils/schedule";
+import { getSectionSchedule, hasSectionalTiming } from "@/lib/utils/sections";
+import { generateShuffleSeed } from "@/lib/utils/shuffle";
+import { getReattemptBlockReason, isAttemptRanked } from "@/lib/utils/attemptPolicy";
+import { hasReachedViolationLimit } from "@/lib/utils/integrity";
+import {
+  isAnswerImageUrl,
+  MAX_ANSWER_IMAGES,
+  MAX_ANSWER_TEXT_LENGTH,
+} from "@/lib/utils/subjective";
+import { ApiError } from "./errors";
+import {
+  getDisplayName,
+  getScoreStanding,
+  rebuildTestStats,
+  recordRankedResult,
+  TestStatsMissingError,
+} from "./testStats";
+
+const ATTEMPTS_COLLECTION = "attempts";
+const TESTS_COLLECTION = "tests";
+const QUESTIONS_COLLECTION = "questions";
+const ATTEMPT_LOCKS_COLLECTION = "attemptLocks";
+const TEST_SERIES_COLLECTION = "testSeries";
+const ENROLLMENTS_COLLECTION = "enrollments";
+
+// Extra time after the deadline for an auto-submit (or a last progress sync) to reach the server
+const SUBMISSION_GRACE_SECONDS = 60;
+
+// Visits kept per question - a student flicking between questions should not bloat the document
+const MAX_RECORDED_VISITS = 200;
+
+// Answer photos must be uploaded to storage - inline (data:) images would overflow the attempt document
+const MAX_ANSWER_IMAGE_URL_LENGTH = 2048;
+
+// Attempts re-scored at once after an answer-key change (one transaction each)
+const RESCORE_CONCURRENCY = 20;
+
+// Bucket answer photos are uploaded to (the client's bucket)
+const STORAGE_BUCKET = process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET ?? "";
+
+/**
+ * Attempt whose answer folder uploaded photos must come from
+ */
+export interface AnswerOwner {
+  userId: string;
+  attemptId: string;
+}
+
+export interface StartAttemptOutcome {
+  attemptId: string;
+  resumed: boolean;          // an unfinished attempt already existed
+}
+
+export interface SubmitAttemptOutcome {
+  status: AttemptStatus;
+  result: ComputedAttemptResult;
+}
+
+export interface SyncProgressOutcome {
+  applied: boolean;          // false when a newer snapshot had already been synced
+  serverTime: number;        // lets the player correct its clock (ms since epoch)
+}
+
+export interface AttemptRank {
+  rank: number;              // 1 + number of ranked students with a higher score
+  percentile: number;        // % of ranked students scoring the same or lower
+  totalParticipants: number; // ranked students of the test
+  isRanked: boolean;         // false for practice re-attempts (rank is where it would place)
+}
+
+/**
+ * Normalise one untrusted response, or null if it is not a response at all
+ * @param value - Response value from a request body
+ * @param answerOwner - Attempt the response belongs to (answer photos are dropped without one)
+ */
+export function sanitizeResponse(
+  value: unknown,
+  answerOwner?: AnswerOwner
+): QuestionResponse | null {
+  if (!value || typeof value !== "object") return null;
+  const response = value as Partial<QuestionResponse>;
+
+  const selectedOptions = Array.isArray(response.selectedOptions)
+    ? Array.from(
+        new Set(
+          response.selectedOptions.filter(
+            (index): index is number => Number.isInteger(index) && index >= 0
+          )
+        )
+      ).sort((a, b) => a - b)
+    : [];
+  const numericalAnswer =
+    typeof response.numericalAnswer === "string"
+      ? response.numericalAnswer.slice(0, 100)
+      : null;
+  const timeSpentSeconds =
+    typeof response.timeSpentSeconds === "number" && response.timeSpentSeconds > 0
+      ? Math.round(response.timeSpentSeconds)
+      : 0;
+
+  const visitSeconds = Array.isArray(response.visitSeconds)
+    ? response.visitSeconds
+        .filter((seconds): seconds is number => typeof seconds === "number" && seconds > 0)
+        .slice(0, MAX_RECORDED_VISITS)
+        .map((seconds) => Math.round(seconds))
+    : [];
+
+  const answerText =
+    typeof response.answerText === "string" && response.answerText.trim() !== ""
+      ? response.answerText.slice(0, MAX_ANSWER_TEXT_LENGTH)
+      : null;
+  // Only photos uploaded to this attempt's answer folder - graders open these URLs
+  const answerImageUrls =
+    answerOwner && STORAGE_BUCKET && Array.isArray(response.answerImageUrls)
+      ? response.answerImageUrls
+          .filter(
+            (url): url is string =>
+              typeof url === "string" &&
+              url.length <= MAX_ANSWER_IMAGE_URL_LENGTH &&
+              isAnswerImageUrl(url, STORAGE_BUCKET, answerOwner.userId, answerOwner.attemptId)
+          )
+          .slice(0, MAX_ANSWER_IMAGES)
+      : [];
+
+  return {
+    selectedOptions,
+    numericalAnswer,
+    timeSpentSeconds,
+    visitSeconds,
+    ...(answerText !== null && { answerText }),
+    ...(answerImageUrls.length > 0 && { answerImageUrls }),
+  };
+}
+
+/**
+ * Keep only well-formed responses for questions that belong to the test
+ * @param raw - Untrusted responses from the request body
+ * @param testQuestions - Questions of the test being submitted
+ * @param answerOwner - Attempt the responses belong to
+ */
+export function sanitizeResponses(
+  raw: unknown,
+  testQuestions: TestQuestion[],
+  answerOwner: AnswerOwner
+): Record<string, QuestionResponse> {
+  const sanitized: Record<string, QuestionResponse> = {};
+  if (!raw || typeof raw !== "object") return sanitized;
+
+  const allowedIds = new Set(testQuestions.map((tq) => tq.questionId));
+  for (const [questionId, value] of Object.entries(raw as Record<string, unknown>)) {
+    if (!allowedIds.has(questionId)) continue;
+    const response = sanitizeResponse(value, answerOwner);
+    if (response) sanitized[questionId] = response;
+  }
+
+  return sanitized;
+}
+
+/**
+ * With timed sections, answers can only change while their section is open (its window,
+ * counted from the server-side start, plus the grace period). Questions of other sections
+ * keep the responses the server already had.
+ * @param test - Test being attempted
+ * @param startedAtMs - Server-side start of the attempt
+ * @param nowMs - Server time of the request
+ * @param savedResponses - Responses already stored on the attempt
+ * @param sentResponses - Sanitized responses sent by the player
+ */
+function keepClosedSectionResponses(
+  test: TestDoc,
+  startedAtMs: number,
+  nowMs: number,
+  savedResponses: Record<string, QuestionResponse>,
+  sentResponses: Record<string, QuestionResponse>
+): Record<string, QuestionResponse> {
+  if (!test.sections || !hasSectionalTiming(test.sections)) return sentResponses;
+
+  const graceMs = SUBMISSION_GRACE_SECONDS * 1000;
+  const closedSectionIds = new Set(
+    getSectionSchedule(test.sections, startedAtMs)
+      .filter((window) => nowMs < window.startsAtMs || nowMs > window.endsAtMs + graceMs)
+      .map((window) => window.sectionId)
+  );
+
+  const responses: Record<string, QuestionResponse> = {};
+  test.questions.forEach((tq) => {
+    const source =
+      tq.sectionId && closedSectionIds.has(tq.sectionId) ? savedResponses : sentResponses;
+    if (source[tq.questionId]) responses[tq.questionId] = source[tq.questionId];
+  });
+  return responses;
+}
+
+/**
+ * Load a test document with admin privileges
+ * @throws {ApiError} 404 if the test does not exist
+ */
+export async function loadTest(testId: string): Promise<TestDoc> {
+  const snap = await adminDb.collection(TESTS_COLLECTION).doc(testId).get();
+  if (!snap.exists) {
+    throw new ApiError(404, "Test not found");
+  }
+  return snap.data() as TestDoc;
+}
+
+/**
+ * Load every question referenced by a test, keyed by questionId
+ */
+export async function loadTestQuestions(
+  testQuestions: TestQuestion[]
+): Promise<Map<string, QuestionDoc>> {
+  const questions = new Map<string, QuestionDoc>();
+  if (testQuestions.length === 0) return questions;
+
+  const refs = testQuestions.map((tq) =>
+    adminDb.collection(QUESTIONS_COLLECTION).doc(tq.questionId)
+  );
+  const snaps = await adminDb.getAll(...refs);
+  snaps.forEach((snap) => {
+    if (snap.exists) {
+      questions.set(snap.id, snap.data() as QuestionDoc);
+    }
+  });
+
+  return questions;
+}
+
+/**
+ * Check that the student may take the test: the series must contain it and the student must
+ * be enrolled in it. Without a series, any enrolled series containing the test will do.
+ * @throws {ApiError} 403 if the student is not enrolled in a series with the test
+ */
+export async function assertEnrolledForTest(
+  userId: string,
+  testId: string,
+  testSeriesId: string | null
+): Promise<void> {
+  let enrollments = adminDb.collection(ENROLLMENTS_COLLECTION).where("userId", "==", userId);
+  if (testSeriesId) {
+    enrollments = enrollments.where("testSeriesId", "==", testSeriesId);
+  }
+  const enrollmentSnap = await enrollments.get();
+  const seriesIds = Array.from(
+    new Set(enrollmentSnap.docs.map((docSnap) => docSnap.get("testSeriesId") as string))
+  );
+
+  const seriesSnaps =
+    seriesIds.length > 0
+      ? await adminDb.getAll(
+          ...seriesIds.map((id) => adminDb.collection(TEST_SERIES_COLLECTION).doc(id))
+        )
+      : [];
+  const containsTest = seriesSnaps.some(
+    (snap) => snap.exists && ((snap.get("testIds") as string[] | undefined) ?? []).includes(testId)
+  );
+
+  if (!containsTest) {
+    throw new ApiError(
+      403,
+      testSeriesId
+        ? "This test is not part of a test series you are enrolled in."
+        : "Enroll in a test series with this test to attempt it."
+    );
+  }
+}
+
+/**
+ * Start an attempt of a test, enforcing enrollment, the test's availability window and attempt policy
+ * @param input - Test (and series) being attempted
+ * @param userId - UID of the student starting the attempt
+ * @throws {ApiError} If the test is missing, the student is not enrolled, or it is not open
+ */
+export async function startAttempt(
+  input: AttemptInput,
+  userId: string
+): Promise<StartAttemptOutcome> {
+  console.log("[Server Attempts] startAttempt called:", { input, userId });
+
+  const test = await loadTest(input.testId);
+  await assertEnrolledForTest(userId, input.testId, input.testSeriesId ?? null);
+  const attemptsRef = adminDb.collection(ATTEMPTS_COLLECTION);
+
+  // Starts of one student's test are serialised on a lock document, so a double-click or a
+  // second tab cannot pass the checks twice and create two attempts
+  const lockRef = adminDb.collection(ATTEMPT_LOCKS_COLLECTION).doc(`${userId}_${input.testId}`);
+
+  const outcome = await adminDb.runTransaction(async (transaction) => {
+    await transaction.get(lockRef);
+    const existing = await transaction.get(
+      attemptsRef.where("userId", "==", userId).where("testId", "==", input.testId)
+    );
+
+    // An unfinished attempt is resumed rather than duplicated
+    const inProgress = existing.docs.find((docSnap) => docSnap.get("status") === "in_progress");
+    if (inProgress) {
+      return { attemptId: inProgress.id, resumed: true, attemptNumber: null };
+    }
+
+    const nowMs = Date.now();
+    const finished = existing.docs.filter((docSnap) => docSnap.get("status") !== "in_progress");
+    const lastFinishedAtMs = finished.reduce<number | null>((latest, docSnap) => {
+      const submittedAt = docSnap.get("submittedAt") as Timestamp | null;
+      const ms = submittedAt?.toMillis() ?? null;
+      return ms !== null && (latest === null || ms > latest) ? ms : latest;
+    }, null);
+
+    const blockReason =
+      getStartBlockReason(test, nowMs) ??
+      getReattemptBlockReason(test, finished.length, lastFinishedAtMs, nowMs);
+    if (blockReason) {
+      throw new ApiError(403, blockReason);
+    }
+
+    const attemptNumber = finished.length + 1;
+
+    const docData: Omit<AttemptDoc, "startedAt" | "expiresAt" | "updatedAt"> & {
+      startedAt: Timestamp;
+      expiresAt: Timestamp;
+      updatedAt: FieldValue;
+    } = {
+      userId,
+      testId: input.testId,
+      testSeriesId: input.testSeriesId ?? null,
+      status: "in_progress",
+      responses: {},
+      result: null,
+      attemptNumber,
+      isRanked: isAttemptRanked(test, attemptNumber),
+      shuffleSeed: generateShuffleSeed(),
+      visited: [],
+      markedForReview: [],
+      currentQuestionId: null,
+      remainingSeconds: null,
+      startedAt: Timestamp.fromMillis(nowMs),
+      expiresAt: Timestamp.fromMillis(getAttemptExpiresAtMs(test, nowMs)),
+      submittedAt: null,
+      updatedAt: FieldValue.serverTimestamp(),
+    };
+
+    const docRef = attemptsRef.doc();
+    transaction.create(docRef, docData);
+    transaction.set(lockRef, { userId, testId: input.testId, updatedAt: FieldValue.serverTimestamp() });
+    return { attemptId: docRef.id, resumed: false, attemptNumber };
+  });
+
+  if (!outcome.resumed) {
+    console.log("[Server Attempts] Attempt started:", {
+      attemptId: outcome.attemptId,
+      attemptNumber: outcome.attemptNumber,
+    });
+  }
+  return { attemptId: outcome.attemptId, resumed: outcome.resumed };
+}
+
+/**
+ * Submit and score an attempt on behalf of its owner. Answers in timed sections that
+ * have already closed keep their saved values.
+ * @param attemptId - Attempt document id
+ * @param userId - UID of the caller (must own the attempt)
+ * @param rawResponses - Final responses sent by the player
+ * @param rawCapturedAt - When the player captured them, if they were queued offline
+ * @throws {ApiError} If the attempt is missing, not owned by the caller or already submitted
+ */
+export async function submitAttempt(
+  attemptId: string,
+  userId: string,
+  rawResponses: unknown,
+  rawCapturedAt?: unknown
+): Promise<SubmitAttemptOutcome> {
+  console.log("[Server Attempts] submitAttempt called:", { attemptId, userId });
+
+  const attemptRef = adminDb.collection(ATTEMPTS_COLLECTION).doc(attemptId);
+
+  const submitInTransaction = () => adminDb.runTransaction(async (transaction) => {
+    const attemptSnap = await transaction.get(attemptRef);
+    if (!attemptSnap.exists) {
+      throw new ApiError(404, "Attempt not found");
+    }
+
+    const attempt = attemptSnap.data() as AttemptDoc;
+    if (attempt.userId !== userId) {
+      throw new ApiError(403, "You can only submit your own attempts");
+    }
+    if (attempt.status !== "in_progress") {
+      throw new ApiError(409, "This attempt has already been submitted");
+    }
+
+    const test = await loadTest(attempt.testId);
+    const questions = await loadTestQuestions(test.questions);
+
+    // The server-side start/expiry time is authoritative for the deadline
+    const nowMs = Date.now();
+    const deadlineMs = getAttemptDeadlineMs(attempt, test);
+    const isOverdue = nowMs > deadlineMs + SUBMISSION_GRACE_SECONDS * 1000;
+
+    // Late submissions only keep what was saved before the deadline. The client's capture
+    // time cannot be trusted, so a submission queued offline only counts as on time when
+    // its answers are the ones the server had already synced.
+    const answerOwner = { userId, attemptId };
+    const savedResponses = sanitizeResponses(attempt.responses, test.questions, answerOwner);
+    const sentResponses = sanitizeResponses(rawResponses, test.questions, answerOwner);
+    const submittedOffline =
+      isOverdue &&
+      rawCapturedAt !== undefined &&
+      haveSameAnswers(savedResponses, sentResponses);
+    const isLate = isOverdue && !submittedOffline;
+
+    const status: AttemptStatus = isLate ? "expired" : "submitted";
+    const responses = isOverdue
+      ? savedResponses
+      : keepClosedSectionResponses(
+          test,
+          attempt.startedAt.toMillis(),
+          nowMs,
+          savedResponses,
+          sentResponses
+        );
+
+    const result = scoreAttempt(test.questions, questions, responses, test.sections);
+
+    // Older attempts have no isRanked flag - they were all ranked
+    if (attempt.isRanked !== false) {
+      await recordRankedResult(transaction, {
+        testId: attempt.testId,
+        userId,
+        attemptId,
+        displayName: await getDisplayName(userId),
+        result,
+        timeTakenSeconds: getRankedTimeSeconds(attempt.startedAt.toMillis(), Date.now(), deadlineMs),
+      });
+    }
+
+    transaction.update(attemptRef, {
+      status,
+      responses,
+      result: { ...result, scoredAt: FieldValue.serverTimestamp() },
+      submittedAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+      ...(hasReachedViolationLimit(test, attempt.violationCount ?? 0) && {
+        autoSubmittedForViolations: true,
+      }),
+      ...(submittedOffline && { submittedOffline: true }),
+    });
+
+    console.log("[Server Attempts] Attempt scored:", {
+      attemptId,
+      status,
+      totalScore: result.totalScore,
+      maxScore: result.maxScore,
+    });
+
+    return { status, result };
+  });
+
+  try {
+    return await submitInTransaction();
+  } catch (error) {
+    if (!(error instanceof TestStatsMissingError)) throw error;
+    // First ranked submission since stats existed - build them from the earlier attempts
+    // (this one is still in progress, so it is not counted twice) and score it again
+    await rebuildTestStats(error.testId);
+    return submitInTransaction();
+  }
+}
+
+/**
+ * Whether two sets of responses give the same answers (time spent is ignored)
+ */
+function haveSameAnswers(
+  a: Record<string, QuestionResponse>,
+  b: Record<string, QuestionResponse>
+): boolean {
+  const answerKey = (response: QuestionResponse | undefined) =>
+    JSON.stringify([
+      response?.selectedOptions ?? [],
+      response?.numericalAnswer ?? null,
+      response?.answerText ?? null,
+      response?.answerImageUrls ?? [],
+    ]);
+  const questionIds = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return Array.from(questionIds).every(
+    (questionId) => answerKey(a[questionId]) === answerKey(b[questionId])
+  );
+}
+
+/**
+ * Read the capture time sent by the player (defaults to now, never in the future).
+ * Only used to order snapshots - it is not trusted for the deadline.
+ */
+function parseCapturedAt(raw: unknown, startedAtMs: number, nowMs: number): number {
+  if (typeof raw !== "number" || !Number.isFinite(raw)) return nowMs;
+  return Math.min(Math.max(Math.round(raw), startedAtMs), nowMs);
+}
+
+/**
+ * Save a snapshot of the player state, possibly queued on the device while offline.
+ * Stale snapshots are ignored, and snapshots reaching the server after the deadline
+ * (plus the grace period) are rejected, whenever the player claims to have captured them.
+ * With timed sections, only answers in the section open right now can change.
+ * @param attemptId - Attempt document id
+ * @param userId - UID of the caller (must own the attempt)
+ * @param rawProgress - Player state sent by the player
+ * @param rawCapturedAt - When the player captured it (ms since epoch, server-corrected)
+ * @throws {ApiError} If the attempt is missing, not the caller's, finished or past the deadline
+ */
+export async function syncAttemptProgress(
+  attemptId: string,
+  userId: string,
+  rawProgress: unknown,
+  rawCapturedAt: unknown
+): Promise<SyncProgressOutcome> {
+  console.log("[Server Attempts] syncAttemptProgress called:", { attemptId, userId });
+
+  if (!rawProgress || typeof rawProgress !== "object") {
+    throw new ApiError(400, "Progress is required");
+  }
+  const progress = rawProgress as Partial<AttemptProgress>;
+  const attemptRef = adminDb.collection(ATTEMPTS_COLLECTION).doc(attemptId);
+
+  return adminDb.runTransaction(async (transaction) => {
+    const attemptSnap = await transaction.get(attemptRef);
+    if (!attemptSnap.exists) {
+      throw new ApiError(404, "Attempt not found");
+    }
+
+    const attempt = attemptSnap.data() as AttemptDoc;
+    if (attempt.userId !== userId) {
+      throw new ApiError(403, "You can only save your own attempts");
+    }
+    if (attempt.status !== "in_progress") {
+      throw new ApiError(409, "This attempt has already been submitted");
+    }
+
+    const test = await loadTest(attempt.testId);
+    const nowMs = Date.now();
+    const startedAtMs = attempt.startedAt.toMillis();
+    const deadlineMs = getAttemptDeadlineMs(attempt, test);
+    const capturedAtMs = parseCapturedAt(rawCapturedAt, startedAtMs, nowMs);
+
+    if (nowMs > deadlineMs + SUBMISSION_GRACE_SECONDS * 1000) {
+      throw new ApiError(409, "The time limit has passed - this progress can no longer be saved");
+    }
+    if ((attempt.progressCapturedAt?.toMillis() ?? 0) >= capturedAtMs) {
+      return { applied: false, serverTime: nowMs };
+    }
+
+    const questionIds = new Set(test.questions.map((tq) => tq.questionId));
+    const keepTestQuestions = (ids: unknown) =>
+      Array.isArray(ids)
+        ? ids.filter((id): id is string => typeof id === "string" && questionIds.has(id))
+        : [];
+
+    const answerOwner = { userId, attemptId };
+    const responses = keepClosedSectionResponses(
+      test,
+      startedAtMs,
+      nowMs,
+      sanitizeResponses(attempt.responses, test.questions, answerOwner),
+      sanitizeResponses(progress.responses, test.questions, answerOwner)
+    );
+
+    transaction.update(attemptRef, {
+      responses,
+      visited: keepTestQuestions(progress.visited),
+      markedForReview: keepTestQuestions(progress.markedForReview),
+      currentQuestionId:
+        typeof progress.currentQuestionId === "string" && questionIds.has(progress.currentQuestionId)
+          ? progress.currentQuestionId
+          : null,
+      remainingSeconds: Math.max(0, Math.round((deadlineMs - capturedAtMs) / 1000)),
+      progressCapturedAt: Timestamp.fromMillis(capturedAtMs),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+
+    console.log("[Server Attempts] Progress synced:", {
+      attemptId,
+      capturedLagSeconds: Math.round((nowMs - capturedAtMs) / 1000),
+    });
+    return { applied: true, serverTime: nowMs };
+  });
+}
+
+/**
+ * Rank a scored attempt among the ranked students of its test (from the test's stats)
+ * @param attemptId - Attempt document id
+ * @param userId - UID of the caller (must own the attempt)
+ * @throws {ApiError} If the attempt is missing, not owned by the caller or not scored yet
+ */
+export async function getAttemptRank(
+  attemptId: string,
+  userId: string
+): Promise<AttemptRank> {
+  console.log("[Server Attempts] getAttemptRank called:", { attemptId, userId });
+
+  const attemptSnap = await adminDb.collection(ATTEMPTS_COLLECTION).doc(attemptId).get();
+  if (!attemptSnap.exists) {
+    throw new ApiError(404, "Attempt not found");
+  }
+
+  const attempt = attemptSnap.data() as AttemptDoc;
+  if (attempt.userId !== userId) {
+    throw new ApiError(403, "You can only view your own attempts");
+  }
+  if (!attempt.result) {
+    throw new ApiError(409, "This attempt has not been scored yet");
+  }
+
+  const standing = await getScoreStanding(attempt.testId, attempt.result.totalScore);
+
+  // Older attempts have no isRanked flag - they were all ranked
+  return {
+    rank: standing.rank,
+    percentile: standing.percentile,
+    totalParticipants: standing.participantCount,
+    isRanked: attempt.isRanked !== false,
+  };
+}
+
+/**
+ * Re-score every finished attempt of a test with its current questions and marking,
+ * then rebuild the test's rank stats. Used after an answer-key change.
+ * @param testId - Test document id
+ * @returns Number of attempts re-scored
+ */
+export async function rescoreTestAttempts(testId: string): Promise<number> {
+  console.log("[Server Attempts] rescoreTestAttempts called:", { testId });
+
+  const test = await loadTest(testId);
+  const questions = await loadTestQuestions(test.questions);
+  const snapshot = await adminDb
+    .collection(ATTEMPTS_COLLECTION)
+    .where("testId", "==", testId)
+    .where("status", "in", ["submitted", "expired"])
+    .get();
+
+  // Each attempt is re-read and re-scored in its own transaction, so a grade saved while
+  // the test is being re-scored is kept rather than overwritten with the old result
+  const rescoreAttempt = (attemptRef: DocumentReference) =>
+    adminDb.runTransaction(async (transaction) => {
+      const attemptSnap = await transaction.get(attemptRef);
+      const attempt = attemptSnap.data() as AttemptDoc | undefined;
+      if (!attempt || attempt.status === "in_progress") return;
+
+      const result = scoreAttempt(
+        test.questions,
+        questions,
+        attempt.responses,
+        test.sections,
+        attempt.grades
+      );
+      transaction.update(attemptRef, {
+        result: { ...result, scoredAt: FieldValue.serverTimestamp() },
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+    });
+
+  for (let i = 0; i < snapshot.docs.length; i += RESCORE_CONCURRENCY) {
+    await Promise.all(
+      snapshot.docs.slice(i, i + RESCORE_CONCURRENCY).map((docSnap) => rescoreAttempt(docSnap.ref))
+    );
+  }
+
+  await rebuildTestStats(testId);
+  console.log("[Server Attempts] Test re-scored:", { testId, attemptCount: snapshot.size });
+  return snapshot.size;
+}
@@ -0,0 +1,39 @@
+// lib/server/auth.ts
+import type { DecodedIdToken } from "firebase-admin/auth";
+import { adminAuth, adminDb } from "@/lib/firebase/admin";
+import { ApiError } from "./errors";
+
+/**
+ * Verify the Firebase ID token sent as "Authorization: Bearer <token>"
+ * @returns The decoded token of the calling user
+ * @throws {ApiError} 401 if the token is missing or invalid
+ */
+export async function verifyRequestUser(request: Request): Promise<DecodedIdToken> {
+  const header = request.headers.get("authorization") || "";
+  const match = header.match(/^Bearer\s+(.+)$/i);
+
+  if (!match) {
+    throw new ApiError(401, "Missing authorization token");
+  }
+
+  try {
+    return await adminAuth.verifyIdToken(match[1]);
+  } catch (error) {
+    console.warn("[Server Auth] Invalid ID token:", error);
+    throw new ApiError(401, "Invalid or expired authorization token");
+  }
+}
+
+/**
+ * Verify the caller's ID token and require the admin role
+ * @returns The decoded token of the calling admin
+ * @throws {ApiError} 401 if the token is invalid, 403 if the caller is not an admin
+ */
+export async function verifyRequestAdmin(request: Request): Promise<DecodedIdToken> {
+  const user = await verifyRequestUser(request);
+  const profile = await adminDb.collection("users").doc(user.uid).get();
+  if (profile.get("role") !== "admin") {
+    throw new ApiError(403, "Only admins can perform this action");
+  }
+  return user;
+}
@@ -0,0 +1,244 @@
+// lib/server/challenges.ts
+import { FieldValue } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase/admin";
+import type { AttemptDoc } from "@/lib/types/attempt";
+import type {
+  ChallengeDecision,
+  ChallengeDoc,
+  ChallengeInput,
+  ChallengeResolution,
+} from "@/lib/types/challenge";
+import type { QuestionDoc } from "@/lib/types/question";
+import type { TestQuestion } from "@/lib/types/test";
+import { ApiError } from "./errors";
+import { loadTest, rescoreTestAttempts } from "./attempts";
+
+const CHALLENGES_COLLECTION = "challenges";
+const ATTEMPTS_COLLECTION = "attempts";
+const QUESTIONS_COLLECTION = "questions";
+const TESTS_COLLECTION = "tests";
+
+const MIN_REASON_LENGTH = 10;
+const MAX_REASON_LENGTH = 2000;
+const MAX_NOTE_LENGTH = 2000;
+
+const RESOLUTIONS: ChallengeResolution[] = ["change_key", "bonus", "drop"];
+
+export interface ChallengeDecisionOutcome {
+  resolvedCount: number;      // pending challenges closed by the decision
+  rescoredTestIds: string[];  // tests whose attempts were re-scored and re-ranked
+}
+
+/**
+ * Raise a challenge to the answer key of a question from a scored attempt
+ * @param attemptId - Attempt the student is reviewing
+ * @param userId - UID of the caller (must own the attempt)
+ * @param input - Question and reason
+ * @throws {ApiError} If the attempt is not the caller's, not scored, or already challenged
+ */
+export async function raiseChallenge(
+  attemptId: string,
+  userId: string,
+  input: ChallengeInput
+): Promise<string> {
+  console.log("[Server Challenges] raiseChallenge called:", { attemptId, userId });
+
+  const reason = typeof input?.reason === "string" ? input.reason.trim() : "";
+  if (reason.length < MIN_REASON_LENGTH || reason.length > MAX_REASON_LENGTH) {
+    throw new ApiError(
+      400,
+      `Please explain the challenge in ${MIN_REASON_LENGTH} to ${MAX_REASON_LENGTH} characters`
+    );
+  }
+
+  const attemptSnap = await adminDb.collection(ATTEMPTS_COLLECTION).doc(attemptId).get();
+  if (!attemptSnap.exists) {
+    throw new ApiError(404, "Attempt not found");
+  }
+  const attempt = attemptSnap.data() as AttemptDoc;
+  if (attempt.userId !== userId) {
+    throw new ApiError(403, "You can only challenge questions from your own attempts");
+  }
+  if (!attempt.result) {
+    throw new ApiError(409, "Submit the test before challenging its answer key");
+  }
+
+  const test = await loadTest(attempt.testId);
+  if (!test.questions.some((tq) => tq.questionId === input.questionId)) {
+    throw new ApiError(400, "This question is not part of the test");
+  }
+
+  // One challenge per student per question of a test
+  const existing = await adminDb
+    .collection(CHALLENGES_COLLECTION)
+    .where("userId", "==", userId)
+    .where("testId", "==", attempt.testId)
+    .where("questionId", "==", input.questionId)
+    .limit(1)
+    .get();
+  if (!existing.empty) {
+    throw new ApiError(409, "You have already challenged this question");
+  }
+
+  const docData: Omit<ChallengeDoc, "createdAt"> & { createdAt: FieldValue } = {
+    userId,
+    testId: attempt.testId,
+    questionId: input.questionId,
+    attemptId,
+    reason,
+    status: "pending",
+    resolution: null,
+    adminNote: null,
+    createdAt: FieldValue.serverTimestamp(),
+    resolvedAt: null,
+    resolvedBy: null,
+  };
+
+  const docRef = await adminDb.collection(CHALLENGES_COLLECTION).add(docData);
+  console.log("[Server Challenges] Challenge raised:", { challengeId: docRef.id });
+  return docRef.id;
+}
+
+/**
+ * Validate a new answer key for an MCQ question
+ */
+function parseCorrectOptions(question: QuestionDoc, raw: unknown): number[] {
+  if (question.type !== "mcq_single" && question.type !== "mcq_multiple") {
+    throw new ApiError(400, "Only MCQ answer keys can be changed here - edit the question instead");
+  }
+
+  const optionCount = question.options?.length ?? 0;
+  const correctOptions = Array.isArray(raw)
+    ? Array.from(
+        new Set(
+          raw.filter(
+            (index): index is number =>
+              Number.isInteger(index) && index >= 0 && index < optionCount
+          )
+        )
+      ).sort((a, b) => a - b)
+    : [];
+
+  if (correctOptions.length === 0) {
+    throw new ApiError(400, "Select at least one correct option");
+  }
+  if (question.type === "mcq_single" && correctOptions.length !== 1) {
+    throw new ApiError(400, "A single-correct question needs exactly one correct option");
+  }
+  return correctOptions;
+}
+
+/**
+ * Tests that contain a question (a key change affects every one of them)
+ */
+async function findTestsWithQuestion(questionId: string): Promise<string[]> {
+  // Questions are stored as objects inside the test, so they cannot be queried directly
+  const snapshot = await adminDb.collection(TESTS_COLLECTION).get();
+  return snapshot.docs
+    .filter((docSnap) =>
+      ((docSnap.get("questions") as TestQuestion[] | undefined) ?? []).some(
+        (tq) => tq.questionId === questionId
+      )
+    )
+    .map((docSnap) => docSnap.id);
+}
+
+/**
+ * Decide all pending challenges of one question in a test.
+ * Accepting applies the resolution, then re-scores every affected attempt and re-ranks the tests.
+ * A key change also settles the question's pending challenges in the other tests it re-scores.
+ * @param testId - Test the challenges were raised in
+ * @param adminUid - UID of the deciding admin
+ * @param decision - Accept/reject, and how the question is corrected
+ */
+export async function decideChallenges(
+  testId: string,
+  adminUid: string,
+  decision: ChallengeDecision
+): Promise<ChallengeDecisionOutcome> {
+  console.log("[Server Challenges] decideChallenges called:", { testId, decision });
+
+  if (decision?.status !== "accepted" && decision?.status !== "rejected") {
+    throw new ApiError(400, "Decision must accept or reject the challenges");
+  }
+  if (decision.status === "accepted" && !RESOLUTIONS.includes(decision.resolution!)) {
+    throw new ApiError(400, "Choose how the question should be corrected");
+  }
+  const adminNote =
+    typeof decision.adminNote === "string" && decision.adminNote.trim() !== ""
+      ? decision.adminNote.trim().slice(0, MAX_NOTE_LENGTH)
+      : null;
+
+  const test = await loadTest(testId);
+  const testQuestion = test.questions.find((tq) => tq.questionId === decision.questionId);
+  if (!testQuestion) {
+    throw new ApiError(400, "This question is not part of the test");
+  }
+
+  let rescoredTestIds: string[] = [];
+  const resolution = decision.status === "accepted" ? decision.resolution : null;
+
+  // A key change corrects the question in every test, so it settles the question's
+  // challenges in all of them; other decisions only apply to this test
+  let pendingQuery = adminDb
+    .collection(CHALLENGES_COLLECTION)
+    .where("questionId", "==", decision.questionId)
+    .where("status", "==", "pending");
+  if (resolution !== "change_key") {
+    pendingQuery = pendingQuery.where("testId", "==", testId);
+  }
+  const pending = await pendingQuery.get();
+
+  if (resolution === "change_key") {
+    const questionRef = adminDb.collection(QUESTIONS_COLLECTION).doc(decision.questionId);
+    const questionSnap = await questionRef.get();
+    if (!questionSnap.exists) {
+      throw new ApiError(404, "Question not found");
+    }
+    const correctOptions = parseCorrectOptions(
+      questionSnap.data() as QuestionDoc,
+      decision.correctOptions
+    );
+    await questionRef.update({ correctOptions, updatedAt: FieldValue.serverTimestamp() });
+    rescoredTestIds = await findTestsWithQuestion(decision.questionId);
+  } else if (resolution === "bonus" || resolution === "drop") {
+    const questions = test.questions.map((tq) =>
+      tq.questionId === decision.questionId
+        ? { ...tq, resolution: resolution === "bonus" ? ("bonus" as const) : ("dropped" as const) }
+        : tq
+    );
+    await adminDb
+      .collection(TESTS_COLLECTION)
+      .doc(testId)
+      .update({ questions, updatedAt: FieldValue.serverTimestamp() });
+    rescoredTestIds = [testId];
+  }
+
+  for (const affectedTestId of rescoredTestIds) {
+    await rescoreTestAttempts(affectedTestId);
+  }
+
+  const update: Pick<ChallengeDoc, "status" | "resolution" | "adminNote" | "resolvedBy"> & {
+    resolvedAt: FieldValue;
+  } = {
+    status: decision.status,
+    resolution,
+    adminNote,
+    resolvedAt: FieldValue.serverTimestamp(),
+    resolvedBy: adminUid,
+  };
+  for (let i = 0; i < pending.docs.length; i += 450) {
+    const batch = adminDb.batch();
+    pending.docs.slice(i, i + 450).forEach((docSnap) => batch.update(docSnap.ref, update));
+    await batch.commit();
+  }
+
+  console.log("[Server Challenges] Challenges decided:", {
+    testId,
+    questionId: decision.questionId,
+    status: decision.status,
+    resolvedCount: pending.size,
+    rescoredTestIds,
+  });
+  return { resolvedCount: pending.size, rescoredTestIds };
+}
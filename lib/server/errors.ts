@@ -0,0 +1,32 @@
+// lib/server/errors.ts
+
+/**
+ * Error carrying the HTTP status a route handler should respond with
+ */
+export class ApiError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+  }
+}
+
+/**
+ * Convert an error thrown inside a route handler into a JSON response
+ * @param error - The caught error
+ * @param context - Log prefix of the calling route, e.g. "[Submit API]"
+ */
+export function errorResponse(error: unknown, context: string): Response {
+  if (error instanceof ApiError) {
+    console.warn(`${context} Request rejected:`, error.status, error.message);
+    return Response.json({ error: error.message }, { status: error.status });
+  }
+
+  console.error(`${context} Unexpected error:`, error);
+  return Response.json(
+    { error: "An unexpected error occurred. Please try again." },
+    { status: 500 }
+  );
+}
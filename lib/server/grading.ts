@@ -0,0 +1,166 @@
+// lib/server/grading.ts
+import { FieldValue, Timestamp } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase/admin";
+import type { AttemptDoc, SubjectiveGrade, SubjectiveGradeInput } from "@/lib/types/attempt";
+import { hasResponse, scoreAttempt, type ComputedAttemptResult } from "@/lib/utils/scoring";
+import { getGradingCriteria } from "@/lib/utils/subjective";
+import { ApiError } from "./errors";
+import { loadTest, loadTestQuestions } from "./attempts";
+import {
+  getDisplayName,
+  rebuildTestStats,
+  recordRescoredResult,
+  TestStatsMissingError,
+} from "./testStats";
+
+const ATTEMPTS_COLLECTION = "attempts";
+
+const MAX_COMMENT_LENGTH = 2000;
+
+export interface GradeOutcome {
+  result: ComputedAttemptResult;
+  pendingGradingCount: number; // subjective answers of the attempt still to be graded
+}
+
+/**
+ * Validate the marks given per rubric criterion
+ * @param raw - Untrusted marks from the request body
+ * @param maxMarks - Marks available for each criterion
+ */
+function parseCriterionMarks(raw: unknown, maxMarks: number[]): number[] {
+  if (!Array.isArray(raw) || raw.length !== maxMarks.length) {
+    throw new ApiError(400, "Give marks for every rubric criterion");
+  }
+
+  return raw.map((value, index) => {
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      throw new ApiError(400, `Marks for criterion ${index + 1} must be a number`);
+    }
+    if (value < 0 || value > maxMarks[index]) {
+      throw new ApiError(400, `Marks for criterion ${index + 1} must be between 0 and ${maxMarks[index]}`);
+    }
+    return Math.round(value * 100) / 100;
+  });
+}
+
+/**
+ * Grade one subjective answer of a scored attempt, then re-score the attempt and,
+ * for ranked attempts, move the student's standing in the test's rank stats.
+ * Re-grading replaces the earlier grade.
+ * @param attemptId - Attempt document id
+ * @param adminUid - UID of the grading admin
+ * @param input - Question, marks per rubric criterion and feedback
+ * @throws {ApiError} If the attempt is not scored or the question has no subjective answer
+ */
+export async function gradeSubjectiveAnswer(
+  attemptId: string,
+  adminUid: string,
+  input: SubjectiveGradeInput
+): Promise<GradeOutcome> {
+  console.log("[Server Grading] gradeSubjectiveAnswer called:", {
+    attemptId,
+    questionId: input?.questionId,
+  });
+
+  const attemptRef = adminDb.collection(ATTEMPTS_COLLECTION).doc(attemptId);
+
+  // Read-modify-write in a transaction so graders marking other questions of the same
+  // attempt do not overwrite each other's grades and totals
+  const graded = await adminDb.runTransaction(async (transaction) => {
+    const attemptSnap = await transaction.get(attemptRef);
+    if (!attemptSnap.exists) {
+      throw new ApiError(404, "Attempt not found");
+    }
+    const attempt = attemptSnap.data() as AttemptDoc;
+    if (attempt.status === "in_progress" || !attempt.result) {
+      throw new ApiError(409, "Answers can only be graded once the attempt is submitted");
+    }
+
+    const test = await loadTest(attempt.testId);
+    const testQuestion = test.questions.find((tq) => tq.questionId === input?.questionId);
+    if (!testQuestion) {
+      throw new ApiError(400, "This question is not part of the test");
+    }
+
+    const questions = await loadTestQuestions(test.questions);
+    const question = questions.get(testQuestion.questionId);
+    if (!question) {
+      throw new ApiError(404, "Question not found");
+    }
+    if (question.type !== "subjective") {
+      throw new ApiError(400, "Only subjective answers are graded by hand");
+    }
+    if (!hasResponse(question, attempt.responses[testQuestion.questionId])) {
+      throw new ApiError(400, "The student did not answer this question");
+    }
+
+    const criteria = getGradingCriteria(question, testQuestion.marks);
+    const grade: Omit<SubjectiveGrade, "gradedAt"> & { gradedAt: Timestamp } = {
+      criterionMarks: parseCriterionMarks(
+        input.criterionMarks,
+        criteria.map((criterion) => criterion.marks)
+      ),
+      comment:
+        typeof input.comment === "string" && input.comment.trim() !== ""
+          ? input.comment.trim().slice(0, MAX_COMMENT_LENGTH)
+          : null,
+      gradedBy: adminUid,
+      gradedAt: Timestamp.now(),
+    };
+
+    const grades = { ...(attempt.grades ?? {}), [testQuestion.questionId]: grade };
+    const rescored = scoreAttempt(
+      test.questions,
+      questions,
+      attempt.responses,
+      test.sections,
+      grades
+    );
+
+    // Only this student's standing moves. Older attempts have no isRanked flag - all ranked.
+    let statsMissing = false;
+    if (attempt.isRanked !== false) {
+      try {
+        await recordRescoredResult(transaction, {
+          test,
+          testId: attempt.testId,
+          userId: attempt.userId,
+          attemptId,
+          displayName: await getDisplayName(attempt.userId),
+          result: rescored,
+        });
+      } catch (error) {
+        if (!(error instanceof TestStatsMissingError)) throw error;
+        statsMissing = true;
+      }
+    }
+
+    transaction.update(attemptRef, {
+      grades,
+      result: { ...rescored, scoredAt: FieldValue.serverTimestamp() },
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+
+    return {
+      testId: attempt.testId,
+      questionId: testQuestion.questionId,
+      statsMissing,
+      result: rescored,
+    };
+  });
+
+  const { testId, questionId, statsMissing, result } = graded;
+
+  // A test without stats yet gets them built from the committed attempts, grade included
+  if (statsMissing) {
+    await rebuildTestStats(testId);
+  }
+
+  console.log("[Server Grading] Answer graded:", {
+    attemptId,
+    questionId,
+    totalScore: result.totalScore,
+    pendingGradingCount: result.pendingGradingCount,
+  });
+  return { result, pendingGradingCount: result.pendingGradingCount ?? 0 };
+}
@@ -0,0 +1,109 @@
+// lib/server/integrity.ts
+import { FieldValue, Timestamp } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase/admin";
+import type { AttemptDoc, IntegrityEventType } from "@/lib/types/attempt";
+import { hasReachedViolationLimit, INTEGRITY_EVENT_TYPES, isViolation } from "@/lib/utils/integrity";
+import { ApiError } from "./errors";
+import { loadTest } from "./attempts";
+
+const ATTEMPTS_COLLECTION = "attempts";
+
+// Events accepted per request - the player batches them, so a burst is still small
+const MAX_EVENTS_PER_REQUEST = 50;
+
+// Events kept on an attempt; later ones still count as violations but are not logged
+const MAX_RECORDED_EVENTS = 500;
+
+export interface IntegrityOutcome {
+  violationCount: number;
+  maxViolations: number | null;
+  limitReached: boolean;          // the player should auto-submit
+}
+
+/**
+ * Keep only well-formed events from the request body
+ */
+function sanitizeEvents(raw: unknown): { type: IntegrityEventType; clientAt: number }[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter(
+      (event): event is { type: IntegrityEventType; clientAt: number } =>
+        !!event &&
+        typeof event === "object" &&
+        INTEGRITY_EVENT_TYPES.includes(event.type) &&
+        typeof event.clientAt === "number" &&
+        Number.isFinite(event.clientAt)
+    )
+    .slice(0, MAX_EVENTS_PER_REQUEST)
+    .map((event) => ({ type: event.type, clientAt: Math.round(event.clientAt) }));
+}
+
+/**
+ * Append proctoring events to an in-progress attempt and count its violations
+ * @param attemptId - Attempt document id
+ * @param userId - UID of the caller (must own the attempt)
+ * @param rawEvents - Events reported by the player
+ * @throws {ApiError} If the attempt is missing, not the caller's, finished or not proctored
+ */
+export async function recordIntegrityEvents(
+  attemptId: string,
+  userId: string,
+  rawEvents: unknown
+): Promise<IntegrityOutcome> {
+  console.log("[Server Integrity] recordIntegrityEvents called:", { attemptId, userId });
+
+  const events = sanitizeEvents(rawEvents);
+  if (events.length === 0) {
+    throw new ApiError(400, "No valid events to record");
+  }
+
+  const attemptRef = adminDb.collection(ATTEMPTS_COLLECTION).doc(attemptId);
+
+  return adminDb.runTransaction(async (transaction) => {
+    const attemptSnap = await transaction.get(attemptRef);
+    if (!attemptSnap.exists) {
+      throw new ApiError(404, "Attempt not found");
+    }
+
+    const attempt = attemptSnap.data() as AttemptDoc;
+    if (attempt.userId !== userId) {
+      throw new ApiError(403, "You can only report events for your own attempts");
+    }
+    if (attempt.status !== "in_progress") {
+      throw new ApiError(409, "This attempt has already been submitted");
+    }
+
+    const test = await loadTest(attempt.testId);
+    if (!test.proctored) {
+      throw new ApiError(400, "This test is not proctored");
+    }
+
+    // serverTimestamp() cannot be used inside arrays, so every event gets the same server time
+    const recordedAt = Timestamp.now();
+    const existing = attempt.integrityEvents ?? [];
+    const integrityEvents = [
+      ...existing,
+      ...events.map((event) => ({ ...event, at: recordedAt })),
+    ].slice(0, MAX_RECORDED_EVENTS);
+
+    const violationCount =
+      (attempt.violationCount ?? 0) +
+      events.filter((event) => isViolation(test, event.type)).length;
+
+    transaction.update(attemptRef, {
+      integrityEvents,
+      violationCount,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+
+    const limitReached = hasReachedViolationLimit(test, violationCount);
+    console.log("[Server Integrity] Events recorded:", {
+      attemptId,
+      recorded: events.length,
+      violationCount,
+      limitReached,
+    });
+
+    return { violationCount, maxViolations: test.maxViolations ?? null, limitReached };
+  });
+}
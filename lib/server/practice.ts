@@ -0,0 +1,208 @@
+// lib/server/practice.ts
+import { FieldValue } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase/admin";
+import type { QuestionDoc, StudentQuestion } from "@/lib/types/question";
+import type {
+  PracticeAnswerDoc,
+  PracticeFeedback,
+  PracticeScope,
+  PracticeSessionDoc,
+} from "@/lib/types/practice";
+import { hasResponse, isResponseCorrect } from "@/lib/utils/scoring";
+import { ApiError } from "./errors";
+import { sanitizeResponse } from "./attempts";
+import { getQuestionSolution, toStudentQuestion } from "./questions";
+
+const PRACTICE_SESSIONS_COLLECTION = "practiceSessions";
+const ANSWERS_SUBCOLLECTION = "answers";
+const QUESTIONS_COLLECTION = "questions";
+
+const MAX_SCOPE_NAME_LENGTH = 100;
+
+/**
+ * Read an optional syllabus name from the request body
+ */
+function parseScopeName(raw: unknown): string | null {
+  if (typeof raw !== "string" || raw.trim() === "") return null;
+  return raw.trim().slice(0, MAX_SCOPE_NAME_LENGTH);
+}
+
+/**
+ * Whether a question belongs to the part of the syllabus being practised
+ */
+function isInScope(question: QuestionDoc, scope: PracticeScope): boolean {
+  return (
+    question.subject === scope.subject &&
+    (scope.chapter === null || question.chapter === scope.chapter) &&
+    (scope.topic === null || question.topic === scope.topic)
+  );
+}
+
+/**
+ * Start a practice session for a subject, chapter or topic
+ * @param userId - UID of the student
+ * @param rawScope - Subject (required), chapter and topic from the request body
+ * @returns Id of the new session
+ */
+export async function startPracticeSession(userId: string, rawScope: unknown): Promise<string> {
+  console.log("[Server Practice] startPracticeSession called:", { userId, rawScope });
+
+  const input = (rawScope ?? {}) as Partial<PracticeScope>;
+  const subject = parseScopeName(input.subject);
+  const chapter = parseScopeName(input.chapter);
+  const topic = chapter ? parseScopeName(input.topic) : null;
+  if (!subject) {
+    throw new ApiError(400, "Choose a subject to practise");
+  }
+
+  const docData: Omit<PracticeSessionDoc, "startedAt" | "updatedAt"> & {
+    startedAt: FieldValue;
+    updatedAt: FieldValue;
+  } = {
+    userId,
+    subject,
+    chapter,
+    topic,
+    answeredCount: 0,
+    correctCount: 0,
+    startedAt: FieldValue.serverTimestamp(),
+    updatedAt: FieldValue.serverTimestamp(),
+  };
+
+  const docRef = await adminDb.collection(PRACTICE_SESSIONS_COLLECTION).add(docData);
+  console.log("[Server Practice] Session started:", { sessionId: docRef.id });
+  return docRef.id;
+}
+
+/**
+ * Questions of a practice session the student has not answered yet, without their keys.
+ * Subjective questions need a grader, so they are left out.
+ * @param sessionId - Practice session document id
+ * @param userId - UID of the caller (must own the session)
+ * @throws {ApiError} If the session is missing or not the caller's
+ */
+export async function listPracticeQuestions(
+  sessionId: string,
+  userId: string
+): Promise<StudentQuestion[]> {
+  console.log("[Server Practice] listPracticeQuestions called:", { sessionId, userId });
+
+  const sessionRef = adminDb.collection(PRACTICE_SESSIONS_COLLECTION).doc(sessionId);
+  const sessionSnap = await sessionRef.get();
+  if (!sessionSnap.exists) {
+    throw new ApiError(404, "Practice session not found");
+  }
+  const session = sessionSnap.data() as PracticeSessionDoc;
+  if (session.userId !== userId) {
+    throw new ApiError(403, "You can only view your own practice sessions");
+  }
+
+  let questionsQuery = adminDb
+    .collection(QUESTIONS_COLLECTION)
+    .where("subject", "==", session.subject);
+  if (session.chapter !== null) {
+    questionsQuery = questionsQuery.where("chapter", "==", session.chapter);
+  }
+  if (session.topic !== null) {
+    questionsQuery = questionsQuery.where("topic", "==", session.topic);
+  }
+
+  const [questionsSnap, answersSnap] = await Promise.all([
+    questionsQuery.get(),
+    sessionRef.collection(ANSWERS_SUBCOLLECTION).get(),
+  ]);
+  const answeredIds = new Set(answersSnap.docs.map((docSnap) => docSnap.id));
+
+  return questionsSnap.docs
+    .filter((docSnap) => !answeredIds.has(docSnap.id) && docSnap.get("type") !== "subjective")
+    .map((docSnap) => toStudentQuestion(docSnap.id, docSnap.data() as QuestionDoc));
+}
+
+/**
+ * Check a practice answer, record it in the session and return instant feedback
+ * @param sessionId - Practice session document id
+ * @param userId - UID of the caller (must own the session)
+ * @param questionId - Question being answered
+ * @param rawResponse - The student's answer
+ * @throws {ApiError} If the session is not the caller's, the question is out of scope or already answered
+ */
+export async function answerPracticeQuestion(
+  sessionId: string,
+  userId: string,
+  questionId: unknown,
+  rawResponse: unknown
+): Promise<PracticeFeedback> {
+  console.log("[Server Practice] answerPracticeQuestion called:", { sessionId, userId, questionId });
+
+  if (typeof questionId !== "string" || questionId.trim() === "" || questionId.includes("/")) {
+    throw new ApiError(400, "questionId is required");
+  }
+
+  const sessionRef = adminDb.collection(PRACTICE_SESSIONS_COLLECTION).doc(sessionId);
+  const answerRef = sessionRef.collection(ANSWERS_SUBCOLLECTION).doc(questionId);
+  const questionRef = adminDb.collection(QUESTIONS_COLLECTION).doc(questionId);
+
+  return adminDb.runTransaction(async (transaction) => {
+    const [sessionSnap, answerSnap, questionSnap] = await Promise.all([
+      transaction.get(sessionRef),
+      transaction.get(answerRef),
+      transaction.get(questionRef),
+    ]);
+
+    if (!sessionSnap.exists) {
+      throw new ApiError(404, "Practice session not found");
+    }
+    const session = sessionSnap.data() as PracticeSessionDoc;
+    if (session.userId !== userId) {
+      throw new ApiError(403, "You can only answer in your own practice sessions");
+    }
+    if (!questionSnap.exists) {
+      throw new ApiError(404, "Question not found");
+    }
+    const question = questionSnap.data() as QuestionDoc;
+    if (!isInScope(question, session)) {
+      throw new ApiError(400, "This question is not part of the practice session");
+    }
+    if (question.type === "subjective") {
+      throw new ApiError(400, "Subjective questions need a grader and cannot be checked in practice");
+    }
+    if (answerSnap.exists) {
+      throw new ApiError(409, "You have already answered this question in this session");
+    }
+
+    const response = sanitizeResponse(rawResponse);
+    if (!response || !hasResponse(question, response)) {
+      throw new ApiError(400, "Answer the question before checking it");
+    }
+
+    const outcome = isResponseCorrect(question, response) ? "correct" : "incorrect";
+    const answeredCount = session.answeredCount + 1;
+    const correctCount = session.correctCount + (outcome === "correct" ? 1 : 0);
+
+    const answerData: Omit<PracticeAnswerDoc, "answeredAt"> & { answeredAt: FieldValue } = {
+      userId,
+      questionId,
+      selectedOptions: response.selectedOptions,
+      numericalAnswer: response.numericalAnswer,
+      outcome,
+      timeSpentSeconds: response.timeSpentSeconds,
+      answeredAt: FieldValue.serverTimestamp(),
+    };
+    transaction.set(answerRef, answerData);
+    transaction.update(sessionRef, {
+      answeredCount,
+      correctCount,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+
+    console.log("[Server Practice] Answer checked:", { sessionId, questionId, outcome });
+    return {
+      outcome,
+      awardedMarks: outcome === "correct" ? question.marks : -question.penalty,
+      maxMarks: question.marks,
+      answeredCount,
+      correctCount,
+      solution: getQuestionSolution(question),
+    };
+  });
+}
@@ -0,0 +1,50 @@
+// lib/server/questionStats.ts
+import { FieldValue } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase/admin";
+import type { AttemptDoc } from "@/lib/types/attempt";
+import { computeQuestionCalibration } from "@/lib/utils/calibration";
+
+const QUESTION_STATS_COLLECTION = "questionStats";
+const ATTEMPTS_COLLECTION = "attempts";
+
+export interface CalibrationOutcome {
+  attemptCount: number;       // scored attempts read
+  questionCount: number;      // questions with stats written
+}
+
+/**
+ * Recompute the empirical difficulty of every question from all scored attempts
+ * and store it in questionStats/{questionId}
+ */
+export async function calibrateQuestions(): Promise<CalibrationOutcome> {
+  console.log("[Server QuestionStats] calibrateQuestions called");
+
+  const snapshot = await adminDb
+    .collection(ATTEMPTS_COLLECTION)
+    .where("status", "in", ["submitted", "expired"])
+    .select("testId", "isRanked", "result")
+    .get();
+  const attempts = snapshot.docs.map(
+    (docSnap) => docSnap.data() as Pick<AttemptDoc, "testId" | "isRanked" | "result">
+  );
+
+  const stats = computeQuestionCalibration(attempts);
+
+  // Firestore batches are limited to 500 writes
+  for (let i = 0; i < stats.length; i += 450) {
+    const batch = adminDb.batch();
+    stats.slice(i, i + 450).forEach((entry) => {
+      batch.set(adminDb.collection(QUESTION_STATS_COLLECTION).doc(entry.questionId), {
+        ...entry,
+        computedAt: FieldValue.serverTimestamp(),
+      });
+    });
+    await batch.commit();
+  }
+
+  console.log("[Server QuestionStats] Calibration complete:", {
+    attemptCount: attempts.length,
+    questionCount: stats.length,
+  });
+  return { attemptCount: attempts.length, questionCount: stats.length };
+}
@@ -0,0 +1,117 @@
+// lib/server/questions.ts
+import { adminDb } from "@/lib/firebase/admin";
+import type { AttemptDoc } from "@/lib/types/attempt";
+import type {
+  QuestionContent,
+  QuestionDoc,
+  QuestionSolution,
+  StudentQuestion,
+} from "@/lib/types/question";
+import { getTestWindowStatus } from "@/lib/utils/schedule";
+import { ApiError } from "./errors";
+import { assertEnrolledForTest, loadTest, loadTestQuestions } from "./attempts";
+
+const ATTEMPTS_COLLECTION = "attempts";
+
+/**
+ * Drop the bank's bookkeeping fields from a question
+ * @param id - Question document id
+ * @param question - Question document data
+ */
+export function toQuestionContent(id: string, question: QuestionDoc): QuestionContent {
+  const content: QuestionContent & Partial<Pick<QuestionDoc, "createdAt" | "updatedAt" | "createdBy">> = {
+    id,
+    ...question,
+  };
+  delete content.createdAt;
+  delete content.updatedAt;
+  delete content.createdBy;
+  return content;
+}
+
+/**
+ * Strip the answer key, rubric and solution from a question a student is about to answer
+ * @param id - Question document id
+ * @param question - Question document data
+ */
+export function toStudentQuestion(id: string, question: QuestionDoc): StudentQuestion {
+  const content: StudentQuestion & Partial<QuestionContent> = toQuestionContent(id, question);
+  delete content.correctOptions;
+  delete content.correctAnswer;
+  delete content.rubric;
+  delete content.explanation;
+  if (content.numericalAnswer) {
+    content.numericalAnswer = {
+      mode: content.numericalAnswer.mode,
+      value: null,
+      tolerance: null,
+      min: null,
+      max: null,
+    };
+  }
+  return content;
+}
+
+/**
+ * Answer key and explanation of a question, shown once the student has answered it
+ */
+export function getQuestionSolution(question: QuestionDoc): QuestionSolution {
+  return {
+    correctOptions: question.correctOptions ?? [],
+    correctAnswer: question.correctAnswer ?? null,
+    numericalAnswer: question.numericalAnswer ?? null,
+    explanation: question.explanation ?? null,
+  };
+}
+
+/**
+ * Questions of a test for the player, without answer keys or solutions
+ * @param testId - Test document id
+ * @param userId - UID of the student (must be enrolled in a series with the test)
+ * @throws {ApiError} If the test is missing, the student is not enrolled, or it has not opened
+ */
+export async function loadStudentTestQuestions(
+  testId: string,
+  userId: string
+): Promise<StudentQuestion[]> {
+  console.log("[Server Questions] loadStudentTestQuestions called:", { testId, userId });
+
+  const test = await loadTest(testId);
+  await assertEnrolledForTest(userId, testId, null);
+  if (getTestWindowStatus(test, Date.now()) === "upcoming") {
+    throw new ApiError(403, "This test has not opened yet.");
+  }
+
+  const questions = await loadTestQuestions(test.questions);
+  return Array.from(questions, ([id, question]) => toStudentQuestion(id, question));
+}
+
+/**
+ * Questions of a submitted attempt's test with their keys and solutions, for the result review
+ * @param attemptId - Attempt document id
+ * @param userId - UID of the caller (must own the attempt)
+ * @throws {ApiError} If the attempt is missing, not owned by the caller or still in progress
+ */
+export async function loadAttemptReviewQuestions(
+  attemptId: string,
+  userId: string
+): Promise<QuestionContent[]> {
+  console.log("[Server Questions] loadAttemptReviewQuestions called:", { attemptId, userId });
+
+  const attemptSnap = await adminDb.collection(ATTEMPTS_COLLECTION).doc(attemptId).get();
+  if (!attemptSnap.exists) {
+    throw new ApiError(404, "Attempt not found");
+  }
+
+  const attempt = attemptSnap.data() as AttemptDoc;
+  if (attempt.userId !== userId) {
+    throw new ApiError(403, "You can only view your own attempts");
+  }
+  if (attempt.status === "in_progress") {
+    throw new ApiError(409, "Solutions are shown once the attempt is submitted");
+  }
+
+  const test = await loadTest(attempt.testId);
+  const questions = await loadTestQuestions(test.questions);
+  return Array.from(questions, ([id, question]) => toQuestionContent(id, question));
+}
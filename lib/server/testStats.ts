@@ -0,0 +1,532 @@
+// lib/server/testStats.ts
+import {
+  FieldValue,
+  Timestamp,
+  type DocumentData,
+  type DocumentReference,
+  type Transaction,
+} from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase/admin";
+import type { AttemptDoc, AttemptResult } from "@/lib/types/attempt";
+import type { TestDoc } from "@/lib/types/test";
+import type {
+  LeaderboardEntryDoc,
+  LeaderboardRow,
+  TestLeaderboard,
+  TestStatsDoc,
+  TopperTimes,
+} from "@/lib/types/testStats";
+import type { ComputedAttemptResult } from "@/lib/utils/scoring";
+import {
+  addToDistribution,
+  mergeSubjectToppers,
+  percentileForScore,
+  rankForScore,
+  removeFromDistribution,
+} from "@/lib/utils/ranking";
+import { getAttemptDeadlineMs, getRankedTimeSeconds } from "@/lib/utils/schedule";
+
+const TEST_STATS_COLLECTION = "testStats";
+const ENTRIES_SUBCOLLECTION = "entries";
+const ATTEMPTS_COLLECTION = "attempts";
+const USERS_COLLECTION = "users";
+const TESTS_COLLECTION = "tests";
+
+// Times a rebuild is repeated when ranked results keep arriving while it runs
+const MAX_REBUILD_RUNS = 5;
+
+// Rows returned by the leaderboard endpoint
+const LEADERBOARD_SIZE = 100;
+
+// Students at the top of the leaderboard whose times are used as a benchmark
+const TOPPER_COUNT = 10;
+
+/**
+ * Thrown when a ranked result is recorded for a test whose stats have not been built yet.
+ * The caller rebuilds them from the attempts and retries, so earlier attempts are not left out.
+ */
+export class TestStatsMissingError extends Error {
+  readonly testId: string;
+
+  constructor(testId: string) {
+    super(`Stats for test ${testId} have not been built yet`);
+    this.name = "TestStatsMissingError";
+    this.testId = testId;
+  }
+}
+
+export interface ScoreStanding {
+  rank: number;
+  percentile: number;
+  participantCount: number;
+}
+
+type StatsData = Omit<TestStatsDoc, "updatedAt">;
+
+// Entry as written with the admin SDK
+type EntryWrite = Omit<LeaderboardEntryDoc, "submittedAt"> & {
+  submittedAt: Timestamp | FieldValue;
+};
+
+// Entry set (or deleted, with null data) by a rebuild
+type RebuildEntryWrite = { ref: DocumentReference; data: DocumentData | null };
+
+function statsRef(testId: string) {
+  return adminDb.collection(TEST_STATS_COLLECTION).doc(testId);
+}
+
+function entryRef(testId: string, userId: string) {
+  return statsRef(testId).collection(ENTRIES_SUBCOLLECTION).doc(userId);
+}
+
+function emptyStats(testId: string): StatsData {
+  return {
+    testId,
+    participantCount: 0,
+    scoreSum: 0,
+    scoreDistribution: [],
+    subjectToppers: {},
+  };
+}
+
+/**
+ * Name shown on the leaderboard for a student
+ */
+export async function getDisplayName(userId: string): Promise<string> {
+  const snap = await adminDb.collection(USERS_COLLECTION).doc(userId).get();
+  const displayName = snap.get("displayName");
+  return typeof displayName === "string" && displayName.trim() !== ""
+    ? displayName.trim()
+    : "Student";
+}
+
+/**
+ * Fold a newly scored ranked attempt into the test's stats inside the scoring transaction.
+ * Only the student's best ranked attempt counts, so each submission touches two documents
+ * instead of re-reading every attempt of the test.
+ * Must run before the transaction's writes (Firestore requires reads first).
+ * @throws {TestStatsMissingError} If the test has no stats yet - rebuild them and retry
+ */
+export async function recordRankedResult(
+  transaction: Transaction,
+  params: {
+    testId: string;
+    userId: string;
+    attemptId: string;
+    displayName: string;
+    result: ComputedAttemptResult;
+    timeTakenSeconds: number;
+  }
+): Promise<void> {
+  const { testId, userId, attemptId, displayName, result, timeTakenSeconds } = params;
+
+  const [statsSnap, entrySnap] = await Promise.all([
+    transaction.get(statsRef(testId)),
+    transaction.get(entryRef(testId, userId)),
+  ]);
+
+  // Starting from empty stats would leave out every attempt scored before they existed
+  if (!statsSnap.exists) {
+    throw new TestStatsMissingError(testId);
+  }
+
+  let stats = statsSnap.data() as StatsData;
+  const previous = entrySnap.exists ? (entrySnap.data() as LeaderboardEntryDoc) : null;
+
+  stats = {
+    ...stats,
+    subjectToppers: mergeSubjectToppers(stats.subjectToppers, result.subjectBreakdown, {
+      userId,
+      displayName,
+    }),
+  };
+
+  const improves = !previous || result.totalScore > previous.score;
+  if (improves) {
+    let distribution = stats.scoreDistribution;
+    let scoreSum = stats.scoreSum;
+    let participantCount = stats.participantCount;
+    if (previous) {
+      distribution = removeFromDistribution(distribution, previous.score);
+      scoreSum -= previous.score;
+    } else {
+      participantCount += 1;
+    }
+
+    stats = {
+      ...stats,
+      participantCount,
+      scoreSum: scoreSum + result.totalScore,
+      scoreDistribution: addToDistribution(distribution, result.totalScore),
+    };
+
+    const entry: EntryWrite = {
+      userId,
+      displayName,
+      attemptId,
+      score: result.totalScore,
+      maxScore: result.maxScore,
+      accuracy: result.accuracy,
+      timeTakenSeconds,
+      submittedAt: FieldValue.serverTimestamp(),
+    };
+    transaction.set(entryRef(testId, userId), entry);
+  }
+
+  transaction.set(statsRef(testId), {
+    ...stats,
+    version: (stats.version ?? 0) + 1,
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+}
+
+/**
+ * Re-rank a student inside the transaction that re-scored one of their ranked attempts
+ * (e.g. after grading a subjective answer). Their entry moves to their best ranked attempt and
+ * only their score moves between distribution buckets - the rest of the test is not re-read.
+ * Must run before the transaction's writes (Firestore requires reads first).
+ * @throws {TestStatsMissingError} If the test has no stats yet - rebuild them instead
+ */
+export async function recordRescoredResult(
+  transaction: Transaction,
+  params: {
+    test: Pick<TestDoc, "durationMinutes">;
+    testId: string;
+    userId: string;
+    attemptId: string;
+    displayName: string;
+    result: ComputedAttemptResult;
+  }
+): Promise<void> {
+  const { test, testId, userId, attemptId, displayName, result } = params;
+
+  const [statsSnap, entrySnap, attemptsSnap] = await Promise.all([
+    transaction.get(statsRef(testId)),
+    transaction.get(entryRef(testId, userId)),
+    transaction.get(
+      adminDb
+        .collection(ATTEMPTS_COLLECTION)
+        .where("testId", "==", testId)
+        .where("userId", "==", userId)
+    ),
+  ]);
+  if (!statsSnap.exists) {
+    throw new TestStatsMissingError(testId);
+  }
+
+  // The student's best ranked attempt, counting the re-scored one with its new result
+  let best: { id: string; attempt: AttemptDoc; score: number } | null = null;
+  for (const docSnap of attemptsSnap.docs) {
+    const attempt = docSnap.data() as AttemptDoc;
+    const score = docSnap.id === attemptId ? result.totalScore : attempt.result?.totalScore;
+    if (score === undefined || attempt.isRanked === false) continue;
+    if (!best || score > best.score) {
+      best = { id: docSnap.id, attempt, score };
+    }
+  }
+
+  let stats = statsSnap.data() as StatsData;
+  const previous = entrySnap.exists ? (entrySnap.data() as LeaderboardEntryDoc) : null;
+
+  let distribution = stats.scoreDistribution;
+  let scoreSum = stats.scoreSum;
+  let participantCount = stats.participantCount;
+  if (previous) {
+    distribution = removeFromDistribution(distribution, previous.score);
+    scoreSum -= previous.score;
+    participantCount -= 1;
+  }
+
+  if (best) {
+    const bestResult = best.id === attemptId ? result : best.attempt.result!;
+    const startedMs = best.attempt.startedAt.toMillis();
+    const submittedMs = best.attempt.submittedAt?.toMillis() ?? startedMs;
+    distribution = addToDistribution(distribution, best.score);
+    scoreSum += best.score;
+    participantCount += 1;
+
+    const entry: EntryWrite = {
+      userId,
+      displayName,
+      attemptId: best.id,
+      score: best.score,
+      maxScore: bestResult.maxScore,
+      accuracy: bestResult.accuracy,
+      timeTakenSeconds: getRankedTimeSeconds(
+        startedMs,
+        submittedMs,
+        getAttemptDeadlineMs(best.attempt, test)
+      ),
+      submittedAt: Timestamp.fromMillis(submittedMs),
+    };
+    transaction.set(entryRef(testId, userId), entry);
+  } else if (previous) {
+    transaction.delete(entryRef(testId, userId));
+  }
+
+  stats = {
+    ...stats,
+    participantCount,
+    scoreSum,
+    scoreDistribution: distribution,
+    subjectToppers: mergeSubjectToppers(stats.subjectToppers, result.subjectBreakdown, {
+      userId,
+      displayName,
+    }),
+  };
+  transaction.set(statsRef(testId), {
+    ...stats,
+    version: (stats.version ?? 0) + 1,
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+}
+
+/**
+ * Rebuild a test's stats from all of its attempts.
+ * Used for tests scored before stats existed, or by an admin after re-scoring.
+ * If a ranked result is recorded while the attempts are being read, the rebuild would drop
+ * it, so the stats version is checked when the rebuild is saved and the rebuild runs again.
+ */
+export async function rebuildTestStats(testId: string): Promise<StatsData> {
+  console.log("[Server TestStats] rebuildTestStats called:", { testId });
+
+  for (let run = 1; ; run++) {
+    const versionSnap = await statsRef(testId).get();
+    const versionBefore = (versionSnap.get("version") as number | undefined) ?? 0;
+    const { stats, entryWrites } = await computeTestStats(testId);
+
+    // Entries are written first - a racing update bumps the version and the rebuild repeats
+    for (let i = 0; i < entryWrites.length; i += 450) {
+      const batch = adminDb.batch();
+      entryWrites.slice(i, i + 450).forEach(({ ref, data }) => {
+        if (data === null) batch.delete(ref);
+        else batch.set(ref, data);
+      });
+      await batch.commit();
+    }
+
+    const saved = await adminDb.runTransaction(async (transaction) => {
+      const statsSnap = await transaction.get(statsRef(testId));
+      if (((statsSnap.get("version") as number | undefined) ?? 0) !== versionBefore) {
+        return false;
+      }
+      transaction.set(statsRef(testId), {
+        ...stats,
+        version: versionBefore + 1,
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+      return true;
+    });
+
+    if (saved) {
+      console.log("[Server TestStats] Stats rebuilt:", {
+        testId,
+        participantCount: stats.participantCount,
+        runs: run,
+      });
+      return stats;
+    }
+    if (run >= MAX_REBUILD_RUNS) {
+      throw new Error(`Stats of test ${testId} kept changing during the rebuild`);
+    }
+    console.log("[Server TestStats] Stats changed during the rebuild, running it again:", { testId });
+  }
+}
+
+/**
+ * Stats and leaderboard entry writes of a test, computed from all of its attempts
+ */
+async function computeTestStats(
+  testId: string
+): Promise<{ stats: StatsData; entryWrites: RebuildEntryWrite[] }> {
+  const [testSnap, snapshot] = await Promise.all([
+    adminDb.collection(TESTS_COLLECTION).doc(testId).get(),
+    adminDb.collection(ATTEMPTS_COLLECTION).where("testId", "==", testId).get(),
+  ]);
+  const test = { durationMinutes: (testSnap.get("durationMinutes") as number | undefined) ?? 0 };
+
+  // Best ranked attempt per student (older attempts have no isRanked flag - all ranked)
+  const ranked: (AttemptDoc & { result: AttemptResult })[] = [];
+  const best = new Map<string, { id: string; attempt: AttemptDoc & { result: AttemptResult } }>();
+  snapshot.docs.forEach((docSnap) => {
+    const attempt = docSnap.data() as AttemptDoc;
+    if (!attempt.result || attempt.isRanked === false) return;
+    ranked.push(attempt as AttemptDoc & { result: AttemptResult });
+    const current = best.get(attempt.userId);
+    if (!current || attempt.result.totalScore > current.attempt.result.totalScore) {
+      best.set(attempt.userId, {
+        id: docSnap.id,
+        attempt: attempt as AttemptDoc & { result: AttemptResult },
+      });
+    }
+  });
+
+  let stats = emptyStats(testId);
+  const entriesRef = statsRef(testId).collection(ENTRIES_SUBCOLLECTION);
+  const existingEntries = await entriesRef.get();
+
+  // Students no longer ranked (e.g. after re-scoring) lose their entry
+  const entryWrites: RebuildEntryWrite[] = existingEntries.docs
+    .filter((docSnap) => !best.has(docSnap.id))
+    .map((docSnap) => ({ ref: docSnap.ref, data: null }));
+
+  const displayNames = new Map<string, string>();
+  for (const userId of best.keys()) {
+    displayNames.set(userId, await getDisplayName(userId));
+  }
+
+  for (const [userId, { id, attempt }] of best) {
+    const displayName = displayNames.get(userId)!;
+    const result = attempt.result;
+    const startedMs = attempt.startedAt.toMillis();
+    const submittedMs = attempt.submittedAt?.toMillis() ?? startedMs;
+
+    stats = {
+      ...stats,
+      participantCount: stats.participantCount + 1,
+      scoreSum: stats.scoreSum + result.totalScore,
+      scoreDistribution: addToDistribution(stats.scoreDistribution, result.totalScore),
+    };
+
+    const entry: EntryWrite = {
+      userId,
+      displayName,
+      attemptId: id,
+      score: result.totalScore,
+      maxScore: result.maxScore,
+      accuracy: result.accuracy,
+      timeTakenSeconds: getRankedTimeSeconds(
+        startedMs,
+        submittedMs,
+        getAttemptDeadlineMs(attempt, test)
+      ),
+      submittedAt: Timestamp.fromMillis(submittedMs),
+    };
+    entryWrites.push({ ref: entriesRef.doc(userId), data: entry });
+  }
+
+  // Subject toppers consider every ranked attempt, as the incremental update does
+  ranked.forEach((attempt) => {
+    stats.subjectToppers = mergeSubjectToppers(stats.subjectToppers, attempt.result.subjectBreakdown, {
+      userId: attempt.userId,
+      displayName: displayNames.get(attempt.userId)!,
+    });
+  });
+
+  return { stats, entryWrites };
+}
+
+/**
+ * Load a test's stats, building them once from the attempts if they do not exist yet
+ */
+export async function loadTestStats(testId: string): Promise<StatsData> {
+  const snap = await statsRef(testId).get();
+  if (snap.exists) {
+    return snap.data() as StatsData;
+  }
+  return rebuildTestStats(testId);
+}
+
+/**
+ * Rank and percentile of a score among the test's ranked students
+ */
+export async function getScoreStanding(testId: string, score: number): Promise<ScoreStanding> {
+  const stats = await loadTestStats(testId);
+  return {
+    rank: rankForScore(stats.scoreDistribution, score),
+    percentile: percentileForScore(stats.scoreDistribution, score),
+    participantCount: stats.participantCount,
+  };
+}
+
+/**
+ * Top of a test's leaderboard plus the caller's own row
+ * @param testId - Test document id
+ * @param userId - UID of the caller
+ */
+export async function getTestLeaderboard(
+  testId: string,
+  userId: string
+): Promise<TestLeaderboard> {
+  console.log("[Server TestStats] getTestLeaderboard called:", { testId, userId });
+
+  const stats = await loadTestStats(testId);
+  const entriesRef = statsRef(testId).collection(ENTRIES_SUBCOLLECTION);
+  const [topSnap, mySnap] = await Promise.all([
+    entriesRef.orderBy("score", "desc").limit(LEADERBOARD_SIZE).get(),
+    entriesRef.doc(userId).get(),
+  ]);
+
+  const toRow = (entry: LeaderboardEntryDoc): LeaderboardRow => ({
+    userId: entry.userId,
+    displayName: entry.displayName,
+    attemptId: entry.attemptId,
+    score: entry.score,
+    maxScore: entry.maxScore,
+    accuracy: entry.accuracy,
+    timeTakenSeconds: entry.timeTakenSeconds,
+    rank: rankForScore(stats.scoreDistribution, entry.score),
+    percentile: percentileForScore(stats.scoreDistribution, entry.score),
+  });
+
+  // Equal scores share a rank; among them the faster student is listed first
+  const rows = topSnap.docs
+    .map((docSnap) => docSnap.data() as LeaderboardEntryDoc)
+    .sort((a, b) => b.score - a.score || a.timeTakenSeconds - b.timeTakenSeconds)
+    .map(toRow);
+
+  return {
+    participantCount: stats.participantCount,
+    averageScore:
+      stats.participantCount > 0
+        ? Math.round((stats.scoreSum / stats.participantCount) * 100) / 100
+        : 0,
+    rows,
+    subjectToppers: stats.subjectToppers,
+    me: mySnap.exists ? toRow(mySnap.data() as LeaderboardEntryDoc) : null,
+  };
+}
+
+/**
+ * Average time the toppers of a test spent on each question.
+ * A topper counts towards a question's average only if they spent time on it.
+ * @param testId - Test document id
+ */
+export async function getTopperTimes(testId: string): Promise<TopperTimes> {
+  console.log("[Server TestStats] getTopperTimes called:", { testId });
+
+  await loadTestStats(testId);
+  const topSnap = await statsRef(testId)
+    .collection(ENTRIES_SUBCOLLECTION)
+    .orderBy("score", "desc")
+    .limit(TOPPER_COUNT)
+    .get();
+  if (topSnap.empty) {
+    return { topperCount: 0, averageSeconds: {} };
+  }
+
+  const attemptRefs = topSnap.docs.map((docSnap) =>
+    adminDb.collection(ATTEMPTS_COLLECTION).doc((docSnap.data() as LeaderboardEntryDoc).attemptId)
+  );
+  const attemptSnaps = await adminDb.getAll(...attemptRefs);
+
+  const totals = new Map<string, { seconds: number; count: number }>();
+  attemptSnaps.forEach((snap) => {
+    const attempt = snap.data() as AttemptDoc | undefined;
+    Object.entries(attempt?.responses ?? {}).forEach(([questionId, response]) => {
+      if (!response.timeSpentSeconds || response.timeSpentSeconds <= 0) return;
+      const total = totals.get(questionId) ?? { seconds: 0, count: 0 };
+      totals.set(questionId, {
+        seconds: total.seconds + response.timeSpentSeconds,
+        count: total.count + 1,
+      });
+    });
+  });
+
+  const averageSeconds: Record<string, number> = {};
+  totals.forEach((total, questionId) => {
+    averageSeconds[questionId] = Math.round(total.seconds / total.count);
+  });
+
+  return { topperCount: attemptSnaps.length, averageSeconds };
+}
@@ -0,0 +1,170 @@
+// lib/types/attempt.ts
+import type { Timestamp } from "firebase/firestore";
+import type { QuestionResolution } from "./test";
+
+export type AttemptStatus = "in_progress" | "submitted" | "expired";
+
+/**
+ * A student's response to one question of a test
+ */
+export interface QuestionResponse {
+  selectedOptions: number[];      // chosen option indices (MCQs, 0-based) or matrix cells (matrix_match)
+  numericalAnswer: string | null; // raw answer text (numerical / integer)
+  answerText?: string | null;     // written answer (subjective)
+  answerImageUrls?: string[];     // photos of a handwritten answer (subjective)
+  timeSpentSeconds: number;       // total time spent on the question
+  visitSeconds?: number[];        // time spent on each visit, in order (sums to timeSpentSeconds)
+}
+
+export type QuestionOutcome = "correct" | "partial" | "incorrect" | "unattempted";
+
+/**
+ * Scored outcome of a single question in an attempt
+ */
+export interface QuestionResult {
+  outcome: QuestionOutcome;
+  awardedMarks: number;           // negative when a penalty applies
+  maxMarks: number;
+  subject: string;
+  chapter: string | null;
+  topic: string;
+  subtopic: string | null;
+  timeSpentSeconds: number;
+  beyondAttemptLimit?: boolean;   // not evaluated because of a section's "attempt any N" rule
+  resolution?: QuestionResolution; // bonus or dropped after an answer-key challenge
+  pendingGrading?: boolean;       // subjective answer not graded yet (scored as unattempted until then)
+}
+
+/**
+ * Aggregated score for a subject, chapter or topic
+ */
+export interface ScoreBreakdown {
+  subject: string;
+  chapter: string | null;         // null for subject-level entries
+  topic: string | null;           // null for subject/chapter-level entries
+  score: number;
+  maxScore: number;
+  correct: number;
+  partial: number;
+  incorrect: number;
+  unattempted: number;
+}
+
+/**
+ * Score of a submitted attempt, computed on the server
+ */
+export interface AttemptResult {
+  totalScore: number;
+  maxScore: number;
+  correctCount: number;
+  partialCount: number;           // mcq_multiple / matrix_match answers given partial credit
+  incorrectCount: number;
+  unattemptedCount: number;
+  pendingGradingCount?: number;   // subjective answers waiting for a grader
+  accuracy: number;               // % of attempted questions answered correctly
+  questionResults: Record<string, QuestionResult>; // keyed by questionId
+  subjectBreakdown: ScoreBreakdown[];
+  chapterBreakdown: ScoreBreakdown[];
+  topicBreakdown: ScoreBreakdown[];
+  scoredAt: Timestamp;
+}
+
+/**
+ * A grader's marks for one subjective answer, stored on the attempt
+ */
+export interface SubjectiveGrade {
+  criterionMarks: number[];       // marks per rubric criterion (one entry when the question has no rubric)
+  comment: string | null;         // feedback shown to the student
+  gradedBy: string;               // admin UID
+  gradedAt: Timestamp;
+}
+
+/**
+ * Input for grading one subjective answer from the grading queue
+ */
+export interface SubjectiveGradeInput {
+  questionId: string;
+  criterionMarks: number[];
+  comment: string | null;
+}
+
+/**
+ * Proctoring signal recorded during an attempt
+ */
+export type IntegrityEventType =
+  | "visibility_hidden"   // tab switched or minimised
+  | "visibility_visible"  // came back to the tab
+  | "window_blur"         // another window took focus while the tab stayed visible
+  | "fullscreen_exit"
+  | "copy"
+  | "cut"
+  | "paste"
+  | "context_menu";       // right-click
+
+export interface IntegrityEvent {
+  type: IntegrityEventType;
+  at: Timestamp;                  // when the server recorded it
+  clientAt: number;               // when the player saw it (ms since epoch, client clock)
+}
+
+/**
+ * Attempt document in Firestore - one per student per sitting of a test
+ */
+export interface AttemptDoc {
+  userId: string;                 // student UID
+  testId: string;                 // Reference to test document ID
+  testSeriesId: string | null;    // Series the test was opened from (if any)
+  status: AttemptStatus;
+  responses: Record<string, QuestionResponse>; // keyed by questionId
+  result: AttemptResult | null;   // set by the server when the attempt is scored
+  attemptNumber: number;          // 1 for the student's first attempt of the test
+  isRanked: boolean;              // false for practice re-attempts (excluded from rank)
+  shuffleSeed: number | null;     // seeds the student's question/option order (responses keep original indices)
+
+  // Player state autosaved while in progress (used to resume)
+  visited: string[];              // questionIds the student has opened
+  markedForReview: string[];      // questionIds flagged for review
+  currentQuestionId: string | null;
+  remainingSeconds: number | null; // informational - the deadline is startedAt + durationMinutes
+  progressCapturedAt?: Timestamp | null; // when the player captured the latest synced progress
+
+  // Set when a submission queued offline arrived after the deadline with answers already synced before it
+  submittedOffline?: boolean;
+
+  // Proctoring (proctored tests only) - appended on the server
+  integrityEvents?: IntegrityEvent[];
+  violationCount?: number;
+  autoSubmittedForViolations?: boolean; // submitted because maxViolations was reached
+
+  // Grades of subjective answers, keyed by questionId - set on the server from the grading queue
+  grades?: Record<string, SubjectiveGrade>;
+
+  // Metadata
+  startedAt: Timestamp;
+  expiresAt: Timestamp | null;    // set by the server at start - the authoritative deadline
+  submittedAt: Timestamp | null;
+  updatedAt: Timestamp;
+}
+
+/**
+ * Attempt with document ID included
+ */
+export interface Attempt extends AttemptDoc {
+  id: string;
+}
+
+/**
+ * Player state written by autosave
+ */
+export type AttemptProgress = Pick<
+  AttemptDoc,
+  "responses" | "visited" | "markedForReview" | "currentQuestionId" | "remainingSeconds"
+>;
+
+/**
+ * Input type for starting an attempt (before timestamps)
+ */
+export interface AttemptInput {
+  testId: string;
+  testSeriesId: string | null;
+}
@@ -0,0 +1,56 @@
+// lib/types/challenge.ts
+import type { Timestamp } from "firebase/firestore";
+
+export type ChallengeStatus = "pending" | "accepted" | "rejected";
+
+/**
+ * What is done to a question when its challenges are accepted
+ * - change_key: the question's correct options are corrected in the question bank
+ * - bonus: every student gets full marks for the question in this test
+ * - drop: the question is left out of scoring in this test
+ */
+export type ChallengeResolution = "change_key" | "bonus" | "drop";
+
+/**
+ * A student's challenge to the answer key of a question in a test
+ * Stored at challenges/{challengeId}; created and resolved on the server
+ */
+export interface ChallengeDoc {
+  userId: string;                 // student who raised the challenge
+  testId: string;
+  questionId: string;
+  attemptId: string;              // attempt the challenge was raised from
+  reason: string;
+  status: ChallengeStatus;
+  resolution: ChallengeResolution | null; // set when accepted
+  adminNote: string | null;       // shown to the student once resolved
+  createdAt: Timestamp;
+  resolvedAt: Timestamp | null;
+  resolvedBy: string | null;      // admin UID
+}
+
+/**
+ * Challenge with document ID included
+ */
+export interface Challenge extends ChallengeDoc {
+  id: string;
+}
+
+/**
+ * Input for raising a challenge from a result page
+ */
+export interface ChallengeInput {
+  questionId: string;
+  reason: string;
+}
+
+/**
+ * Admin decision on all pending challenges of one question in a test
+ */
+export interface ChallengeDecision {
+  questionId: string;
+  status: Exclude<ChallengeStatus, "pending">;
+  resolution: ChallengeResolution | null;   // required when accepting
+  correctOptions: number[] | null;          // new key (change_key only)
+  adminNote: string | null;
+}
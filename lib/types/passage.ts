@@ -0,0 +1,32 @@
+// lib/types/passage.ts
+import type { Timestamp } from "firebase/firestore";
+
+/**
+ * Shared stem of a comprehension / paragraph question group.
+ * Questions point at it with QuestionDoc.passageId.
+ */
+export interface PassageDoc {
+  title: string;                // admin-facing name, e.g. "Photoelectric effect paragraph"
+  text: string;                 // passage content (rich text HTML)
+  subject: string;
+  chapter?: string;
+  topic?: string;
+
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+  createdBy: string;            // admin UID
+}
+
+// Same as PassageDoc but with Firestore document id included
+export interface Passage extends PassageDoc {
+  id: string;
+}
+
+// Input type for creating/updating a passage from forms (before timestamps)
+export interface PassageInput {
+  title: string;
+  text: string;
+  subject: string;
+  chapter?: string;
+  topic?: string;
+}
@@ -0,0 +1,65 @@
+// lib/types/practice.ts
+import type { Timestamp } from "firebase/firestore";
+import type { QuestionOutcome } from "./attempt";
+import type { QuestionSolution } from "./question";
+
+/**
+ * Part of the syllabus a practice session draws questions from (names as stored on questions)
+ */
+export interface PracticeScope {
+  subject: string;
+  chapter: string | null;         // null = the whole subject
+  topic: string | null;           // null = the whole chapter
+}
+
+/**
+ * A practice session - kept apart from test attempts so it never affects ranks
+ * Stored at practiceSessions/{sessionId}; written on the server
+ */
+export interface PracticeSessionDoc extends PracticeScope {
+  userId: string;
+  answeredCount: number;
+  correctCount: number;
+  startedAt: Timestamp;
+  updatedAt: Timestamp;           // last answer
+}
+
+/**
+ * Practice session with document ID included
+ */
+export interface PracticeSession extends PracticeSessionDoc {
+  id: string;
+}
+
+/**
+ * One answered question of a practice session
+ * Stored at practiceSessions/{sessionId}/answers/{questionId}
+ */
+export interface PracticeAnswerDoc {
+  userId: string;
+  questionId: string;
+  selectedOptions: number[];
+  numericalAnswer: string | null;
+  outcome: Exclude<QuestionOutcome, "partial" | "unattempted">;
+  timeSpentSeconds: number;
+  answeredAt: Timestamp;
+}
+
+/**
+ * Practice answer with document ID included
+ */
+export interface PracticeAnswer extends PracticeAnswerDoc {
+  id: string;
+}
+
+/**
+ * Feedback returned as soon as a practice answer is checked
+ */
+export interface PracticeFeedback {
+  outcome: PracticeAnswerDoc["outcome"];
+  awardedMarks: number;           // the question's own marks / penalty - shown for reference only
+  maxMarks: number;
+  answeredCount: number;          // session totals after this answer
+  correctCount: number;
+  solution: QuestionSolution;     // key and explanation, revealed once the answer is in
+}
@@ -1,10 +1,53 @@
 // lib/types/question.ts
 import type { Timestamp } from "firebase/firestore";
 
-export type QuestionType = "mcq_single" | "mcq_multiple" | "numerical";
+export type QuestionType =
+  | "mcq_single"
+  | "mcq_multiple"
+  | "numerical"
+  | "integer"
+  | "matrix_match"
+  | "subjective";
 
 export type DifficultyLevel = "easy" | "medium" | "hard";
 
+export type NumericalAnswerMode =
+  | "exact"
+  | "absolute_tolerance"
+  | "relative_tolerance"
+  | "range"
+  | "integer";
+
+/**
+ * Answers accepted by an integer-type question
+ */
+export type IntegerAnswerRange = "single_digit" | "any"; // 0-9 (JEE Advanced style) or any integer
+
+/**
+ * One rubric line of a subjective question, e.g. "Correct formula" for 1 mark
+ */
+export interface RubricCriterion {
+  description: string;
+  marks: number;
+}
+
+/**
+ * Canned-option mcq_single formats. The author writes the two statements;
+ * the question text and the four options are generated from them.
+ */
+export type QuestionTemplate = "assertion_reason" | "statement_pair";
+
+/**
+ * How a numerical answer is matched. Unused fields are null.
+ */
+export interface NumericalAnswerSpec {
+  mode: NumericalAnswerMode;
+  value: number | null;         // expected value (exact / tolerance / integer)
+  tolerance: number | null;     // absolute units, or percent for relative_tolerance
+  min: number | null;           // inclusive lower bound (range)
+  max: number | null;           // inclusive upper bound (range)
+}
+
 export interface QuestionDoc {
   // Core classification
   type: QuestionType;
@@ -14,6 +57,7 @@ export interface QuestionDoc {
   subtopic?: string;             // e.g. "1D Motion" (optional for backward compatibility)
   customId?: string;             // Custom/manual ID for easy identification (optional)
   tags: string[];               // e.g. ["1D-motion", "JEE Main"]
+  passageId?: string | null;     // comprehension passage this question follows (optional)
 
   // Question content
   text: string;                 // question statement
@@ -21,6 +65,15 @@ export interface QuestionDoc {
   options?: string[];           // for MCQs (A, B, C, D, ...)
   correctOptions?: number[];    // indices for correct options (0-based)
   correctAnswer?: string | null; // for numerical / non-MCQ answers
+  numericalAnswer?: NumericalAnswerSpec | null; // matching rules (numerical); falls back to correctAnswer
+  integerRange?: IntegerAnswerRange | null; // integer: answers allowed (defaults to "any")
+  // matrix_match: List-I and List-II entries. correctOptions holds the matching cells,
+  // flattened as row * matrixColumns.length + column (Firestore cannot store nested arrays)
+  matrixRows?: string[];
+  matrixColumns?: string[];
+  template?: QuestionTemplate | null; // mcq_single only - text and options are generated
+  statements?: string[];         // template: [Assertion, Reason] or [Statement I, Statement II] (HTML)
+  rubric?: RubricCriterion[];    // subjective: marking scheme for graders (optional - marked as a whole without it)
   explanation?: string | null;
 
   // Scoring
@@ -39,6 +92,22 @@ export interface Question extends QuestionDoc {
   id: string;
 }
 
+// Question as the API serves it to students - without the bank's bookkeeping fields
+export type QuestionContent = Omit<Question, "createdAt" | "updatedAt" | "createdBy">;
+
+// Answer key and worked solution of a question
+export type QuestionSolution = Pick<
+  QuestionDoc,
+  "correctOptions" | "correctAnswer" | "numericalAnswer" | "explanation"
+>;
+
+// Question while it is being answered: no key, rubric or solution.
+// numericalAnswer keeps only its mode, which picks the answer keypad.
+export type StudentQuestion = Omit<
+  QuestionContent,
+  "correctOptions" | "correctAnswer" | "rubric" | "explanation"
+>;
+
 // Input type for creating/updating a question from forms (before timestamps)
 export interface QuestionInput {
   type: QuestionType;
@@ -48,11 +117,19 @@ export interface QuestionInput {
   subtopic: string;
   customId?: string;
   tags: string[];
+  passageId?: string | null;
   text: string;
   imageUrl?: string | null;
   options?: string[];
   correctOptions?: number[];
   correctAnswer?: string | null;
+  numericalAnswer?: NumericalAnswerSpec | null;
+  integerRange?: IntegerAnswerRange | null;
+  matrixRows?: string[];
+  matrixColumns?: string[];
+  template?: QuestionTemplate | null;
+  statements?: string[];
+  rubric?: RubricCriterion[];
   explanation?: string | null;
   marks: number;
   penalty: number;
@@ -0,0 +1,30 @@
+// lib/types/questionStats.ts
+import type { Timestamp } from "firebase/firestore";
+import type { DifficultyLevel } from "./question";
+
+/**
+ * Why a question's calibration needs an admin's attention
+ */
+export type CalibrationFlag = "difficulty_mismatch" | "negative_discrimination";
+
+/**
+ * Empirical difficulty of a question, computed from scored attempts
+ * Stored at questionStats/{questionId}
+ */
+export interface QuestionStatsDoc {
+  questionId: string;
+  responseCount: number;              // scored ranked attempts that included the question
+  attemptedCount: number;             // of which the student answered it
+  correctCount: number;
+  percentCorrect: number;             // % of responses answered correctly (skips count as wrong)
+  discriminationIndex: number | null; // upper minus lower quartile's proportion correct (-1..1)
+  observedDifficulty: DifficultyLevel | null; // null until there are enough responses
+  computedAt: Timestamp;
+}
+
+/**
+ * Question stats with document ID included
+ */
+export interface QuestionStats extends QuestionStatsDoc {
+  id: string;
+}
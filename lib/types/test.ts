@@ -1,6 +1,29 @@
 // lib/types/test.ts
 import type { Timestamp } from "firebase/firestore";
 
+/**
+ * How an mcq_multiple question is scored
+ * - all_or_nothing: full marks only when exactly the correct options are chosen
+ * - proportional: marks scaled by the share of correct options chosen
+ * - jee_advanced: +1 per correct option chosen, full marks when all are chosen
+ * Choosing any wrong option always costs the negative marks.
+ */
+export type MarkingScheme = "all_or_nothing" | "proportional" | "jee_advanced";
+
+/**
+ * How attempts after the first one are treated
+ * - ranked: every attempt is scored for rank
+ * - practice: only the first attempt is ranked, later ones are practice
+ */
+export type ReattemptMode = "ranked" | "practice";
+
+/**
+ * How a question is scored after an answer-key challenge is accepted
+ * - bonus: full marks to every student
+ * - dropped: left out of scoring for everyone
+ */
+export type QuestionResolution = "bonus" | "dropped";
+
 /**
  * Question reference within a test
  * Contains only the question ID and scoring information
@@ -10,6 +33,21 @@ export interface TestQuestion {
   marks: number;           // Marks for this question in this test
   negativeMarks: number;   // Negative marking for this question (0 if none)
   order: number;           // Order/position of question in the test
+  markingScheme?: MarkingScheme; // mcq_multiple only (defaults to all_or_nothing)
+  sectionId?: string;      // TestSection.id (tests with sections only)
+  resolution?: QuestionResolution; // set when an answer-key challenge is accepted
+  passageId?: string;      // copied from the question - passage questions stay together in the paper
+}
+
+/**
+ * Section of a test, e.g. Physics / Chemistry / Maths
+ */
+export interface TestSection {
+  id: string;                      // Stable id referenced by TestQuestion.sectionId
+  name: string;
+  instructions: string;            // Shown before the test and on the section tab
+  timeLimitMinutes: number | null; // Timed sections are taken one after another
+  attemptLimit?: number | null;    // "Attempt any N" - only the first N answered (in paper order) count
 }
 
 /**
@@ -20,6 +58,25 @@ export interface TestDoc {
   description: string;
   durationMinutes: number;
   questions: TestQuestion[];
+  sections?: TestSection[];  // Optional - tests without sections are one flat list
+  shuffleQuestions?: boolean; // Per-student question order (within each section)
+  shuffleOptions?: boolean;   // Per-student MCQ option order
+
+  // Availability window (optional - tests without one are always open)
+  startsAt?: Timestamp | null;      // Attempts cannot start before this
+  endsAt?: Timestamp | null;        // Attempts cannot start after this (live tests also end here)
+  lateEntryMinutes?: number | null; // Last start is startsAt + lateEntryMinutes (null = until endsAt)
+  liveMode?: boolean;               // Every attempt ends at endsAt regardless of when it started
+
+  // Attempt policy (optional - defaults to unlimited attempts, only the first ranked)
+  maxAttempts?: number | null;               // null = unlimited
+  reattemptMode?: ReattemptMode;
+  reattemptCooldownMinutes?: number | null;  // wait after finishing an attempt before the next
+
+  // Proctoring (optional - off by default)
+  proctored?: boolean;            // Record tab switches, fullscreen exits, copy/paste etc.
+  requireFullscreen?: boolean;    // The player must stay in fullscreen (proctored tests only)
+  maxViolations?: number | null;  // Auto-submit once this many violations are recorded (null = never)
   
   // Metadata
   createdAt: Timestamp;
@@ -42,6 +99,19 @@ export interface TestInput {
   description: string;
   durationMinutes: number;
   questions: TestQuestion[];
+  sections?: TestSection[];
+  shuffleQuestions?: boolean;
+  shuffleOptions?: boolean;
+  startsAt?: Timestamp | null;
+  endsAt?: Timestamp | null;
+  lateEntryMinutes?: number | null;
+  liveMode?: boolean;
+  maxAttempts?: number | null;
+  reattemptMode?: ReattemptMode;
+  reattemptCooldownMinutes?: number | null;
+  proctored?: boolean;
+  requireFullscreen?: boolean;
+  maxViolations?: number | null;
 }
 
 
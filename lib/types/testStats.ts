@@ -0,0 +1,76 @@
+// lib/types/testStats.ts
+import type { Timestamp } from "firebase/firestore";
+
+/**
+ * Number of ranked students with a given score
+ */
+export interface ScoreBucket {
+  score: number;
+  count: number;
+}
+
+/**
+ * Highest scorer of a subject in a test (ties share the spot)
+ */
+export interface SubjectTopper {
+  userId: string;
+  displayName: string;
+  score: number;
+  maxScore: number;
+}
+
+/**
+ * Aggregate rank data of a test, kept up to date as attempts are scored
+ * Stored at testStats/{testId}
+ */
+export interface TestStatsDoc {
+  testId: string;
+  participantCount: number;           // ranked students (one entry each)
+  scoreSum: number;                   // sum of the students' ranked scores
+  scoreDistribution: ScoreBucket[];   // highest score first
+  subjectToppers: Record<string, SubjectTopper[]>; // keyed by subject name
+  version?: number;                   // bumped on every write, so a rebuild can detect a racing update
+  updatedAt: Timestamp;
+}
+
+/**
+ * A student's ranked result in a test - their best ranked attempt
+ * Stored at testStats/{testId}/entries/{userId}
+ */
+export interface LeaderboardEntryDoc {
+  userId: string;
+  displayName: string;
+  attemptId: string;
+  score: number;
+  maxScore: number;
+  accuracy: number;
+  timeTakenSeconds: number;
+  submittedAt: Timestamp;
+}
+
+/**
+ * Leaderboard row as served to students
+ */
+export type LeaderboardRow = Omit<LeaderboardEntryDoc, "submittedAt"> & {
+  rank: number;                       // equal scores share a rank
+  percentile: number;
+};
+
+/**
+ * Leaderboard of a test as served by the leaderboard endpoint
+ */
+export interface TestLeaderboard {
+  participantCount: number;
+  averageScore: number;
+  rows: LeaderboardRow[];             // top of the leaderboard
+  subjectToppers: Record<string, SubjectTopper[]>;
+  me: LeaderboardRow | null;          // the caller's own row, even outside the top rows
+}
+
+/**
+ * Average time the toppers of a test spent on each question
+ */
+export interface TopperTimes {
+  topperCount: number;                // toppers the averages are taken over
+  averageSeconds: Record<string, number>; // keyed by questionId
+}
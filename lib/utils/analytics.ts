@@ -0,0 +1,166 @@
+// lib/utils/analytics.ts
+import type { Attempt, QuestionResult } from "@/lib/types/attempt";
+
+/**
+ * Level of the question taxonomy that results are grouped by
+ */
+export type AnalyticsLevel = "subject" | "chapter" | "topic" | "subtopic";
+
+export const ANALYTICS_LEVELS: { value: AnalyticsLevel; label: string }[] = [
+  { value: "subject", label: "Subject" },
+  { value: "chapter", label: "Chapter" },
+  { value: "topic", label: "Topic" },
+  { value: "subtopic", label: "Subtopic" },
+];
+
+/**
+ * A student's aggregated performance in one subject, chapter, topic or subtopic
+ */
+export interface PerformanceStat {
+  key: string;
+  subject: string;
+  chapter: string | null;         // null for subject-level stats
+  topic: string | null;           // null for subject/chapter-level stats
+  subtopic: string | null;        // null above subtopic level
+  questionCount: number;          // questions seen across all attempts
+  attempted: number;
+  correct: number;
+  partial: number;
+  incorrect: number;
+  accuracy: number;               // % of attempted questions answered correctly
+  avgTimeSeconds: number;         // average time per attempted question
+  score: number;
+  maxScore: number;
+}
+
+/**
+ * Score of one finished attempt, for the trend over tests
+ */
+export interface ScoreTrendPoint {
+  attemptId: string;
+  testId: string;
+  submittedAtMs: number;
+  score: number;
+  maxScore: number;
+  percentage: number;             // score as % of maxScore (negative with penalties)
+  accuracy: number;
+}
+
+// Weak topics need enough attempted questions for the accuracy to mean something
+const WEAK_TOPIC_MIN_ATTEMPTED = 3;
+const WEAK_TOPIC_MAX_ACCURACY = 60;
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function groupFor(result: QuestionResult, level: AnalyticsLevel) {
+  const chapter = level === "subject" ? null : result.chapter ?? "Uncategorised";
+  const topic = level === "subject" || level === "chapter" ? null : result.topic;
+  const subtopic = level === "subtopic" ? result.subtopic ?? "General" : null;
+  return {
+    key: [result.subject, chapter, topic, subtopic].filter((part) => part !== null).join(" › "),
+    subject: result.subject,
+    chapter,
+    topic,
+    subtopic,
+  };
+}
+
+/**
+ * Finished attempts that have been scored
+ */
+export function getScoredAttempts(attempts: Attempt[]): Attempt[] {
+  return attempts.filter((attempt) => attempt.status !== "in_progress" && attempt.result);
+}
+
+/**
+ * Aggregate question results of all scored attempts at one taxonomy level.
+ * Questions excluded by a section's attempt limit or dropped after a challenge are not counted.
+ */
+export function aggregatePerformance(
+  attempts: Attempt[],
+  level: AnalyticsLevel
+): PerformanceStat[] {
+  const stats = new Map<string, PerformanceStat & { timeSeconds: number }>();
+
+  getScoredAttempts(attempts).forEach((attempt) => {
+    Object.values(attempt.result!.questionResults).forEach((result) => {
+      if (result.beyondAttemptLimit || result.resolution === "dropped") return;
+
+      const group = groupFor(result, level);
+      let stat = stats.get(group.key);
+      if (!stat) {
+        stat = {
+          ...group,
+          questionCount: 0,
+          attempted: 0,
+          correct: 0,
+          partial: 0,
+          incorrect: 0,
+          accuracy: 0,
+          avgTimeSeconds: 0,
+          score: 0,
+          maxScore: 0,
+          timeSeconds: 0,
+        };
+        stats.set(group.key, stat);
+      }
+
+      stat.questionCount++;
+      stat.score += result.awardedMarks;
+      stat.maxScore += result.maxMarks;
+      if (result.outcome === "unattempted") return;
+
+      stat.attempted++;
+      stat.timeSeconds += result.timeSpentSeconds;
+      if (result.outcome === "correct") stat.correct++;
+      else if (result.outcome === "partial") stat.partial++;
+      else stat.incorrect++;
+    });
+  });
+
+  return Array.from(stats.values())
+    .map(({ timeSeconds, ...stat }) => ({
+      ...stat,
+      score: round2(stat.score),
+      accuracy: stat.attempted > 0 ? round2((stat.correct / stat.attempted) * 100) : 0,
+      avgTimeSeconds: stat.attempted > 0 ? Math.round(timeSeconds / stat.attempted) : 0,
+    }))
+    .sort((a, b) => a.key.localeCompare(b.key));
+}
+
+/**
+ * Scores of the scored attempts, oldest first
+ */
+export function getScoreTrend(attempts: Attempt[]): ScoreTrendPoint[] {
+  return getScoredAttempts(attempts)
+    .map((attempt) => {
+      const result = attempt.result!;
+      return {
+        attemptId: attempt.id,
+        testId: attempt.testId,
+        submittedAtMs: (attempt.submittedAt ?? attempt.startedAt).toMillis(),
+        score: result.totalScore,
+        maxScore: result.maxScore,
+        percentage: result.maxScore > 0 ? round2((result.totalScore / result.maxScore) * 100) : 0,
+        accuracy: result.accuracy,
+      };
+    })
+    .sort((a, b) => a.submittedAtMs - b.submittedAtMs);
+}
+
+/**
+ * Topics to revise - low accuracy over enough attempted questions, weakest first
+ * @param topicStats - Topic-level stats from aggregatePerformance
+ * @param limit - Maximum number of topics returned
+ */
+export function getWeakTopics(topicStats: PerformanceStat[], limit = 5): PerformanceStat[] {
+  return topicStats
+    .filter(
+      (stat) =>
+        stat.attempted >= WEAK_TOPIC_MIN_ATTEMPTED && stat.accuracy < WEAK_TOPIC_MAX_ACCURACY
+    )
+    .sort((a, b) => a.accuracy - b.accuracy || b.attempted - a.attempted)
+    .slice(0, limit);
+}
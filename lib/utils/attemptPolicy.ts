@@ -0,0 +1,107 @@
+// lib/utils/attemptPolicy.ts
+import type { Attempt } from "@/lib/types/attempt";
+import type { ReattemptMode, TestDoc } from "@/lib/types/test";
+import { getStartBlockReason, type ScheduledTest } from "./schedule";
+
+export const REATTEMPT_MODES: { value: ReattemptMode; label: string; description: string }[] = [
+  {
+    value: "practice",
+    label: "Practice only",
+    description: "Only the first attempt is ranked; re-attempts are for practice.",
+  },
+  {
+    value: "ranked",
+    label: "Ranked",
+    description: "Every attempt counts towards rank (best score wins).",
+  },
+];
+
+type AttemptPolicyTest = Pick<TestDoc, "maxAttempts" | "reattemptMode" | "reattemptCooldownMinutes">;
+
+/**
+ * Whether an attempt with the given number counts towards rank
+ */
+export function isAttemptRanked(test: AttemptPolicyTest, attemptNumber: number): boolean {
+  return attemptNumber === 1 || test.reattemptMode === "ranked";
+}
+
+/**
+ * When the next attempt may start after a cooldown, or null if there is none
+ * @param lastFinishedAtMs - When the student's latest attempt was submitted
+ */
+export function getCooldownEndsAtMs(
+  test: AttemptPolicyTest,
+  lastFinishedAtMs: number | null
+): number | null {
+  if (!test.reattemptCooldownMinutes || lastFinishedAtMs === null) return null;
+  return lastFinishedAtMs + test.reattemptCooldownMinutes * 60 * 1000;
+}
+
+/**
+ * Why the student cannot take another attempt, or null if they can
+ * @param finishedCount - Number of the student's submitted/expired attempts of the test
+ * @param lastFinishedAtMs - When the latest of them was submitted
+ */
+export function getReattemptBlockReason(
+  test: AttemptPolicyTest,
+  finishedCount: number,
+  lastFinishedAtMs: number | null,
+  nowMs: number
+): string | null {
+  if (test.maxAttempts && finishedCount >= test.maxAttempts) {
+    return test.maxAttempts === 1
+      ? "You have already attempted this test."
+      : `You have used all ${test.maxAttempts} attempts of this test.`;
+  }
+
+  const cooldownEndsAtMs = getCooldownEndsAtMs(test, lastFinishedAtMs);
+  if (cooldownEndsAtMs !== null && nowMs < cooldownEndsAtMs) {
+    const minutesLeft = Math.ceil((cooldownEndsAtMs - nowMs) / 60000);
+    return `You can reattempt this test in ${minutesLeft} minute${minutesLeft === 1 ? "" : "s"}.`;
+  }
+
+  return null;
+}
+
+/**
+ * What the test listing offers a student for a test
+ */
+export type TestAttemptAction = "attempt" | "resume" | "reattempt" | "view_result";
+
+export interface TestAttemptState {
+  action: TestAttemptAction;
+  latestResultId: string | null; // newest scored attempt, for "View Result"
+  finishedCount: number;
+  blockReason: string | null;    // why a new attempt cannot start (window or policy)
+}
+
+/**
+ * Decide the listing action from the student's attempts of a test
+ * @param attempts - The student's attempts of this test
+ */
+export function getTestAttemptState(
+  test: AttemptPolicyTest & ScheduledTest,
+  attempts: Attempt[],
+  nowMs: number
+): TestAttemptState {
+  const finished = attempts
+    .filter((attempt) => attempt.status !== "in_progress")
+    .sort((a, b) => (b.submittedAt?.toMillis() ?? 0) - (a.submittedAt?.toMillis() ?? 0));
+  const latestResultId = finished.find((attempt) => attempt.result)?.id ?? null;
+  const lastFinishedAtMs = finished[0]?.submittedAt?.toMillis() ?? null;
+
+  const blockReason =
+    getStartBlockReason(test, nowMs) ??
+    getReattemptBlockReason(test, finished.length, lastFinishedAtMs, nowMs);
+
+  let action: TestAttemptAction;
+  if (attempts.some((attempt) => attempt.status === "in_progress")) {
+    action = "resume";
+  } else if (finished.length === 0) {
+    action = "attempt";
+  } else {
+    action = blockReason ? "view_result" : "reattempt";
+  }
+
+  return { action, latestResultId, finishedCount: finished.length, blockReason };
+}
@@ -0,0 +1,151 @@
+// lib/utils/calibration.ts
+import type { AttemptDoc, AttemptResult } from "@/lib/types/attempt";
+import type { DifficultyLevel } from "@/lib/types/question";
+import type { CalibrationFlag, QuestionStatsDoc } from "@/lib/types/questionStats";
+
+export type ComputedQuestionStats = Omit<QuestionStatsDoc, "computedAt">;
+
+// Fewer responses than this are too noisy to judge a question by
+export const MIN_CALIBRATION_RESPONSES = 20;
+
+// Smallest group of attempts that can be split into quartiles
+const MIN_QUARTILE_ATTEMPTS = 4;
+
+export const CALIBRATION_FLAG_LABELS: Record<CalibrationFlag, string> = {
+  difficulty_mismatch: "Difficulty mismatch",
+  negative_discrimination: "Check answer key",
+};
+
+interface QuestionTally {
+  responseCount: number;
+  attemptedCount: number;
+  correctCount: number;
+  upperCount: number;
+  upperCorrect: number;
+  lowerCount: number;
+  lowerCorrect: number;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Difficulty band of a question from the % of students who got it right
+ */
+export function observedDifficultyFor(percentCorrect: number): DifficultyLevel {
+  if (percentCorrect >= 70) return "easy";
+  if (percentCorrect >= 40) return "medium";
+  return "hard";
+}
+
+/**
+ * Compute every question's empirical difficulty and discrimination index.
+ * Students are split into quartiles by total score within each test (scores of different
+ * tests are not comparable); counts are then pooled across tests.
+ * Practice re-attempts, questions excluded by an attempt limit and dropped questions are ignored.
+ */
+export function computeQuestionCalibration(
+  attempts: Pick<AttemptDoc, "testId" | "isRanked" | "result">[]
+): ComputedQuestionStats[] {
+  const scored = attempts.filter(
+    (attempt): attempt is typeof attempt & { result: AttemptResult } =>
+      !!attempt.result && attempt.isRanked !== false
+  );
+
+  const byTest = new Map<string, AttemptResult[]>();
+  scored.forEach((attempt) => {
+    byTest.set(attempt.testId, [...(byTest.get(attempt.testId) ?? []), attempt.result]);
+  });
+
+  const tallies = new Map<string, QuestionTally>();
+  const tallyFor = (questionId: string) => {
+    let tally = tallies.get(questionId);
+    if (!tally) {
+      tally = {
+        responseCount: 0,
+        attemptedCount: 0,
+        correctCount: 0,
+        upperCount: 0,
+        upperCorrect: 0,
+        lowerCount: 0,
+        lowerCorrect: 0,
+      };
+      tallies.set(questionId, tally);
+    }
+    return tally;
+  };
+
+  byTest.forEach((results) => {
+    const ranked = [...results].sort((a, b) => b.totalScore - a.totalScore);
+    const quartileSize =
+      ranked.length >= MIN_QUARTILE_ATTEMPTS ? Math.floor(ranked.length / 4) : 0;
+
+    ranked.forEach((result, index) => {
+      const isUpper = index < quartileSize;
+      const isLower = index >= ranked.length - quartileSize;
+
+      Object.entries(result.questionResults).forEach(([questionId, questionResult]) => {
+        if (questionResult.beyondAttemptLimit || questionResult.resolution === "dropped") return;
+        const tally = tallyFor(questionId);
+        const correct = questionResult.outcome === "correct";
+
+        tally.responseCount++;
+        if (questionResult.outcome !== "unattempted") tally.attemptedCount++;
+        if (correct) tally.correctCount++;
+        if (isUpper) {
+          tally.upperCount++;
+          if (correct) tally.upperCorrect++;
+        } else if (isLower) {
+          tally.lowerCount++;
+          if (correct) tally.lowerCorrect++;
+        }
+      });
+    });
+  });
+
+  return Array.from(tallies.entries()).map(([questionId, tally]) => {
+    const percentCorrect =
+      tally.responseCount > 0 ? round2((tally.correctCount / tally.responseCount) * 100) : 0;
+    const discriminationIndex =
+      tally.upperCount > 0 && tally.lowerCount > 0
+        ? round2(tally.upperCorrect / tally.upperCount - tally.lowerCorrect / tally.lowerCount)
+        : null;
+
+    return {
+      questionId,
+      responseCount: tally.responseCount,
+      attemptedCount: tally.attemptedCount,
+      correctCount: tally.correctCount,
+      percentCorrect,
+      discriminationIndex,
+      observedDifficulty:
+        tally.responseCount >= MIN_CALIBRATION_RESPONSES
+          ? observedDifficultyFor(percentCorrect)
+          : null,
+    };
+  });
+}
+
+/**
+ * Problems with a question's calibration.
+ * Checked against the current declared difficulty, so editing the question clears the flag.
+ */
+export function getCalibrationFlags(
+  declared: DifficultyLevel,
+  stats: Pick<QuestionStatsDoc, "observedDifficulty" | "discriminationIndex" | "responseCount">
+): CalibrationFlag[] {
+  const flags: CalibrationFlag[] = [];
+  if (stats.observedDifficulty && stats.observedDifficulty !== declared) {
+    flags.push("difficulty_mismatch");
+  }
+  // Weaker students doing better than stronger ones usually means a wrong answer key
+  if (
+    stats.responseCount >= MIN_CALIBRATION_RESPONSES &&
+    stats.discriminationIndex !== null &&
+    stats.discriminationIndex < 0
+  ) {
+    flags.push("negative_discrimination");
+  }
+  return flags;
+}
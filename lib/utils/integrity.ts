@@ -0,0 +1,38 @@
+// lib/utils/integrity.ts
+import type { IntegrityEventType } from "@/lib/types/attempt";
+import type { TestDoc } from "@/lib/types/test";
+
+export const INTEGRITY_EVENT_LABELS: Record<IntegrityEventType, string> = {
+  visibility_hidden: "Left the tab",
+  visibility_visible: "Returned to the tab",
+  window_blur: "Switched window",
+  fullscreen_exit: "Exited fullscreen",
+  copy: "Copy",
+  cut: "Cut",
+  paste: "Paste",
+  context_menu: "Right-click",
+};
+
+export const INTEGRITY_EVENT_TYPES = Object.keys(INTEGRITY_EVENT_LABELS) as IntegrityEventType[];
+
+type ProctoringTest = Pick<TestDoc, "proctored" | "requireFullscreen">;
+
+/**
+ * Whether an event counts towards the test's violation limit.
+ * Returning to the tab is only logged; leaving fullscreen counts only when fullscreen is required.
+ */
+export function isViolation(test: ProctoringTest, type: IntegrityEventType): boolean {
+  if (type === "visibility_visible") return false;
+  if (type === "fullscreen_exit") return !!test.requireFullscreen;
+  return true;
+}
+
+/**
+ * Whether a test with this many violations should be auto-submitted
+ */
+export function hasReachedViolationLimit(
+  test: Pick<TestDoc, "proctored" | "maxViolations">,
+  violationCount: number
+): boolean {
+  return !!test.proctored && !!test.maxViolations && violationCount >= test.maxViolations;
+}
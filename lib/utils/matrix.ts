@@ -0,0 +1,141 @@
+// lib/utils/matrix.ts
+import type { QuestionDoc } from "@/lib/types/question";
+
+export const MIN_MATRIX_SIZE = 2;
+export const MAX_MATRIX_SIZE = 6;
+
+type MatrixQuestion = Pick<QuestionDoc, "matrixRows" | "matrixColumns" | "correctOptions">;
+
+/**
+ * Label of a List-I entry (A, B, C, ...)
+ */
+export function matrixRowLabel(row: number): string {
+  return String.fromCharCode(65 + row);
+}
+
+/**
+ * Label of a List-II entry (P, Q, R, ...)
+ */
+export function matrixColumnLabel(column: number): string {
+  return String.fromCharCode(80 + column);
+}
+
+/**
+ * Flattened index of a matrix cell, as stored in selectedOptions / correctOptions
+ */
+export function matrixCellIndex(row: number, column: number, columnCount: number): number {
+  return row * columnCount + column;
+}
+
+/**
+ * Columns matched to one row, given a list of flattened cells
+ */
+export function getMatrixRowColumns(cells: number[], row: number, columnCount: number): number[] {
+  return cells
+    .filter((cell) => Math.floor(cell / columnCount) === row)
+    .map((cell) => cell % columnCount)
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Count the rows of a matrix-match answer that exactly match the answer key.
+ * A row left blank is not correct.
+ */
+export function countCorrectMatrixRows(question: MatrixQuestion, cells: number[]): number {
+  const rowCount = question.matrixRows?.length ?? 0;
+  const columnCount = question.matrixColumns?.length ?? 0;
+  if (columnCount === 0) return 0;
+
+  const correctCells = question.correctOptions ?? [];
+  let correctRows = 0;
+  for (let row = 0; row < rowCount; row++) {
+    const given = getMatrixRowColumns(cells, row, columnCount);
+    const expected = getMatrixRowColumns(correctCells, row, columnCount);
+    if (given.length > 0 && given.join(",") === expected.join(",")) {
+      correctRows++;
+    }
+  }
+  return correctRows;
+}
+
+/**
+ * Human-readable matching, e.g. "A → P, R; B → Q"
+ */
+export function describeMatrixAnswer(question: MatrixQuestion, cells: number[]): string {
+  const rowCount = question.matrixRows?.length ?? 0;
+  const columnCount = question.matrixColumns?.length ?? 0;
+  if (columnCount === 0) return "";
+
+  const parts: string[] = [];
+  for (let row = 0; row < rowCount; row++) {
+    const columns = getMatrixRowColumns(cells, row, columnCount);
+    if (columns.length === 0) continue;
+    parts.push(`${matrixRowLabel(row)} → ${columns.map(matrixColumnLabel).join(", ")}`);
+  }
+  return parts.join("; ");
+}
+
+export interface MatrixMatchFields {
+  rows: string[];
+  columns: string[];
+  correct: boolean[][]; // correct[row][column]
+}
+
+export const EMPTY_MATRIX_FIELDS: MatrixMatchFields = {
+  rows: ["", "", "", ""],
+  columns: ["", "", "", ""],
+  correct: Array.from({ length: 4 }, () => [false, false, false, false]),
+};
+
+/**
+ * Validate the admin form fields of a matrix-match question
+ * @returns The lists and answer key, or an error message for the form
+ */
+export function buildMatrixMatchAnswer(
+  fields: MatrixMatchFields
+):
+  | { matrixRows: string[]; matrixColumns: string[]; correctOptions: number[]; error?: undefined }
+  | { matrixRows?: undefined; matrixColumns?: undefined; correctOptions?: undefined; error: string } {
+  const matrixRows = fields.rows.map((row) => row.trim());
+  const matrixColumns = fields.columns.map((column) => column.trim());
+
+  if (matrixRows.length < MIN_MATRIX_SIZE || matrixColumns.length < MIN_MATRIX_SIZE) {
+    return { error: `List-I and List-II need at least ${MIN_MATRIX_SIZE} entries each.` };
+  }
+  if (matrixRows.some((row) => row === "") || matrixColumns.some((column) => column === "")) {
+    return { error: "Fill in every List-I and List-II entry, or remove the empty ones." };
+  }
+
+  const correctOptions: number[] = [];
+  for (let row = 0; row < matrixRows.length; row++) {
+    const matched = matrixColumns
+      .map((_, column) => column)
+      .filter((column) => fields.correct[row]?.[column]);
+    if (matched.length === 0) {
+      return { error: `Match entry ${matrixRowLabel(row)} of List-I to at least one entry of List-II.` };
+    }
+    matched.forEach((column) =>
+      correctOptions.push(matrixCellIndex(row, column, matrixColumns.length))
+    );
+  }
+
+  return { matrixRows, matrixColumns, correctOptions };
+}
+
+/**
+ * Populate the matrix-match fields from a stored question
+ */
+export function matrixFieldsFromQuestion(question: MatrixQuestion): MatrixMatchFields {
+  const rows = question.matrixRows ?? [];
+  const columns = question.matrixColumns ?? [];
+  if (rows.length === 0 || columns.length === 0) return EMPTY_MATRIX_FIELDS;
+
+  const correctCells = new Set(question.correctOptions ?? []);
+  return {
+    rows: [...rows],
+    columns: [...columns],
+    correct: rows.map((_, row) =>
+      columns.map((_, column) => correctCells.has(matrixCellIndex(row, column, columns.length)))
+    ),
+  };
+}
@@ -0,0 +1,241 @@
+// lib/utils/numerical.ts
+import type {
+  IntegerAnswerRange,
+  NumericalAnswerMode,
+  NumericalAnswerSpec,
+  QuestionDoc,
+} from "@/lib/types/question";
+
+// Relative precision used when comparing "exact" decimal answers
+const EXACT_EPSILON = 1e-9;
+
+export const NUMERICAL_ANSWER_MODES: { value: NumericalAnswerMode; label: string }[] = [
+  { value: "exact", label: "Exact value" },
+  { value: "absolute_tolerance", label: "Value ± absolute tolerance" },
+  { value: "relative_tolerance", label: "Value ± relative tolerance (%)" },
+  { value: "range", label: "Inclusive range" },
+  { value: "integer", label: "Integer only" },
+];
+
+export const INTEGER_ANSWER_RANGES: { value: IntegerAnswerRange; label: string }[] = [
+  { value: "single_digit", label: "Single digit (0-9)" },
+  { value: "any", label: "Any integer" },
+];
+
+/**
+ * Parse a numerical answer typed by a student or admin.
+ * Accepts integers, decimals ("2.50", ".5"), scientific notation ("1e-3")
+ * and simple fractions ("5/2"). Returns null when the text is not a number.
+ */
+export function parseNumericalAnswer(text: string | null | undefined): number | null {
+  if (text === null || text === undefined) return null;
+  const cleaned = text.replace(/\s+/g, "");
+  if (cleaned === "") return null;
+
+  const fraction = cleaned.match(/^([+-]?\d+(?:\.\d+)?)\/([+-]?\d+(?:\.\d+)?)$/);
+  if (fraction) {
+    const denominator = Number(fraction[2]);
+    if (denominator === 0) return null;
+    return Number(fraction[1]) / denominator;
+  }
+
+  if (!/^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i.test(cleaned)) return null;
+  const value = Number(cleaned);
+  return Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Build an exact-match spec from a legacy free-text correctAnswer
+ */
+export function specFromCorrectAnswer(correctAnswer: string | null | undefined): NumericalAnswerSpec | null {
+  const value = parseNumericalAnswer(correctAnswer);
+  if (value === null) return null;
+  return { mode: "exact", value, tolerance: null, min: null, max: null };
+}
+
+/**
+ * Check a student's answer against a numerical answer spec
+ */
+export function isNumericalAnswerCorrect(
+  answer: string | null | undefined,
+  spec: NumericalAnswerSpec
+): boolean {
+  const given = parseNumericalAnswer(answer);
+  if (given === null) return false;
+
+  switch (spec.mode) {
+    case "exact": {
+      if (spec.value === null) return false;
+      const scale = Math.max(1, Math.abs(spec.value));
+      return Math.abs(given - spec.value) <= EXACT_EPSILON * scale;
+    }
+    case "absolute_tolerance":
+      if (spec.value === null || spec.tolerance === null) return false;
+      return Math.abs(given - spec.value) <= spec.tolerance + EXACT_EPSILON;
+    case "relative_tolerance":
+      if (spec.value === null || spec.tolerance === null) return false;
+      return (
+        Math.abs(given - spec.value) <=
+        Math.abs(spec.value) * (spec.tolerance / 100) + EXACT_EPSILON
+      );
+    case "range":
+      if (spec.min === null || spec.max === null) return false;
+      return given >= spec.min - EXACT_EPSILON && given <= spec.max + EXACT_EPSILON;
+    case "integer":
+      if (spec.value === null) return false;
+      return /^[+-]?\d+$/.test((answer ?? "").trim()) && given === spec.value;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Human-readable description of the accepted answer, e.g. "9.8 ± 0.1"
+ */
+export function describeNumericalAnswer(spec: NumericalAnswerSpec): string {
+  switch (spec.mode) {
+    case "absolute_tolerance":
+      return `${spec.value} ± ${spec.tolerance}`;
+    case "relative_tolerance":
+      return `${spec.value} ± ${spec.tolerance}%`;
+    case "range":
+      return `${spec.min} to ${spec.max} (inclusive)`;
+    case "integer":
+      return `${spec.value} (integer)`;
+    default:
+      return `${spec.value}`;
+  }
+}
+
+export interface NumericalAnswerFields {
+  mode: NumericalAnswerMode;
+  value: string;
+  tolerance: string;
+  min: string;
+  max: string;
+}
+
+/**
+ * Validate the admin form fields and build a numerical answer spec
+ * @returns The spec, or an error message for the form
+ */
+export function buildNumericalAnswerSpec(
+  fields: NumericalAnswerFields
+): { spec: NumericalAnswerSpec; error?: undefined } | { spec?: undefined; error: string } {
+  const value = parseNumericalAnswer(fields.value);
+  const tolerance = parseNumericalAnswer(fields.tolerance);
+  const min = parseNumericalAnswer(fields.min);
+  const max = parseNumericalAnswer(fields.max);
+
+  switch (fields.mode) {
+    case "exact":
+      if (value === null) return { error: "Correct answer must be a number (e.g. 2.5 or 5/2)." };
+      return { spec: { mode: "exact", value, tolerance: null, min: null, max: null } };
+    case "absolute_tolerance":
+    case "relative_tolerance":
+      if (value === null) return { error: "Correct answer must be a number (e.g. 2.5 or 5/2)." };
+      if (tolerance === null || tolerance < 0) {
+        return { error: "Tolerance must be a non-negative number." };
+      }
+      return { spec: { mode: fields.mode, value, tolerance, min: null, max: null } };
+    case "range":
+      if (min === null || max === null) return { error: "Range minimum and maximum must be numbers." };
+      if (min > max) return { error: "Range minimum cannot be greater than the maximum." };
+      return { spec: { mode: "range", value: null, tolerance: null, min, max } };
+    case "integer":
+      if (value === null || !Number.isInteger(value)) {
+        return { error: "Correct answer must be a whole number in integer-only mode." };
+      }
+      return { spec: { mode: "integer", value, tolerance: null, min: null, max: null } };
+    default:
+      return { error: "Unknown numerical answer mode." };
+  }
+}
+
+export const EMPTY_NUMERICAL_FIELDS: NumericalAnswerFields = {
+  mode: "exact",
+  value: "",
+  tolerance: "",
+  min: "",
+  max: "",
+};
+
+/**
+ * Populate the admin form fields from a stored question
+ */
+export function numericalFieldsFromQuestion(
+  spec: NumericalAnswerSpec | null | undefined,
+  correctAnswer: string | null | undefined
+): NumericalAnswerFields {
+  if (!spec) {
+    return { ...EMPTY_NUMERICAL_FIELDS, value: correctAnswer ?? "" };
+  }
+  const text = (n: number | null) => (n === null ? "" : n.toString());
+  return {
+    mode: spec.mode,
+    value: text(spec.value),
+    tolerance: text(spec.tolerance),
+    min: text(spec.min),
+    max: text(spec.max),
+  };
+}
+
+/**
+ * Check a student's answer to an integer-type question
+ */
+export function isIntegerAnswerCorrect(
+  answer: string | null | undefined,
+  question: Pick<QuestionDoc, "numericalAnswer" | "correctAnswer" | "integerRange">
+): boolean {
+  const spec = question.numericalAnswer ?? specFromCorrectAnswer(question.correctAnswer);
+  if (!spec) return false;
+  if (question.integerRange === "single_digit" && !/^\d$/.test((answer ?? "").trim())) {
+    return false;
+  }
+  return isNumericalAnswerCorrect(answer, { ...spec, mode: "integer" });
+}
+
+export interface IntegerAnswerFields {
+  range: IntegerAnswerRange;
+  value: string;
+}
+
+export const EMPTY_INTEGER_FIELDS: IntegerAnswerFields = {
+  range: "single_digit",
+  value: "",
+};
+
+/**
+ * Validate the admin form fields of an integer-type question
+ * @returns The answer spec and range, or an error message for the form
+ */
+export function buildIntegerAnswer(
+  fields: IntegerAnswerFields
+):
+  | { spec: NumericalAnswerSpec; range: IntegerAnswerRange; error?: undefined }
+  | { spec?: undefined; range?: undefined; error: string } {
+  const text = fields.value.trim();
+  if (!/^[+-]?\d+$/.test(text)) {
+    return { error: "Correct answer must be a whole number." };
+  }
+  const value = Number(text);
+  if (fields.range === "single_digit" && (value < 0 || value > 9)) {
+    return { error: "A single-digit answer must be between 0 and 9." };
+  }
+  return {
+    spec: { mode: "integer", value, tolerance: null, min: null, max: null },
+    range: fields.range,
+  };
+}
+
+/**
+ * Populate the integer answer fields from a stored question
+ */
+export function integerFieldsFromQuestion(
+  question: Pick<QuestionDoc, "numericalAnswer" | "correctAnswer" | "integerRange">
+): IntegerAnswerFields {
+  return {
+    range: question.integerRange ?? "any",
+    value: question.numericalAnswer?.value?.toString() ?? question.correctAnswer ?? "",
+  };
+}
@@ -0,0 +1,105 @@
+// lib/utils/offlineQueue.ts
+import type { AttemptProgress } from "@/lib/types/attempt";
+
+const DB_NAME = "acadxl-offline";
+const DB_VERSION = 1;
+const STORE_NAME = "attemptSnapshots";
+
+/**
+ * Latest player state of an attempt that has not reached the server yet.
+ * Progress is the full state, so only the newest snapshot per attempt is kept.
+ */
+export interface QueuedAttemptSnapshot {
+  attemptId: string;
+  progress: AttemptProgress;
+  capturedAt: number;             // ms since epoch, corrected to the server clock
+  submitRequested: boolean;       // the student submitted while offline
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function isIndexedDbAvailable(): boolean {
+  return typeof indexedDB !== "undefined";
+}
+
+function openQueueDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: "attemptId" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error ?? new Error("Failed to open the offline store"));
+      };
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Run one request against the snapshot store and resolve with its result
+ */
+async function runRequest<T>(
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const database = await openQueueDb();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(STORE_NAME, mode);
+    const request = makeRequest(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () =>
+      reject(transaction.error ?? new Error("Offline store request failed"));
+  });
+}
+
+/**
+ * Store the latest snapshot of an attempt on this device
+ */
+export async function saveQueuedSnapshot(snapshot: QueuedAttemptSnapshot): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+  try {
+    await runRequest("readwrite", (store) => store.put(snapshot));
+  } catch (error) {
+    console.error("[Offline Queue] Error saving snapshot:", error);
+    throw error;
+  }
+}
+
+/**
+ * Snapshot of an attempt still waiting to be synced, or null if there is none
+ */
+export async function getQueuedSnapshot(attemptId: string): Promise<QueuedAttemptSnapshot | null> {
+  if (!isIndexedDbAvailable()) return null;
+  try {
+    const snapshot = await runRequest<QueuedAttemptSnapshot | undefined>("readonly", (store) =>
+      store.get(attemptId)
+    );
+    return snapshot ?? null;
+  } catch (error) {
+    console.error("[Offline Queue] Error reading snapshot:", error);
+    return null;
+  }
+}
+
+/**
+ * Remove an attempt's snapshot once it has been synced.
+ * A snapshot captured after `syncedCapturedAt` is newer than what was synced and is kept.
+ */
+export async function removeQueuedSnapshot(
+  attemptId: string,
+  syncedCapturedAt?: number
+): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+  try {
+    const current = await getQueuedSnapshot(attemptId);
+    if (!current) return;
+    if (syncedCapturedAt !== undefined && current.capturedAt > syncedCapturedAt) return;
+    await runRequest("readwrite", (store) => store.delete(attemptId));
+  } catch (error) {
+    console.error("[Offline Queue] Error removing snapshot:", error);
+  }
+}
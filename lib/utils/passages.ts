@@ -0,0 +1,58 @@
+// lib/utils/passages.ts
+import type { TestQuestion } from "@/lib/types/test";
+
+/**
+ * Split questions into blocks: each passage's questions form one block (placed where the
+ * passage first appears, in their existing order) and every other question is its own block.
+ */
+export function getPassageBlocks<T>(
+  items: T[],
+  getTestQuestion: (item: T) => TestQuestion
+): T[][] {
+  const blocks: T[][] = [];
+  const passageBlocks = new Map<string, T[]>();
+
+  for (const item of items) {
+    const passageId = getTestQuestion(item).passageId;
+    if (!passageId) {
+      blocks.push([item]);
+      continue;
+    }
+    const block = passageBlocks.get(passageId);
+    if (block) {
+      block.push(item);
+    } else {
+      const newBlock = [item];
+      passageBlocks.set(passageId, newBlock);
+      blocks.push(newBlock);
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Reorder questions so each passage's questions sit next to each other
+ */
+export function groupPassageQuestions<T>(
+  items: T[],
+  getTestQuestion: (item: T) => TestQuestion
+): T[] {
+  return getPassageBlocks(items, getTestQuestion).flat();
+}
+
+/**
+ * First passage whose questions are spread over more than one section, if any
+ */
+export function findSplitPassage(testQuestions: TestQuestion[]): string | null {
+  const sectionByPassage = new Map<string, string | undefined>();
+  for (const tq of testQuestions) {
+    if (!tq.passageId) continue;
+    if (!sectionByPassage.has(tq.passageId)) {
+      sectionByPassage.set(tq.passageId, tq.sectionId);
+    } else if (sectionByPassage.get(tq.passageId) !== tq.sectionId) {
+      return tq.passageId;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,9 @@
+// lib/utils/practice.ts
+import type { PracticeScope } from "@/lib/types/practice";
+
+/**
+ * Subject / chapter / topic of a practice session as one line
+ */
+export function describePracticeScope(scope: PracticeScope): string {
+  return [scope.subject, scope.chapter, scope.topic].filter(Boolean).join(" / ");
+}
@@ -0,0 +1,119 @@
+// lib/utils/questionTemplates.ts
+import type { QuestionDoc, QuestionTemplate } from "@/lib/types/question";
+
+/**
+ * Template names for selects, tables and badges
+ */
+export const QUESTION_TEMPLATE_LABELS: Record<QuestionTemplate, string> = {
+  assertion_reason: "Assertion - Reason",
+  statement_pair: "Statement I / Statement II",
+};
+
+export const QUESTION_TEMPLATES: { value: QuestionTemplate; label: string }[] = (
+  Object.keys(QUESTION_TEMPLATE_LABELS) as QuestionTemplate[]
+).map((value) => ({ value, label: QUESTION_TEMPLATE_LABELS[value] }));
+
+/**
+ * Labels of the two statements an author fills in, per template
+ */
+export const TEMPLATE_STATEMENT_LABELS: Record<QuestionTemplate, [string, string]> = {
+  assertion_reason: ["Assertion (A)", "Reason (R)"],
+  statement_pair: ["Statement I", "Statement II"],
+};
+
+/**
+ * The canned options, in the order NEET prints them
+ */
+export const TEMPLATE_OPTIONS: Record<QuestionTemplate, string[]> = {
+  assertion_reason: [
+    "Both Assertion (A) and Reason (R) are true and Reason (R) is the correct explanation of Assertion (A).",
+    "Both Assertion (A) and Reason (R) are true but Reason (R) is not the correct explanation of Assertion (A).",
+    "Assertion (A) is true but Reason (R) is false.",
+    "Assertion (A) is false but Reason (R) is true.",
+  ],
+  statement_pair: [
+    "Both Statement I and Statement II are true.",
+    "Both Statement I and Statement II are false.",
+    "Statement I is true but Statement II is false.",
+    "Statement I is false but Statement II is true.",
+  ],
+};
+
+const TEMPLATE_INTROS: Record<QuestionTemplate, string> = {
+  assertion_reason:
+    "Given below are two statements: one is labelled as Assertion (A) and the other is labelled as Reason (R).",
+  statement_pair: "Given below are two statements:",
+};
+
+const TEMPLATE_OUTRO =
+  "In the light of the above statements, choose the correct answer from the options given below.";
+
+type TemplateQuestion = Pick<QuestionDoc, "template" | "statements" | "correctOptions">;
+
+export interface TemplateFields {
+  statements: [string, string]; // rich text HTML
+  correctOption: number | null; // index into TEMPLATE_OPTIONS
+}
+
+export const EMPTY_TEMPLATE_FIELDS: TemplateFields = {
+  statements: ["", ""],
+  correctOption: null,
+};
+
+// An emptied editor can leave markup such as "<p>&nbsp;</p>" behind
+function isBlankHtml(html: string): boolean {
+  return html.replace(/<img\b/gi, "x").replace(/<[^>]*>/g, "").replace(/&nbsp;/g, " ").trim() === "";
+}
+
+/**
+ * Build the full question text (HTML) shown to students from the two statements
+ */
+export function buildTemplateText(template: QuestionTemplate, statements: string[]): string {
+  const labels = TEMPLATE_STATEMENT_LABELS[template];
+  const parts = [`<p>${TEMPLATE_INTROS[template]}</p>`];
+  labels.forEach((label, index) => {
+    parts.push(`<p><strong>${label}:</strong></p>`, statements[index] ?? "");
+  });
+  parts.push(`<p>${TEMPLATE_OUTRO}</p>`);
+  return parts.join("");
+}
+
+/**
+ * Validate the admin form fields of a templated question
+ * @returns The generated text, options and answer key, or an error message for the form
+ */
+export function buildTemplateQuestion(
+  template: QuestionTemplate,
+  fields: TemplateFields
+):
+  | { text: string; options: string[]; correctOptions: number[]; statements: string[]; error?: undefined }
+  | { text?: undefined; options?: undefined; correctOptions?: undefined; statements?: undefined; error: string } {
+  const statements = fields.statements.map((statement) => statement.trim());
+  const labels = TEMPLATE_STATEMENT_LABELS[template];
+
+  const missing = statements.findIndex(isBlankHtml);
+  if (missing !== -1) {
+    return { error: `${labels[missing]} is required.` };
+  }
+  if (fields.correctOption === null) {
+    return { error: "Please select the correct option." };
+  }
+
+  return {
+    text: buildTemplateText(template, statements),
+    options: [...TEMPLATE_OPTIONS[template]],
+    correctOptions: [fields.correctOption],
+    statements,
+  };
+}
+
+/**
+ * Populate the template fields from a stored question
+ */
+export function templateFieldsFromQuestion(question: TemplateQuestion): TemplateFields {
+  if (!question.template) return EMPTY_TEMPLATE_FIELDS;
+  return {
+    statements: [question.statements?.[0] ?? "", question.statements?.[1] ?? ""],
+    correctOption: question.correctOptions?.[0] ?? null,
+  };
+}
@@ -0,0 +1,14 @@
+// lib/utils/questionTypes.ts
+import type { QuestionType } from "@/lib/types/question";
+
+/**
+ * Short question type names for tables and badges
+ */
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  mcq_single: "MCQ (Single)",
+  mcq_multiple: "MCQ (Multiple)",
+  numerical: "Numerical",
+  integer: "Integer",
+  matrix_match: "Matrix Match",
+  subjective: "Subjective",
+};
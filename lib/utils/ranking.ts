@@ -0,0 +1,98 @@
+// lib/utils/ranking.ts
+import type { ScoreBreakdown } from "@/lib/types/attempt";
+import type { ScoreBucket, SubjectTopper } from "@/lib/types/testStats";
+
+/**
+ * Round a score so that equal marks compare equal (partial marks use 2 decimals)
+ */
+function normalizeScore(score: number): number {
+  return Math.round(score * 100) / 100;
+}
+
+/**
+ * Add one student's score to a distribution (highest score first)
+ */
+export function addToDistribution(distribution: ScoreBucket[], score: number): ScoreBucket[] {
+  const normalized = normalizeScore(score);
+  const existing = distribution.find((bucket) => bucket.score === normalized);
+  const next = existing
+    ? distribution.map((bucket) =>
+        bucket === existing ? { ...bucket, count: bucket.count + 1 } : bucket
+      )
+    : [...distribution, { score: normalized, count: 1 }];
+  return next.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Remove one student's score from a distribution (when they improve it)
+ */
+export function removeFromDistribution(distribution: ScoreBucket[], score: number): ScoreBucket[] {
+  const normalized = normalizeScore(score);
+  return distribution
+    .map((bucket) => (bucket.score === normalized ? { ...bucket, count: bucket.count - 1 } : bucket))
+    .filter((bucket) => bucket.count > 0);
+}
+
+/**
+ * Rank of a score - students with equal scores share a rank ("1, 2, 2, 4")
+ */
+export function rankForScore(distribution: ScoreBucket[], score: number): number {
+  const normalized = normalizeScore(score);
+  return (
+    1 +
+    distribution
+      .filter((bucket) => bucket.score > normalized)
+      .reduce((sum, bucket) => sum + bucket.count, 0)
+  );
+}
+
+/**
+ * Percentile of a score - % of students scoring the same or lower (NTA style)
+ */
+export function percentileForScore(distribution: ScoreBucket[], score: number): number {
+  const total = distribution.reduce((sum, bucket) => sum + bucket.count, 0);
+  if (total === 0) return 0;
+  const normalized = normalizeScore(score);
+  const atOrBelow = distribution
+    .filter((bucket) => bucket.score <= normalized)
+    .reduce((sum, bucket) => sum + bucket.count, 0);
+  return Math.round((atOrBelow / total) * 10000) / 100;
+}
+
+/**
+ * Fold a student's subject scores into the subject toppers.
+ * Toppers only ever move up, so a student's lower later score never removes them.
+ */
+export function mergeSubjectToppers(
+  toppers: Record<string, SubjectTopper[]>,
+  subjectBreakdown: ScoreBreakdown[],
+  student: { userId: string; displayName: string }
+): Record<string, SubjectTopper[]> {
+  const merged = { ...toppers };
+
+  subjectBreakdown.forEach((entry) => {
+    const score = normalizeScore(entry.score);
+    const current = (merged[entry.subject] ?? []).filter(
+      (topper) => topper.userId !== student.userId || topper.score > score
+    );
+    const best = current[0]?.score ?? null;
+    const candidate: SubjectTopper = {
+      userId: student.userId,
+      displayName: student.displayName,
+      score,
+      maxScore: entry.maxScore,
+    };
+
+    if (current.some((topper) => topper.userId === student.userId)) {
+      merged[entry.subject] = current; // already a topper with a better score
+    } else if (best === null || score > best) {
+      merged[entry.subject] = [candidate];
+    } else if (score === best) {
+      merged[entry.subject] = [...current, candidate];
+    } else {
+      merged[entry.subject] = current;
+    }
+  });
+
+  return merged;
+}
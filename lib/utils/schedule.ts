@@ -0,0 +1,157 @@
+// lib/utils/schedule.ts
+import type { AttemptDoc } from "@/lib/types/attempt";
+import type { TestDoc } from "@/lib/types/test";
+
+/**
+ * Where a scheduled test is in its availability window
+ */
+export type TestWindowStatus = "upcoming" | "live" | "ended";
+
+export type ScheduledTest = Pick<
+  TestDoc,
+  "durationMinutes" | "startsAt" | "endsAt" | "lateEntryMinutes" | "liveMode"
+>;
+
+/**
+ * Status of the test's availability window, or null when the test is always open
+ */
+export function getTestWindowStatus(test: ScheduledTest, nowMs: number): TestWindowStatus | null {
+  if (!test.startsAt && !test.endsAt) return null;
+  if (test.startsAt && nowMs < test.startsAt.toMillis()) return "upcoming";
+  if (test.endsAt && nowMs >= test.endsAt.toMillis()) return "ended";
+  return "live";
+}
+
+/**
+ * Last moment a new attempt may be started, or null if there is no cutoff
+ */
+export function getEntryCutoffMs(test: ScheduledTest): number | null {
+  const cutoffs: number[] = [];
+  if (test.endsAt) cutoffs.push(test.endsAt.toMillis());
+  if (test.startsAt && test.lateEntryMinutes !== null && test.lateEntryMinutes !== undefined) {
+    cutoffs.push(test.startsAt.toMillis() + test.lateEntryMinutes * 60 * 1000);
+  }
+  return cutoffs.length > 0 ? Math.min(...cutoffs) : null;
+}
+
+/**
+ * Why a new attempt cannot be started right now, or null if it can
+ */
+export function getStartBlockReason(test: ScheduledTest, nowMs: number): string | null {
+  const status = getTestWindowStatus(test, nowMs);
+  if (status === "upcoming") return "This test has not opened yet.";
+  if (status === "ended") return "This test has ended.";
+
+  const cutoffMs = getEntryCutoffMs(test);
+  if (cutoffMs !== null && nowMs >= cutoffMs) {
+    return "Entry to this test has closed.";
+  }
+  return null;
+}
+
+/**
+ * When an attempt started at startedAtMs runs out.
+ * Live tests end for everyone at endsAt; otherwise each attempt gets the full duration,
+ * even if that runs past endsAt (endsAt only closes entry).
+ */
+export function getAttemptExpiresAtMs(test: ScheduledTest, startedAtMs: number): number {
+  if (test.liveMode && test.endsAt) {
+    return test.endsAt.toMillis();
+  }
+  return startedAtMs + test.durationMinutes * 60 * 1000;
+}
+
+/**
+ * Deadline of an attempt (attempts started before expiresAt existed use the test duration)
+ */
+export function getAttemptDeadlineMs(
+  attempt: Pick<AttemptDoc, "startedAt" | "expiresAt">,
+  test: Pick<TestDoc, "durationMinutes">
+): number {
+  return attempt.expiresAt
+    ? attempt.expiresAt.toMillis()
+    : attempt.startedAt.toMillis() + test.durationMinutes * 60 * 1000;
+}
+
+/**
+ * Time a ranked attempt took: from its start to its submission, never past the deadline.
+ * Shared by the incremental stats update and the rebuild so topper times agree.
+ */
+export function getRankedTimeSeconds(
+  startedAtMs: number,
+  submittedAtMs: number,
+  deadlineMs: number
+): number {
+  return Math.max(0, Math.round((Math.min(submittedAtMs, deadlineMs) - startedAtMs) / 1000));
+}
+
+/**
+ * Format a window time for display, e.g. "12 Oct 2026, 9:00 am"
+ */
+export function formatScheduleTime(ms: number): string {
+  return new Date(ms).toLocaleString("en-IN", { dateStyle: "medium", timeStyle: "short" });
+}
+
+/**
+ * Availability window fields of the admin test form
+ */
+export interface TestScheduleDraft {
+  startsAt: string;         // datetime-local value ("" = none)
+  endsAt: string;           // datetime-local value ("" = none)
+  lateEntryMinutes: string; // "" = entry allowed until endsAt
+  liveMode: boolean;
+}
+
+export interface ParsedTestSchedule {
+  startsAtMs: number | null;
+  endsAtMs: number | null;
+  lateEntryMinutes: number | null;
+  liveMode: boolean;
+}
+
+/**
+ * Validate the admin form's window fields
+ * @returns The parsed window, or an error message for the form
+ */
+export function parseTestSchedule(
+  draft: TestScheduleDraft
+): { schedule: ParsedTestSchedule; error?: undefined } | { schedule?: undefined; error: string } {
+  const parseTime = (value: string) => (value.trim() === "" ? null : new Date(value).getTime());
+  const startsAtMs = parseTime(draft.startsAt);
+  const endsAtMs = parseTime(draft.endsAt);
+
+  if (Number.isNaN(startsAtMs) || Number.isNaN(endsAtMs)) {
+    return { error: "Start and end times must be valid dates." };
+  }
+  if (startsAtMs !== null && endsAtMs !== null && endsAtMs <= startsAtMs) {
+    return { error: "The test must end after it starts." };
+  }
+
+  let lateEntryMinutes: number | null = null;
+  if (draft.lateEntryMinutes.trim() !== "") {
+    lateEntryMinutes = Number(draft.lateEntryMinutes);
+    if (!Number.isInteger(lateEntryMinutes) || lateEntryMinutes < 0) {
+      return { error: "Late entry must be a whole number of minutes (0 or more)." };
+    }
+    if (startsAtMs === null) {
+      return { error: "Late entry needs a start time." };
+    }
+  }
+
+  if (draft.liveMode && (startsAtMs === null || endsAtMs === null)) {
+    return { error: "Live tests need both a start and an end time." };
+  }
+
+  return { schedule: { startsAtMs, endsAtMs, lateEntryMinutes, liveMode: draft.liveMode } };
+}
+
+/**
+ * Duration of a live test in minutes (it runs from startsAt to endsAt), or null
+ */
+export function getLiveDurationMinutes(draft: TestScheduleDraft): number | null {
+  if (!draft.liveMode || draft.startsAt === "" || draft.endsAt === "") return null;
+  const minutes = Math.round(
+    (new Date(draft.endsAt).getTime() - new Date(draft.startsAt).getTime()) / 60000
+  );
+  return Number.isNaN(minutes) || minutes <= 0 ? null : minutes;
+}
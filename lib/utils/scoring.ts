@@ -0,0 +1,382 @@
+// lib/utils/scoring.ts
+import type { QuestionDoc } from "@/lib/types/question";
+import type { MarkingScheme, TestQuestion, TestSection } from "@/lib/types/test";
+import type {
+  AttemptResult,
+  QuestionOutcome,
+  QuestionResponse,
+  QuestionResult,
+  ScoreBreakdown,
+  SubjectiveGrade,
+} from "@/lib/types/attempt";
+import { isIntegerAnswerCorrect, isNumericalAnswerCorrect, specFromCorrectAnswer } from "./numerical";
+import { countCorrectMatrixRows } from "./matrix";
+import { sortQuestionsBySection } from "./sections";
+import { getGradedMarks, hasSubjectiveAnswer } from "./subjective";
+
+export const MARKING_SCHEMES: { value: MarkingScheme; label: string; description: string }[] = [
+  {
+    value: "all_or_nothing",
+    label: "All or nothing",
+    description: "Full marks only if exactly the correct options are chosen.",
+  },
+  {
+    value: "proportional",
+    label: "Proportional",
+    description: "Marks in proportion to the correct options chosen, if no wrong option is chosen.",
+  },
+  {
+    value: "jee_advanced",
+    label: "JEE Advanced",
+    description: "+1 for each correct option chosen (full marks for all), if no wrong option is chosen.",
+  },
+];
+
+/**
+ * Attempt result before the server stamps it with scoredAt
+ */
+export type ComputedAttemptResult = Omit<AttemptResult, "scoredAt">;
+
+/**
+ * Whether a response contains an answer for the given question type
+ */
+export function hasResponse(
+  question: Pick<QuestionDoc, "type">,
+  response: QuestionResponse | undefined
+): boolean {
+  if (!response) return false;
+  if (question.type === "numerical" || question.type === "integer") {
+    return (response.numericalAnswer ?? "").trim() !== "";
+  }
+  if (question.type === "subjective") {
+    return hasSubjectiveAnswer(response);
+  }
+  return response.selectedOptions.length > 0;
+}
+
+/**
+ * Decide whether an answered question is correct
+ */
+export function isResponseCorrect(
+  question: QuestionDoc,
+  response: QuestionResponse
+): boolean {
+  const correctOptions = question.correctOptions ?? [];
+
+  switch (question.type) {
+    case "mcq_single":
+      return (
+        response.selectedOptions.length === 1 &&
+        correctOptions.includes(response.selectedOptions[0])
+      );
+    case "mcq_multiple":
+    case "matrix_match": {
+      const selected = new Set(response.selectedOptions);
+      return (
+        selected.size === correctOptions.length &&
+        correctOptions.every((index) => selected.has(index))
+      );
+    }
+    case "numerical": {
+      // Older questions only carry a free-text correctAnswer
+      const spec = question.numericalAnswer ?? specFromCorrectAnswer(question.correctAnswer);
+      if (!spec) return false;
+      return isNumericalAnswerCorrect(response.numericalAnswer, spec);
+    }
+    case "integer":
+      return isIntegerAnswerCorrect(response.numericalAnswer, question);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Score an answered mcq_multiple question under a partial marking scheme
+ */
+function scorePartialMultiple(
+  question: QuestionDoc,
+  testQuestion: TestQuestion,
+  response: QuestionResponse,
+  scheme: Exclude<MarkingScheme, "all_or_nothing">
+): { outcome: QuestionOutcome; awardedMarks: number } {
+  const correctOptions = new Set(question.correctOptions ?? []);
+  const selected = new Set(response.selectedOptions);
+
+  // Any wrong option forfeits the question
+  for (const index of selected) {
+    if (!correctOptions.has(index)) {
+      return { outcome: "incorrect", awardedMarks: -testQuestion.negativeMarks };
+    }
+  }
+
+  if (selected.size === correctOptions.size) {
+    return { outcome: "correct", awardedMarks: testQuestion.marks };
+  }
+
+  const awardedMarks =
+    scheme === "proportional"
+      ? Math.round((testQuestion.marks * selected.size * 100) / correctOptions.size) / 100
+      : Math.min(selected.size, testQuestion.marks);
+  return { outcome: "partial", awardedMarks };
+}
+
+/**
+ * Score an answered matrix_match question: the marks are split evenly across the
+ * List-I rows and each row matched exactly earns its share. No row right is a wrong answer.
+ */
+function scoreMatrixMatch(
+  question: QuestionDoc,
+  testQuestion: TestQuestion,
+  response: QuestionResponse
+): { outcome: QuestionOutcome; awardedMarks: number } {
+  const rowCount = question.matrixRows?.length ?? 0;
+  const correctRows = countCorrectMatrixRows(question, response.selectedOptions);
+
+  if (rowCount > 0 && correctRows === rowCount && isResponseCorrect(question, response)) {
+    return { outcome: "correct", awardedMarks: testQuestion.marks };
+  }
+  if (correctRows === 0) {
+    return { outcome: "incorrect", awardedMarks: -testQuestion.negativeMarks };
+  }
+
+  const awardedMarks = Math.round((testQuestion.marks * correctRows * 100) / rowCount) / 100;
+  return { outcome: "partial", awardedMarks };
+}
+
+/**
+ * Score an answered subjective question from its grade. Ungraded answers score
+ * nothing yet and are flagged, so the attempt can be re-scored once they are marked.
+ */
+function scoreSubjective(
+  question: QuestionDoc,
+  testQuestion: TestQuestion,
+  grade: Pick<SubjectiveGrade, "criterionMarks"> | undefined
+): { outcome: QuestionOutcome; awardedMarks: number; pendingGrading?: boolean } {
+  if (!grade) {
+    return { outcome: "unattempted", awardedMarks: 0, pendingGrading: true };
+  }
+
+  const awardedMarks = getGradedMarks(question, testQuestion.marks, grade.criterionMarks);
+  if (awardedMarks >= testQuestion.marks) {
+    return { outcome: "correct", awardedMarks: testQuestion.marks };
+  }
+  return { outcome: awardedMarks > 0 ? "partial" : "incorrect", awardedMarks };
+}
+
+/**
+ * Score one question of a test using the marks configured on the test
+ * @param grade - Grader's marks (subjective questions only)
+ */
+export function scoreQuestion(
+  question: QuestionDoc,
+  testQuestion: TestQuestion,
+  response: QuestionResponse | undefined,
+  grade?: Pick<SubjectiveGrade, "criterionMarks">
+): { outcome: QuestionOutcome; awardedMarks: number; pendingGrading?: boolean } {
+  if (!response || !hasResponse(question, response)) {
+    return { outcome: "unattempted", awardedMarks: 0 };
+  }
+
+  if (question.type === "subjective") {
+    return scoreSubjective(question, testQuestion, grade);
+  }
+
+  const scheme = testQuestion.markingScheme ?? "all_or_nothing";
+  if (question.type === "mcq_multiple" && scheme !== "all_or_nothing") {
+    return scorePartialMultiple(question, testQuestion, response, scheme);
+  }
+  if (question.type === "matrix_match") {
+    return scoreMatrixMatch(question, testQuestion, response);
+  }
+
+  if (isResponseCorrect(question, response)) {
+    return { outcome: "correct", awardedMarks: testQuestion.marks };
+  }
+
+  return { outcome: "incorrect", awardedMarks: -testQuestion.negativeMarks };
+}
+
+/**
+ * Questions left out of scoring by "attempt any N" section rules.
+ * In each limited section the first N answered questions (in paper order) count.
+ * If fewer than N were answered, the remaining slots go to unanswered questions so
+ * the maximum score still reflects N questions; every other question is left out.
+ */
+export function questionsBeyondAttemptLimit(
+  testQuestions: TestQuestion[],
+  questions: Map<string, QuestionDoc>,
+  responses: Record<string, QuestionResponse>,
+  sections: TestSection[] | undefined
+): Set<string> {
+  const beyond = new Set<string>();
+  const limitedSections = (sections ?? []).filter((s) => !!s.attemptLimit);
+  if (limitedSections.length === 0) return beyond;
+
+  const ordered = sortQuestionsBySection(testQuestions, sections, (tq) => tq);
+
+  for (const section of limitedSections) {
+    const limit = section.attemptLimit!;
+    // Dropped questions do not take up any of the section's N slots
+    const inSection = ordered.filter(
+      (tq) =>
+        tq.sectionId === section.id &&
+        tq.resolution !== "dropped" &&
+        questions.has(tq.questionId)
+    );
+    const answered = new Set(
+      inSection
+        .filter((tq) => hasResponse(questions.get(tq.questionId)!, responses[tq.questionId]))
+        .map((tq) => tq.questionId)
+    );
+
+    let countedAnswers = 0;
+    let openSlots = Math.max(0, limit - answered.size);
+    for (const tq of inSection) {
+      if (answered.has(tq.questionId)) {
+        if (countedAnswers < limit) {
+          countedAnswers++;
+          continue;
+        }
+      } else if (openSlots > 0) {
+        openSlots--;
+        continue;
+      }
+      beyond.add(tq.questionId);
+    }
+  }
+
+  return beyond;
+}
+
+/**
+ * Find or create a breakdown entry for a subject / chapter / topic key
+ */
+function breakdownEntry(
+  entries: Map<string, ScoreBreakdown>,
+  subject: string,
+  chapter: string | null,
+  topic: string | null
+): ScoreBreakdown {
+  const key = [subject, chapter ?? "", topic ?? ""].join("\u0000");
+  let entry = entries.get(key);
+  if (!entry) {
+    entry = {
+      subject,
+      chapter,
+      topic,
+      score: 0,
+      maxScore: 0,
+      correct: 0,
+      partial: 0,
+      incorrect: 0,
+      unattempted: 0,
+    };
+    entries.set(key, entry);
+  }
+  return entry;
+}
+
+/**
+ * Add a question result to a breakdown entry
+ */
+function accumulate(entry: ScoreBreakdown, result: QuestionResult): void {
+  entry.score += result.awardedMarks;
+  entry.maxScore += result.maxMarks;
+  entry[result.outcome] += 1;
+}
+
+/**
+ * Score a whole attempt
+ * @param testQuestions - Questions of the test with their marking
+ * @param questions - Question documents keyed by questionId
+ * @param responses - Student responses keyed by questionId
+ * @param sections - Sections of the test (for "attempt any N" rules)
+ * @param grades - Grades of subjective answers keyed by questionId
+ */
+export function scoreAttempt(
+  testQuestions: TestQuestion[],
+  questions: Map<string, QuestionDoc>,
+  responses: Record<string, QuestionResponse>,
+  sections?: TestSection[],
+  grades?: Record<string, Pick<SubjectiveGrade, "criterionMarks">>
+): ComputedAttemptResult {
+  const questionResults: Record<string, QuestionResult> = {};
+  const subjects = new Map<string, ScoreBreakdown>();
+  const chapters = new Map<string, ScoreBreakdown>();
+  const topics = new Map<string, ScoreBreakdown>();
+
+  const beyondLimit = questionsBeyondAttemptLimit(testQuestions, questions, responses, sections);
+
+  let totalScore = 0;
+  let maxScore = 0;
+  let correctCount = 0;
+  let partialCount = 0;
+  let incorrectCount = 0;
+  let unattemptedCount = 0;
+  let pendingGradingCount = 0;
+
+  for (const testQuestion of testQuestions) {
+    const question = questions.get(testQuestion.questionId);
+    if (!question) {
+      // Question was deleted from the bank - it cannot be scored
+      console.warn("[Scoring] Skipping missing question:", testQuestion.questionId);
+      continue;
+    }
+
+    const response = responses[testQuestion.questionId];
+    const isBeyondLimit = beyondLimit.has(testQuestion.questionId);
+    const isExcluded = isBeyondLimit || testQuestion.resolution === "dropped";
+    const { outcome, awardedMarks: scoredMarks, pendingGrading } = isExcluded
+      ? { outcome: "unattempted" as const, awardedMarks: 0, pendingGrading: undefined }
+      : scoreQuestion(question, testQuestion, response, grades?.[testQuestion.questionId]);
+    // Bonus questions keep their real outcome (for review and analytics) but award full marks
+    const awardedMarks =
+      !isExcluded && testQuestion.resolution === "bonus" ? testQuestion.marks : scoredMarks;
+
+    const result: QuestionResult = {
+      outcome,
+      awardedMarks,
+      maxMarks: isExcluded ? 0 : testQuestion.marks,
+      subject: question.subject,
+      chapter: question.chapter || null,
+      topic: question.topic,
+      subtopic: question.subtopic || null,
+      timeSpentSeconds: response?.timeSpentSeconds ?? 0,
+      ...(isBeyondLimit && { beyondAttemptLimit: true }),
+      ...(testQuestion.resolution && { resolution: testQuestion.resolution }),
+      ...(pendingGrading && { pendingGrading: true }),
+    };
+    questionResults[testQuestion.questionId] = result;
+
+    totalScore += awardedMarks;
+    maxScore += result.maxMarks;
+    if (outcome === "correct") correctCount++;
+    else if (outcome === "partial") partialCount++;
+    else if (outcome === "incorrect") incorrectCount++;
+    else unattemptedCount++;
+    if (pendingGrading) pendingGradingCount++;
+
+    accumulate(breakdownEntry(subjects, result.subject, null, null), result);
+    accumulate(breakdownEntry(chapters, result.subject, result.chapter, null), result);
+    accumulate(breakdownEntry(topics, result.subject, result.chapter, result.topic), result);
+  }
+
+  // Partially correct answers count as attempted but not as correct
+  const attempted = correctCount + partialCount + incorrectCount;
+  const accuracy = attempted > 0 ? Math.round((correctCount / attempted) * 10000) / 100 : 0;
+
+  return {
+    totalScore,
+    maxScore,
+    correctCount,
+    partialCount,
+    incorrectCount,
+    unattemptedCount,
+    pendingGradingCount,
+    accuracy,
+    questionResults,
+    subjectBreakdown: Array.from(subjects.values()),
+    chapterBreakdown: Array.from(chapters.values()),
+    topicBreakdown: Array.from(topics.values()),
+  };
+}
@@ -0,0 +1,183 @@
+// lib/utils/sections.ts
+import type { TestQuestion, TestSection } from "@/lib/types/test";
+
+/**
+ * A contiguous run of questions belonging to one section
+ */
+export interface SectionRange {
+  section: TestSection | null; // null for questions outside any section
+  startIndex: number;          // inclusive
+  endIndex: number;            // exclusive
+}
+
+/**
+ * Time window of a timed section, relative to the attempt start
+ */
+export interface SectionWindow {
+  sectionId: string;
+  startsAtMs: number;
+  endsAtMs: number;
+}
+
+/**
+ * Generate an id for a new section
+ */
+export function generateSectionId(): string {
+  return `sec_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+/**
+ * Whether the test uses sectional timing (every section has a time limit)
+ */
+export function hasSectionalTiming(sections: TestSection[] | undefined): boolean {
+  return (
+    !!sections &&
+    sections.length > 0 &&
+    sections.every((section) => section.timeLimitMinutes !== null && section.timeLimitMinutes > 0)
+  );
+}
+
+/**
+ * Sort test questions section by section (in section order), then by `order`.
+ * Questions without a known section come last.
+ */
+export function sortQuestionsBySection<T>(
+  items: T[],
+  sections: TestSection[] | undefined,
+  getTestQuestion: (item: T) => TestQuestion
+): T[] {
+  const sectionIndex = new Map((sections ?? []).map((section, index) => [section.id, index]));
+  const rank = (item: T) => {
+    const sectionId = getTestQuestion(item).sectionId;
+    return sectionId !== undefined && sectionIndex.has(sectionId)
+      ? sectionIndex.get(sectionId)!
+      : Number.MAX_SAFE_INTEGER;
+  };
+
+  return [...items].sort(
+    (a, b) => rank(a) - rank(b) || getTestQuestion(a).order - getTestQuestion(b).order
+  );
+}
+
+/**
+ * Split questions already sorted by sortQuestionsBySection into section ranges.
+ * Sections without questions are skipped.
+ */
+export function getSectionRanges<T>(
+  items: T[],
+  sections: TestSection[] | undefined,
+  getTestQuestion: (item: T) => TestQuestion
+): SectionRange[] {
+  if (!sections || sections.length === 0) {
+    return items.length > 0 ? [{ section: null, startIndex: 0, endIndex: items.length }] : [];
+  }
+
+  const sectionsById = new Map(sections.map((section) => [section.id, section]));
+  const ranges: SectionRange[] = [];
+
+  items.forEach((item, index) => {
+    const sectionId = getTestQuestion(item).sectionId;
+    const section = (sectionId && sectionsById.get(sectionId)) || null;
+    const last = ranges[ranges.length - 1];
+    if (last && last.section?.id === section?.id) {
+      last.endIndex = index + 1;
+    } else {
+      ranges.push({ section, startIndex: index, endIndex: index + 1 });
+    }
+  });
+
+  return ranges;
+}
+
+/**
+ * Back-to-back windows of timed sections starting at the attempt start
+ */
+export function getSectionSchedule(
+  sections: TestSection[],
+  startedAtMs: number
+): SectionWindow[] {
+  let cursor = startedAtMs;
+  return sections.map((section) => {
+    const startsAtMs = cursor;
+    cursor += (section.timeLimitMinutes ?? 0) * 60 * 1000;
+    return { sectionId: section.id, startsAtMs, endsAtMs: cursor };
+  });
+}
+
+/**
+ * Index of the timed section open at a given time (the last one once all have ended)
+ */
+export function getActiveSectionIndex(schedule: SectionWindow[], nowMs: number): number {
+  const index = schedule.findIndex((window) => nowMs < window.endsAtMs);
+  return index === -1 ? schedule.length - 1 : index;
+}
+
+/**
+ * Section as edited in the admin test builder (numbers kept as text)
+ */
+export interface TestSectionDraft {
+  id: string;
+  name: string;
+  instructions: string;
+  timeLimit: string; // minutes, "" for untimed
+  attemptLimit: string; // "" when every question may be answered
+}
+
+/**
+ * Validate the admin section drafts and build test sections
+ * @returns The sections, or an error message for the form
+ */
+export function buildTestSections(
+  drafts: TestSectionDraft[]
+): { sections: TestSection[]; error?: undefined } | { sections?: undefined; error: string } {
+  const sections: TestSection[] = [];
+
+  for (const [index, draft] of drafts.entries()) {
+    const name = draft.name.trim();
+    if (!name) {
+      return { error: `Section ${index + 1} needs a name.` };
+    }
+
+    let timeLimitMinutes: number | null = null;
+    if (draft.timeLimit.trim() !== "") {
+      timeLimitMinutes = Number(draft.timeLimit);
+      if (!Number.isInteger(timeLimitMinutes) || timeLimitMinutes <= 0) {
+        return { error: `Time limit for "${name}" must be a whole number of minutes.` };
+      }
+    }
+
+    let attemptLimit: number | null = null;
+    if (draft.attemptLimit.trim() !== "") {
+      attemptLimit = Number(draft.attemptLimit);
+      if (!Number.isInteger(attemptLimit) || attemptLimit <= 0) {
+        return { error: `"Attempt any" for "${name}" must be a positive whole number.` };
+      }
+    }
+
+    sections.push({
+      id: draft.id,
+      name,
+      instructions: draft.instructions.trim(),
+      timeLimitMinutes,
+      attemptLimit,
+    });
+  }
+
+  const timedCount = sections.filter((s) => s.timeLimitMinutes !== null).length;
+  if (timedCount > 0 && timedCount < sections.length) {
+    return { error: "Either every section has a time limit or none do." };
+  }
+
+  return { sections };
+}
+
+/**
+ * Human-readable "attempt any N" rule for a section, if it has one
+ */
+export function describeAttemptLimit(
+  section: TestSection | null | undefined,
+  questionCount: number
+): string | null {
+  if (!section?.attemptLimit || section.attemptLimit >= questionCount) return null;
+  return `Attempt any ${section.attemptLimit} of ${questionCount} questions`;
+}
@@ -0,0 +1,111 @@
+// lib/utils/shuffle.ts
+import type { QuestionDoc } from "@/lib/types/question";
+import type { TestDoc, TestQuestion, TestSection } from "@/lib/types/test";
+import { getSectionRanges } from "./sections";
+import { getPassageBlocks } from "./passages";
+
+/**
+ * Generate a random 32-bit seed for an attempt's shuffled order
+ */
+export function generateShuffleSeed(): number {
+  return Math.floor(Math.random() * 0x100000000);
+}
+
+/**
+ * Deterministic pseudo-random generator (mulberry32) returning floats in [0, 1)
+ */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  };
+}
+
+/**
+ * Mix a string into a seed (FNV-1a) so each question gets its own option order
+ */
+function deriveSeed(seed: number, key: string): number {
+  let hash = (0x811c9dc5 ^ seed) >>> 0;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+/**
+ * Fisher-Yates shuffle driven by a seed - the same seed always gives the same order
+ */
+export function seededShuffle<T>(items: T[], seed: number): T[] {
+  const random = seededRandom(seed);
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+/**
+ * Shuffle questions already sorted by sortQuestionsBySection.
+ * Questions only move within their own section, so sections stay in order,
+ * and a passage's questions move as one block in their original order.
+ */
+export function shuffleQuestionOrder<T>(
+  items: T[],
+  sections: TestSection[] | undefined,
+  seed: number,
+  getTestQuestion: (item: T) => TestQuestion
+): T[] {
+  return getSectionRanges(items, sections, getTestQuestion).flatMap((range) =>
+    seededShuffle(
+      getPassageBlocks(items.slice(range.startIndex, range.endIndex), getTestQuestion),
+      deriveSeed(seed, range.section?.id ?? "")
+    ).flat()
+  );
+}
+
+/**
+ * Display order of a question's options for an attempt.
+ * Entry i is the original option index shown at position i, so responses
+ * keep using original indices and match the question's correctOptions.
+ */
+export function getOptionOrder(questionId: string, optionCount: number, seed: number): number[] {
+  const indices = Array.from({ length: optionCount }, (_, index) => index);
+  return seededShuffle(indices, deriveSeed(seed, questionId));
+}
+
+/**
+ * Question order a student sees in an attempt (paper order when the test does not shuffle)
+ * @param items - Questions sorted by sortQuestionsBySection
+ * @param seed - The attempt's shuffleSeed (null for attempts started before shuffling)
+ */
+export function arrangeQuestionsForAttempt<T>(
+  items: T[],
+  test: Pick<TestDoc, "sections" | "shuffleQuestions">,
+  seed: number | null | undefined,
+  getTestQuestion: (item: T) => TestQuestion
+): T[] {
+  if (!test.shuffleQuestions || seed === null || seed === undefined) return items;
+  return shuffleQuestionOrder(items, test.sections, seed, getTestQuestion);
+}
+
+/**
+ * Option order a student sees for a question in an attempt, or null for the original order.
+ * Templated questions keep their fixed A-D order, which the option wording follows.
+ */
+export function getAttemptOptionOrder(
+  test: Pick<TestDoc, "shuffleOptions">,
+  seed: number | null | undefined,
+  question: Pick<QuestionDoc, "options" | "template"> & { id: string }
+): number[] | null {
+  if (!test.shuffleOptions || seed === null || seed === undefined || !question.options) {
+    return null;
+  }
+  if (question.template) return null;
+  return getOptionOrder(question.id, question.options.length, seed);
+}
@@ -0,0 +1,140 @@
+// lib/utils/subjective.ts
+import type { QuestionDoc, RubricCriterion } from "@/lib/types/question";
+import type { QuestionResponse } from "@/lib/types/attempt";
+
+export const MAX_ANSWER_TEXT_LENGTH = 10000;
+export const MAX_ANSWER_IMAGES = 3;
+
+type SubjectiveQuestion = Pick<QuestionDoc, "rubric">;
+
+/**
+ * Whether a subjective response has a written answer or at least one photo
+ */
+export function hasSubjectiveAnswer(response: QuestionResponse | undefined): boolean {
+  if (!response) return false;
+  return (response.answerText ?? "").trim() !== "" || (response.answerImageUrls?.length ?? 0) > 0;
+}
+
+/**
+ * Criteria a grader marks an answer against. Questions without a rubric are
+ * marked as a whole, out of the marks the test gives the question.
+ * @param marks - Marks of the question in the test
+ */
+export function getGradingCriteria(question: SubjectiveQuestion, marks: number): RubricCriterion[] {
+  if (question.rubric && question.rubric.length > 0) return question.rubric;
+  return [{ description: "Overall answer", marks }];
+}
+
+/**
+ * Marks earned for a graded answer, scaled to the marks of the question in the test
+ * (a rubric written for 5 marks still works when a test gives the question 10)
+ * @param marks - Marks of the question in the test
+ * @param criterionMarks - Marks the grader gave per criterion
+ */
+export function getGradedMarks(
+  question: SubjectiveQuestion,
+  marks: number,
+  criterionMarks: number[]
+): number {
+  const criteria = getGradingCriteria(question, marks);
+  const rubricTotal = criteria.reduce((sum, criterion) => sum + criterion.marks, 0);
+  if (rubricTotal <= 0) return 0;
+
+  const earned = criteria.reduce(
+    (sum, criterion, index) =>
+      sum + Math.min(Math.max(criterionMarks[index] ?? 0, 0), criterion.marks),
+    0
+  );
+  return Math.round((marks * earned * 100) / rubricTotal) / 100;
+}
+
+export interface RubricFieldRow {
+  description: string;
+  marks: string;
+}
+
+/**
+ * Validate the rubric rows of the admin question form
+ * @param questionMarks - Marks of the question, which the rubric must add up to
+ * @returns The rubric (empty when no rows were filled in), or an error message for the form
+ */
+export function buildRubric(
+  rows: RubricFieldRow[],
+  questionMarks: number
+): { rubric: RubricCriterion[]; error?: undefined } | { rubric?: undefined; error: string } {
+  const filled = rows.filter((row) => row.description.trim() !== "" || row.marks.trim() !== "");
+  const rubric: RubricCriterion[] = [];
+
+  for (const [index, row] of filled.entries()) {
+    const description = row.description.trim();
+    const marks = Number(row.marks);
+    if (!description) {
+      return { error: `Describe rubric criterion ${index + 1}.` };
+    }
+    if (row.marks.trim() === "" || !Number.isFinite(marks) || marks <= 0) {
+      return { error: `Rubric criterion ${index + 1} needs a positive number of marks.` };
+    }
+    rubric.push({ description, marks });
+  }
+
+  const total = rubric.reduce((sum, criterion) => sum + criterion.marks, 0);
+  if (rubric.length > 0 && Math.abs(total - questionMarks) > 1e-9) {
+    return {
+      error: `The rubric adds up to ${total} marks but the question carries ${questionMarks}.`,
+    };
+  }
+  return { rubric };
+}
+
+/**
+ * Populate the rubric rows from a stored question
+ */
+export function rubricRowsFromQuestion(question: SubjectiveQuestion): RubricFieldRow[] {
+  return (question.rubric ?? []).map((criterion) => ({
+    description: criterion.description,
+    marks: String(criterion.marks),
+  }));
+}
+
+/**
+ * Folder for photos of a student's handwritten answers in one attempt
+ */
+export function buildAnswerImageFolderPath(userId: string, attemptId: string): string {
+  return `answers/${userId}/${attemptId}`;
+}
+
+/**
+ * Whether a URL is a Firebase Storage download URL of a photo in the attempt's answer folder.
+ * Anything else (other hosts, buckets or folders) must not reach the grader's screen.
+ * @param bucket - Storage bucket of the project, e.g. "my-app.appspot.com"
+ */
+export function isAnswerImageUrl(
+  url: string,
+  bucket: string,
+  userId: string,
+  attemptId: string
+): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+  if (parsed.protocol !== "https:" || parsed.hostname !== "firebasestorage.googleapis.com") {
+    return false;
+  }
+
+  // Download URLs look like /v0/b/{bucket}/o/{url-encoded object path}
+  const prefix = `/v0/b/${bucket}/o/`;
+  if (!parsed.pathname.startsWith(prefix)) return false;
+  let objectPath: string;
+  try {
+    objectPath = decodeURIComponent(parsed.pathname.slice(prefix.length));
+  } catch {
+    return false;
+  }
+
+  const folder = `${buildAnswerImageFolderPath(userId, attemptId)}/`;
+  const fileName = objectPath.slice(folder.length);
+  return objectPath.startsWith(folder) && fileName !== "" && !fileName.includes("/");
+}
@@ -0,0 +1,103 @@
+// lib/utils/timeAnalysis.ts
+import type { QuestionResult } from "@/lib/types/attempt";
+import type { TestDoc } from "@/lib/types/test";
+
+/**
+ * Time vs. correctness quadrant of an attempted question
+ */
+export type TimeQuadrant = "quick_correct" | "slow_correct" | "quick_wrong" | "slow_wrong";
+
+export const TIME_QUADRANTS: { value: TimeQuadrant; label: string; description: string }[] = [
+  { value: "quick_correct", label: "Quick & Correct", description: "Your strengths" },
+  { value: "slow_correct", label: "Slow & Correct", description: "Practise for speed" },
+  { value: "quick_wrong", label: "Quick & Wrong", description: "Read more carefully" },
+  { value: "slow_wrong", label: "Slow & Wrong", description: "Revise the concept" },
+];
+
+/**
+ * A question on which the student spent much more time than expected
+ */
+export interface OverspentQuestion {
+  questionId: string;
+  timeSpentSeconds: number;
+  referenceSeconds: number;       // topper average, or the paper's time budget per question
+  excessSeconds: number;
+}
+
+// Spending this many times the reference time counts as over-spending
+const OVERSPEND_FACTOR = 2;
+
+/**
+ * Time the paper allows per question on average (duration / question count)
+ */
+export function getTimeBudgetSeconds(test: Pick<TestDoc, "durationMinutes" | "questions">): number {
+  if (test.questions.length === 0) return 0;
+  return Math.round((test.durationMinutes * 60) / test.questions.length);
+}
+
+/**
+ * Time a question is expected to take - the toppers' average when known, else the budget
+ * (toppers who skipped a question have no meaningful time on it)
+ */
+function referenceSeconds(
+  questionId: string,
+  budgetSeconds: number,
+  topperAverageSeconds: Record<string, number> | null
+): number {
+  const topperSeconds = topperAverageSeconds?.[questionId];
+  return topperSeconds && topperSeconds > 0 ? topperSeconds : budgetSeconds;
+}
+
+/**
+ * Place each attempted question in a time vs. correctness quadrant.
+ * Partially correct answers count as wrong; unattempted questions are left out.
+ * @returns questionIds grouped by quadrant
+ */
+export function getTimeQuadrants(
+  questionResults: Record<string, QuestionResult>,
+  budgetSeconds: number,
+  topperAverageSeconds: Record<string, number> | null
+): Record<TimeQuadrant, string[]> {
+  const quadrants: Record<TimeQuadrant, string[]> = {
+    quick_correct: [],
+    slow_correct: [],
+    quick_wrong: [],
+    slow_wrong: [],
+  };
+
+  Object.entries(questionResults).forEach(([questionId, result]) => {
+    if (result.outcome === "unattempted") return;
+    const slow =
+      result.timeSpentSeconds > referenceSeconds(questionId, budgetSeconds, topperAverageSeconds);
+    const correct = result.outcome === "correct";
+    quadrants[`${slow ? "slow" : "quick"}_${correct ? "correct" : "wrong"}`].push(questionId);
+  });
+
+  return quadrants;
+}
+
+/**
+ * Questions where the student spent well over the expected time, biggest excess first
+ */
+export function getOverspentQuestions(
+  questionResults: Record<string, QuestionResult>,
+  budgetSeconds: number,
+  topperAverageSeconds: Record<string, number> | null
+): OverspentQuestion[] {
+  return Object.entries(questionResults)
+    .map(([questionId, result]) => {
+      const reference = referenceSeconds(questionId, budgetSeconds, topperAverageSeconds);
+      return {
+        questionId,
+        timeSpentSeconds: result.timeSpentSeconds,
+        referenceSeconds: reference,
+        excessSeconds: result.timeSpentSeconds - reference,
+      };
+    })
+    .filter(
+      (entry) =>
+        entry.referenceSeconds > 0 &&
+        entry.timeSpentSeconds >= entry.referenceSeconds * OVERSPEND_FACTOR
+    )
+    .sort((a, b) => b.excessSeconds - a.excessSeconds);
+}
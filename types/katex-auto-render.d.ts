@@ -0,0 +1,17 @@
+// types/katex-auto-render.d.ts
+// katex ships no typings for its auto-render extension
+declare module "katex/contrib/auto-render" {
+  import type { KatexOptions } from "katex";
+
+  export interface RenderMathInElementOptions extends KatexOptions {
+    delimiters?: { left: string; right: string; display: boolean }[];
+    ignoredTags?: string[];
+    ignoredClasses?: string[];
+    errorCallback?: (msg: string, err: Error) => void;
+  }
+
+  export default function renderMathInElement(
+    element: HTMLElement,
+    options?: RenderMathInElementOptions
+  ): void;
+}